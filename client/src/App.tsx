@@ -19,6 +19,11 @@ const MyDecksPage = lazy(() => import("./pages/my-decks"));
 const PublicDecksPage = lazy(() => import("./pages/public-decks"));
 const DeckViewPage = lazy(() => import("./pages/deck-view"));
 const ResetPasswordPage = lazy(() => import("./pages/reset-password"));
+const SetsPage = lazy(() => import("./pages/sets"));
+const SetDetailPage = lazy(() => import("./pages/set-detail"));
+const RulesPage = lazy(() => import("./pages/rules"));
+const GlossaryPage = lazy(() => import("./pages/glossary"));
+const RulesChangesPage = lazy(() => import("./pages/rules-changes"));
 
 function Router() {
   return (
@@ -49,6 +54,31 @@ function Router() {
           <DeckViewPage />
         </Suspense>
       </Route>
+      <Route path="/sets">
+        <Suspense fallback={<div className="container mx-auto py-8 text-center">Loading sets...</div>}>
+          <SetsPage />
+        </Suspense>
+      </Route>
+      <Route path="/sets/:code">
+        <Suspense fallback={<div className="container mx-auto py-8 text-center">Loading set...</div>}>
+          <SetDetailPage />
+        </Suspense>
+      </Route>
+      <Route path="/rules/changes">
+        <Suspense fallback={<div className="container mx-auto py-8 text-center">Loading rules changes...</div>}>
+          <RulesChangesPage />
+        </Suspense>
+      </Route>
+      <Route path="/rules/:ruleNumber?">
+        <Suspense fallback={<div className="container mx-auto py-8 text-center">Loading rules...</div>}>
+          <RulesPage />
+        </Suspense>
+      </Route>
+      <Route path="/glossary/:term?">
+        <Suspense fallback={<div className="container mx-auto py-8 text-center">Loading glossary...</div>}>
+          <GlossaryPage />
+        </Suspense>
+      </Route>
       <Route path="/reset-password">
         <Suspense fallback={<div className="container mx-auto py-8 text-center">Loading reset password page...</div>}>
           <ResetPasswordPage />
@@ -41,6 +41,7 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
       
       if (response.ok) {
         localStorage.setItem('adminAuthenticated', 'true');
+        localStorage.setItem('adminToken', data.token);
         toast({
           title: "Login Successful",
           description: "Welcome to the admin panel",
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getLegalityFormats } from "@shared/formats";
+
+type BanlistEntry = {
+  id: number;
+  format: string;
+  oracleId: string;
+  cardName: string;
+  status: 'banned' | 'restricted' | 'legal';
+  effectiveDate: string | null;
+  source: 'admin' | 'mtgjson';
+  note: string | null;
+};
+
+type EntryForm = {
+  cardName: string;
+  status: BanlistEntry['status'];
+  effectiveDate: string;
+  note: string;
+};
+
+const EMPTY_FORM: EntryForm = { cardName: "", status: "banned", effectiveDate: "", note: "" };
+
+// The server's message from an apiRequest error ("400: {json}")
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(message.slice(message.indexOf(":") + 1)).message ?? message;
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Admin editor for the banned and restricted list of one format
+ */
+export default function BanlistManager() {
+  const [format, setFormat] = useState("modern");
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { toast } = useToast();
+
+  const entriesUrl = `/api/admin/banlist?format=${encodeURIComponent(format)}`;
+  const { data: entries = [], isLoading } = useQuery<BanlistEntry[]>({ queryKey: [entriesUrl] });
+
+  const refreshEntries = () => queryClient.invalidateQueries({ queryKey: [entriesUrl] });
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (entry: BanlistEntry) => {
+    setEditingId(entry.id);
+    setForm({
+      cardName: entry.cardName,
+      status: entry.status,
+      effectiveDate: entry.effectiveDate ?? "",
+      note: entry.note ?? "",
+    });
+  };
+
+  const saveEntry = async () => {
+    setIsSaving(true);
+    try {
+      const body = {
+        format,
+        cardName: form.cardName,
+        status: form.status,
+        effectiveDate: form.effectiveDate || null,
+        note: form.note || null,
+      };
+      if (editingId === null) {
+        await apiRequest("POST", "/api/admin/banlist", body);
+      } else {
+        await apiRequest("PUT", `/api/admin/banlist/${editingId}`, body);
+      }
+      toast({
+        title: editingId === null ? "Entry Added" : "Entry Updated",
+        description: `${form.cardName} is ${form.status} in ${format}${form.effectiveDate ? ` from ${form.effectiveDate}` : ""}`,
+      });
+      resetForm();
+      refreshEntries();
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteEntry = async (entry: BanlistEntry) => {
+    if (!confirm(`Delete the ${entry.status} entry for ${entry.cardName}?`)) {
+      return;
+    }
+    try {
+      await apiRequest("DELETE", `/api/admin/banlist/${entry.id}`);
+      if (editingId === entry.id) resetForm();
+      refreshEntries();
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  const syncFromMtgjson = async () => {
+    setIsSyncing(true);
+    try {
+      const response = await apiRequest("POST", "/api/admin/banlist/sync");
+      const data = await response.json();
+      toast({
+        title: "Banlist Synced",
+        description: `Added ${data.added} entries from MTGJSON legalities`,
+      });
+      refreshEntries();
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div className="space-y-1">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(value) => { setFormat(value); resetForm(); }}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getLegalityFormats().map((option) => (
+                <SelectItem key={option.id} value={option.legalityKey}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={syncFromMtgjson} disabled={isSyncing}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+          Sync from MTGJSON
+        </Button>
+      </div>
+
+      {/* Add or edit an entry */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end rounded-md border p-3">
+        <div className="space-y-1 md:col-span-2">
+          <Label htmlFor="banlist-card">Card</Label>
+          <Input
+            id="banlist-card"
+            placeholder="Exact card name"
+            value={form.cardName}
+            onChange={(e) => setForm({ ...form, cardName: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as EntryForm['status'] })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="banned">Banned</SelectItem>
+              <SelectItem value="restricted">Restricted</SelectItem>
+              <SelectItem value="legal">Legal (unbanned)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="banlist-date">Effective date</Label>
+          <Input
+            id="banlist-date"
+            type="date"
+            value={form.effectiveDate}
+            onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="banlist-note">Note</Label>
+          <Input
+            id="banlist-note"
+            placeholder="Announcement"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+          />
+        </div>
+        <div className="flex gap-2 md:col-span-5 justify-end">
+          {editingId !== null && (
+            <Button variant="ghost" onClick={resetForm}>
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+          <Button onClick={saveEntry} disabled={isSaving || form.cardName.trim() === ""}>
+            {isSaving ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            {editingId === null ? "Add Entry" : "Save Entry"}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading banlist...</p>
+      ) : entries.length > 0 ? (
+        <div className="max-h-96 overflow-y-auto rounded-md border divide-y text-sm">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex flex-wrap items-center gap-2 p-2">
+              <Badge variant={entry.status === 'banned' ? 'destructive' : 'outline'} className="capitalize">
+                {entry.status}
+              </Badge>
+              <span className="font-medium">{entry.cardName}</span>
+              <span className="text-xs text-muted-foreground">
+                {entry.effectiveDate ? `from ${entry.effectiveDate}` : "date unknown"}
+              </span>
+              <Badge variant="secondary" className="text-xs">{entry.source === 'mtgjson' ? 'MTGJSON' : 'Admin'}</Badge>
+              {entry.note && <span className="text-xs text-muted-foreground">{entry.note}</span>}
+              <div className="ml-auto flex gap-1">
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEditing(entry)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteEntry(entry)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No banlist entries for this format.</p>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ManaCost } from "./ui/mana-symbol";
 import { CardText } from "./ui/card-text";
 import { RarityBadge } from "./ui/rarity-badge";
+import CardHistoryTimeline from "./card-history-timeline";
 import { calculateManaCostInfo, formatManaCostDisplay } from "@/utils/mana-cost";
 
 interface CardDetailsPanelProps {
@@ -101,6 +102,7 @@ export default function CardDetailsPanel({ card }: CardDetailsPanelProps) {
                 <TabsTrigger value="rulings">Official Rulings</TabsTrigger>
                 <TabsTrigger value="printings">Printings</TabsTrigger>
                 <TabsTrigger value="legality">Legality</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
               </TabsList>
               
               <TabsContent value="rulings" className="mt-4 space-y-3 max-h-48 overflow-y-auto scrollbar-thin">
@@ -121,7 +123,22 @@ export default function CardDetailsPanel({ card }: CardDetailsPanelProps) {
               </TabsContent>
               
               <TabsContent value="printings" className="mt-4">
-                {card.printings && card.printings.length > 0 ? (
+                {card.prints && card.prints.length > 0 ? (
+                  <div className="space-y-2 max-h-48 overflow-y-auto scrollbar-thin">
+                    {card.prints.map((print) => (
+                      <div key={print.id} className="p-2 bg-[#f9fafb] dark:bg-gray-800 rounded-lg text-sm flex justify-between gap-2">
+                        <span>
+                          <span className="font-medium">{print.set}</span>
+                          {print.number && <span className="text-[#666666] dark:text-[#AAAAAA]"> #{print.number}</span>}
+                          {print.setName && <span className="text-[#666666] dark:text-[#AAAAAA]"> · {print.setName}</span>}
+                        </span>
+                        <span className="text-[#666666] dark:text-[#AAAAAA] text-right">
+                          {[print.rarity, print.artist].filter(Boolean).join(' · ')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : card.printings && card.printings.length > 0 ? (
                   <div className="grid grid-cols-2 gap-2">
                     {card.printings.map((printing, index) => (
                       <div key={index} className="p-2 bg-[#f9fafb] dark:bg-gray-800 rounded-lg text-sm">
@@ -154,6 +171,10 @@ export default function CardDetailsPanel({ card }: CardDetailsPanelProps) {
                   </div>
                 )}
               </TabsContent>
+              
+              <TabsContent value="history" className="mt-4 max-h-64 overflow-y-auto scrollbar-thin">
+                {activeTab === "history" && <CardHistoryTimeline cardId={card.oracleId || card.id} />}
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { CardHistory, CardHistoryEntry } from "@/types/card";
+import { CardText } from "./ui/card-text";
+
+interface CardHistoryTimelineProps {
+  cardId: string;
+}
+
+function describeEntry(entry: CardHistoryEntry): string {
+  if (entry.field === 'legality') {
+    return `${entry.format}: ${entry.previousValue ?? 'Not legal'} → ${entry.newValue ?? 'Not legal'}`;
+  }
+  return entry.field === 'text' ? 'Oracle text changed' : 'Type line changed';
+}
+
+/**
+ * Errata and legality changes of a card, newest first
+ */
+export default function CardHistoryTimeline({ cardId }: CardHistoryTimelineProps) {
+  const { data, isLoading, error } = useQuery<CardHistory>({
+    queryKey: [`/api/cards/${encodeURIComponent(cardId)}/history`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-[#666666] dark:text-[#AAAAAA]">Loading history...</p>;
+  }
+
+  if (error || !data || data.history.length === 0) {
+    return (
+      <div className="p-3 bg-[#f9fafb] dark:bg-gray-800 rounded-lg">
+        <p className="text-sm">No errata or legality changes recorded for this card.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {data.history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <div className="absolute w-2 h-2 bg-[#4777e6] rounded-full -left-1 mt-1.5" />
+          <div className="text-xs text-[#666666] dark:text-[#AAAAAA]">
+            {new Date(entry.changedAt).toLocaleDateString()}
+            {entry.sourceVersion && ` · MTGJSON ${entry.sourceVersion}`}
+          </div>
+          <div className={`text-sm font-medium ${entry.field === 'legality' && entry.newValue === 'Banned' ? 'text-red-600 dark:text-red-400' : ''}`}>
+            {describeEntry(entry)}
+          </div>
+          {entry.field !== 'legality' && (
+            <div className="mt-1 space-y-1 text-sm">
+              <div className="p-2 bg-red-50 dark:bg-red-950/30 rounded line-through decoration-red-400/60">
+                <CardText text={entry.previousValue || ""} />
+              </div>
+              <div className="p-2 bg-green-50 dark:bg-green-950/30 rounded">
+                <CardText text={entry.newValue || ""} />
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
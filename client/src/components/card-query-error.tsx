@@ -0,0 +1,27 @@
+import { CardQuerySyntaxError } from "@/lib/card-query";
+
+interface CardQueryErrorProps {
+  query: string;
+  error: CardQuerySyntaxError;
+}
+
+/**
+ * Shows a query syntax error with a caret under the offending token
+ */
+export default function CardQueryError({ query, error }: CardQueryErrorProps) {
+  const underline = Math.max(error.token.length, 1);
+
+  return (
+    <div className="rounded-md border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/40 p-3 text-sm">
+      <p className="text-red-700 dark:text-red-300 font-medium">{error.message}</p>
+      <pre className="mt-2 font-mono text-xs text-gray-700 dark:text-gray-300 overflow-x-auto">
+        {query}
+        {"\n"}
+        <span className="text-red-600 dark:text-red-400">
+          {" ".repeat(error.position)}
+          {"^".repeat(underline)}
+        </span>
+      </pre>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/types/card";
 import { CardItem } from "./ui/card-display";
 import { Input } from "@/components/ui/input";
-import { apiRequest } from "@/lib/queryClient";
+import { searchCardsByQuery, CardQuerySyntaxError } from "@/lib/card-query";
+import CardQueryError from "./card-query-error";
 
 interface CardSearchPanelProps {
   onSelectCard: (card: Card) => void;
@@ -32,7 +33,7 @@ export default function CardSearchPanel({ onSelectCard, selectedCard }: CardSear
   }, [searchQuery]);
   
   // API call for card data
-  const { data: cards = [], isLoading } = useQuery<Card[]>({
+  const { data: cards = [], isLoading, error } = useQuery<Card[]>({
     queryKey: ['/api/cards', debouncedQuery],
     queryFn: async () => {
       // If no query, return empty array
@@ -40,15 +41,14 @@ export default function CardSearchPanel({ onSelectCard, selectedCard }: CardSear
         return [];
       }
       
-      const params = new URLSearchParams();
-      params.append('query', debouncedQuery);
-      
-      const url = `/api/cards?${params.toString()}`;
-      const response = await apiRequest('GET', url);
-      return response.json();
+      // Plain names still work; keywords like t:, o:, c>=, cmc<= narrow the search
+      return searchCardsByQuery(debouncedQuery);
     },
     enabled: debouncedQuery.trim().length > 0,
+    retry: (failureCount, err) => !(err instanceof CardQuerySyntaxError) && failureCount < 3,
   });
+  
+  const syntaxError = error instanceof CardQuerySyntaxError ? error : null;
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
@@ -61,7 +61,7 @@ export default function CardSearchPanel({ onSelectCard, selectedCard }: CardSear
         <div className="relative">
           <Input 
             type="text" 
-            placeholder="Search cards by name, text, type..."
+            placeholder='Search cards, e.g. t:creature o:"draw a card" c>=ur cmc<=3'
             className="w-full pl-10 pr-4 py-3 text-lg"
             value={searchQuery}
             onChange={handleSearchChange}
@@ -74,6 +74,12 @@ export default function CardSearchPanel({ onSelectCard, selectedCard }: CardSear
           </span>
         </div>
         
+        {syntaxError && (
+          <div className="mt-4">
+            <CardQueryError query={debouncedQuery} error={syntaxError} />
+          </div>
+        )}
+        
         <div className="mt-4 flex justify-end items-center">
           <div>
             <span className="text-sm text-[#666666] dark:text-[#AAAAAA]">
@@ -109,7 +115,9 @@ export default function CardSearchPanel({ onSelectCard, selectedCard }: CardSear
           ) : (
             <div className="flex justify-center items-center h-32">
               <p className="text-gray-500 dark:text-gray-400">
-                {searchQuery ? "No cards found. Try a different search term." : "Type in the search box to find cards."}
+                {syntaxError
+                  ? "Fix the search syntax above to see results."
+                  : searchQuery ? "No cards found. Try a different search term." : "Type in the search box to find cards."}
               </p>
             </div>
           )}
@@ -0,0 +1,139 @@
+import React from "react";
+import { Link } from "wouter";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { CardText } from "@/components/ui/card-text";
+import { AlertTriangle } from "lucide-react";
+import { RulingCitation } from "@/types/conversation";
+
+interface CitedAnswerProps {
+  content: string;
+  citations: RulingCitation[];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Pattern for a citation as written; a bare section number mustn't match the start of a rule number
+function citationPattern(citation: RulingCitation) {
+  const reference = escapeRegExp(citation.reference);
+  return citation.type === "rule" && /^\d{3}$/.test(citation.reference)
+    ? `\\b${reference}\\b(?!\\.\\d)`
+    : `\\b${reference}\\b`;
+}
+
+function CitationLink({ citation, children }: { citation: RulingCitation; children: React.ReactNode }) {
+  const linkClass = citation.verified
+    ? "text-blue-600 dark:text-blue-400 underline decoration-dotted underline-offset-2 cursor-help"
+    : "text-red-600 dark:text-red-400 underline decoration-wavy underline-offset-2 cursor-help";
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        {citation.verified && citation.type === "rule" ? (
+          // Verified rules open in the rules reader
+          <Link href={`/rules/${citation.reference}`} className={linkClass.replace("cursor-help", "cursor-pointer")}>{children}</Link>
+        ) : (
+          <span className={linkClass} tabIndex={0}>{children}</span>
+        )}
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 text-xs">
+        {!citation.verified ? (
+          <div className="flex gap-2 text-red-700 dark:text-red-300">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <p>
+              {citation.type === "rule"
+                ? `Rule ${citation.reference} isn't in the Comprehensive Rules.`
+                : `No card named "${citation.reference}" was found.`}
+              {" "}Treat this part of the answer with caution.
+            </p>
+          </div>
+        ) : citation.type === "rule" ? (
+          <div className="space-y-1">
+            <p className="font-semibold">
+              Rule {citation.ruleNumber}
+              {citation.ruleNumber !== citation.reference && (
+                <span className="font-normal text-muted-foreground"> (first rule of {citation.reference})</span>
+              )}
+            </p>
+            <p className="leading-relaxed">{citation.text}</p>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <p className="font-semibold">{citation.name}</p>
+            <p className="text-muted-foreground">{citation.typeLine}</p>
+            {citation.text && <CardText text={citation.text} className="leading-relaxed" />}
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+/**
+ * Text with each cited rule and card shown as a link; hovering one shows the actual rule or
+ * card text, clicking a rule opens it in the rules reader, and citations that don't exist are marked
+ */
+export function CitedText({ text, citations }: { text: string; citations: RulingCitation[] }) {
+  // Longest references first, so "702.19b" wins over a card name inside it, and "Delver of Secrets" over "Delver"
+  const ordered = [...citations].sort((a, b) => b.reference.length - a.reference.length);
+  const pattern = ordered.length > 0
+    ? new RegExp(`(${ordered.map(citationPattern).join("|")})`, "gi")
+    : null;
+
+  const findCitation = (part: string) => ordered.find(citation =>
+    citation.type === "rule" ? citation.reference === part : citation.reference.toLowerCase() === part.toLowerCase()
+  );
+
+  const renderLine = (line: string, lineIndex: number) => {
+    if (!pattern) return line;
+    return line.split(pattern).map((part, partIndex) => {
+      const citation = partIndex % 2 === 1 ? findCitation(part) : undefined;
+      return citation
+        ? <CitationLink key={`${lineIndex}-${partIndex}`} citation={citation}>{part}</CitationLink>
+        : <React.Fragment key={`${lineIndex}-${partIndex}`}>{part}</React.Fragment>;
+    });
+  };
+
+  return (
+    <>
+      {text.split("\n").map((line, lineIndex) => (
+        <React.Fragment key={lineIndex}>
+          {lineIndex > 0 && <br />}
+          {renderLine(line, lineIndex)}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+/**
+ * How many of an answer's citations couldn't be verified, if any
+ */
+export function UnverifiedCitationsNotice({ citations }: { citations: RulingCitation[] }) {
+  const unverifiedCount = citations.filter(citation => !citation.verified).length;
+  if (unverifiedCount === 0) return null;
+
+  return (
+    <p className="mt-2 flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+      <AlertTriangle className="h-3.5 w-3.5" />
+      {unverifiedCount === 1
+        ? "1 citation in this answer couldn't be verified"
+        : `${unverifiedCount} citations in this answer couldn't be verified`}
+    </p>
+  );
+}
+
+/**
+ * An AI answer with its citations linked, and a count below it of any that don't exist
+ */
+export default function CitedAnswer({ content, citations }: CitedAnswerProps) {
+  return (
+    <>
+      <div className="prose prose-sm dark:prose-invert max-w-none break-words overflow-auto">
+        <CitedText text={content} citations={citations} />
+      </div>
+      <UnverifiedCitationsNotice citations={citations} />
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ConversationSummary } from "@/types/conversation";
+
+interface ConversationSidebarProps {
+  activeConversationId: number | null;
+  onSelect: (id: number) => void;
+  onNew: () => void;
+  onDeleted: (id: number) => void;
+}
+
+/**
+ * The visitor's saved ruling conversations: open, rename or delete one, or start another
+ */
+export default function ConversationSidebar({ activeConversationId, onSelect, onNew, onDeleted }: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [title, setTitle] = useState("");
+  const { toast } = useToast();
+
+  const { data: conversations = [], isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ['/api/rulings/conversations'],
+  });
+
+  const refreshConversations = () => queryClient.invalidateQueries({ queryKey: ['/api/rulings/conversations'] });
+
+  const startRenaming = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const saveTitle = async (id: number) => {
+    if (!title.trim()) return;
+    try {
+      await apiRequest("PATCH", `/api/rulings/conversations/${id}`, { title });
+      setEditingId(null);
+      refreshConversations();
+    } catch (err) {
+      toast({ title: "Error", description: "Could not rename the conversation", variant: "destructive" });
+    }
+  };
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    if (!confirm(`Delete "${conversation.title}"?`)) {
+      return;
+    }
+    try {
+      await apiRequest("DELETE", `/api/rulings/conversations/${conversation.id}`);
+      onDeleted(conversation.id);
+      refreshConversations();
+    } catch (err) {
+      toast({ title: "Error", description: "Could not delete the conversation", variant: "destructive" });
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex w-56 flex-shrink-0 flex-col border-r border-gray-200 dark:border-gray-800 pr-3">
+      <Button variant="outline" size="sm" className="mb-3 text-xs" onClick={onNew}>
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        New Conversation
+      </Button>
+      <ScrollArea className="flex-grow max-h-[640px]">
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading conversations...</p>
+        ) : conversations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Your conversations will appear here.</p>
+        ) : (
+          <ul className="space-y-1">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={`group rounded-md text-sm ${
+                  conversation.id === activeConversationId
+                    ? "bg-blue-50 dark:bg-blue-900/30"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-800"
+                }`}
+              >
+                {editingId === conversation.id ? (
+                  <form
+                    className="flex items-center gap-1 p-1"
+                    onSubmit={(e) => { e.preventDefault(); saveTitle(conversation.id); }}
+                  >
+                    <Input value={title} onChange={(e) => setTitle(e.target.value)} className="h-7 text-xs" autoFocus />
+                    <Button type="submit" size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0" disabled={!title.trim()}>
+                      <Check className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button type="button" size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0" onClick={() => setEditingId(null)}>
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="flex items-center">
+                    <button
+                      type="button"
+                      className="flex-grow flex items-center gap-2 p-2 text-left min-w-0"
+                      onClick={() => onSelect(conversation.id)}
+                    >
+                      <MessageSquare className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                      <span className="truncate">{conversation.title}</span>
+                    </button>
+                    <div className="hidden group-hover:flex pr-1">
+                      <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => startRenaming(conversation)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => deleteConversation(conversation)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </aside>
+  );
+}
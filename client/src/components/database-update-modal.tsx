@@ -18,6 +18,13 @@ interface DatabaseMetadata {
   last_updated: string;
   total_cards: number;
   description: string;
+  source_version?: string | null;
+  lastSync?: {
+    added: number;
+    updated: number;
+    removed: number;
+    completedAt: string | null;
+  } | null;
 }
 
 export function DatabaseUpdateModal() {
@@ -102,7 +109,13 @@ export function DatabaseUpdateModal() {
                 </p>
                 <p className="mt-2">
                   Source: <span className="font-semibold">AllPrintings.json</span> from MTGJSON.com
+                  {metadata?.source_version && <> (version {metadata.source_version})</>}
                 </p>
+                {metadata?.lastSync?.completedAt && (
+                  <p className="mt-2">
+                    Last sync: {metadata.lastSync.added} added, {metadata.lastSync.updated} updated, {metadata.lastSync.removed} removed
+                  </p>
+                )}
               </div>
             </>
           )}
@@ -0,0 +1,54 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { DeckValidationResult } from "@/types/deck";
+
+interface DeckValidationPanelProps {
+  validation: DeckValidationResult | null | undefined;
+  isLoading?: boolean;
+}
+
+/**
+ * Format legality of a deck and the rules it breaks, as reported by the server
+ */
+export default function DeckValidationPanel({ validation, isLoading }: DeckValidationPanelProps) {
+  if (!validation) {
+    return isLoading ? <p className="text-sm text-muted-foreground">Checking deck legality...</p> : null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {validation.legal ? (
+          <Badge className="bg-green-600 hover:bg-green-600">
+            <CheckCircle2 className="h-3 w-3 mr-1" />
+            Legal in {validation.format}
+          </Badge>
+        ) : (
+          <Badge variant="destructive">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Not legal in {validation.format}
+          </Badge>
+        )}
+        {validation.companion && (
+          <span className="text-muted-foreground">Companion: {validation.companion}</span>
+        )}
+        <span className="text-xs text-muted-foreground">as of {validation.asOf}</span>
+      </div>
+
+      {validation.violations.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {validation.violations.map((violation, index) => (
+            <li key={`${violation.code}-${violation.oracleId ?? index}`} className="flex items-start gap-2">
+              {violation.severity === 'error' ? (
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+              )}
+              <span>{violation.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
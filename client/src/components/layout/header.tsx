@@ -106,6 +106,18 @@ export function Header() {
                   >
                     Deck Archive
                   </Link>
+                  <Link
+                    href="/sets"
+                    className="text-foreground hover:text-foreground/80 transition-colors"
+                  >
+                    Sets
+                  </Link>
+                  <Link
+                    href="/rules"
+                    className="text-foreground hover:text-foreground/80 transition-colors"
+                  >
+                    Rules
+                  </Link>
                   <Link
                     href="/database-update"
                     className="text-foreground hover:text-foreground/80 transition-colors"
@@ -185,6 +197,12 @@ export function Header() {
           <Link href="/public-decks" className="text-sm font-medium text-foreground hover:text-foreground/80 transition-colors">
             Deck Archive
           </Link>
+          <Link href="/sets" className="text-sm font-medium text-foreground hover:text-foreground/80 transition-colors">
+            Sets
+          </Link>
+          <Link href="/rules" className="text-sm font-medium text-foreground hover:text-foreground/80 transition-colors">
+            Rules
+          </Link>
           <button 
             onClick={() => {
               if (window.location.pathname === '/') {
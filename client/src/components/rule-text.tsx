@@ -0,0 +1,124 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import type { GlossaryTerm } from "@/types/glossary";
+
+// Rule numbers in rule text, e.g. "702.19b" or "rule 510"
+const RULE_REFERENCE_PATTERN = /(\b[1-9]\d{2}\.\d+[a-z]?\b|\brules? [1-9]\d{2}\b)/g;
+
+export function ruleHref(ruleNumber: string) {
+  return `/rules/${ruleNumber}`;
+}
+
+export function glossaryHref(term: GlossaryTerm) {
+  return `/glossary/${encodeURIComponent(glossaryName(term))}`;
+}
+
+// "Mana Burn (Obsolete)" is found in text as "mana burn"
+export function glossaryName(term: GlossaryTerm) {
+  return term.term.replace(/\s*\([^)]*\)\s*$/, "").trim().toLowerCase();
+}
+
+// Entries that only point at another, e.g. "Deal: See Damage."
+function isCrossReference(term: GlossaryTerm) {
+  return /^See [^\d\n]+\.$/.test(term.definition);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+interface GlossaryMatcher {
+  byName: Map<string, GlossaryTerm>;
+  pattern: RegExp;
+}
+
+// Built once per glossary fetched, however many rule texts use it
+const matchers = new WeakMap<GlossaryTerm[], GlossaryMatcher | null>();
+
+/**
+ * The glossary's terms by name, and a pattern finding any of them (singular or plural) in text
+ */
+function useGlossaryMatcher(): GlossaryMatcher | null {
+  const { data: terms } = useQuery<GlossaryTerm[]>({ queryKey: ["/api/glossary"] });
+  if (!terms) return null;
+
+  if (!matchers.has(terms)) {
+    const byName = new Map<string, GlossaryTerm>();
+    terms.forEach(term => {
+      const name = glossaryName(term);
+      // Their names are often everyday words ("if", "deal"), so they aren't linked
+      if (name && !byName.has(name) && !isCrossReference(term)) byName.set(name, term);
+    });
+    // Longest first, so "combat damage" wins over "damage"
+    const names = Array.from(byName.keys()).sort((a, b) => b.length - a.length);
+    matchers.set(terms, byName.size === 0 ? null : {
+      byName,
+      pattern: new RegExp(`\\b(${names.map(escapeRegExp).join("|")})(?:s|es)?\\b`, "gi"),
+    });
+  }
+  return matchers.get(terms) ?? null;
+}
+
+function GlossaryLink({ term, children }: { term: GlossaryTerm; children: React.ReactNode }) {
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <Link href={glossaryHref(term)} className="underline decoration-dotted underline-offset-2 hover:text-primary">
+          {children}
+        </Link>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 text-xs space-y-1">
+        <p className="font-semibold">{term.term}</p>
+        <p className="leading-relaxed whitespace-pre-line"><RuleText text={term.definition} glossary={false} /></p>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+interface RuleTextProps {
+  text: string;
+  glossary?: boolean; // Link the glossary's terms too, each the first time it's used
+  except?: string; // A term not to link, e.g. the one being defined
+}
+
+/**
+ * Rule text with the rules it refers to, and the glossary terms it uses, as links
+ */
+export function RuleText({ text, glossary = true, except }: RuleTextProps) {
+  const matcher = useGlossaryMatcher();
+  const linked = new Set<string>(except ? [except.toLowerCase()] : []);
+
+  const renderTerms = (part: string, key: number) => {
+    if (!glossary || !matcher) return <React.Fragment key={key}>{part}</React.Fragment>;
+
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of Array.from(part.matchAll(matcher.pattern))) {
+      const name = match[1].toLowerCase();
+      const term = matcher.byName.get(name);
+      if (!term || linked.has(name)) continue;
+      linked.add(name);
+      nodes.push(part.slice(last, match.index), <GlossaryLink key={match.index} term={term}>{match[0]}</GlossaryLink>);
+      last = match.index! + match[0].length;
+    }
+    nodes.push(part.slice(last));
+    return <React.Fragment key={key}>{nodes}</React.Fragment>;
+  };
+
+  return (
+    <>
+      {text.split(RULE_REFERENCE_PATTERN).map((part, i) => {
+        if (i % 2 === 0) return renderTerms(part, i);
+        const ruleNumber = part.replace(/^rules? /, "");
+        return (
+          <React.Fragment key={i}>
+            {part.slice(0, part.length - ruleNumber.length)}
+            <Link href={ruleHref(ruleNumber)} className="text-primary hover:underline">{ruleNumber}</Link>
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
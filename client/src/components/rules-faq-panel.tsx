@@ -14,6 +14,9 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Loader2, Search } from 'lucide-react';
+import { Link } from 'wouter';
+import { RuleText, glossaryHref } from '@/components/rule-text';
+import type { GlossaryTerm } from '@/types/glossary';
 
 interface Rule {
   id: number;
@@ -54,6 +57,13 @@ export default function RulesFAQPanel({ initialTab = 'keyword' }: RulesFAQPanelP
     enabled: activeTab === 'keyword',
   });
 
+  // Glossary definitions of the searched term, shown above the rules that use it
+  const glossaryQuery = useQuery<GlossaryTerm[]>({
+    queryKey: [`/api/glossary?query=${encodeURIComponent(searchQuery.trim())}`],
+    enabled: activeTab === 'keyword' && searchQuery.trim().length > 0,
+  });
+  const glossaryHits = (glossaryQuery.data || []).slice(0, 3);
+
   // For semantic AI-powered search
   const semanticSearchMutation = useMutation({
     mutationFn: async (query: string) => {
@@ -161,6 +171,17 @@ export default function RulesFAQPanel({ initialTab = 'keyword' }: RulesFAQPanelP
             </div>
             
             <div className="overflow-y-auto h-[calc(100vh-320px)]">
+              {glossaryHits.length > 0 && (
+                <div className="mb-4 space-y-2 rounded-lg border p-3 text-sm">
+                  <p className="font-semibold">Glossary</p>
+                  {glossaryHits.map(term => (
+                    <div key={term.id}>
+                      <Link href={glossaryHref(term)} className="font-medium text-primary hover:underline">{term.term}</Link>
+                      <p className="whitespace-pre-line text-muted-foreground"><RuleText text={term.definition} glossary={false} /></p>
+                    </div>
+                  ))}
+                </div>
+              )}
               {rulesQuery.isLoading ? (
                 <div className="flex justify-center items-center h-40">
                   <Loader2 className="h-8 w-8 animate-spin" />
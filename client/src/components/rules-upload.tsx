@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { AlertCircle, AlertTriangle, FileCheck, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type RulesImportReport = {
+  effectiveDate: string | null;
+  format: 'paragraphs' | 'run-together';
+  ruleCount: number;
+  chapters: { chapter: string; title: string; rules: number }[];
+  gaps: { ruleNumber: string; missing: string[] }[];
+  supplied: string[];
+  duplicates: string[];
+  glossaryTerms: number;
+  duplicateGlossaryTerms: string[];
+  errors: string[];
+  warnings: string[];
+};
+
+type RulesUpload = {
+  uploadId: string;
+  fileName: string;
+  report: RulesImportReport;
+};
+
+// Past this many, a list in the report is cut short
+const MAX_LISTED = 20;
+
+// The server's message from an apiRequest error ("400: {json}")
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(message.slice(message.indexOf(":") + 1)).message ?? message;
+  } catch {
+    return message;
+  }
+}
+
+function listed(values: string[]) {
+  const shown = values.slice(0, MAX_LISTED).join(", ");
+  return values.length > MAX_LISTED ? `${shown} and ${values.length - MAX_LISTED} more` : shown;
+}
+
+function ImportReport({ upload }: { upload: RulesUpload }) {
+  const { report } = upload;
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap gap-x-6 gap-y-1">
+        <span><span className="font-medium">File:</span> {upload.fileName}</span>
+        <span><span className="font-medium">Effective:</span> {report.effectiveDate ?? "not stated"}</span>
+        <span><span className="font-medium">Rules:</span> {report.ruleCount}</span>
+        <span><span className="font-medium">Glossary terms:</span> {report.glossaryTerms}</span>
+      </div>
+
+      {report.errors.length > 0 && (
+        <Alert className="bg-red-50 dark:bg-red-950">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>This file can't be imported</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {report.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report.warnings.length > 0 && (
+        <Alert className="bg-yellow-50 dark:bg-yellow-950">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Check before importing</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {report.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border divide-y">
+        {report.chapters.map(chapter => (
+          <div key={chapter.chapter} className="flex justify-between px-2 py-1">
+            <span>{chapter.chapter}. {chapter.title}</span>
+            <span className={chapter.rules === 0 ? "text-red-600 font-medium" : "text-muted-foreground"}>
+              {chapter.rules} rules
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {report.gaps.length > 0 && (
+        <div>
+          <p className="font-medium">Gaps in the numbering</p>
+          <ul className="max-h-40 overflow-y-auto text-muted-foreground">
+            {report.gaps.map(gap => (
+              <li key={gap.ruleNumber}>{gap.ruleNumber}: missing {listed(gap.missing)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.duplicates.length > 0 && (
+        <p><span className="font-medium">Repeated rule numbers:</span> {listed(report.duplicates)}</p>
+      )}
+
+      {report.duplicateGlossaryTerms.length > 0 && (
+        <p><span className="font-medium">Repeated glossary terms:</span> {listed(report.duplicateGlossaryTerms)}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Upload a comprehensive rules file, see what the importer makes of it, then import it
+ */
+export default function RulesUpload() {
+  const [file, setFile] = useState<File | null>(null);
+  const [upload, setUpload] = useState<RulesUpload | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const checkFile = async () => {
+    if (!file) return;
+    setIsChecking(true);
+    setUpload(null);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const response = await fetch("/api/admin/rules/upload", {
+        method: "POST",
+        headers: { "X-Admin-Token": localStorage.getItem("adminToken") ?? "" },
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to check the rules file");
+      }
+      setUpload(data);
+    } catch (err) {
+      console.error("Error checking rules file:", err);
+      toast({ title: "Check Failed", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const importUpload = async () => {
+    if (!upload) return;
+    if (!confirm(`Import the ${upload.report.ruleCount} rules in ${upload.fileName}? The existing rules and glossary will be replaced.`)) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      const response = await apiRequest("POST", `/api/admin/rules/upload/${upload.uploadId}/import`);
+      const data = await response.json();
+      toast({ title: "Rules Import Complete", description: data.message });
+      setUpload(null);
+      setFile(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/rules/toc"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules/versions"] });
+    } catch (err) {
+      console.error("Error importing uploaded rules:", err);
+      toast({ title: "Rules Import Failed", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Upload the official comprehensive rules TXT, or the text copied out of the PDF. It's checked first:
+        nothing is imported until you confirm.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="file"
+          accept=".txt,text/plain"
+          className="max-w-sm"
+          onChange={e => {
+            setFile(e.target.files?.[0] ?? null);
+            setUpload(null);
+          }}
+        />
+        <Button variant="outline" onClick={checkFile} disabled={!file || isChecking}>
+          {isChecking ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <FileCheck className="mr-2 h-4 w-4" />}
+          Check File
+        </Button>
+      </div>
+
+      {upload && (
+        <>
+          <ImportReport upload={upload} />
+          <div className="flex justify-end">
+            <Button onClick={importUpload} disabled={isImporting || upload.report.errors.length > 0}>
+              {isImporting ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import These Rules
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RulingFeedbackRating } from "@/types/conversation";
+
+interface RulingFeedbackProps {
+  conversationId: number;
+  messageIndex: number;
+  feedback?: RulingFeedbackRating;
+  onSaved: (feedback: RulingFeedbackRating) => void;
+}
+
+// The server's message from an apiRequest error ("400: {json}")
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(message.slice(message.indexOf(":") + 1)).message ?? message;
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Thumbs up or down on an answer; thumbs down asks for the correct ruling, which goes to our
+ * judges for review
+ */
+export default function RulingFeedback({ conversationId, messageIndex, feedback, onSaved }: RulingFeedbackProps) {
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [correction, setCorrection] = useState(feedback?.correction ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const saveFeedback = async (rating: RulingFeedbackRating["rating"], correctionText: string | null) => {
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", `/api/rulings/conversations/${conversationId}/messages/${messageIndex}/feedback`, {
+        rating,
+        correction: correctionText,
+      });
+      onSaved({ rating, correction: correctionText });
+      setIsCorrecting(false);
+      if (rating === "down") {
+        toast({ title: "Thanks for the feedback", description: "A judge will review this answer." });
+      }
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const ratedClass = (rating: RulingFeedbackRating["rating"]) => feedback?.rating === rating
+    ? "text-blue-600 dark:text-blue-400"
+    : "text-gray-400 hover:text-gray-700 dark:hover:text-gray-200";
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center gap-1">
+        <span className="text-gray-500 dark:text-gray-400 mr-1">Was this right?</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${ratedClass("up")}`}
+          title="Correct"
+          disabled={isSaving}
+          onClick={() => saveFeedback("up", null)}
+        >
+          <ThumbsUp className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${ratedClass("down")}`}
+          title="Incorrect"
+          disabled={isSaving}
+          onClick={() => setIsCorrecting(!isCorrecting)}
+        >
+          <ThumbsDown className="h-3.5 w-3.5" />
+        </Button>
+        {feedback?.rating === "down" && !isCorrecting && (
+          <span className="text-gray-500 dark:text-gray-400">
+            {feedback.correction ? "Correction sent for review" : "Marked as incorrect"}
+          </span>
+        )}
+      </div>
+      {isCorrecting && (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            placeholder="What's wrong? Explain the correct ruling, citing rules where you can (optional)"
+            className="min-h-[70px] text-xs"
+            maxLength={4000}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setIsCorrecting(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-7 text-xs" disabled={isSaving} onClick={() => saveFeedback("down", correction.trim() || null)}>
+              Mark as incorrect
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronDown, ChevronRight, RefreshCw, ThumbsDown, ThumbsUp, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { CardText } from "@/components/ui/card-text";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+type FeedbackContext = {
+  cards: { id: string; name: string; type: string; text: string | null; rulings: { date: string; text: string }[] }[];
+  rules: { ruleNumber: string; text: string }[];
+  correctionIds: number[];
+};
+
+type RulingFeedbackEntry = {
+  id: number;
+  conversationId: number;
+  messageIndex: number;
+  rating: 'up' | 'down';
+  correction: string | null;
+  question: string;
+  answer: string;
+  cardIds: string[];
+  promptContext: FeedbackContext | null;
+  status: ReviewStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+};
+
+// The server's message from an apiRequest error ("400: {json}")
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(message.slice(message.indexOf(":") + 1)).message ?? message;
+  } catch {
+    return message;
+  }
+}
+
+function Section({ title, defaultOpen = false, children }: { title: string; defaultOpen?: boolean; children: ReactNode }) {
+  const [open, setOpen] = useState(defaultOpen);
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground hover:text-foreground">
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        {title}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 pl-4 text-sm">{children}</CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function FeedbackItem({ entry, onReviewed }: { entry: RulingFeedbackEntry; onReviewed: () => void }) {
+  const [correction, setCorrection] = useState(entry.correction ?? "");
+  const [reviewNote, setReviewNote] = useState(entry.reviewNote ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const context = entry.promptContext ?? { cards: [], rules: [], correctionIds: [] };
+
+  const review = async (status: 'approved' | 'rejected') => {
+    setIsSaving(true);
+    try {
+      await apiRequest("PATCH", `/api/admin/ruling-feedback/${entry.id}`, {
+        status,
+        correction: correction.trim() || null,
+        reviewNote: reviewNote.trim() || null,
+      });
+      toast({
+        title: status === "approved" ? "Correction Approved" : "Feedback Rejected",
+        description: status === "approved"
+          ? "The model will be given this correction for questions about these cards."
+          : "The answer's feedback was dismissed.",
+      });
+      onReviewed();
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        {entry.rating === "down"
+          ? <ThumbsDown className="h-3.5 w-3.5 text-red-600" />
+          : <ThumbsUp className="h-3.5 w-3.5 text-green-600" />}
+        <span>{new Date(entry.createdAt).toLocaleString()}</span>
+        <span>Conversation #{entry.conversationId}</span>
+        {context.cards.map(card => (
+          <Badge key={card.id} variant="outline">{card.name}</Badge>
+        ))}
+        {entry.status !== "pending" && (
+          <Badge variant={entry.status === "approved" ? "default" : "secondary"} className="capitalize">{entry.status}</Badge>
+        )}
+      </div>
+
+      <p className="font-medium whitespace-pre-line">{entry.question}</p>
+
+      <Section title="Answer given">
+        <div className="whitespace-pre-line">{entry.answer}</div>
+      </Section>
+
+      <Section title={`Cards in the prompt (${context.cards.length})`}>
+        {context.cards.length === 0 ? (
+          <p className="text-muted-foreground">No cards were given to the model.</p>
+        ) : (
+          <div className="space-y-3">
+            {context.cards.map(card => (
+              <div key={card.id}>
+                <p className="font-semibold">{card.name}</p>
+                <p className="text-muted-foreground">{card.type}</p>
+                {card.text && <CardText text={card.text} />}
+                {card.rulings.length > 0 && (
+                  <ul className="mt-1 list-disc pl-5 text-xs text-muted-foreground">
+                    {card.rulings.map((ruling, i) => <li key={i}>{ruling.date}: {ruling.text}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section title={`Rules in the prompt (${context.rules.length})`}>
+        {context.rules.length === 0 ? (
+          <p className="text-muted-foreground">No rules were found for this question.</p>
+        ) : (
+          <ul className="space-y-1">
+            {context.rules.map(rule => (
+              <li key={rule.ruleNumber}><span className="font-semibold">{rule.ruleNumber}</span> {rule.text}</li>
+            ))}
+          </ul>
+        )}
+        {context.correctionIds.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Also given approved corrections #{context.correctionIds.join(", #")}
+          </p>
+        )}
+      </Section>
+
+      <div className="space-y-2">
+        <Label htmlFor={`correction-${entry.id}`}>Correction</Label>
+        <Textarea
+          id={`correction-${entry.id}`}
+          value={correction}
+          onChange={(e) => setCorrection(e.target.value)}
+          placeholder="The correct ruling, as the model should be told it"
+          className="min-h-[80px]"
+        />
+        <Label htmlFor={`note-${entry.id}`}>Review note</Label>
+        <Textarea
+          id={`note-${entry.id}`}
+          value={reviewNote}
+          onChange={(e) => setReviewNote(e.target.value)}
+          placeholder="Optional, for other reviewers"
+          className="min-h-[40px]"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={isSaving} onClick={() => review("rejected")}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+        <Button size="sm" disabled={isSaving || !correction.trim()} onClick={() => review("approved")}>
+          <Check className="h-4 w-4 mr-1" />
+          Approve correction
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Admin queue of AI ruling answers that were marked incorrect or corrected, with everything the
+ * model was given, for judges to approve or reject the corrections
+ */
+export default function RulingReviewQueue() {
+  const [status, setStatus] = useState<ReviewStatus>("pending");
+  const feedbackUrl = `/api/admin/ruling-feedback?status=${status}`;
+  const { data: entries = [], isLoading, isFetching } = useQuery<RulingFeedbackEntry[]>({ queryKey: [feedbackUrl] });
+
+  const refreshEntries = () => queryClient.invalidateQueries({ queryKey: [feedbackUrl] });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Waiting for review</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={refreshEntries} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading feedback...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {status === "pending" ? "No answers are waiting for review." : `No ${status} feedback.`}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {entries.map(entry => (
+            <FeedbackItem key={entry.id} entry={entry} onReviewed={refreshEntries} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { CitedText, UnverifiedCitationsNotice } from "@/components/cited-answer";
+import { RULING_SECTIONS, type RulingSectionKey, type StructuredRuling } from "@shared/ruling-answer";
+import { RulingCitation } from "@/types/conversation";
+
+interface StructuredAnswerProps {
+  ruling: StructuredRuling;
+  citations: RulingCitation[];
+}
+
+// The sections that stay open; the detailed ones start collapsed behind their heading
+const OPEN_SECTIONS: RulingSectionKey[] = ["summary", "outcome"];
+
+function AnswerSection({ label, text, citations, defaultOpen }: {
+  label: string;
+  text: string;
+  citations: RulingCitation[];
+  defaultOpen: boolean;
+}) {
+  const [open, setOpen] = useState(defaultOpen);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        {label}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 pl-4">
+        <CitedText text={text} citations={citations} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+/**
+ * A ruling in its sections: the one-line verdict up front, then each section under its own
+ * heading, collapsible, with citations linked throughout. Renders a partial ruling as it streams.
+ */
+export default function StructuredAnswer({ ruling, citations }: StructuredAnswerProps) {
+  const sections = RULING_SECTIONS.filter(section => ruling[section.key]);
+
+  return (
+    <div className="prose prose-sm dark:prose-invert max-w-none break-words overflow-auto space-y-3">
+      {ruling.verdict && (
+        <div className="rounded-md border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-900/30 px-3 py-2 font-medium">
+          <CitedText text={ruling.verdict} citations={citations} />
+        </div>
+      )}
+      {sections.map(section => (
+        <AnswerSection
+          key={section.key}
+          label={section.label}
+          text={ruling[section.key]}
+          citations={citations}
+          defaultOpen={OPEN_SECTIONS.includes(section.key)}
+        />
+      ))}
+      {ruling.citedRules.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Rules cited: <CitedText text={ruling.citedRules.join(", ")} citations={citations} />
+        </p>
+      )}
+      <UnverifiedCitationsNotice citations={citations} />
+    </div>
+  );
+}
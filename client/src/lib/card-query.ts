@@ -0,0 +1,39 @@
+import { Card } from "@/types/card";
+import { apiRequest } from "@/lib/queryClient";
+
+/**
+ * Parse error returned by /api/cards when a query-language search is invalid
+ */
+export class CardQuerySyntaxError extends Error {
+  constructor(message: string, public position: number, public token: string) {
+    super(message);
+    this.name = "CardQuerySyntaxError";
+  }
+}
+
+/**
+ * Search cards with the Scryfall-style query syntax (e.g. `t:creature c>=ur cmc<=3`).
+ * Throws CardQuerySyntaxError when the server rejects the query.
+ */
+export async function searchCardsByQuery(q: string, params: Record<string, string> = {}): Promise<Card[]> {
+  const searchParams = new URLSearchParams({ ...params, q });
+
+  try {
+    const response = await apiRequest("GET", `/api/cards?${searchParams.toString()}`);
+    return response.json();
+  } catch (error: any) {
+    // apiRequest errors look like "400: {json body}"
+    const match = /^400: ([\s\S]*)$/.exec(error?.message ?? "");
+    if (match) {
+      try {
+        const body = JSON.parse(match[1]);
+        if (typeof body.position === "number") {
+          throw new CardQuerySyntaxError(body.error, body.position, body.token ?? "");
+        }
+      } catch (parseError) {
+        if (parseError instanceof CardQuerySyntaxError) throw parseError;
+      }
+    }
+    throw error;
+  }
+}
@@ -11,6 +11,7 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  signal?: AbortSignal,
 ): Promise<Response> {
   const headers: Record<string, string> = {};
   
@@ -23,12 +24,17 @@ export async function apiRequest(
   if (token) {
     headers["Authorization"] = `Bearer ${token}`;
   }
+  const adminToken = localStorage.getItem('adminToken');
+  if (adminToken) {
+    headers["X-Admin-Token"] = adminToken;
+  }
 
   const res = await fetch(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
+    signal,
   });
 
   await throwIfResNotOk(res);
@@ -48,6 +54,10 @@ export const getQueryFn: <T>(options: {
     if (token) {
       headers["Authorization"] = `Bearer ${token}`;
     }
+    const adminToken = localStorage.getItem('adminToken');
+    if (adminToken) {
+      headers["X-Admin-Token"] = adminToken;
+    }
 
     const res = await fetch(queryKey[0] as string, {
       credentials: "include",
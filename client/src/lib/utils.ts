@@ -49,3 +49,12 @@ export function truncateText(text: string, maxLength: number): string {
   if (!text || text.length <= maxLength) return text;
   return text.substring(0, maxLength) + "...";
 }
+
+// Keyrune set symbol served by Scryfall
+export function getSetIconUrl(set: { code: string, iconCode?: string | null }): string {
+  return `https://svgs.scryfall.io/sets/${(set.iconCode || set.code).toLowerCase()}.svg`;
+}
+
+export function formatSetType(type?: string | null): string {
+  return type ? type.replace(/_/g, ' ') : 'other';
+}
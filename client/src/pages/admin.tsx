@@ -1,11 +1,18 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"; 
-import { AlertCircle, CheckCircle2, Database, RefreshCw, Download, Book, BookOpen, Upload, LogOut } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle2, Database, RefreshCw, Download, Book, BookOpen, Upload, LogOut, History, Ban, MessageSquareWarning } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Helmet } from "react-helmet";
 import AdminLogin from "@/components/admin-login";
+import BanlistManager from "@/components/banlist-manager";
+import RulingReviewQueue from "@/components/ruling-review-queue";
+import RulesUpload from "@/components/rules-upload";
+import { queryClient } from "@/lib/queryClient";
 
 type RarityRepairResult = {
   processed: number;
@@ -13,6 +20,43 @@ type RarityRepairResult = {
   errors: number;
 };
 
+type CardImportProgress = {
+  phase: 'idle' | 'downloading' | 'processing' | 'completed' | 'failed';
+  message: string;
+  setCode?: string;
+  setName?: string;
+  setsCompleted: number;
+  cardsProcessed: number;
+  bytesRead: number;
+  totalBytes: number;
+  resumedFrom?: string;
+  updatedAt: string;
+};
+
+type CardChange = {
+  id: number;
+  entity: 'oracle_card' | 'printing';
+  entityId: string;
+  name: string;
+  setCode: string | null;
+  change: 'added' | 'updated' | 'removed';
+  fields: Record<string, { from: unknown; to: unknown }> | null;
+};
+
+type CardSyncSummary = {
+  id: number;
+  sourceVersion: string | null;
+  previousVersion: string | null;
+  status: string;
+  added: number;
+  updated: number;
+  removed: number;
+  message: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  changes: CardChange[];
+};
+
 export default function AdminPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
@@ -26,23 +70,63 @@ export default function AdminPage() {
   const [isUpdatingCardDB, setIsUpdatingCardDB] = useState(false);
   const [cardDBUpdateSuccess, setCardDBUpdateSuccess] = useState(false);
   const [cardDBError, setCardDBError] = useState<string | null>(null);
+  const [importProgress, setImportProgress] = useState<CardImportProgress | null>(null);
+  const [changeFilter, setChangeFilter] = useState<'all' | CardChange['change']>('all');
   const { toast } = useToast();
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   
   // Check if user is already authenticated
   useEffect(() => {
+    // Logins from before admin sessions have no token, so they sign in again
     const adminAuth = localStorage.getItem('adminAuthenticated');
-    if (adminAuth === 'true') {
+    if (adminAuth === 'true' && localStorage.getItem('adminToken')) {
       setIsAuthenticated(true);
     }
   }, []);
 
+  // Follow card database import progress while the admin page is open
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    
+    const source = new EventSource("/api/admin/card-import/progress");
+    source.onmessage = (event) => {
+      setImportProgress(JSON.parse(event.data));
+    };
+    
+    return () => source.close();
+  }, [isAuthenticated]);
+
+  const { data: metadata } = useQuery<{ lastSync: CardSyncSummary | null }>({
+    queryKey: ['/api/metadata'],
+    enabled: isAuthenticated,
+  });
+  const lastSync = metadata?.lastSync ?? null;
+
+  const { data: filteredChanges } = useQuery<{ changes: CardChange[] }>({
+    queryKey: [`/api/metadata/changes?runId=${lastSync?.id}&change=${changeFilter}`],
+    enabled: !!lastSync && changeFilter !== 'all',
+  });
+  const visibleChanges = changeFilter === 'all' ? lastSync?.changes ?? [] : filteredChanges?.changes ?? [];
+
+  // Show the new change log once an import finishes
+  useEffect(() => {
+    if (importProgress?.phase === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/metadata'] });
+    }
+  }, [importProgress?.phase]);
+
+  const isImportRunning = importProgress?.phase === 'downloading' || importProgress?.phase === 'processing';
+  const importPercent = importProgress && importProgress.totalBytes > 0
+    ? Math.min(100, Math.round((importProgress.bytesRead / importProgress.totalBytes) * 100))
+    : 0;
+
   const handleLogin = (authenticated: boolean) => {
     setIsAuthenticated(authenticated);
   };
 
   const handleLogout = () => {
     localStorage.removeItem('adminAuthenticated');
+    localStorage.removeItem('adminToken');
     setIsAuthenticated(false);
     toast({
       title: "Logged Out",
@@ -171,7 +255,10 @@ export default function AdminPage() {
     try {
       const response = await fetch("/api/admin/import-rules", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "X-Admin-Token": localStorage.getItem("adminToken") ?? "",
+        },
       });
       
       const data = await response.json();
@@ -183,10 +270,10 @@ export default function AdminPage() {
           description: "Successfully imported the comprehensive MTG rules",
         });
       } else {
-        setRulesError(data.error || "Failed to import rules");
+        setRulesError(data.details || data.message || data.error || "Failed to import rules");
         toast({
           title: "Rules Import Failed",
-          description: data.error || "Failed to import rules",
+          description: data.details || data.message || data.error || "Failed to import rules",
           variant: "destructive",
         });
       }
@@ -213,10 +300,9 @@ export default function AdminPage() {
     setCardDBError(null);
     
     try {
-      const response = await fetch("/api/cards/download-all-printings", {
+      const response = await fetch("/api/admin/complete-card-database-update", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ forceDownload: true }),
       });
       
       const data = await response.json();
@@ -225,7 +311,7 @@ export default function AdminPage() {
         setCardDBUpdateSuccess(true);
         toast({
           title: "Card Database Update Started",
-          description: "AllPrintings.json has been downloaded and database update has started in the background.",
+          description: "The card database update is running in the background. Progress is shown below.",
         });
       } else {
         setCardDBError(data.message || "Failed to update card database");
@@ -287,17 +373,44 @@ export default function AdminPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {cardDBUpdateSuccess && (
+                {cardDBUpdateSuccess && !importProgress && (
                   <Alert className="mb-4 bg-green-50 dark:bg-green-950">
                     <CheckCircle2 className="h-4 w-4" />
                     <AlertTitle>Database Update Started</AlertTitle>
                     <AlertDescription>
-                      AllPrintings.json has been downloaded and the card database update is processing in the background.
+                      The card database update is processing in the background.
                       This may take several minutes to complete.
                     </AlertDescription>
                   </Alert>
                 )}
                 
+                {importProgress && importProgress.phase !== 'idle' && (
+                  <div className="mb-4 space-y-2 rounded-md border p-3">
+                    <div className="flex items-center justify-between text-sm font-medium">
+                      <span className="capitalize">{importProgress.phase}</span>
+                      {isImportRunning && <span>{importPercent}%</span>}
+                    </div>
+                    {isImportRunning && <Progress value={importPercent} className="h-2" />}
+                    <p className={importProgress.phase === 'failed' ? "text-sm text-red-600" : "text-sm text-muted-foreground"}>
+                      {importProgress.message}
+                    </p>
+                    {importProgress.setsCompleted > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {importProgress.setsCompleted} sets, {importProgress.cardsProcessed} cards imported
+                        {importProgress.setCode && ` (last set: ${importProgress.setName || importProgress.setCode})`}
+                      </p>
+                    )}
+                  </div>
+                )}
+                
+                {importProgress?.phase === 'idle' && importProgress.setsCompleted > 0 && (
+                  <Alert className="mb-4 bg-yellow-50 dark:bg-yellow-950">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Interrupted Import</AlertTitle>
+                    <AlertDescription>{importProgress.message}</AlertDescription>
+                  </Alert>
+                )}
+                
                 {cardDBError && (
                   <Alert className="mb-4 bg-red-50 dark:bg-red-950">
                     <AlertCircle className="h-4 w-4" />
@@ -318,15 +431,15 @@ export default function AdminPage() {
                 
                 <p className="text-sm text-muted-foreground">
                   <strong>Note:</strong> This file is quite large and the update process runs in the background.
-                  It may take several minutes to complete.
+                  It may take several minutes to complete. An interrupted update resumes from the last imported set.
                 </p>
               </CardContent>
               <CardFooter className="flex justify-end">
                 <Button
                   onClick={updateCardDatabase}
-                  disabled={isUpdatingCardDB}
+                  disabled={isUpdatingCardDB || isImportRunning}
                 >
-                  {isUpdatingCardDB ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Database className="mr-2 h-4 w-4" />}
+                  {isUpdatingCardDB || isImportRunning ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Database className="mr-2 h-4 w-4" />}
                   Update Card Database
                 </Button>
               </CardFooter>
@@ -416,6 +529,105 @@ export default function AdminPage() {
               </CardFooter>
             </Card>
             
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="mr-2 h-5 w-5" />
+                  Last Card Sync
+                </CardTitle>
+                <CardDescription>
+                  Cards added, updated and removed by the most recent MTGJSON sync.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!lastSync ? (
+                  <p className="text-sm text-muted-foreground">No card sync has run yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <Badge variant={lastSync.status === 'failed' ? 'destructive' : 'secondary'} className="capitalize">
+                        {lastSync.status}
+                      </Badge>
+                      <span>
+                        MTGJSON {lastSync.previousVersion ?? 'none'} → {lastSync.sourceVersion ?? 'unknown'}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {new Date(lastSync.completedAt ?? lastSync.startedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    
+                    <div className="flex flex-wrap gap-2">
+                      {(['all', 'added', 'updated', 'removed'] as const).map((filter) => (
+                        <Button
+                          key={filter}
+                          size="sm"
+                          variant={changeFilter === filter ? 'default' : 'outline'}
+                          onClick={() => setChangeFilter(filter)}
+                          className="capitalize"
+                        >
+                          {filter}
+                          {filter !== 'all' && ` (${lastSync[filter]})`}
+                        </Button>
+                      ))}
+                    </div>
+                    
+                    {visibleChanges.length > 0 ? (
+                      <div className="max-h-80 overflow-y-auto rounded-md border divide-y text-sm">
+                        {visibleChanges.map((change) => (
+                          <div key={change.id} className="flex flex-wrap items-center gap-2 p-2">
+                            <Badge variant="outline" className="capitalize">{change.change}</Badge>
+                            <span className="font-medium">{change.name}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {change.entity === 'printing' ? `printing in ${change.setCode}` : 'oracle card'}
+                            </span>
+                            {change.fields && (
+                              <span className="text-xs text-muted-foreground">
+                                {Object.keys(change.fields).join(', ')}
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No changes to show.</p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <MessageSquareWarning className="mr-2 h-5 w-5" />
+                  AI Ruling Review
+                </CardTitle>
+                <CardDescription>
+                  Answers users marked as incorrect, with the cards and rules the model was given. Approved corrections
+                  are given to the model as authoritative for later questions about the same cards.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RulingReviewQueue />
+              </CardContent>
+            </Card>
+            
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Ban className="mr-2 h-5 w-5" />
+                  Banned &amp; Restricted List
+                </CardTitle>
+                <CardDescription>
+                  Seeded from MTGJSON legalities. Add dated entries for announcements that haven't reached MTGJSON yet;
+                  search and deck legality use the entry in effect on the date being checked.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BanlistManager />
+              </CardContent>
+            </Card>
+            
             <Card className="md:col-span-2">
               <CardHeader>
                 <CardTitle className="flex items-center">
@@ -445,6 +657,10 @@ export default function AdminPage() {
                   </Alert>
                 )}
                 
+                <div className="border-b pb-4 mb-4">
+                  <RulesUpload />
+                </div>
+                
                 <p className="text-sm text-muted-foreground mb-4">
                   This will download the official Magic: The Gathering comprehensive rules from Wizards of the Coast
                   and import them into the database. The existing rules will be replaced.
@@ -14,6 +14,7 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Switch } from "@/components/ui/switch";
+import { FORMATS, getFormat, type FormatDefinition } from "@shared/formats";
 
 // Define format types and their requirements
 interface FormatRequirements {
@@ -24,6 +25,26 @@ interface FormatRequirements {
   description: string;
 }
 
+// Builder requirements for a format in the shared registry
+function toFormatRequirements(format: FormatDefinition): FormatRequirements {
+  const size = format.maxDeckSize === format.minDeckSize
+    ? `exactly ${format.minDeckSize} cards${format.commander ? ", including your Commander" : ""}`
+    : `a minimum of ${format.minDeckSize} cards`;
+  const copies = format.maxCopies === null
+    ? "any number of copies of each card"
+    : format.maxCopies === 1
+      ? "only 1 copy of each card except basic lands"
+      : `a maximum of ${format.maxCopies} copies of any card except basic lands`;
+
+  return {
+    name: format.name,
+    deckSize: format.minDeckSize,
+    maxCopies: format.maxCopies ?? Infinity,
+    requiresCommander: format.commander !== null,
+    description: `${format.name} requires ${size}, with ${copies}.`
+  };
+}
+
 // Card interface for use in the deck
 interface DeckCard {
   id: string;
@@ -48,23 +69,8 @@ interface DeckCardsByType {
 
 export default function DeckBuilderPage() {
   // Format selection
-  const [formats] = useState<string[]>([
-    "Standard", 
-    "Modern", 
-    "Legacy", 
-    "Vintage", 
-    "Commander", 
-    "Pioneer", 
-    "Brawl"
-  ]);
   const [selectedFormat, setSelectedFormat] = useState<string>("Standard");
-  const [formatReqs, setFormatReqs] = useState<FormatRequirements>({
-    name: "Standard",
-    deckSize: 60,
-    maxCopies: 4,
-    requiresCommander: false,
-    description: "Standard format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-  });
+  const formatReqs = toFormatRequirements(getFormat(selectedFormat) ?? FORMATS[0]);
   
   // Deck metadata
   const [deckName, setDeckName] = useState<string>("");
@@ -101,84 +107,6 @@ export default function DeckBuilderPage() {
   const { toast } = useToast();
   
   // Effects
-  useEffect(() => {
-    // Update format requirements when format changes
-    switch (selectedFormat) {
-      case "Standard":
-        setFormatReqs({
-          name: "Standard",
-          deckSize: 60,
-          maxCopies: 4,
-          requiresCommander: false,
-          description: "Standard format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-        });
-        break;
-      case "Modern":
-        setFormatReqs({
-          name: "Modern",
-          deckSize: 60,
-          maxCopies: 4,
-          requiresCommander: false,
-          description: "Modern format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-        });
-        break;
-      case "Legacy":
-        setFormatReqs({
-          name: "Legacy",
-          deckSize: 60,
-          maxCopies: 4,
-          requiresCommander: false,
-          description: "Legacy format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-        });
-        break;
-      case "Vintage":
-        setFormatReqs({
-          name: "Vintage",
-          deckSize: 60,
-          maxCopies: 4,
-          requiresCommander: false,
-          description: "Vintage format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-        });
-        break;
-      case "Commander":
-        setFormatReqs({
-          name: "Commander",
-          deckSize: 100,
-          maxCopies: 1,
-          requiresCommander: true,
-          description: "Commander format requires exactly 100 cards, including your Commander. You can only have 1 copy of each card except for basic lands."
-        });
-        break;
-      case "Pioneer":
-        setFormatReqs({
-          name: "Pioneer",
-          deckSize: 60,
-          maxCopies: 4,
-          requiresCommander: false,
-          description: "Pioneer format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-        });
-        break;
-      case "Brawl":
-        setFormatReqs({
-          name: "Brawl",
-          deckSize: 60,
-          maxCopies: 1,
-          requiresCommander: true,
-          description: "Brawl format requires exactly 60 cards, including your Commander. You can only have 1 copy of each card except for basic lands."
-        });
-        break;
-      default:
-        // Default to Standard
-        setFormatReqs({
-          name: "Standard",
-          deckSize: 60,
-          maxCopies: 4,
-          requiresCommander: false,
-          description: "Standard format requires a minimum of 60 cards, with a maximum of 4 copies of any card except basic lands."
-        });
-    }
-  }, [selectedFormat]);
-  
   useEffect(() => {
     // Group cards by type for display
     const grouped: DeckCardsByType = {
@@ -848,9 +776,9 @@ export default function DeckBuilderPage() {
                         <SelectValue placeholder="Select format" />
                       </SelectTrigger>
                       <SelectContent>
-                        {formats.map((format) => (
-                          <SelectItem key={format} value={format}>
-                            {format}
+                        {FORMATS.map((format) => (
+                          <SelectItem key={format.id} value={format.name}>
+                            {format.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -29,8 +29,13 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { queryClient } from '@/lib/queryClient';
 import { AuthModal } from '@/components/auth-modal';
+import CardQueryError from '@/components/card-query-error';
+import { searchCardsByQuery, CardQuerySyntaxError } from '@/lib/card-query';
 import { Card as MTGCard } from '@/types/card';
 import { calculateManaCostInfo, formatManaCostDisplay } from '@/utils/mana-cost';
+import DeckValidationPanel from '@/components/deck-validation-panel';
+import { DeckValidationResult } from '@/types/deck';
+import { FORMATS, getFormat } from '@shared/formats';
 
 interface DeckCard extends MTGCard {
   quantity: number;
@@ -45,26 +50,13 @@ interface DeckStats {
   cmcDistribution: Record<number, number>;
 }
 
-interface Format {
-  name: string;
-  minSize: number;
-  maxSize: number;
-  maxCopies: number;
-  requiresCommander: boolean;
-  allowsSideboard: boolean;
-}
-
-// Format definitions
-const FORMATS: Record<string, Format> = {
-  'Standard': { name: 'Standard', minSize: 60, maxSize: 999, maxCopies: 4, requiresCommander: false, allowsSideboard: true },
-  'Pioneer': { name: 'Pioneer', minSize: 60, maxSize: 999, maxCopies: 4, requiresCommander: false, allowsSideboard: true },
-  'Modern': { name: 'Modern', minSize: 60, maxSize: 999, maxCopies: 4, requiresCommander: false, allowsSideboard: true },
-  'Legacy': { name: 'Legacy', minSize: 60, maxSize: 999, maxCopies: 4, requiresCommander: false, allowsSideboard: true },
-  'Vintage': { name: 'Vintage', minSize: 60, maxSize: 999, maxCopies: 4, requiresCommander: false, allowsSideboard: true },
-  'Commander': { name: 'Commander', minSize: 100, maxSize: 100, maxCopies: 1, requiresCommander: true, allowsSideboard: false },
-  'Pauper': { name: 'Pauper', minSize: 60, maxSize: 999, maxCopies: 4, requiresCommander: false, allowsSideboard: true },
-  'Limited': { name: 'Limited', minSize: 40, maxSize: 999, maxCopies: 999, requiresCommander: false, allowsSideboard: true },
-};
+// Saved decks reference the chosen printing (and its oracle card) when known
+const toDeckCardEntry = (card: DeckCard) => ({
+  cardId: card.id,
+  oracleId: card.oracleId,
+  printingId: card.printingId,
+  quantity: card.quantity,
+});
 
 export default function DeckBuilder() {
   const { user, isAuthenticated } = useAuth();
@@ -76,6 +68,7 @@ export default function DeckBuilder() {
   const [deckCards, setDeckCards] = useState<DeckCard[]>([]);
   const [searchResults, setSearchResults] = useState<MTGCard[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [searchSyntaxError, setSearchSyntaxError] = useState<CardQuerySyntaxError | null>(null);
   const [selectedCard, setSelectedCard] = useState<MTGCard | null>(null);
   const [viewMode, setViewMode] = useState<'visual' | 'text'>('visual');
   const [sortBy, setSortBy] = useState<'name' | 'cmc' | 'type' | 'color'>('name');
@@ -83,9 +76,13 @@ export default function DeckBuilder() {
   const [importText, setImportText] = useState('');
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [editingDeckId, setEditingDeckId] = useState<string | null>(null);
+  const [validation, setValidation] = useState<DeckValidationResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
   
   const { toast } = useToast();
-  const currentFormat = FORMATS[format];
+  const currentFormat = getFormat(format) ?? FORMATS[0];
+  const allowsSideboard = currentFormat.maxSideboard !== 0;
+  const requiresCommander = currentFormat.commander !== null;
 
   // Clear deck data when user logs out
   useEffect(() => {
@@ -110,7 +107,7 @@ export default function DeckBuilder() {
           const deckData = JSON.parse(savedData);
           setDeckName(deckData.name || '');
           setDeckDescription(deckData.description || '');
-          setFormat(deckData.format || 'Standard');
+          setFormat(getFormat(deckData.format || '')?.name ?? 'Standard');
           setIsPublic(deckData.isPublic || false);
           setEditingDeckId(deckData.editingDeckId || null);
           
@@ -122,6 +119,9 @@ export default function DeckBuilder() {
           if (deckData.sideboardCards && Array.isArray(deckData.sideboardCards)) {
             allCardIds.push(...deckData.sideboardCards.map((card: any) => card.cardId));
           }
+          if (deckData.commanderCards && Array.isArray(deckData.commanderCards)) {
+            allCardIds.push(...deckData.commanderCards.map((card: any) => card.cardId));
+          }
           
           // Fetch full card data for proper statistics
           let cardDataMap: Record<string, any> = {};
@@ -162,6 +162,8 @@ export default function DeckBuilder() {
               const fullCardData = cardDataMap[cardData.cardId];
               convertedCards.push({
                 id: cardData.cardId,
+                oracleId: cardData.oracleId || fullCardData?.oracleId,
+                printingId: cardData.printingId,
                 name: fullCardData?.name || cardData.cardId.replace(/-/g, ' '),
                 type: fullCardData?.type || 'Unknown',
                 manaCost: fullCardData?.manaCost || '',
@@ -184,6 +186,8 @@ export default function DeckBuilder() {
               const fullCardData = cardDataMap[cardData.cardId];
               convertedCards.push({
                 id: cardData.cardId,
+                oracleId: cardData.oracleId || fullCardData?.oracleId,
+                printingId: cardData.printingId,
                 name: fullCardData?.name || cardData.cardId.replace(/-/g, ' '),
                 type: fullCardData?.type || 'Unknown',
                 manaCost: fullCardData?.manaCost || '',
@@ -200,6 +204,30 @@ export default function DeckBuilder() {
             }
           }
           
+          // Load commanders
+          if (deckData.commanderCards && Array.isArray(deckData.commanderCards)) {
+            for (const cardData of deckData.commanderCards) {
+              const fullCardData = cardDataMap[cardData.cardId];
+              convertedCards.push({
+                id: cardData.cardId,
+                oracleId: cardData.oracleId || fullCardData?.oracleId,
+                printingId: cardData.printingId,
+                name: fullCardData?.name || cardData.cardId.replace(/-/g, ' '),
+                type: fullCardData?.type || 'Unknown',
+                manaCost: fullCardData?.manaCost || '',
+                quantity: cardData.quantity,
+                section: 'commander' as const,
+                colors: fullCardData?.colors || [],
+                colorIdentity: fullCardData?.colorIdentity || [],
+                cmc: fullCardData?.cmc || 0,
+                rarity: fullCardData?.rarity || '',
+                set: fullCardData?.set || '',
+                setName: fullCardData?.setName || '',
+                imageUrl: fullCardData?.imageUrl || '',
+              });
+            }
+          }
+          
           setDeckCards(convertedCards);
           sessionStorage.removeItem('deckBuilderData');
           
@@ -227,17 +255,20 @@ export default function DeckBuilder() {
     return response.json();
   };
 
-  // Debounced search
+  // Debounced search using the card query syntax, restricted to the selected format
   useEffect(() => {
     if (!searchQuery.trim()) {
       setSearchResults([]);
+      setSearchSyntaxError(null);
       return;
     }
 
     const timer = setTimeout(async () => {
       setIsSearching(true);
       try {
-        const results = await searchCards(searchQuery);
+        // Limited has no legality data, so don't restrict by format there
+        const results = await searchCardsByQuery(searchQuery, currentFormat.legalityKey === null ? {} : { format });
+        setSearchSyntaxError(null);
         
         // Deduplicate results by card name and prioritize exact matches
         const uniqueResults = Array.from(
@@ -252,6 +283,11 @@ export default function DeckBuilder() {
         
         setSearchResults(uniqueResults);
       } catch (error) {
+        if (error instanceof CardQuerySyntaxError) {
+          setSearchResults([]);
+          setSearchSyntaxError(error);
+          return;
+        }
         toast({
           title: "Search Error",
           description: "Failed to search for cards",
@@ -265,6 +301,50 @@ export default function DeckBuilder() {
     return () => clearTimeout(timer);
   }, [searchQuery, format, toast]);
 
+  // Check the deck against the format's rules on the server whenever it changes
+  useEffect(() => {
+    if (deckCards.length === 0) {
+      setValidation(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setIsValidating(true);
+      try {
+        const response = await fetch('/api/decks/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            format,
+            deckCards: deckCards.filter(c => c.section === 'maindeck').map(toDeckCardEntry),
+            sideboardCards: deckCards.filter(c => c.section === 'sideboard').map(toDeckCardEntry),
+            commanderCards: deckCards.filter(c => c.section === 'commander').map(toDeckCardEntry),
+          }),
+        });
+        const result = await response.json();
+        if (result.success) {
+          setValidation(result.validation);
+        }
+      } catch (error) {
+        console.error('Error validating deck:', error);
+      } finally {
+        setIsValidating(false);
+      }
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [deckCards, format]);
+
+  // Cards named by a rule violation, outlined in the deck list
+  const violatingCardIds = new Set(
+    (validation?.violations ?? [])
+      .filter(violation => violation.severity === 'error' && violation.oracleId)
+      .map(violation => violation.oracleId!)
+  );
+  const cardBorderClass = (card: DeckCard) => card.oracleId && violatingCardIds.has(card.oracleId)
+    ? 'border-red-500 hover:border-red-600'
+    : 'border-gray-300 hover:border-blue-500';
+
   // Add card to deck
   const addCardToDeck = (card: MTGCard, section: 'maindeck' | 'sideboard' | 'commander' = 'maindeck') => {
     const existingCardIndex = deckCards.findIndex(
@@ -273,7 +353,7 @@ export default function DeckBuilder() {
 
     if (existingCardIndex >= 0) {
       const maxCopies = section === 'commander' ? 1 : currentFormat.maxCopies;
-      if (deckCards[existingCardIndex].quantity >= maxCopies) {
+      if (maxCopies !== null && deckCards[existingCardIndex].quantity >= maxCopies) {
         toast({
           title: "Copy Limit Reached",
           description: `Maximum ${maxCopies} copies allowed in ${format}`,
@@ -475,9 +555,10 @@ export default function DeckBuilder() {
         name: deckName,
         description: deckDescription,
         format,
-        deckCards: deckCards.filter(c => c.section === 'maindeck').map(c => ({ cardId: c.id, quantity: c.quantity })),
-        sideboardCards: deckCards.filter(c => c.section === 'sideboard').map(c => ({ cardId: c.id, quantity: c.quantity })),
+        deckCards: deckCards.filter(c => c.section === 'maindeck').map(toDeckCardEntry),
+        sideboardCards: deckCards.filter(c => c.section === 'sideboard').map(toDeckCardEntry),
         commander: deckCards.find(c => c.section === 'commander')?.name,
+        commanderCards: deckCards.filter(c => c.section === 'commander').map(toDeckCardEntry),
         isPublic: isPublic,
         tags: []
       };
@@ -707,9 +788,9 @@ export default function DeckBuilder() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.keys(FORMATS).map(formatName => (
-                      <SelectItem key={formatName} value={formatName}>
-                        {formatName}
+                    {FORMATS.map(option => (
+                      <SelectItem key={option.id} value={option.name}>
+                        {option.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -797,6 +878,14 @@ export default function DeckBuilder() {
                 </Button>
               )}
             </div>
+
+            {/* Format legality, checked by the server */}
+            {deckCards.length > 0 && (
+              <>
+                <Separator />
+                <DeckValidationPanel validation={validation} isLoading={isValidating} />
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -877,11 +966,15 @@ export default function DeckBuilder() {
           <CardContent>
             <div className="space-y-4">
               <Input
-                placeholder="Search for cards..."
+                placeholder='Search cards, e.g. t:creature cmc<=3 c:g'
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
               
+              {searchSyntaxError && (
+                <CardQueryError query={searchQuery} error={searchSyntaxError} />
+              )}
+              
               <ScrollArea className="h-96">
                 {isSearching ? (
                   <div className="text-center py-4">Searching...</div>
@@ -930,7 +1023,7 @@ export default function DeckBuilder() {
                               >
                                 <Plus className="h-3 w-3" />
                               </Button>
-                              {currentFormat.allowsSideboard && (
+                              {allowsSideboard && (
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -942,7 +1035,7 @@ export default function DeckBuilder() {
                                   SB
                                 </Button>
                               )}
-                              {currentFormat.requiresCommander && (
+                              {requiresCommander && (
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -960,7 +1053,7 @@ export default function DeckBuilder() {
                       </div>
                     ))}
                   </div>
-                ) : searchQuery ? (
+                ) : searchQuery && !searchSyntaxError ? (
                   <div className="text-center py-4 text-muted-foreground">
                     <div className="text-sm">No cards found matching "{searchQuery}"</div>
                     <div className="text-xs mt-1">in {format} format</div>
@@ -1001,12 +1094,12 @@ export default function DeckBuilder() {
                 <TabsTrigger value="maindeck">
                   Maindeck ({sortedDeckCards('maindeck').reduce((sum, card) => sum + card.quantity, 0)})
                 </TabsTrigger>
-                {currentFormat.allowsSideboard && (
+                {allowsSideboard && (
                   <TabsTrigger value="sideboard">
                     Sideboard ({sortedDeckCards('sideboard').reduce((sum, card) => sum + card.quantity, 0)})
                   </TabsTrigger>
                 )}
-                {currentFormat.requiresCommander && (
+                {requiresCommander && (
                   <TabsTrigger value="commander">
                     Commander ({sortedDeckCards('commander').length})
                   </TabsTrigger>
@@ -1021,7 +1114,7 @@ export default function DeckBuilder() {
                         <img
                           src={card.imageUrl || `https://gatherer.wizards.com/Handlers/Image.ashx?name=${encodeURIComponent(card.name)}&type=card`}
                           alt={card.name}
-                          className="w-full h-auto rounded-lg border-2 border-gray-300 hover:border-blue-500 transition-colors cursor-pointer shadow-lg"
+                          className={`w-full h-auto rounded-lg border-2 ${cardBorderClass(card)} transition-colors cursor-pointer shadow-lg`}
                           onError={(e) => {
                             const target = e.target as HTMLImageElement;
                             target.src = `https://api.scryfall.com/cards/named?exact=${encodeURIComponent(card.name)}&format=image&version=normal`;
@@ -1059,7 +1152,7 @@ export default function DeckBuilder() {
                 </div>
               </TabsContent>
 
-              {currentFormat.allowsSideboard && (
+              {allowsSideboard && (
                 <TabsContent value="sideboard" className="flex-1 overflow-auto">
                   <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 p-4">
                     {sortedDeckCards('sideboard').map(card => (
@@ -1068,7 +1161,7 @@ export default function DeckBuilder() {
                           <img
                             src={card.imageUrl || `https://gatherer.wizards.com/Handlers/Image.ashx?name=${encodeURIComponent(card.name)}&type=card`}
                             alt={card.name}
-                            className="w-full h-auto rounded-lg border-2 border-gray-300 hover:border-blue-500 transition-colors cursor-pointer shadow-lg"
+                            className={`w-full h-auto rounded-lg border-2 ${cardBorderClass(card)} transition-colors cursor-pointer shadow-lg`}
                             onError={(e) => {
                               const target = e.target as HTMLImageElement;
                               target.src = `https://api.scryfall.com/cards/named?exact=${encodeURIComponent(card.name)}&format=image&version=normal`;
@@ -1107,7 +1200,7 @@ export default function DeckBuilder() {
                 </TabsContent>
               )}
 
-              {currentFormat.requiresCommander && (
+              {requiresCommander && (
                 <TabsContent value="commander" className="flex-1 overflow-auto">
                   <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 p-4">
                     {sortedDeckCards('commander').map(card => (
@@ -19,6 +19,8 @@ import {
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { formatManaCostDisplay } from '@/utils/mana-cost';
+import DeckValidationPanel from '@/components/deck-validation-panel';
+import { DeckValidationResult } from '@/types/deck';
 
 interface DeckCard {
   id: string;
@@ -61,6 +63,7 @@ interface DeckWithDetails {
   sideboardCount: number;
   deckData?: any;
   sideboardData?: any;
+  commanderData?: any; // Commanders by reference, including a partner or background
 }
 
 export default function DeckView() {
@@ -83,6 +86,12 @@ export default function DeckView() {
     enabled: !!deckId,
   });
 
+  // Format legality, checked by the server
+  const { data: validationResponse, isLoading: isValidationLoading } = useQuery<{ success: boolean; validation: DeckValidationResult }>({
+    queryKey: [`/api/decks/${deckId}/validation`],
+    enabled: !!deck,
+  });
+
   // Load deck cards when deck data is available
   useEffect(() => {
     if (!deck) return;
@@ -99,6 +108,9 @@ export default function DeckView() {
         if (deck.sideboardData && Array.isArray(deck.sideboardData)) {
           deck.sideboardData.forEach((card: any) => cardIds.add(card.cardId));
         }
+        
+        const commanderData = Array.isArray(deck.commanderData) ? deck.commanderData : [];
+        commanderData.forEach((card: any) => cardIds.add(card.cardId));
 
         // Fetch card data for all unique card IDs
         const cardDataMap: Record<string, any> = {};
@@ -169,8 +181,28 @@ export default function DeckView() {
           }
         }
 
-        // Add commander if specified
-        if (deck.commander) {
+        // Add commanders, by reference when saved that way
+        for (const cardData of commanderData) {
+          const fullCardData = cardDataMap[cardData.cardId];
+          convertedCards.push({
+            id: cardData.cardId,
+            name: fullCardData?.name || cardData.cardId.replace(/-/g, ' '),
+            type: fullCardData?.type || 'Legendary Creature',
+            manaCost: fullCardData?.manaCost || '',
+            quantity: 1,
+            section: 'commander' as const,
+            colors: fullCardData?.colors || [],
+            colorIdentity: fullCardData?.colorIdentity || [],
+            cmc: fullCardData?.cmc || 0,
+            rarity: fullCardData?.rarity || '',
+            set: fullCardData?.set || '',
+            setName: fullCardData?.setName || '',
+            imageUrl: fullCardData?.imageUrl || '',
+          });
+        }
+        
+        // Otherwise the commander's name
+        if (commanderData.length === 0 && deck.commander) {
           const commanderCard = cardDataMap[deck.commander] || {
             name: deck.commander.replace(/-/g, ' '),
             type: 'Legendary Creature',
@@ -413,6 +445,13 @@ export default function DeckView() {
         </Card>
       )}
 
+      {/* Format legality */}
+      <Card>
+        <CardContent className="pt-6">
+          <DeckValidationPanel validation={validationResponse?.validation} isLoading={isValidationLoading} />
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Statistics Card - 1/3 width */}
         <Card className="lg:col-span-1">
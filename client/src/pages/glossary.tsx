@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useRoute } from 'wouter';
+import { Input } from '@/components/ui/input';
+import { RuleText, glossaryHref, glossaryName } from '@/components/rule-text';
+import type { GlossaryTerm } from '@/types/glossary';
+
+/**
+ * The comprehensive rules' glossary, filterable, with a term's link (/glossary/permanent)
+ * scrolling to and highlighting it
+ */
+export default function GlossaryPage() {
+  const [, params] = useRoute('/glossary/:term?');
+  const selected = params?.term ? decodeURIComponent(params.term).toLowerCase() : '';
+  const [filter, setFilter] = useState('');
+
+  const { data: terms = [], isLoading, error } = useQuery<GlossaryTerm[]>({ queryKey: ['/api/glossary'] });
+
+  useEffect(() => {
+    if (selected && terms.length > 0) {
+      document.getElementById(`glossary-${selected}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [selected, terms.length]);
+
+  const needle = filter.trim().toLowerCase();
+  const shown = needle
+    ? terms.filter(term => term.term.toLowerCase().includes(needle) || term.definition.toLowerCase().includes(needle))
+    : terms;
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Glossary</h1>
+        <p className="text-muted-foreground">
+          The terms the <Link href="/rules" className="text-primary hover:underline">comprehensive rules</Link> use,
+          as the rules define them.
+        </p>
+        <Input placeholder="Filter terms and definitions..." value={filter} onChange={e => setFilter(e.target.value)} />
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-500 rounded-full border-t-transparent mx-auto mb-4"></div>
+          <p>Loading glossary...</p>
+        </div>
+      ) : error ? (
+        <p className="text-center text-red-500 py-8">The glossary couldn't be loaded. Please try again.</p>
+      ) : shown.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          {terms.length === 0 ? "The glossary hasn't been imported yet." : `No terms match "${filter}".`}
+        </p>
+      ) : (
+        <dl className="space-y-4">
+          {shown.map(term => {
+            const name = glossaryName(term);
+            return (
+              <div
+                key={term.id}
+                id={`glossary-${name}`}
+                className={`rounded-md p-2 ${name === selected ? 'bg-yellow-100 dark:bg-yellow-900/30' : ''}`}
+              >
+                <dt className="font-semibold">
+                  <Link href={glossaryHref(term)} className="hover:underline">{term.term}</Link>
+                </dt>
+                <dd className="leading-relaxed whitespace-pre-line">
+                  <RuleText text={term.definition} except={name} />
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      )}
+    </div>
+  );
+}
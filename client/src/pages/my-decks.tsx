@@ -108,6 +108,7 @@ export default function MyDecks() {
       commander: deck.commander || '',
       deckCards: (deck as any).deckData || [],
       sideboardCards: (deck as any).sideboardData || [],
+      commanderCards: (deck as any).commanderData || [],
       isPublic: deck.isPublic || false,
       tags: deck.tags || [],
       editingDeckId: deck.id, // Include the deck ID for updating
@@ -12,6 +12,7 @@ import {
   Layers
 } from 'lucide-react';
 import { Link } from 'wouter';
+import { getFormat } from '@shared/formats';
 
 interface PublicDeck {
   id: string;
@@ -60,17 +61,6 @@ export default function PublicDecks() {
     );
   }
 
-  const formatDisplayNames: Record<string, string> = {
-    'Standard': 'Standard',
-    'Pioneer': 'Pioneer', 
-    'Modern': 'Modern',
-    'Legacy': 'Legacy',
-    'Vintage': 'Vintage',
-    'Commander': 'Commander',
-    'Pauper': 'Pauper',
-    'Limited': 'Limited'
-  };
-
   return (
     <div className="container mx-auto p-6 space-y-8">
       {/* Header */}
@@ -91,7 +81,7 @@ export default function PublicDecks() {
               <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950/20 dark:to-purple-950/20">
                 <CardTitle className="flex items-center gap-3 text-2xl">
                   <Layers className="h-6 w-6" />
-                  {formatDisplayNames[formatSection.format] || formatSection.format}
+                  {getFormat(formatSection.format)?.name ?? formatSection.format}
                   <Badge variant="secondary" className="ml-auto">
                     {formatSection.decks.length} deck{formatSection.decks.length !== 1 ? 's' : ''}
                   </Badge>
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ruleHref } from '@/components/rule-text';
+import type { RuleChange, RulesDiff, RulesVersionSummary } from '@shared/rules-versions';
+
+type ChangeFilter = 'all' | RuleChange['type'];
+
+const FILTERS: { value: ChangeFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'added', label: 'Added' },
+  { value: 'removed', label: 'Removed' },
+  { value: 'reworded', label: 'Reworded' },
+];
+
+function versionLabel(version: RulesVersionSummary) {
+  const date = version.effectiveDate
+    ? new Date(`${version.effectiveDate}T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })
+    : `Undated (#${version.id})`;
+  return `${date} · ${version.ruleCount} rules`;
+}
+
+function diffUrl(from: string, to: string) {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const query = params.toString();
+  return query ? `/api/rules/diff?${query}` : '/api/rules/diff';
+}
+
+// A reworded rule's text, with the words taken out struck through and those put in highlighted
+function RuleChangeText({ change }: { change: RuleChange }) {
+  if (change.type === 'added') {
+    return <p className="leading-relaxed bg-green-100 dark:bg-green-900/30 rounded px-1">{change.after}</p>;
+  }
+  if (change.type === 'removed') {
+    return <p className="leading-relaxed line-through text-red-700 dark:text-red-400">{change.before}</p>;
+  }
+  return (
+    <p className="leading-relaxed">
+      {(change.words ?? []).map((part, i) => (
+        <span key={i}>
+          {i > 0 && ' '}
+          {part.type === 'added' ? (
+            <ins className="no-underline bg-green-100 dark:bg-green-900/30 rounded px-0.5">{part.text}</ins>
+          ) : part.type === 'removed' ? (
+            <del className="text-red-700 dark:text-red-400">{part.text}</del>
+          ) : (
+            part.text
+          )}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * What changed in the comprehensive rules between two imported releases, by default the latest
+ * and the one before it
+ */
+export default function RulesChangesPage() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [filter, setFilter] = useState<ChangeFilter>('all');
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery<RulesVersionSummary[]>({
+    queryKey: ['/api/rules/versions'],
+  });
+  const { data: diff, isLoading: diffLoading, error } = useQuery<RulesDiff>({
+    queryKey: [diffUrl(from, to)],
+    enabled: versions.length > 1,
+  });
+
+  const shown = diff ? diff.changes.filter(change => filter === 'all' || change.type === filter) : [];
+  const counts: Record<ChangeFilter, number> = diff
+    ? { all: diff.changes.length, added: diff.added, removed: diff.removed, reworded: diff.reworded }
+    : { all: 0, added: 0, removed: 0, reworded: 0 };
+
+  const versionSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-1">
+      <span className="text-sm font-medium">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Choose a release" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map(version => (
+            <SelectItem key={version.id} value={String(version.id)}>{versionLabel(version)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (versionsLoading || diffLoading) {
+      return (
+        <div className="text-center py-8">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-500 rounded-full border-t-transparent mx-auto mb-4"></div>
+          <p>Comparing releases...</p>
+        </div>
+      );
+    }
+    if (versions.length < 2) {
+      return (
+        <p className="text-center text-muted-foreground py-8">
+          {versions.length === 0
+            ? "No comprehensive rules release has been imported yet."
+            : "Only one comprehensive rules release has been imported, so there's nothing to compare it with yet."}
+        </p>
+      );
+    }
+    if (error || !diff) {
+      return <p className="text-center text-red-500 py-8">The releases couldn't be compared. Please try again.</p>;
+    }
+    if (shown.length === 0) {
+      return (
+        <p className="text-center text-muted-foreground py-8">
+          {diff.changes.length === 0 ? 'The two releases have the same rules.' : 'No rules changed this way.'}
+        </p>
+      );
+    }
+    return (
+      <ul className="space-y-4">
+        {shown.map(change => (
+          <li key={change.ruleNumber} className="border-b pb-4 space-y-1">
+            <div className="flex items-center gap-2">
+              {change.type === 'removed' ? (
+                <span className="font-semibold">{change.ruleNumber}</span>
+              ) : (
+                <Link href={ruleHref(change.ruleNumber)} className="font-semibold text-primary hover:underline">
+                  {change.ruleNumber}
+                </Link>
+              )}
+              <Badge variant={change.type === 'removed' ? 'destructive' : 'secondary'} className="capitalize">
+                {change.type}
+              </Badge>
+            </div>
+            <RuleChangeText change={change} />
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">What changed</h1>
+        <p className="text-muted-foreground">
+          The <Link href="/rules" className="text-primary hover:underline">comprehensive rules</Link> added,
+          removed and reworded from one release to another.
+        </p>
+      </div>
+
+      {versions.length > 1 && (
+        <div className="flex flex-wrap items-end gap-4">
+          {versionSelect(from || (diff ? String(diff.from.id) : ''), setFrom, 'From')}
+          {versionSelect(to || (diff ? String(diff.to.id) : ''), setTo, 'To')}
+        </div>
+      )}
+
+      {diff && (
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={filter === option.value ? 'default' : 'outline'}
+              onClick={() => setFilter(option.value)}
+            >
+              {option.label} ({counts[option.value]})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {renderContent()}
+    </div>
+  );
+}
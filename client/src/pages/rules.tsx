@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useRoute } from 'wouter';
+import { BookOpen, BookText, ChevronDown, ChevronLeft, ChevronRight, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { RuleText, ruleHref } from '@/components/rule-text';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import type { RuleGraph, RuleNavigation, RuleSummary, RulesTocChapter } from '@shared/rule-numbers';
+
+function entryLabel(entry: RuleSummary) {
+  if (entry.level === 'rule' || entry.level === 'subrule') return entry.number;
+  return entry.title ? `${entry.number}. ${entry.title}` : `Section ${entry.number}`;
+}
+
+function RuleExamples({ examples }: { examples: string[] }) {
+  return (
+    <>
+      {examples.map((example, i) => (
+        <p key={i} className="mt-2 border-l-2 pl-3 text-sm italic text-muted-foreground">
+          <span className="font-semibold not-italic">Example:</span> <RuleText text={example} />
+        </p>
+      ))}
+    </>
+  );
+}
+
+function RuleLinks({ label, rules }: { label: string; rules: RuleSummary[] }) {
+  if (rules.length === 0) return null;
+  return (
+    <div>
+      <p className="font-semibold mb-1">{label}</p>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {rules.map(rule => (
+          <Link key={rule.number} href={ruleHref(rule.number)} className="font-mono text-primary hover:underline" title={rule.title}>
+            {rule.number}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Chapters → sections → rules, opened at the rule being read
+ */
+function RulesToc({ ruleNumber }: { ruleNumber: string }) {
+  const { data: chapters = [], isLoading } = useQuery<RulesTocChapter[]>({ queryKey: ['/api/rules/toc'] });
+  const [open, setOpen] = useState<Set<string>>(new Set());
+
+  // Open the chapter and section of each rule navigated to
+  useEffect(() => {
+    if (!ruleNumber) return;
+    setOpen(current => new Set(Array.from(current).concat(ruleNumber.charAt(0), ruleNumber.slice(0, 3))));
+  }, [ruleNumber]);
+
+  const toggle = (number: string, isOpen: boolean) => setOpen(current => {
+    const next = new Set(current);
+    if (isOpen) next.add(number); else next.delete(number);
+    return next;
+  });
+
+  // The rule the reader is on, or the rule above the subrule it's on
+  const currentRule = ruleNumber.replace(/[a-z]$/, '');
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground p-2">Loading contents...</p>;
+  }
+
+  return (
+    <nav className="space-y-1 text-sm">
+      {chapters.map(chapter => (
+        <Collapsible key={chapter.number} open={open.has(chapter.number)} onOpenChange={isOpen => toggle(chapter.number, isOpen)}>
+          <CollapsibleTrigger className="flex w-full items-center gap-1 rounded px-1 py-1 text-left font-semibold hover:bg-muted">
+            {open.has(chapter.number) ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+            {entryLabel(chapter)}
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pl-4 space-y-1">
+            {chapter.sections.map(section => (
+              <Collapsible key={section.number} open={open.has(section.number)} onOpenChange={isOpen => toggle(section.number, isOpen)}>
+                <div className="flex items-center gap-1">
+                  <CollapsibleTrigger className="rounded p-0.5 hover:bg-muted" aria-label={`Toggle ${section.number}`}>
+                    {open.has(section.number) ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                  </CollapsibleTrigger>
+                  <Link
+                    href={ruleHref(section.number)}
+                    className={`flex-1 truncate rounded px-1 py-0.5 hover:bg-muted ${section.number === ruleNumber ? 'bg-muted font-medium' : ''}`}
+                  >
+                    {entryLabel(section)}
+                  </Link>
+                </div>
+                <CollapsibleContent className="pl-6">
+                  {section.rules.map(rule => (
+                    <Link
+                      key={rule.number}
+                      href={ruleHref(rule.number)}
+                      className={`block truncate rounded px-1 py-0.5 hover:bg-muted ${rule.number === currentRule ? 'bg-muted font-medium' : 'text-muted-foreground'}`}
+                      title={rule.title}
+                    >
+                      <span className="font-mono text-xs mr-1">{rule.number}</span>
+                      {rule.title}
+                    </Link>
+                  ))}
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
+    </nav>
+  );
+}
+
+/**
+ * The comprehensive rules, read like the document: a table of contents and one chapter, section
+ * or rule at a time with its subrules. A subrule's link (/rules/702.19b) opens its rule at it.
+ */
+export default function RulesPage() {
+  const [, params] = useRoute('/rules/:ruleNumber?');
+  const ruleNumber = params?.ruleNumber ?? '';
+
+  const { data: navigation, isLoading, error } = useQuery<RuleNavigation>({
+    queryKey: [`/api/rules/${ruleNumber}/navigation`],
+    enabled: !!ruleNumber,
+    retry: false,
+  });
+
+  // A subrule is shown in place among its rule's other subrules
+  const shownNumber = navigation?.entry.level === 'subrule' && navigation.parent ? navigation.parent.number : ruleNumber;
+  const { data: shown } = useQuery<RuleNavigation>({
+    queryKey: [`/api/rules/${shownNumber}/navigation`],
+    enabled: !!navigation,
+  });
+
+  // The rules a rule refers to and that refer to it; a whole section's or chapter's would be too many
+  const { data: graph } = useQuery<RuleGraph>({
+    queryKey: [`/api/rules/${ruleNumber}/graph`],
+    enabled: navigation?.entry.level === 'rule' || navigation?.entry.level === 'subrule',
+  });
+
+  useEffect(() => {
+    if (shown && ruleNumber !== shownNumber) {
+      document.getElementById(ruleNumber)?.scrollIntoView({ block: 'center' });
+    } else {
+      window.scrollTo({ top: 0 });
+    }
+  }, [shown, ruleNumber, shownNumber]);
+
+  const renderContent = () => {
+    if (!ruleNumber) {
+      return (
+        <div className="space-y-3">
+          <h1 className="text-3xl font-bold">Comprehensive Rules</h1>
+          <p className="text-muted-foreground">
+            The official Magic: The Gathering rules. Choose a chapter or section from the contents, or link
+            straight to a rule, e.g. <Link href={ruleHref('702.19b')} className="text-primary hover:underline">/rules/702.19b</Link>.
+            Terms the <Link href="/glossary" className="text-primary hover:underline">glossary</Link> defines
+            are underlined in the rules; hover over one for its definition.
+          </p>
+        </div>
+      );
+    }
+
+    if (isLoading || (navigation && !shown)) {
+      return (
+        <div className="text-center py-8">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-500 rounded-full border-t-transparent mx-auto mb-4"></div>
+          <p>Loading rule...</p>
+        </div>
+      );
+    }
+
+    if (error || !navigation || !shown) {
+      return (
+        <div className="text-center py-8 space-y-4">
+          <p className="text-red-500">Rule {ruleNumber} not found</p>
+          <Button variant="outline" asChild>
+            <Link href="/rules">Back to contents</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    const { entry } = shown;
+    const isHeading = entry.level === 'chapter' || entry.level === 'section';
+
+    return (
+      <div className="space-y-6">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link href="/rules">Rules</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            {navigation.breadcrumbs.map(crumb => (
+              <React.Fragment key={crumb.number}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbLink asChild>
+                    <Link href={ruleHref(crumb.number)}>{entryLabel(crumb)}</Link>
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+              </React.Fragment>
+            ))}
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{entryLabel(navigation.entry)}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold">{isHeading ? entryLabel(entry) : <>Rule {entry.number}</>}</h1>
+          {entry.text ? (
+            <p id={entry.number} className="leading-relaxed"><RuleText text={entry.text} /></p>
+          ) : !isHeading && (
+            <p className="text-muted-foreground">This rule's own text wasn't imported; its subrules follow.</p>
+          )}
+          <RuleExamples examples={entry.examples} />
+        </div>
+
+        {shown.children.length > 0 && (
+          <div className="space-y-3">
+            {shown.children.map(child => (
+              <div
+                key={child.number}
+                id={child.number}
+                className={`rounded-md p-2 leading-relaxed ${child.number === ruleNumber ? 'bg-yellow-100 dark:bg-yellow-900/30' : ''}`}
+              >
+                <Link href={ruleHref(child.number)} className="font-mono font-semibold text-primary hover:underline mr-2">
+                  {child.number}
+                </Link>
+                {child.level === 'section' ? child.title : child.text ? <RuleText text={child.text} /> : child.title}
+                <RuleExamples examples={child.examples} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {graph && (graph.outbound.length > 0 || graph.inbound.length > 0) && (
+          <div className="space-y-2 text-sm">
+            <RuleLinks label={`${entryLabel(navigation.entry)} refers to`} rules={graph.outbound} />
+            <RuleLinks label="Referred to by" rules={graph.inbound} />
+          </div>
+        )}
+
+        {/* Its siblings, for moving across a section or rule without the contents */}
+        {navigation.parent && navigation.siblings.length > 1 && navigation.entry.level !== 'subrule' && (
+          <div className="text-sm">
+            <p className="font-semibold mb-1">Also in {entryLabel(navigation.parent)}</p>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {navigation.siblings.map(sibling => sibling.number === ruleNumber ? (
+                <span key={sibling.number} className="font-mono font-semibold">{sibling.number}</span>
+              ) : (
+                <Link key={sibling.number} href={ruleHref(sibling.number)} className="font-mono text-primary hover:underline" title={sibling.title}>
+                  {sibling.number}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2 border-t pt-4">
+          {navigation.previous ? (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={ruleHref(navigation.previous.number)}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                {entryLabel(navigation.previous)}
+              </Link>
+            </Button>
+          ) : <span />}
+          {navigation.next && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={ruleHref(navigation.next.number)}>
+                {entryLabel(navigation.next)}
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="grid gap-6 md:grid-cols-[320px_1fr]">
+        <aside className="md:sticky md:top-20 md:self-start max-h-[40vh] md:max-h-[calc(100vh-6rem)] overflow-y-auto border rounded-md p-2">
+          <h2 className="flex items-center gap-2 px-1 pb-2 font-semibold">
+            <BookOpen className="h-4 w-4" />
+            Contents
+          </h2>
+          <RulesToc ruleNumber={ruleNumber} />
+          <Link href="/glossary" className="mt-2 flex items-center gap-2 rounded border-t px-1 pt-2 text-sm font-semibold hover:bg-muted">
+            <BookText className="h-4 w-4" />
+            Glossary
+          </Link>
+          <Link href="/rules/changes" className="mt-1 flex items-center gap-2 rounded px-1 py-1 text-sm font-semibold hover:bg-muted">
+            <History className="h-4 w-4" />
+            What changed
+          </Link>
+        </aside>
+        <main className="min-w-0">{renderContent()}</main>
+      </div>
+    </div>
+  );
+}
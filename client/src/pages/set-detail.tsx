@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useRoute } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CardImageDisplay } from '@/components/ui/card-display';
+import { ArrowLeft, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card, MtgSet } from '@/types/card';
+import { formatSetType, getSetIconUrl } from '@/lib/utils';
+
+interface SetDetail extends MtgSet {
+  childSets: MtgSet[];
+}
+
+interface SetCardsPage {
+  cards: Card[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export default function SetDetailPage() {
+  const [, params] = useRoute('/sets/:code');
+  const code = params?.code ?? '';
+  const [page, setPage] = useState(1);
+
+  const { data: set, isLoading: isSetLoading, error: setError } = useQuery<SetDetail>({
+    queryKey: [`/api/sets/${code}`],
+    enabled: !!code,
+    retry: false,
+  });
+
+  const { data: cardsPage, isLoading: isCardsLoading } = useQuery<SetCardsPage>({
+    queryKey: [`/api/sets/${code}/cards?page=${page}`],
+    enabled: !!set,
+  });
+
+  if (isSetLoading) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="text-center py-8">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-500 rounded-full border-t-transparent mx-auto mb-4"></div>
+          <p>Loading set...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (setError || !set) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="text-center py-8 space-y-4">
+          <p className="text-red-500">Set not found</p>
+          <Button variant="outline" asChild>
+            <Link href="/sets">Back to sets</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const totalPages = cardsPage?.totalPages ?? 1;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/sets">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All sets
+        </Link>
+      </Button>
+
+      {/* Set header */}
+      <div className="flex items-start gap-4">
+        <img
+          src={getSetIconUrl(set)}
+          alt=""
+          className="h-14 w-14 shrink-0 dark:invert"
+          onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+        />
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">{set.name}</h1>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+            <Badge variant="outline" className="font-mono">{set.code}</Badge>
+            <span className="capitalize">{formatSetType(set.type)}</span>
+            {set.block && <span>{set.block} block</span>}
+            {set.releaseDate && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                {set.releaseDate}
+              </span>
+            )}
+            <span>{cardsPage?.total ?? set.cardCount ?? 0} cards</span>
+          </div>
+          {set.parentCode && (
+            <p className="text-sm">
+              Part of <Link href={`/sets/${set.parentCode}`} className="text-primary hover:underline">{set.parentCode}</Link>
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Related sets (promos, tokens, commander decks, ...) */}
+      {set.childSets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {set.childSets.map((child) => (
+            <Button key={child.code} variant="outline" size="sm" asChild>
+              <Link href={`/sets/${child.code}`}>
+                {child.name}
+              </Link>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Cards, ordered by collector number */}
+      {isCardsLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-500 rounded-full border-t-transparent mx-auto mb-4"></div>
+          <p>Loading cards...</p>
+        </div>
+      ) : cardsPage && cardsPage.cards.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+          {cardsPage.cards.map((card) => (
+            <div key={card.printingId || card.id} className="space-y-1">
+              <CardImageDisplay card={card} className="w-full aspect-[5/7]" />
+              <p className="text-xs text-muted-foreground line-clamp-1">
+                #{card.number} {card.name}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>No cards have been loaded for this set yet</p>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
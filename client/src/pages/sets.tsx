@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Calendar, Library } from 'lucide-react';
+import { MtgSet } from '@/types/card';
+import { formatSetType, getSetIconUrl } from '@/lib/utils';
+
+const SET_TYPES = [
+  'expansion',
+  'core',
+  'masters',
+  'draft_innovation',
+  'commander',
+  'funny',
+  'starter',
+  'box',
+  'promo',
+  'token',
+  'memorabilia',
+];
+
+const SORT_OPTIONS: Record<string, { label: string; sort: string; order: string }> = {
+  newest: { label: 'Newest first', sort: 'releaseDate', order: 'desc' },
+  oldest: { label: 'Oldest first', sort: 'releaseDate', order: 'asc' },
+  name: { label: 'Name', sort: 'name', order: 'asc' },
+  size: { label: 'Largest first', sort: 'cardCount', order: 'desc' },
+};
+
+export default function SetsPage() {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [type, setType] = useState('all');
+  const [sortKey, setSortKey] = useState('newest');
+
+  // Debounce search input to prevent excessive API calls
+  useEffect(() => {
+    const handler = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(handler);
+  }, [search]);
+
+  const params = new URLSearchParams({
+    sort: SORT_OPTIONS[sortKey].sort,
+    order: SORT_OPTIONS[sortKey].order,
+  });
+  if (debouncedSearch) params.set('q', debouncedSearch);
+  if (type !== 'all') params.set('type', type);
+
+  const { data: sets = [], isLoading, error } = useQuery<MtgSet[]>({
+    queryKey: [`/api/sets?${params.toString()}`],
+  });
+
+  return (
+    <div className="container mx-auto p-6 space-y-8">
+      {/* Header */}
+      <div className="text-center space-y-4">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-[#4777e6] to-[#9c4dff] bg-clip-text text-transparent">
+          Set Gallery
+        </h1>
+        <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+          Browse every Magic: The Gathering set and the cards printed in it
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <Input
+          type="text"
+          placeholder="Search by set name or code"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="md:flex-1"
+        />
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue placeholder="Set type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All set types</SelectItem>
+            {SET_TYPES.map((setType) => (
+              <SelectItem key={setType} value={setType} className="capitalize">
+                {formatSetType(setType)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortKey} onValueChange={setSortKey}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+              <SelectItem key={key} value={key}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-500 rounded-full border-t-transparent mx-auto mb-4"></div>
+          <p>Loading sets...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-8">
+          <p className="text-red-500">Failed to load sets</p>
+        </div>
+      ) : sets.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {sets.map((set) => (
+            <Link key={set.code} href={`/sets/${set.code}`}>
+              <Card className="h-full hover:shadow-md transition-shadow cursor-pointer">
+                <CardContent className="p-4 flex items-start gap-4">
+                  <img
+                    src={getSetIconUrl(set)}
+                    alt=""
+                    className="h-10 w-10 shrink-0 dark:invert"
+                    onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+                  />
+                  <div className="min-w-0 space-y-1">
+                    <h3 className="font-semibold line-clamp-1">{set.name}</h3>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline" className="font-mono">{set.code}</Badge>
+                      <span className="capitalize">{formatSetType(set.type)}</span>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      {set.releaseDate && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {set.releaseDate}
+                        </span>
+                      )}
+                      <span>{set.cardCount ?? 0} cards</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Library className="h-16 w-16 mx-auto mb-6 opacity-50" />
+          <h2 className="text-2xl font-semibold mb-2">No Sets Found</h2>
+          <p className="text-muted-foreground">
+            {debouncedSearch || type !== 'all'
+              ? 'Try a different search or set type.'
+              : 'Set data is loaded with the card database from the admin page.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -36,6 +36,50 @@ export interface Card {
   originalType?: string;
   legalities?: Record<string, string>;
   variations?: string[];
+  score?: number; // Search relevance, present on text search results
+  oracleId?: string; // Gameplay identity shared by every printing
+  printingId?: string; // The printing shown for this card
+  prints?: CardPrint[];
+}
+
+export interface CardPrint {
+  id: string;
+  cardId?: string;
+  set: string;
+  setName?: string;
+  number?: string;
+  artist?: string;
+  rarity?: string;
+  imageUrl?: string;
+  releaseDate?: string;
+}
+
+export interface CardHistoryEntry {
+  id: number;
+  field: 'text' | 'type' | 'legality';
+  format: string | null; // Set for legality changes
+  previousValue: string | null;
+  newValue: string | null;
+  sourceVersion: string | null;
+  changedAt: string;
+}
+
+export interface CardHistory {
+  cardId: string;
+  oracleId: string;
+  name: string;
+  history: CardHistoryEntry[];
+}
+
+export interface MtgSet {
+  code: string;
+  name: string;
+  releaseDate?: string | null;
+  type?: string | null;
+  block?: string | null;
+  parentCode?: string | null;
+  cardCount?: number | null;
+  iconCode?: string | null;
 }
 
 export interface AIRulingRequest {
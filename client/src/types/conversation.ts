@@ -0,0 +1,65 @@
+import type { StructuredRuling } from "@shared/ruling-answer";
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt?: string;
+  cancelled?: boolean; // Stopped mid-stream; the content is partial
+  structured?: StructuredRuling; // The answer's sections, when the model answered in them
+  citations?: RulingCitation[];
+  detectedCards?: DetectedCard[]; // Cards recognized by name in a question
+  cached?: CachedRulingInfo; // An earlier answer to the same question, given again
+  feedback?: RulingFeedbackRating; // The asker's rating of an answer
+}
+
+export interface RulingFeedbackRating {
+  rating: 'up' | 'down';
+  correction: string | null;
+}
+
+export interface CachedRulingInfo {
+  rulingId: number;
+  answeredAt: string; // When the question was first answered
+}
+
+export interface DetectedCard {
+  id: string;
+  name: string;
+  mention: string; // As written in the question
+}
+
+// A rule or card cited in an answer; unverified ones don't exist in the database
+export interface RulingCitation {
+  type: 'rule' | 'card';
+  reference: string; // As written in the answer
+  verified: boolean;
+  ruleNumber?: string;
+  cardId?: string;
+  name?: string;
+  typeLine?: string;
+  text: string | null;
+  context: string;
+}
+
+export interface ConversationSummary {
+  id: number;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Conversation {
+  id: number;
+  title: string;
+  messages: ConversationMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response of POST /api/rulings/ask
+export interface RulingAnswer extends ConversationMessage {
+  conversationId: number;
+  title: string;
+  detectedCards?: DetectedCard[]; // Cards detected in the question
+}
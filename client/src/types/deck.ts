@@ -0,0 +1,21 @@
+export type DeckSection = 'maindeck' | 'sideboard' | 'commander';
+
+export interface DeckViolation {
+  code: string; // e.g. banned, too_many_copies, color_identity, companion_requirement
+  severity: 'error' | 'warning';
+  message: string;
+  cardName?: string;
+  oracleId?: string;
+  section?: DeckSection;
+  expected?: number;
+  actual?: number;
+}
+
+export interface DeckValidationResult {
+  format: string;
+  asOf: string; // Date banned and restricted status was evaluated on
+  legal: boolean;
+  counts: Record<DeckSection, number>;
+  companion: string | null;
+  violations: DeckViolation[];
+}
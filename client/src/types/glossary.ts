@@ -0,0 +1,6 @@
+export interface GlossaryTerm {
+  id: number;
+  term: string; // As the glossary writes it, e.g. "Mana Burn (Obsolete)"
+  definition: string; // Numbered meanings are on their own lines
+  ruleNumbers: string[]; // Rules the definition refers to
+}
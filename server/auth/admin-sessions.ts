@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+// How long an admin login lasts
+const ADMIN_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Token -> when it expires. Kept in memory, so a restart signs admins out.
+const adminSessions = new Map<string, number>();
+
+/**
+ * Start an admin session after a successful admin login, returning its token
+ */
+export function createAdminSession(): string {
+  const now = Date.now();
+  adminSessions.forEach((expiresAt, token) => {
+    if (expiresAt <= now) adminSessions.delete(token);
+  });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  adminSessions.set(token, now + ADMIN_SESSION_TTL_MS);
+  return token;
+}
+
+/**
+ * Whether the token belongs to an admin session that hasn't expired
+ */
+export function isAdminSession(token: string | undefined): boolean {
+  if (!token) return false;
+  const expiresAt = adminSessions.get(token);
+  if (expiresAt === undefined) return false;
+  if (expiresAt <= Date.now()) {
+    adminSessions.delete(token);
+    return false;
+  }
+  return true;
+}
@@ -1,8 +1,6 @@
-import OpenAI from "openai";
 import { storage } from "./storage";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { getFormat } from "@shared/formats";
+import { llmService } from "./llm/llm-service";
 
 interface DeckGenerationRequest {
   format: string;
@@ -118,32 +116,21 @@ export async function generateDeckSuggestion(request: DeckGenerationRequest): Pr
     
     Only include cards that exist in the official Magic: The Gathering card pool. Ensure the deck follows all format restrictions.`;
     
-    // Call the OpenAI API
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: "You are an expert Magic: The Gathering deck builder with deep knowledge of all cards and formats." },
-        { role: "user", content: prompt }
-      ],
-      temperature: 0.7,
-      response_format: { type: "json_object" }
-    });
-    
-    // Parse the response
-    const responseContent = response.choices[0].message.content;
-    if (!responseContent) {
-      throw new Error("Empty response from AI");
-    }
-    
-    const deckSuggestion = JSON.parse(responseContent) as DeckSuggestion;
+    // Ask the model for the deck as JSON
+    const deckSuggestion = await llmService.completeJson<DeckSuggestion>("deckGeneration", [
+      { role: "system", content: "You are an expert Magic: The Gathering deck builder with deep knowledge of all cards and formats." },
+      { role: "user", content: prompt }
+    ]);
     
-    // Validate card names against our database
+    // Validate card names against our database; formats without a legality key (Limited) allow any card
     const validatedCards: CardSuggestion[] = [];
+    const formatRules = getFormat(request.format);
+    const legalityKey = formatRules ? formatRules.legalityKey : request.format.toLowerCase();
     
     for (const card of deckSuggestion.cards) {
       try {
         // Search for each card in our database with format filtering
-        const searchResults = await storage.findCards(card.name, { format: request.format });
+        const searchResults = await storage.findCards(card.name, legalityKey === null ? {} : { format: request.format });
         
         if (searchResults && searchResults.length > 0) {
           // Find the exact match or closest match that's legal in the format
@@ -153,7 +140,7 @@ export async function generateDeckSuggestion(request: DeckGenerationRequest): Pr
           
           // Find a format-legal card from the results that matches the color identity
           const formatLegalCard = searchResults.find(card => {
-            if (!card.legalities) return false;
+            if (legalityKey !== null && !card.legalities) return false;
             
             // Parse legalities if needed
             const legalities = typeof card.legalities === 'string' 
@@ -161,8 +148,7 @@ export async function generateDeckSuggestion(request: DeckGenerationRequest): Pr
               : card.legalities;
               
             // Check if the card is legal in the requested format
-            const formatKey = request.format.toLowerCase();
-            const isLegal = legalities && (legalities[formatKey] === 'legal' || legalities[formatKey] === 'restricted');
+            const isLegal = legalityKey === null || (legalities && (legalities[legalityKey] === 'legal' || legalities[legalityKey] === 'restricted'));
             
             // Skip if not legal in format
             if (!isLegal) return false;
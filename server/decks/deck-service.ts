@@ -1,18 +1,18 @@
 
 import { db } from '../db';
-import { savedDecks, users, cards, type SavedDeck, type User } from '@shared/schema';
-import { eq, and, desc, ilike, or } from 'drizzle-orm';
+import { savedDecks, users, cards, oracleCards, printings, type SavedDeck, type User, type DeckCardEntry } from '@shared/schema';
+import { FORMATS, getFormat } from '@shared/formats';
+import { eq, and, desc, ilike, or, inArray } from 'drizzle-orm';
+import { validateDeck, type DeckValidationResult } from './deck-validation';
 
-interface DeckCardData {
-  cardId: string;
-  quantity: number;
-}
+type DeckCardData = DeckCardEntry;
 
 interface SaveDeckData {
   name: string;
   description?: string;
   format: string;
   commander?: string;
+  commanderCards?: DeckCardData[]; // All commanders by reference, for partners and backgrounds
   deckCards: DeckCardData[];
   sideboardCards?: DeckCardData[];
   isPublic?: boolean;
@@ -28,7 +28,54 @@ interface DeckWithDetails extends SavedDeck {
 }
 
 export class DeckService {
-  static async saveDeck(userId: string, deckData: SaveDeckData): Promise<{ success: boolean; deckId?: string; error?: string }> {
+  /**
+   * Every deck entry must reference a printing, an oracle card or a legacy card id
+   */
+  private static validateCardReferences(entries: DeckCardData[]): string | null {
+    const invalid = entries.find(entry => !entry.printingId && !entry.oracleId && !entry.cardId);
+    return invalid ? 'Each deck card must have a cardId, oracleId or printingId' : null;
+  }
+
+  /**
+   * Fill in cardId for entries that only reference an oracle card or printing, so
+   * readers that look cards up by cardId (via storage.getCard) keep working
+   */
+  private static normalizeCardReferences(entries: DeckCardData[]): DeckCardData[] {
+    return entries.map(entry => ({
+      ...entry,
+      cardId: entry.cardId || entry.printingId || entry.oracleId,
+    }));
+  }
+
+  /**
+   * Log references that don't resolve. Don't fail - the cards might be from newer sets.
+   */
+  private static async warnAboutMissingCards(entries: DeckCardData[]): Promise<void> {
+    const printingIds = entries.filter(e => e.printingId).map(e => e.printingId!);
+    const oracleIds = entries.filter(e => !e.printingId && e.oracleId).map(e => e.oracleId!);
+    const cardIds = entries.filter(e => !e.printingId && !e.oracleId && e.cardId).map(e => e.cardId!);
+
+    const [existingPrintings, existingOracleCards, existingCards] = await Promise.all([
+      printingIds.length > 0
+        ? db.select({ id: printings.id }).from(printings).where(inArray(printings.id, printingIds))
+        : Promise.resolve([]),
+      oracleIds.length > 0
+        ? db.select({ id: oracleCards.id }).from(oracleCards).where(inArray(oracleCards.id, oracleIds))
+        : Promise.resolve([]),
+      cardIds.length > 0
+        ? db.select({ id: cards.id }).from(cards).where(inArray(cards.id, cardIds))
+        : Promise.resolve([]),
+    ]);
+
+    const existingIds = new Set([...existingPrintings, ...existingOracleCards, ...existingCards].map(row => row.id));
+    const missingCards = [...printingIds, ...oracleIds, ...cardIds].filter(id => !existingIds.has(id));
+
+    if (missingCards.length > 0) {
+      console.warn('Some cards not found in database:', missingCards);
+    }
+  }
+
+  static async saveDeck(userId: string, deckData: SaveDeckData): Promise<{ success: boolean; deckId?: string; validation?: DeckValidationResult; error?: string }> {
     try {
       // Validate deck data
       if (!deckData.name || deckData.name.trim().length === 0) {
@@ -43,24 +90,13 @@ export class DeckService {
         return { success: false, error: 'Deck must contain at least one card' };
       }
 
-      // Validate that all cards exist in our database
-      const cardIds = deckData.deckCards.map(c => c.cardId);
-      if (deckData.sideboardCards) {
-        cardIds.push(...deckData.sideboardCards.map(c => c.cardId));
+      const referenceError = DeckService.validateCardReferences([...deckData.deckCards, ...(deckData.sideboardCards || []), ...(deckData.commanderCards || [])]);
+      if (referenceError) {
+        return { success: false, error: referenceError };
       }
 
-      const existingCards = await db
-        .select({ id: cards.id })
-        .from(cards)
-        .where(or(...cardIds.map(id => eq(cards.id, id))));
-
-      const existingCardIds = new Set(existingCards.map(c => c.id));
-      const missingCards = cardIds.filter(id => !existingCardIds.has(id));
-
-      if (missingCards.length > 0) {
-        console.warn('Some cards not found in database:', missingCards);
-        // Don't fail - just warn. The cards might be from newer sets.
-      }
+      // Validate that all cards exist in our database
+      await DeckService.warnAboutMissingCards([...deckData.deckCards, ...(deckData.sideboardCards || []), ...(deckData.commanderCards || [])]);
 
       // Save deck to database
       const [newDeck] = await db
@@ -69,16 +105,20 @@ export class DeckService {
           userId,
           name: deckData.name.trim(),
           description: deckData.description?.trim(),
-          format: deckData.format,
+          format: getFormat(deckData.format)?.name ?? deckData.format,
           commander: deckData.commander,
-          deckData: deckData.deckCards,
-          sideboardData: deckData.sideboardCards || [],
+          commanderData: deckData.commanderCards ? DeckService.normalizeCardReferences(deckData.commanderCards) : null,
+          deckData: DeckService.normalizeCardReferences(deckData.deckCards),
+          sideboardData: DeckService.normalizeCardReferences(deckData.sideboardCards || []),
           isPublic: deckData.isPublic || false,
           tags: deckData.tags || [],
         })
         .returning();
 
-      return { success: true, deckId: newDeck.id };
+      // Illegal decks can still be saved while they're being built; the result tells the builder what to fix
+      const validation = await DeckService.validateSavedDeck(newDeck);
+
+      return { success: true, deckId: newDeck.id, validation };
     } catch (error) {
       console.error('Save deck error:', error);
       return { success: false, error: 'Failed to save deck' };
@@ -113,19 +153,28 @@ export class DeckService {
       }
       
       if (deckData.format !== undefined) {
-        updateData.format = deckData.format;
+        updateData.format = getFormat(deckData.format)?.name ?? deckData.format;
       }
       
       if (deckData.commander !== undefined) {
         updateData.commander = deckData.commander;
       }
       
+      const referenceError = DeckService.validateCardReferences([...(deckData.deckCards || []), ...(deckData.sideboardCards || []), ...(deckData.commanderCards || [])]);
+      if (referenceError) {
+        return { success: false, error: referenceError };
+      }
+      
+      if (deckData.commanderCards !== undefined) {
+        updateData.commanderData = DeckService.normalizeCardReferences(deckData.commanderCards);
+      }
+      
       if (deckData.deckCards !== undefined) {
-        updateData.deckData = deckData.deckCards;
+        updateData.deckData = DeckService.normalizeCardReferences(deckData.deckCards);
       }
       
       if (deckData.sideboardCards !== undefined) {
-        updateData.sideboardData = deckData.sideboardCards;
+        updateData.sideboardData = DeckService.normalizeCardReferences(deckData.sideboardCards);
       }
       
       if (deckData.isPublic !== undefined) {
@@ -148,6 +197,21 @@ export class DeckService {
     }
   }
 
+  /**
+   * Check a saved deck against its format's rules
+   */
+  static async validateSavedDeck(deck: { format: string; commander: string | null; commanderData: unknown; deckData: unknown; sideboardData: unknown }, asOf?: string): Promise<DeckValidationResult> {
+    const commanderCards = Array.isArray(deck.commanderData) ? deck.commanderData as DeckCardData[] : [];
+    return validateDeck({
+      format: deck.format,
+      deckCards: Array.isArray(deck.deckData) ? deck.deckData as DeckCardData[] : [],
+      sideboardCards: Array.isArray(deck.sideboardData) ? deck.sideboardData as DeckCardData[] : [],
+      commander: commanderCards.length > 0 ? null : deck.commander,
+      commanderCards,
+      asOf,
+    });
+  }
+
   static async deleteDeck(userId: string, deckId: string): Promise<{ success: boolean; error?: string }> {
     try {
       const result = await db
@@ -176,6 +240,7 @@ export class DeckService {
           description: savedDecks.description,
           format: savedDecks.format,
           commander: savedDecks.commander,
+          commanderData: savedDecks.commanderData,
           deckData: savedDecks.deckData,
           sideboardData: savedDecks.sideboardData,
           isPublic: savedDecks.isPublic,
@@ -212,6 +277,7 @@ export class DeckService {
           description: savedDecks.description,
           format: savedDecks.format,
           commander: savedDecks.commander,
+          commanderData: savedDecks.commanderData,
           deckData: savedDecks.deckData,
           sideboardData: savedDecks.sideboardData,
           isPublic: savedDecks.isPublic,
@@ -275,6 +341,7 @@ export class DeckService {
           description: savedDecks.description,
           format: savedDecks.format,
           commander: savedDecks.commander,
+          commanderData: savedDecks.commanderData,
           deckData: savedDecks.deckData,
           sideboardData: savedDecks.sideboardData,
           isPublic: savedDecks.isPublic,
@@ -312,6 +379,7 @@ export class DeckService {
           description: savedDecks.description,
           format: savedDecks.format,
           commander: savedDecks.commander,
+          commanderData: savedDecks.commanderData,
           deckData: savedDecks.deckData,
           sideboardData: savedDecks.sideboardData,
           isPublic: savedDecks.isPublic,
@@ -346,8 +414,8 @@ export class DeckService {
         }
       }
 
-      // Convert to array format with consistent ordering
-      const formats = ['Standard', 'Pioneer', 'Modern', 'Legacy', 'Vintage', 'Commander', 'Pauper', 'Limited'];
+      // Convert to array format, ordered like the format registry
+      const formats = FORMATS.map(format => format.name);
       const result = formats
         .filter(format => formatGroups[format] && formatGroups[format].length > 0)
         .map(format => ({
@@ -355,7 +423,7 @@ export class DeckService {
           decks: formatGroups[format]
         }));
 
-      // Add any additional formats not in the standard list
+      // Add any formats missing from the registry
       Object.keys(formatGroups).forEach(format => {
         if (!formats.includes(format) && formatGroups[format].length > 0) {
           result.push({
@@ -0,0 +1,638 @@
+import { db } from '../db';
+import { cards, oracleCards, printings, type DeckCardEntry, type OracleCard } from '@shared/schema';
+import { getFormat, type FormatDefinition } from '@shared/formats';
+import { inArray, or, sql } from 'drizzle-orm';
+import { banlistService, type FormatLegality } from '../mtg/banlist-service';
+import { todayIsoDate } from '../mtg/card-query';
+
+export type DeckSection = 'maindeck' | 'sideboard' | 'commander';
+
+export type DeckViolationCode =
+  | 'unknown_format'
+  | 'unknown_card'
+  | 'deck_too_small'
+  | 'deck_too_large'
+  | 'too_many_copies'
+  | 'not_legal'
+  | 'banned'
+  | 'restricted'
+  | 'sideboard_not_allowed'
+  | 'sideboard_too_large'
+  | 'missing_commander'
+  | 'invalid_commander'
+  | 'too_many_commanders'
+  | 'invalid_partner'
+  | 'color_identity'
+  | 'companion_requirement';
+
+export interface DeckViolation {
+  code: DeckViolationCode;
+  severity: 'error' | 'warning'; // Warnings don't make the deck illegal
+  message: string;
+  cardName?: string;
+  oracleId?: string;
+  section?: DeckSection;
+  expected?: number;
+  actual?: number;
+}
+
+export interface DeckValidationResult {
+  format: string;
+  asOf: string;
+  legal: boolean;
+  counts: Record<DeckSection, number>;
+  companion: string | null;
+  violations: DeckViolation[];
+}
+
+export interface DeckValidationInput {
+  format: string;
+  deckCards: DeckCardEntry[];
+  sideboardCards?: DeckCardEntry[];
+  commander?: string | null; // Commander name, as saved decks store it
+  commanderCards?: DeckCardEntry[]; // Commanders by reference, including a partner or background
+  companion?: string | null; // Companion name; defaults to the only companion in the sideboard
+  asOf?: string; // YYYY-MM-DD date banned and restricted status is evaluated on; defaults to today
+}
+
+interface DeckLine {
+  card: OracleCard;
+  quantity: number;
+  section: DeckSection;
+}
+
+// Copies of a card that wasn't found, by the id or name the deck gave for it
+export interface UnresolvedDeckLine {
+  ref: string;
+  quantity: number;
+  section: DeckSection;
+}
+
+const PERMANENT_TYPES = ['Artifact', 'Battle', 'Creature', 'Enchantment', 'Land', 'Planeswalker'];
+const WORD_NUMBERS: Record<string, number> = { seven: 7, nine: 9 };
+
+function cmcOf(card: OracleCard): number {
+  return parseFloat(card.cmc || '0') || 0;
+}
+
+function typesOf(card: OracleCard): string[] {
+  return card.types && card.types.length > 0
+    ? card.types
+    : PERMANENT_TYPES.concat(['Instant', 'Sorcery', 'Kindred', 'Tribal']).filter(type => card.type.includes(type));
+}
+
+function isLand(card: OracleCard): boolean {
+  return typesOf(card).includes('Land');
+}
+
+function isPermanent(card: OracleCard): boolean {
+  return typesOf(card).some(type => PERMANENT_TYPES.includes(type));
+}
+
+function isBasicLand(card: OracleCard): boolean {
+  return (card.supertypes ?? []).includes('Basic') || card.type.startsWith('Basic');
+}
+
+function hasLine(card: OracleCard, pattern: RegExp): boolean {
+  return pattern.test(card.text || '');
+}
+
+/**
+ * Copies of a card a deck may contain: the format limit, unless the card is a basic
+ * land or says otherwise ("any number of cards named", "up to seven cards named")
+ */
+function copyLimit(card: OracleCard, formatLimit: number | null): number | null {
+  if (isBasicLand(card) || hasLine(card, /A deck can have any number of cards named/i)) {
+    return null;
+  }
+  const upTo = (card.text || '').match(/A deck can have up to (\w+) cards named/i);
+  if (upTo) {
+    return WORD_NUMBERS[upTo[1].toLowerCase()] ?? (parseInt(upTo[1]) || formatLimit);
+  }
+  return formatLimit;
+}
+
+// Commander pairing keywords
+const partnerWith = (card: OracleCard) => (card.text || '').match(/(^|\n)Partner with ([^(\n]+)/)?.[2].trim() ?? null;
+const hasPartner = (card: OracleCard) => hasLine(card, /(^|\n)Partner( \(|$|\n)/);
+const hasFriendsForever = (card: OracleCard) => hasLine(card, /(^|\n)Friends forever/);
+const choosesBackground = (card: OracleCard) => hasLine(card, /(^|\n)Choose a Background/);
+const isBackground = (card: OracleCard) => (card.subtypes ?? []).includes('Background') || /\bBackground\b/.test(card.type);
+const isDoctorsCompanion = (card: OracleCard) => hasLine(card, /(^|\n)Doctor's companion/);
+const isDoctor = (card: OracleCard) => /Time Lord Doctor/.test(card.type);
+
+function isValidPair(a: OracleCard, b: OracleCard): boolean {
+  return (hasPartner(a) && hasPartner(b))
+    || (partnerWith(a) === b.name && partnerWith(b) === a.name)
+    || (hasFriendsForever(a) && hasFriendsForever(b))
+    || (choosesBackground(a) && isBackground(b))
+    || (choosesBackground(b) && isBackground(a))
+    || (isDoctorsCompanion(a) && isDoctor(b))
+    || (isDoctorsCompanion(b) && isDoctor(a));
+}
+
+function canBeCommander(card: OracleCard, rules: FormatDefinition): boolean {
+  const { allowPlaneswalkers, requiresLegendary, signatureSpell } = rules.commander!;
+  const types = typesOf(card);
+  const leader = signatureSpell
+    ? types.includes('Planeswalker')
+    : types.includes('Creature') || (allowPlaneswalkers && types.includes('Planeswalker'));
+  return (leader && (!requiresLegendary || card.type.includes('Legendary')))
+    || (!signatureSpell && hasLine(card, /can be your commander/));
+}
+
+// What may lead a deck, for messages: "a legendary creature or planeswalker"
+function describeCommander(rules: FormatDefinition): string {
+  const { allowPlaneswalkers, requiresLegendary, signatureSpell } = rules.commander!;
+  if (signatureSpell) {
+    return 'a planeswalker';
+  }
+  return `a ${requiresLegendary ? 'legendary ' : ''}creature${allowPlaneswalkers ? ' or planeswalker' : ''}`;
+}
+
+function isSignatureSpell(card: OracleCard): boolean {
+  return typesOf(card).some(type => type === 'Instant' || type === 'Sorcery');
+}
+
+function isCompanion(card: OracleCard): boolean {
+  return hasLine(card, /(^|\n)Companion —/);
+}
+
+// Mana symbols in a mana cost, e.g. "{2}{U}{U}" -> ["2", "U", "U"]
+function manaSymbols(card: OracleCard): string[] {
+  return (card.manaCost || '').match(/\{[^}]+\}/g)?.map(symbol => symbol.slice(1, -1)) ?? [];
+}
+
+// Heuristic: a cost ("{T}:", "Sacrifice ...:") followed by an effect, including reminder text
+// on basic lands. Oracle text has no structured ability data to check instead.
+function hasActivatedAbility(card: OracleCard): boolean {
+  return hasLine(card, /(\{[^}]+\}|(^|\n|\()(Sacrifice|Discard|Exile|Pay|Remove|Return|Tap|Untap))[^\n:"]*:/);
+}
+
+/**
+ * Companion deckbuilding conditions, keyed by card name. Each returns a description of
+ * the first card breaking the condition, or null when the starting deck satisfies it.
+ */
+const COMPANION_CONDITIONS: Record<string, (deck: DeckLine[], rules: FormatDefinition) => string | null> = {
+  'Gyruda, Doom of Depths': deck => {
+    const odd = deck.find(line => !isLand(line.card) && cmcOf(line.card) % 2 !== 0);
+    return odd ? `${odd.card.name} has an odd mana value; every nonland card must have an even mana value` : null;
+  },
+  'Jegantha, the Wellspring': deck => {
+    const repeated = deck.find(line => {
+      const symbols = manaSymbols(line.card);
+      return new Set(symbols).size !== symbols.length;
+    });
+    return repeated ? `${repeated.card.name} has more than one of the same mana symbol in its mana cost` : null;
+  },
+  'Kaheera, the Orphanguard': deck => {
+    const allowed = ['Cat', 'Elemental', 'Nightmare', 'Dinosaur', 'Beast'];
+    const other = deck.find(line => typesOf(line.card).includes('Creature') && !(line.card.subtypes ?? []).some(subtype => allowed.includes(subtype)));
+    return other ? `${other.card.name} is not a Cat, Elemental, Nightmare, Dinosaur or Beast` : null;
+  },
+  'Keruga, the Macrosage': deck => {
+    const cheap = deck.find(line => !isLand(line.card) && cmcOf(line.card) < 3);
+    return cheap ? `${cheap.card.name} has mana value less than 3` : null;
+  },
+  'Lurrus of the Dream-Den': deck => {
+    const expensive = deck.find(line => isPermanent(line.card) && cmcOf(line.card) > 2);
+    return expensive ? `${expensive.card.name} is a permanent card with mana value greater than 2` : null;
+  },
+  'Lutri, the Spellchaser': deck => {
+    const duplicate = deck.find(line => !isLand(line.card) && line.quantity > 1);
+    return duplicate ? `${duplicate.card.name} appears more than once; nonland cards must have different names` : null;
+  },
+  'Obosh, the Preypiercer': deck => {
+    const even = deck.find(line => !isLand(line.card) && cmcOf(line.card) % 2 !== 1);
+    return even ? `${even.card.name} has an even mana value; every nonland card must have an odd mana value` : null;
+  },
+  'Umori, the Collector': deck => {
+    const nonland = deck.filter(line => !isLand(line.card));
+    const shared = nonland.reduce<string[] | null>(
+      (types, line) => types === null ? typesOf(line.card) : types.filter(type => typesOf(line.card).includes(type)),
+      null
+    );
+    return shared !== null && shared.length === 0 ? 'Nonland cards do not all share a card type' : null;
+  },
+  'Yorion, Sky Nomad': (deck, rules) => {
+    const size = deck.reduce((sum, line) => sum + line.quantity, 0);
+    return size < rules.minDeckSize + 20
+      ? `The deck has ${size} cards; it needs at least ${rules.minDeckSize + 20}, twenty more than the minimum`
+      : null;
+  },
+  'Zirda, the Dawnwaker': deck => {
+    const missing = deck.find(line => isPermanent(line.card) && !hasActivatedAbility(line.card));
+    return missing ? `${missing.card.name} is a permanent card without an activated ability` : null;
+  },
+};
+
+/**
+ * Check a resolved deck against a format's rules. Pure, so it can run against
+ * cards from any source; `legality` holds each card's banned/restricted status.
+ * Cards that weren't found still count towards the deck's size and the format's copy limit.
+ */
+export function checkDeck(
+  rules: FormatDefinition,
+  lines: DeckLine[],
+  legality: Map<string, FormatLegality>,
+  companionName: string | null,
+  unresolved: UnresolvedDeckLine[] = []
+): DeckViolation[] {
+  const violations: DeckViolation[] = [];
+  const bySection = (section: DeckSection) => lines.filter(line => line.section === section);
+  const countOf = (section: DeckSection) => [...bySection(section), ...unresolved.filter(line => line.section === section)]
+    .reduce((sum, line) => sum + line.quantity, 0);
+
+  const commanders = bySection('commander');
+  const starting = rules.commander ? [...bySection('maindeck'), ...commanders] : bySection('maindeck');
+  const companion = companionName
+    ? bySection('sideboard').find(line => line.card.name.toLowerCase() === companionName.toLowerCase() && isCompanion(line.card)) ?? null
+    : null;
+
+  // Deck size (commanders count towards it)
+  const size = countOf('maindeck') + (rules.commander ? countOf('commander') : 0);
+  if (rules.maxDeckSize === rules.minDeckSize && size !== rules.minDeckSize) {
+    violations.push({
+      code: size < rules.minDeckSize ? 'deck_too_small' : 'deck_too_large',
+      severity: 'error',
+      message: `${rules.name} decks must contain exactly ${rules.minDeckSize} cards${rules.commander ? ', including the commander' : ''} (currently ${size})`,
+      expected: rules.minDeckSize,
+      actual: size,
+    });
+  } else if (size < rules.minDeckSize) {
+    violations.push({
+      code: 'deck_too_small',
+      severity: 'error',
+      message: `${rules.name} decks must contain at least ${rules.minDeckSize} cards (currently ${size})`,
+      expected: rules.minDeckSize,
+      actual: size,
+    });
+  } else if (rules.maxDeckSize !== null && size > rules.maxDeckSize) {
+    violations.push({
+      code: 'deck_too_large',
+      severity: 'error',
+      message: `${rules.name} decks may contain at most ${rules.maxDeckSize} cards (currently ${size})`,
+      expected: rules.maxDeckSize,
+      actual: size,
+    });
+  }
+
+  // Copies across deck, sideboard and command zone, plus banned and restricted status
+  const totals = new Map<string, { card: OracleCard; quantity: number; section: DeckSection }>();
+  for (const line of lines) {
+    const total = totals.get(line.card.id);
+    if (total) {
+      total.quantity += line.quantity;
+    } else {
+      totals.set(line.card.id, { ...line });
+    }
+  }
+
+  for (const { card, quantity, section } of Array.from(totals.values())) {
+    const status = rules.legalityKey ? legality.get(card.id) ?? null : 'legal';
+
+    if (status === null) {
+      violations.push({
+        code: 'not_legal',
+        severity: 'error',
+        message: `${card.name} is not legal in ${rules.name}`,
+        cardName: card.name,
+        oracleId: card.id,
+        section,
+      });
+      continue;
+    }
+    if (status === 'banned') {
+      violations.push({
+        code: 'banned',
+        severity: 'error',
+        message: `${card.name} is banned in ${rules.name}`,
+        cardName: card.name,
+        oracleId: card.id,
+        section,
+      });
+      continue;
+    }
+    if (status === 'restricted' && quantity > 1) {
+      violations.push({
+        code: 'restricted',
+        severity: 'error',
+        message: `${card.name} is restricted in ${rules.name}; only one copy is allowed (currently ${quantity})`,
+        cardName: card.name,
+        oracleId: card.id,
+        section,
+        expected: 1,
+        actual: quantity,
+      });
+      continue;
+    }
+
+    const limit = copyLimit(card, rules.maxCopies);
+    if (limit !== null && quantity > limit) {
+      violations.push({
+        code: 'too_many_copies',
+        severity: 'error',
+        message: `${card.name}: ${quantity} copies, but ${rules.name} allows ${limit}`,
+        cardName: card.name,
+        oracleId: card.id,
+        section,
+        expected: limit,
+        actual: quantity,
+      });
+    }
+  }
+
+  // Cards that weren't found can't be checked for more than the format's limit
+  const unresolvedTotals = new Map<string, UnresolvedDeckLine>();
+  for (const line of unresolved) {
+    const total = unresolvedTotals.get(line.ref);
+    if (total) {
+      total.quantity += line.quantity;
+    } else {
+      unresolvedTotals.set(line.ref, { ...line });
+    }
+  }
+  for (const { ref, quantity, section } of Array.from(unresolvedTotals.values())) {
+    if (rules.maxCopies !== null && quantity > rules.maxCopies) {
+      violations.push({
+        code: 'too_many_copies',
+        severity: 'error',
+        message: `${ref}: ${quantity} copies, but ${rules.name} allows ${rules.maxCopies}`,
+        cardName: ref,
+        section,
+        expected: rules.maxCopies,
+        actual: quantity,
+      });
+    }
+  }
+
+  // Sideboard; a companion sits outside the game rather than in the sideboard count
+  const sideboardSize = countOf('sideboard') - (companion && rules.maxSideboard === 0 ? 1 : 0);
+  if (rules.maxSideboard === 0 && sideboardSize > 0) {
+    violations.push({
+      code: 'sideboard_not_allowed',
+      severity: 'error',
+      message: `${rules.name} decks don't have a sideboard${rules.commander ? ' (other than a companion)' : ''}`,
+      section: 'sideboard',
+      expected: 0,
+      actual: sideboardSize,
+    });
+  } else if (rules.maxSideboard !== null && sideboardSize > rules.maxSideboard) {
+    violations.push({
+      code: 'sideboard_too_large',
+      severity: 'error',
+      message: `Sideboards may contain at most ${rules.maxSideboard} cards (currently ${sideboardSize})`,
+      section: 'sideboard',
+      expected: rules.maxSideboard,
+      actual: sideboardSize,
+    });
+  }
+
+  // Commander, partner/background pairs, Oathbreaker's signature spell and color identity
+  if (rules.commander) {
+    const spells = rules.commander.signatureSpell ? commanders.filter(line => isSignatureSpell(line.card)) : [];
+    const leaders = commanders.filter(line => !spells.includes(line));
+
+    if (leaders.length === 0) {
+      violations.push({
+        code: 'missing_commander',
+        severity: 'error',
+        message: `${rules.name} decks need ${rules.commander.signatureSpell ? 'an oathbreaker' : 'a commander'}`,
+        section: 'commander',
+      });
+    } else if (leaders.length > 2) {
+      violations.push({
+        code: 'too_many_commanders',
+        severity: 'error',
+        message: `A deck can have at most two commanders (currently ${leaders.length})`,
+        section: 'commander',
+        expected: 2,
+        actual: leaders.length,
+      });
+    } else if (leaders.length === 2 && !isValidPair(leaders[0].card, leaders[1].card)) {
+      violations.push({
+        code: 'invalid_partner',
+        severity: 'error',
+        message: `${leaders[0].card.name} and ${leaders[1].card.name} can't be commanders together; two commanders need partner, "partner with" each other, friends forever, a Background or Doctor's companion`,
+        section: 'commander',
+      });
+    }
+
+    if (rules.commander.signatureSpell && spells.length !== 1) {
+      violations.push({
+        code: spells.length === 0 ? 'missing_commander' : 'too_many_commanders',
+        severity: 'error',
+        message: `${rules.name} decks need exactly one signature spell, an instant or sorcery (currently ${spells.length})`,
+        section: 'commander',
+        expected: 1,
+        actual: spells.length,
+      });
+    }
+
+    for (const { card } of leaders.slice(0, 2)) {
+      const pairedBackground = leaders.length === 2 && isBackground(card) && leaders.some(other => choosesBackground(other.card));
+      if (!canBeCommander(card, rules) && !pairedBackground) {
+        violations.push({
+          code: 'invalid_commander',
+          severity: 'error',
+          message: `${card.name} can't be a commander; it must be ${describeCommander(rules)}`,
+          cardName: card.name,
+          oracleId: card.id,
+          section: 'commander',
+        });
+      }
+    }
+
+    if (leaders.length > 0) {
+      const identity = new Set(leaders.flatMap(line => line.card.colorIdentity ?? []));
+      const commanderNames = leaders.map(line => line.card.name).join(' and ');
+
+      for (const line of [...bySection('maindeck'), ...bySection('sideboard'), ...spells]) {
+        const outside = (line.card.colorIdentity ?? []).filter(color => !identity.has(color));
+        if (outside.length > 0) {
+          violations.push({
+            code: 'color_identity',
+            severity: 'error',
+            message: `${line.card.name} has ${outside.join('')} in its color identity, outside ${commanderNames}'s`,
+            cardName: line.card.name,
+            oracleId: line.card.id,
+            section: line.section,
+          });
+        }
+      }
+    }
+  }
+
+  // Companion deckbuilding condition, checked against the starting deck
+  if (companion) {
+    const condition = COMPANION_CONDITIONS[companion.card.name];
+    const problem = condition ? condition(starting, rules) : null;
+    if (problem) {
+      violations.push({
+        code: 'companion_requirement',
+        severity: 'error',
+        message: `${companion.card.name}'s companion condition isn't met: ${problem}`,
+        cardName: companion.card.name,
+        oracleId: companion.card.id,
+        section: 'sideboard',
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Resolve deck entries (printing, oracle or legacy card ids) and card names to oracle cards
+ */
+async function resolveOracleCards(entries: DeckCardEntry[], names: string[]): Promise<{
+  byEntry: Map<DeckCardEntry, OracleCard>;
+  byName: Map<string, OracleCard>;
+}> {
+  const ids = Array.from(new Set(entries.flatMap(entry => [entry.printingId, entry.oracleId, entry.cardId]).filter((id): id is string => !!id)));
+
+  // Printings and legacy cards point at an oracle card, by id or by name
+  const [printingRows, legacyRows] = ids.length > 0
+    ? await Promise.all([
+        db.select({ id: printings.id, oracleId: printings.oracleId }).from(printings).where(inArray(printings.id, ids)),
+        db.select({ id: cards.id, name: cards.name }).from(cards).where(inArray(cards.id, ids)),
+      ])
+    : [[], []];
+
+  const oracleIds = Array.from(new Set([...ids, ...printingRows.map(row => row.oracleId)]));
+  const lowerNames = Array.from(new Set([...names, ...legacyRows.map(row => row.name)].map(name => name.toLowerCase())));
+
+  const conditions = [
+    ...(oracleIds.length > 0 ? [inArray(oracleCards.id, oracleIds)] : []),
+    ...(lowerNames.length > 0 ? [inArray(sql`LOWER(${oracleCards.name})`, lowerNames)] : []),
+  ];
+  const oracleRows = conditions.length > 0
+    ? await db.select().from(oracleCards).where(or(...conditions))
+    : [];
+
+  const oracleById = new Map(oracleRows.map(card => [card.id, card]));
+  const oracleByName = new Map(oracleRows.map(card => [card.name.toLowerCase(), card]));
+  const printingOracle = new Map(printingRows.map(row => [row.id, row.oracleId]));
+  const legacyName = new Map(legacyRows.map(row => [row.id, row.name.toLowerCase()]));
+
+  const lookup = (id?: string) => {
+    if (!id) return undefined;
+    const printingOracleId = printingOracle.get(id);
+    if (printingOracleId) return oracleById.get(printingOracleId);
+    const legacy = legacyName.get(id);
+    return oracleById.get(id) ?? (legacy ? oracleByName.get(legacy) : undefined);
+  };
+
+  const byEntry = new Map<DeckCardEntry, OracleCard>();
+  for (const entry of entries) {
+    const card = lookup(entry.printingId) ?? lookup(entry.oracleId) ?? lookup(entry.cardId);
+    if (card) {
+      byEntry.set(entry, card);
+    }
+  }
+
+  const byName = new Map<string, OracleCard>();
+  for (const name of names) {
+    const card = oracleByName.get(name.toLowerCase());
+    if (card) {
+      byName.set(name, card);
+    }
+  }
+
+  return { byEntry, byName };
+}
+
+/**
+ * Validate a deck for its format: sizes, copy limits, banned and restricted cards,
+ * sideboard size, commanders and color identity, and the companion's condition
+ */
+export async function validateDeck(input: DeckValidationInput): Promise<DeckValidationResult> {
+  const asOf = input.asOf || todayIsoDate();
+  const rules = getFormat(input.format || '');
+  const counts: Record<DeckSection, number> = { maindeck: 0, sideboard: 0, commander: 0 };
+
+  if (!rules) {
+    return {
+      format: input.format,
+      asOf,
+      legal: false,
+      counts,
+      companion: null,
+      violations: [{ code: 'unknown_format', severity: 'error', message: `Unknown format: ${input.format}` }],
+    };
+  }
+
+  const sections: [DeckSection, DeckCardEntry[]][] = [
+    ['maindeck', input.deckCards ?? []],
+    ['sideboard', input.sideboardCards ?? []],
+    ['commander', input.commanderCards ?? []],
+  ];
+  const commanderName = !input.commanderCards?.length && input.commander ? input.commander : null;
+  const names = [commanderName, input.companion].filter((name): name is string => !!name);
+  const { byEntry, byName } = await resolveOracleCards(sections.flatMap(([, entries]) => entries), names);
+
+  const lines: DeckLine[] = [];
+  const unresolved: UnresolvedDeckLine[] = [];
+  for (const [section, entries] of sections) {
+    for (const entry of entries) {
+      const quantity = Math.max(0, entry.quantity || 0);
+      const card = byEntry.get(entry);
+      if (card) {
+        lines.push({ card, quantity, section });
+      } else {
+        unresolved.push({ ref: entry.printingId || entry.oracleId || entry.cardId || 'unknown', quantity, section });
+      }
+    }
+  }
+
+  if (commanderName) {
+    const card = byName.get(commanderName);
+    if (card) {
+      lines.push({ card, quantity: 1, section: 'commander' });
+    } else {
+      unresolved.push({ ref: commanderName, quantity: 1, section: 'commander' });
+    }
+  }
+
+  // Counts include the cards that weren't found, as the size checks do
+  for (const line of [...lines, ...unresolved]) {
+    counts[line.section] += line.quantity;
+  }
+
+  // Each card that wasn't found is reported once, however many lines it's on
+  const violations: DeckViolation[] = [];
+  const reported = new Set<string>();
+  for (const { ref, section } of unresolved) {
+    if (reported.has(ref)) continue;
+    reported.add(ref);
+    violations.push({
+      code: 'unknown_card',
+      severity: 'warning',
+      message: section === 'commander' && ref === commanderName
+        ? `Commander ${ref} was not found, so it could not be checked`
+        : `Card ${ref} was not found, so it could not be checked`,
+      section,
+    });
+  }
+
+  // An explicitly named companion, or else the only card with companion in the sideboard
+  const sideboardCompanions = lines.filter(line => line.section === 'sideboard' && isCompanion(line.card));
+  const companionName = input.companion
+    ? byName.get(input.companion)?.name ?? input.companion
+    : sideboardCompanions.length === 1 ? sideboardCompanions[0].card.name : null;
+
+  const legality = rules.legalityKey
+    ? await banlistService.getLegality(lines.map(line => line.card.id), rules.legalityKey, asOf)
+    : new Map<string, FormatLegality>();
+
+  violations.push(...checkDeck(rules, lines, legality, companionName, unresolved));
+
+  return {
+    format: rules.name,
+    asOf,
+    legal: !violations.some(violation => violation.severity === 'error'),
+    counts,
+    companion: companionName,
+    violations,
+  };
+}
@@ -0,0 +1,196 @@
+import type { StructuredRuling } from '@shared/ruling-answer';
+import type { Card } from '@/types/card';
+
+/**
+ * Bump when cases are added, removed or changed, so reports from different sets aren't compared
+ */
+export const EVAL_SET_VERSION = 2;
+
+export interface OutcomeAssertion {
+  description: string;
+  pattern: string; // Case-insensitive regular expression, matched against the verdict and outcome
+  absent?: boolean; // The answer must not match instead
+}
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  cards: Card[]; // Primary card first
+  citedRules: string[]; // Rules the answer must cite; citing a subrule of one counts
+  retrievedRules: string[]; // Rules findRelevantRules should give the model
+  assertions: OutcomeAssertion[];
+  stubReply: StructuredRuling; // What the stubbed provider answers
+}
+
+function card(id: string, name: string, type: string, text: string, details: Partial<Card> = {}): Card {
+  return { id, oracleId: id, name, type, text, rulings: [], ...details };
+}
+
+const COLOSSAL_DREADMAW = card('eval-colossal-dreadmaw', 'Colossal Dreadmaw', 'Creature — Dinosaur', 'Trample', { manaCost: '{4}{G}{G}', power: '6', toughness: '6' });
+const BASILISK_COLLAR = card('eval-basilisk-collar', 'Basilisk Collar', 'Artifact — Equipment', 'Equipped creature has deathtouch and lifelink.\nEquip {2}', { manaCost: '{1}' });
+const BLOOD_MOON = card('eval-blood-moon', 'Blood Moon', 'Enchantment', 'Nonbasic lands are Mountains.', { manaCost: '{2}{R}' });
+const URBORG = card('eval-urborg', 'Urborg, Tomb of Yawgmoth', 'Legendary Land', 'Each land is a Swamp in addition to its other land types.');
+const LIGHTNING_BOLT = card('eval-lightning-bolt', 'Lightning Bolt', 'Instant', 'Lightning Bolt deals 3 damage to any target.', { manaCost: '{R}' });
+const COUNTERSPELL = card('eval-counterspell', 'Counterspell', 'Instant', 'Counter target spell.', { manaCost: '{U}{U}' });
+const GIANT_SPIDER = card('eval-giant-spider', 'Giant Spider', 'Creature — Spider', 'Reach', { manaCost: '{3}{G}', power: '2', toughness: '4' });
+const SERRA_ANGEL = card('eval-serra-angel', 'Serra Angel', 'Creature — Angel', 'Flying, vigilance', { manaCost: '{3}{W}{W}', power: '4', toughness: '4' });
+const DARKSTEEL_MYR = card('eval-darksteel-myr', 'Darksteel Myr', 'Artifact Creature — Myr', 'Indestructible\n{T}: Add one mana of any color.', { manaCost: '{3}', power: '0', toughness: '1' });
+const DISFIGURE = card('eval-disfigure', 'Disfigure', 'Instant', 'Target creature gets -2/-2 until end of turn.', { manaCost: '{B}' });
+const GOBLIN_GUIDE = card('eval-goblin-guide', 'Goblin Guide', 'Creature — Goblin Scout', 'Haste\nWhenever Goblin Guide attacks, defending player reveals the top card of their library. If it\'s a land card, that player puts it into their hand.', { manaCost: '{R}', power: '2', toughness: '2' });
+const WRATH_OF_GOD = card('eval-wrath-of-god', 'Wrath of God', 'Sorcery', 'Destroy all creatures. They can\'t be regenerated.', { manaCost: '{2}{W}{W}' });
+const CARNAGE_TYRANT = card('eval-carnage-tyrant', 'Carnage Tyrant', 'Creature — Dinosaur', 'This spell can\'t be countered.\nTrample, hexproof', { manaCost: '{4}{G}{G}', power: '7', toughness: '6' });
+
+/**
+ * The regression set: rules questions with known answers. Each stub reply is the answer a good
+ * model gives, so the stubbed run checks everything but the model itself.
+ */
+export const EVAL_CASES: EvalCase[] = [
+  {
+    id: 'trample-deathtouch',
+    question: 'My Colossal Dreadmaw is equipped with Basilisk Collar and gets blocked by a 5/5. How much trample damage can I assign to the defending player?',
+    cards: [COLOSSAL_DREADMAW, BASILISK_COLLAR],
+    citedRules: ['702.19b', '702.2c'],
+    retrievedRules: ['702.19b', '702.2c'],
+    assertions: [
+      { description: 'One damage to the blocker is lethal', pattern: '\\b(1|one)\\b' },
+      { description: 'The rest tramples over', pattern: '\\b5\\b|five' },
+    ],
+    stubReply: {
+      verdict: 'You can assign 1 damage to the 5/5 and the other 5 to the defending player.',
+      summary: 'A 6/6 trampler with deathtouch from Basilisk Collar is blocked by a 5/5.',
+      cardMechanics: 'Colossal Dreadmaw has "Trample". Basilisk Collar says "Equipped creature has deathtouch and lifelink."',
+      rulesApplication: 'Rule 702.19b lets excess damage be assigned to the player once each blocker is assigned lethal damage. By rule 702.2c, any nonzero damage from a deathtouch source counts as lethal.',
+      interactionAnalysis: 'In the combat damage step, 1 damage to the blocker is lethal, so 5 can be assigned to the player. Lifelink (rule 702.15b) gains you 6 life.',
+      outcome: 'Assign 1 damage to the blocker and 5 to the defending player; the blocker is destroyed by deathtouch.',
+      citedRules: ['702.19b', '702.2c', '702.15b'],
+      citedCards: ['Colossal Dreadmaw', 'Basilisk Collar'],
+    },
+  },
+  {
+    id: 'blood-moon-urborg',
+    question: 'With Blood Moon and Urborg, Tomb of Yawgmoth both on the battlefield, are my nonbasic lands Swamps too?',
+    cards: [BLOOD_MOON, URBORG],
+    citedRules: ['305.7', '613.8a'],
+    retrievedRules: ['305.7', '613.1d', '613.8a'],
+    assertions: [
+      { description: 'Nonbasic lands are only Mountains', pattern: 'mountains?' },
+      { description: "Urborg's ability doesn't apply", pattern: 'loses|no longer|not swamps|aren\'t swamps' },
+    ],
+    stubReply: {
+      verdict: "No. Urborg becomes a Mountain and loses its ability, so nothing becomes a Swamp.",
+      summary: 'Blood Moon and Urborg, Tomb of Yawgmoth both change land types.',
+      cardMechanics: 'Blood Moon: "Nonbasic lands are Mountains." Urborg: "Each land is a Swamp in addition to its other land types."',
+      rulesApplication: 'Both are type-changing effects in layer 4 (rule 613.1d). Urborg\'s effect depends on Blood Moon\'s (rule 613.8a), so Blood Moon applies first, and by rule 305.7 Urborg loses its rules text.',
+      interactionAnalysis: 'Once Blood Moon applies, Urborg is a Mountain with no abilities, so its Swamp effect no longer exists.',
+      outcome: 'Nonbasic lands are only Mountains; Urborg loses its ability and nothing is a Swamp because of it.',
+      citedRules: ['613.1d', '613.8a', '305.7'],
+      citedCards: ['Blood Moon', 'Urborg, Tomb of Yawgmoth'],
+    },
+  },
+  {
+    id: 'stack-order',
+    question: 'I cast Lightning Bolt at a creature and my opponent responds with Counterspell targeting it. Which one resolves first?',
+    cards: [LIGHTNING_BOLT, COUNTERSPELL],
+    citedRules: ['405.5'],
+    retrievedRules: ['405.2', '405.5'],
+    assertions: [
+      { description: 'Counterspell resolves first', pattern: 'counterspell resolves first|counterspell.{0,40}first' },
+      { description: 'Lightning Bolt is countered', pattern: 'countered' },
+    ],
+    stubReply: {
+      verdict: 'Counterspell resolves first and counters Lightning Bolt.',
+      summary: 'Lightning Bolt is on the stack and Counterspell was cast in response.',
+      cardMechanics: 'Lightning Bolt: "Lightning Bolt deals 3 damage to any target." Counterspell: "Counter target spell."',
+      rulesApplication: 'Each new object goes on top of the stack (rule 405.2), and the top object resolves first when all players pass (rule 405.5).',
+      interactionAnalysis: 'Counterspell is on top, so it resolves first; Lightning Bolt is countered and never deals damage.',
+      outcome: 'Counterspell resolves first, and Lightning Bolt is countered.',
+      citedRules: ['405.2', '405.5'],
+      citedCards: ['Lightning Bolt', 'Counterspell'],
+    },
+  },
+  {
+    id: 'reach-blocks-flying',
+    question: 'Can my Giant Spider block an attacking Serra Angel?',
+    cards: [GIANT_SPIDER, SERRA_ANGEL],
+    citedRules: ['702.9b', '702.17b'],
+    retrievedRules: ['702.9b', '702.17b'],
+    assertions: [
+      { description: 'Yes, reach can block flying', pattern: '^yes|can block' },
+      { description: "Doesn't say it can't block", pattern: "can't block|cannot block", absent: true },
+    ],
+    stubReply: {
+      verdict: 'Yes, Giant Spider can block Serra Angel because it has reach.',
+      summary: 'A creature with reach is blocking a creature with flying.',
+      cardMechanics: 'Giant Spider has "Reach". Serra Angel has "Flying, vigilance".',
+      rulesApplication: 'By rule 702.9b, a flyer can be blocked by creatures with flying or reach, and rule 702.17b says a creature with reach can block creatures with flying.',
+      interactionAnalysis: 'The block is declared in the declare blockers step, and Serra Angel deals 4 damage to Giant Spider, which survives with toughness 4 only if the damage is less than 4.',
+      outcome: 'Giant Spider can block Serra Angel.',
+      citedRules: ['702.9b', '702.17b'],
+      citedCards: ['Giant Spider', 'Serra Angel'],
+    },
+  },
+  {
+    id: 'indestructible-zero-toughness',
+    question: 'If I cast Disfigure on my opponent\'s Darksteel Myr, does it die even though it is indestructible?',
+    cards: [DARKSTEEL_MYR, DISFIGURE],
+    citedRules: ['702.12b', '704.5f'],
+    retrievedRules: ['702.12b', '704.5f'],
+    assertions: [
+      { description: 'The Myr goes to the graveyard', pattern: 'graveyard|dies' },
+      { description: "It isn't saved by indestructible", pattern: 'survives', absent: true },
+    ],
+    stubReply: {
+      verdict: 'Yes. Darksteel Myr has 0 or less toughness and is put into its owner\'s graveyard.',
+      summary: 'An indestructible 0/1 gets -2/-2.',
+      cardMechanics: 'Darksteel Myr has "Indestructible". Disfigure: "Target creature gets -2/-2 until end of turn."',
+      rulesApplication: 'Indestructible stops destruction (rule 702.12b), but rule 704.5f puts a creature with toughness 0 or less into its owner\'s graveyard, which isn\'t destruction.',
+      interactionAnalysis: 'After Disfigure resolves, state-based actions are checked (rule 704.3) before anyone gets priority.',
+      outcome: 'Darksteel Myr dies: it goes to the graveyard as a state-based action.',
+      citedRules: ['702.12b', '704.5f', '704.3'],
+      citedCards: ['Darksteel Myr', 'Disfigure'],
+    },
+  },
+  {
+    id: 'haste-summoning-sickness',
+    question: 'Can Goblin Guide attack the same turn I cast it?',
+    cards: [GOBLIN_GUIDE],
+    citedRules: ['302.6', '702.10b'],
+    retrievedRules: ['302.6', '702.10b'],
+    assertions: [
+      { description: 'Yes, thanks to haste', pattern: 'haste' },
+      { description: 'It can attack', pattern: 'can attack' },
+      { description: "Doesn't say summoning sickness stops it", pattern: "can't attack|cannot attack", absent: true },
+    ],
+    stubReply: {
+      verdict: 'Yes. Goblin Guide has haste, so it can attack the turn it comes under your control.',
+      summary: 'A creature with haste was cast this turn.',
+      cardMechanics: 'Goblin Guide has "Haste".',
+      rulesApplication: 'Rule 302.6 stops creatures attacking until you\'ve controlled them since your most recent turn began; rule 702.10b lets a creature with haste attack anyway.',
+      interactionAnalysis: 'Cast it in your first main phase and declare it as an attacker in the declare attackers step.',
+      outcome: 'Goblin Guide can attack the turn you cast it.',
+      citedRules: ['302.6', '702.10b'],
+      citedCards: ['Goblin Guide'],
+    },
+  },
+  {
+    id: 'hexproof-board-wipe',
+    question: 'Does Wrath of God destroy my opponent\'s Carnage Tyrant even though it has hexproof?',
+    cards: [WRATH_OF_GOD, CARNAGE_TYRANT],
+    citedRules: ['702.11b'],
+    retrievedRules: ['115.1', '702.11b'],
+    assertions: [
+      { description: 'Carnage Tyrant is destroyed', pattern: 'destroy' },
+      { description: "Hexproof doesn't protect it", pattern: "doesn't target|does not target|no target" },
+    ],
+    stubReply: {
+      verdict: "Yes. Wrath of God doesn't target, so hexproof doesn't stop it.",
+      summary: 'A board wipe meets a creature with hexproof.',
+      cardMechanics: 'Wrath of God: "Destroy all creatures. They can\'t be regenerated." Carnage Tyrant has "Trample, hexproof".',
+      rulesApplication: 'Hexproof only stops the permanent being the target of opponents\' spells and abilities (rule 702.11b). Wrath of God does not target (rule 115.1).',
+      interactionAnalysis: 'Wrath of God resolves and destroys every creature (rule 701.8a), including Carnage Tyrant.',
+      outcome: 'Carnage Tyrant is destroyed.',
+      citedRules: ['702.11b', '115.1', '701.8a'],
+      citedCards: ['Wrath of God', 'Carnage Tyrant'],
+    },
+  },
+];
@@ -0,0 +1,100 @@
+import type { GlossaryTerm, Rule } from '@shared/schema';
+import { ruleReferences } from '@shared/rule-numbers';
+
+/**
+ * A slice of the comprehensive rules for the offline evaluation: the rules its cases need, their
+ * parents (a keyword ability's is its name), and neighbours that share their words, so retrieval
+ * has to pick the right ones. In rules order, as the rules table is, with their references to
+ * other rules found the way the importer finds them.
+ */
+const RULE_TEXTS: [string, string][] = [
+  ['100.1', 'These Magic rules apply to any Magic game with two or more players, including two-player games and multiplayer games.'],
+  ['103.1', 'At the start of a game, the players determine which one of them will choose who takes the first turn.'],
+  ['115.1', 'Some spells and abilities require their controller to choose one or more targets for them. The targets are object(s) and/or player(s) the spell or ability will affect.'],
+  ['115.2', 'Only permanents are legal targets for spells and abilities, unless a spell or ability specifies that it can target an object in another zone or a player.'],
+  ['117.3b', 'The player who had priority when a spell or ability resolved receives priority afterward.'],
+  ['117.3c', 'If a player has priority when they cast a spell, activate an ability, or take a special action, that player receives priority afterward.'],
+  ['120.3', 'Damage may have one or more of the following results, depending on whether the recipient of the damage is a player or permanent, the characteristics of the damage\'s source, and the characteristics of the damage\'s recipient.'],
+  ['120.6', 'Damage marked on a creature remains until the cleanup step, even if that permanent stops being a creature.'],
+  ['302.1', 'A player who has priority may cast a creature card from their hand during a main phase of their turn when the stack is empty.'],
+  ['302.6', 'A creature\'s activated ability with the tap symbol or the untap symbol in its activation cost can\'t be activated unless the creature has been under its controller\'s control continuously since their most recent turn began. A creature can\'t attack unless it has been under its controller\'s control continuously since their most recent turn began. This rule is informally called the "summoning sickness" rule.'],
+  ['305.6', 'The basic land types are Plains, Island, Swamp, Mountain, and Forest. If an object uses the words "basic land type," it\'s referring to one of these subtypes.'],
+  ['305.7', 'If an effect sets a land\'s subtype to one or more of the basic land types, the land no longer has its old land type. It loses all abilities generated from its rules text, its old land types, and any copiable effects affecting that land, and it gains the appropriate mana ability for each new basic land type.'],
+  ['405.1', 'When a spell is cast, the physical card is put on the stack. When an ability is activated or triggers, it goes on top of the stack without any card associated with it.'],
+  ['405.2', 'The stack keeps track of the order that spells and/or abilities were added to it. Each time an object is put on the stack, it\'s put on top of all objects already there.'],
+  ['405.5', 'When all players pass in succession, the top (last-added) spell or ability on the stack resolves. If the stack is empty when all players pass, the current step or phase ends and the next begins.'],
+  ['506.4', 'A permanent that\'s removed from combat stops being an attacking, blocking, blocked, and/or unblocked creature.'],
+  ['509.1b', 'The defending player checks each creature they control to see whether it\'s affected by any restrictions (effects that say a creature can\'t block, or that it can\'t block unless some condition is met).'],
+  ['510.1a', 'Each attacking creature and each blocking creature assigns combat damage equal to its power.'],
+  ['510.1c', 'A blocked creature assigns its combat damage to the creatures blocking it. If no creatures are currently blocking it (if, for example, they were destroyed or removed from combat), it assigns no combat damage.'],
+  ['601.2', 'To cast a spell is to take it from where it is, put it on the stack, and pay its costs, so that it will eventually resolve and have its effect.'],
+  ['608.2b', 'If the spell or ability specifies targets, it checks whether the targets are still legal. A target that\'s no longer in the zone it was in when it was targeted is illegal.'],
+  ['613.1d', 'Layer 4: Type-changing effects are applied. These include effects that change an object\'s card type, subtype, and/or supertype.'],
+  ['613.1f', 'Layer 6: Ability-adding effects, keyword counters, ability-removing effects, and effects that say an object can\'t have an ability are applied.'],
+  ['613.8a', 'An effect is said to "depend on" another if (a) it\'s applied in the same layer (and, if applicable, sublayer) as the other effect; (b) applying the other would change the text or the existence of the first effect, what it applies to, or what it does to any of the things it applies to.'],
+  ['701.8a', 'To destroy a permanent, move it from the battlefield to its owner\'s graveyard.'],
+  ['702.2', 'Deathtouch'],
+  ['702.2b', 'A creature with toughness greater than 0 that\'s been dealt damage by a source with deathtouch since the last time state-based actions were checked is destroyed as a state-based action. See rule 704.'],
+  ['702.2c', 'Any nonzero amount of combat damage assigned to a creature by a source with deathtouch is considered to be lethal damage for the purposes of determining if a proposed combat damage assignment is valid, regardless of that creature\'s toughness. See rules 510.1c–d.'],
+  ['702.9', 'Flying'],
+  ['702.9b', 'A creature with flying can\'t be blocked except by creatures with flying and/or reach. A creature with flying can block a creature with or without flying. (See rule 509, "Declare Blockers Step," and rule 702.17, "Reach.")'],
+  ['702.10', 'Haste'],
+  ['702.10b', 'A creature with haste can attack and its activated abilities with the tap symbol or the untap symbol in their activation costs can be activated even if it hasn\'t been under its controller\'s control continuously since their most recent turn began. (See rule 302.6.)'],
+  ['702.11', 'Hexproof'],
+  ['702.11b', '"Hexproof" on a permanent means "This permanent can\'t be the target of spells or abilities your opponents control."'],
+  ['702.12', 'Indestructible'],
+  ['702.12b', 'A permanent with indestructible can\'t be destroyed. Such permanents aren\'t destroyed by lethal damage, and they ignore the state-based action that checks for lethal damage (see rule 704.5g).'],
+  ['702.15', 'Lifelink'],
+  ['702.15b', 'Damage dealt by a source with lifelink causes that source\'s controller to gain that much life (in addition to any other results that damage causes).'],
+  ['702.17', 'Reach'],
+  ['702.17b', 'A creature with reach can block creatures with flying. (See rule 509, "Declare Blockers Step," and rule 702.9, "Flying.")'],
+  ['702.19', 'Trample'],
+  ['702.19b', 'The controller of an attacking creature with trample first assigns damage to the creature(s) blocking it. Once all those blocking creatures are assigned lethal damage, any excess damage is assigned as its controller chooses among those blocking creatures and the player, planeswalker, or battle the creature is attacking.'],
+  ['702.19c', 'Assigning lethal damage to a blocking creature takes into account damage already marked on it and damage from other creatures that\'s being assigned during the same combat damage step, but not any abilities or effects that might change the amount of damage that\'s actually dealt.'],
+  ['704.3', 'Whenever a player would get priority, the game checks for any of the listed conditions for state-based actions, then performs all applicable state-based actions simultaneously as a single event.'],
+  ['704.5', 'The state-based actions are as follows:'],
+  ['704.5f', 'If a creature has toughness 0 or less, it\'s put into its owner\'s graveyard. Regeneration can\'t replace this event.'],
+  ['704.5g', 'If a creature has toughness greater than 0, it has damage marked on it, and the total damage marked on it is greater than or equal to its toughness, that creature has been dealt lethal damage and is destroyed. Regeneration can replace this event.'],
+];
+
+export const EVAL_RULES: Rule[] = RULE_TEXTS.map(([ruleNumber, text], i) => ({
+  id: i + 1,
+  chapter: ruleNumber.charAt(0),
+  section: null,
+  subsection: null,
+  rule_number: ruleNumber,
+  text,
+  examples: null,
+  keywords: null,
+  related_rules: ruleReferences(text).filter(number => number !== ruleNumber),
+  createdAt: null,
+  updatedAt: null,
+}));
+
+/**
+ * Glossary entries for the terms the cases' questions use, as the importer parses them
+ */
+const GLOSSARY_ENTRIES: [string, string, string[]][] = [
+  ['Basic Land Type', 'There are five “basic land types”: Plains, Island, Swamp, Mountain, and Forest. Each one has a mana ability associated with it. See rule 305, “Lands.”', ['305']],
+  ['Combat Damage', 'Damage dealt during the combat damage step by attacking creatures and blocking creatures as a consequence of combat. See rule 510, “Combat Damage Step.”', ['510']],
+  ['Deathtouch', 'A keyword ability that causes damage dealt by an object to be especially effective. See rule 702.2, “Deathtouch.”', ['702.2']],
+  ['Dies', 'A creature or planeswalker “dies” if it is put into a graveyard from the battlefield. See rule 700.4.', ['700.4']],
+  ['Haste', 'A keyword ability that lets a creature ignore the “summoning sickness” rule. See rule 702.10, “Haste,” and rule 302.6.', ['702.10', '302.6']],
+  ['Hexproof', 'A keyword ability that precludes a permanent or player from being targeted by an opponent. See rule 702.11, “Hexproof.”', ['702.11']],
+  ['Indestructible', 'A keyword ability that precludes a permanent from being destroyed. See rule 702.12.', ['702.12']],
+  ['Lethal Damage', 'An amount of damage greater than or equal to a creature’s toughness. See rules 120.4a, 120.6, 510.1, and 704.5g.', ['120.4a', '120.6', '510.1', '704.5g']],
+  ['Permanent', 'A card or token on the battlefield. See rule 110, “Permanents.”', ['110']],
+  ['Stack', 'A zone. The stack is the zone in which spells, activated abilities, and triggered abilities wait to resolve. See rule 405, “Stack.”', ['405']],
+  ['State-Based Actions', 'Game actions that happen automatically whenever certain conditions are met. See rule 704, “State-Based Actions.”', ['704']],
+  ['Summoning Sickness Rule', 'Informal term for a player’s inability to attack with a creature or to activate its abilities that include the tap symbol or the untap symbol unless the creature has been under that player’s control since the beginning of that player’s most recent turn. See rule 302.6. See also Haste.', ['302.6']],
+  ['Toughness', '1. Part of a card that only creature cards have. A creature card’s toughness is printed after the slash in its lower right corner. See rule 208, “Power/Toughness.”\n2. A characteristic that only creatures have. See rule 302.4.', ['208', '302.4']],
+  ['Trample', 'A keyword ability that modifies how a creature assigns combat damage. See rule 702.19, “Trample.”', ['702.19']],
+];
+
+export const EVAL_GLOSSARY: GlossaryTerm[] = GLOSSARY_ENTRIES.map(([term, definition, ruleNumbers], i) => ({
+  id: i + 1,
+  term,
+  definition,
+  ruleNumbers,
+  createdAt: null,
+}));
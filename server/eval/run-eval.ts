@@ -0,0 +1,308 @@
+/**
+ * Offline regression run for the rules assistant: asks getCardRuling each question of the eval
+ * set and checks the answers' cited rules and outcomes, and how well findRelevantRules found
+ * the rules each question needs. Writes a JSON report that diffs cleanly between runs.
+ *
+ *   npm run eval:rulings                        Canned answers and fixture rules; needs nothing
+ *   npm run eval:rulings -- --provider recorded Replay answers recorded from a real model
+ *   npm run eval:rulings -- --provider live     Ask the configured model (LLM_PROVIDER)
+ *   npm run eval:rulings -- --provider live --record   ...and save its answers for replay
+ *   npm run eval:rulings -- --rules db          Search the rules table instead of the fixtures
+ *   npm run eval:rulings -- --out report.json   Write the report elsewhere
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ChatMessage, CompletionOptions, LLMProvider, StreamOptions } from '../llm/provider';
+import type { StubFixtureSet } from '../llm/stub-fixtures';
+import type { RulingResult } from '../rulings/ruling-answer';
+import { EVAL_CASES, EVAL_SET_VERSION, type EvalCase } from './eval-cases';
+
+type ProviderMode = 'stub' | 'recorded' | 'live';
+type RulesMode = 'fixtures' | 'db';
+
+interface EvalOptions {
+  provider: ProviderMode;
+  rules: RulesMode;
+  record: boolean;
+  out: string;
+  verbose: boolean;
+}
+
+interface Recording {
+  promptHash: string;
+  reply: string;
+}
+
+interface RecordingFile {
+  evalSetVersion: number;
+  cases: Record<string, Recording>;
+}
+
+interface CaseReport {
+  id: string;
+  passed: boolean; // The answer was structured, cited every required rule and met every assertion
+  error?: string;
+  structured: boolean;
+  promptChanged?: boolean; // Replayed answer was recorded for a different prompt
+  citations: { required: string[]; cited: string[]; missing: string[] };
+  retrieval: { expected: string[]; retrieved: string[]; missing: string[]; recall: number; precision: number };
+  assertions: { description: string; passed: boolean }[];
+}
+
+const EVAL_DIR = path.dirname(fileURLToPath(import.meta.url));
+const RECORDINGS_PATH = path.join(EVAL_DIR, 'recordings.json');
+const DEFAULT_REPORT_PATH = path.join(EVAL_DIR, 'report.json');
+
+function parseOptions(args: string[]): EvalOptions {
+  const options: EvalOptions = { provider: 'stub', rules: 'fixtures', record: false, out: DEFAULT_REPORT_PATH, verbose: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--provider' && ['stub', 'recorded', 'live'].includes(args[i + 1])) {
+      options.provider = args[++i] as ProviderMode;
+    } else if (arg === '--rules' && ['fixtures', 'db'].includes(args[i + 1])) {
+      options.rules = args[++i] as RulesMode;
+    } else if (arg === '--out' && args[i + 1]) {
+      options.out = path.resolve(args[++i]);
+    } else if (arg === '--record') {
+      options.record = true;
+    } else if (arg === '--verbose') {
+      options.verbose = true;
+    } else {
+      throw new Error(`Unknown option "${arg}". Options: --provider stub|recorded|live, --rules fixtures|db, --record, --out <file>, --verbose`);
+    }
+  }
+  if (options.record && options.provider !== 'live') {
+    throw new Error('--record needs --provider live');
+  }
+  return options;
+}
+
+function promptHash(messages: ChatMessage[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 16);
+}
+
+function readRecordings(): RecordingFile {
+  if (!fs.existsSync(RECORDINGS_PATH)) {
+    return { evalSetVersion: EVAL_SET_VERSION, cases: {} };
+  }
+  return JSON.parse(fs.readFileSync(RECORDINGS_PATH, 'utf8')) as RecordingFile;
+}
+
+/**
+ * Passes calls through to another provider, keeping the last prompt and reply
+ */
+class CapturingProvider implements LLMProvider {
+  readonly name: string;
+  lastMessages: ChatMessage[] = [];
+  lastReply = '';
+
+  constructor(private provider: LLMProvider) {
+    this.name = provider.name;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    this.lastMessages = messages;
+    this.lastReply = await this.provider.complete(messages, options);
+    return this.lastReply;
+  }
+
+  completeJson<T = unknown>(messages: ChatMessage[], options: CompletionOptions): Promise<T> {
+    this.lastMessages = messages;
+    return this.provider.completeJson<T>(messages, options);
+  }
+
+  async stream(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    this.lastMessages = messages;
+    this.lastReply = await this.provider.stream(messages, options);
+    return this.lastReply;
+  }
+}
+
+// Each case's question matches only its own reply
+function caseFixtures(replies: Record<string, string>): StubFixtureSet {
+  return {
+    ruling: EVAL_CASES
+      .filter(evalCase => replies[evalCase.id] !== undefined)
+      .map(evalCase => ({ match: evalCase.question, response: replies[evalCase.id] })),
+  };
+}
+
+// Citing a rule's subrule counts as citing the rule, e.g. 704.5f for 704
+function citesRule(cited: string[], rule: string): boolean {
+  return cited.some(number => number === rule || (number.startsWith(rule) && /^[.a-z]/.test(number.slice(rule.length))));
+}
+
+function ratio(found: number, total: number): number {
+  return total === 0 ? 1 : Math.round((found / total) * 1000) / 1000;
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+
+  // The database is only connected to on first query, so fixture runs need no real one
+  if (!process.env.DATABASE_URL) {
+    if (options.rules === 'db') {
+      throw new Error('--rules db needs DATABASE_URL');
+    }
+    process.env.DATABASE_URL = 'postgres://eval@localhost/eval';
+  }
+
+  const { getCardRuling } = await import('../openai');
+  const { llmService } = await import('../llm/llm-service');
+  const { StubProvider } = await import('../llm/stub-provider');
+  const { rulingKnowledge, FixtureKnowledgeSource } = await import('../rulings/ruling-knowledge');
+  const { extractCitationReferences } = await import('../rulings/citation-service');
+  const { EVAL_GLOSSARY, EVAL_RULES } = await import('./eval-rules');
+
+  const log = console.log;
+  if (!options.verbose) {
+    // The ruling code logs its searches; keep the output to the results and errors
+    console.log = () => {};
+  }
+
+  if (options.rules === 'fixtures') {
+    rulingKnowledge.setSource(new FixtureKnowledgeSource(EVAL_RULES, EVAL_GLOSSARY));
+  }
+
+  const recordings = readRecordings();
+  if (options.provider === 'recorded' && recordings.evalSetVersion !== EVAL_SET_VERSION) {
+    log(`Recordings are from eval set v${recordings.evalSetVersion}, not v${EVAL_SET_VERSION}; record them again`);
+  }
+  const replies: Record<string, string> = {};
+  for (const evalCase of EVAL_CASES) {
+    replies[evalCase.id] = options.provider === 'recorded'
+      ? recordings.cases[evalCase.id]?.reply
+      : JSON.stringify(evalCase.stubReply);
+  }
+  const provider = new CapturingProvider(
+    options.provider === 'live' ? llmService.getProvider() : new StubProvider(caseFixtures(replies))
+  );
+  llmService.setProvider(provider);
+
+  const runCase = async (evalCase: EvalCase): Promise<CaseReport> => {
+    const [primaryCard, ...additionalCards] = evalCase.cards;
+
+    const retrieved = (await rulingKnowledge.findRelevantRules(evalCase.question, primaryCard ?? null, additionalCards))
+      .map(({ rule }) => rule.rule_number);
+    const relevant = evalCase.retrievedRules.concat(evalCase.citedRules);
+    const retrieval = {
+      expected: evalCase.retrievedRules,
+      retrieved,
+      missing: evalCase.retrievedRules.filter(rule => !retrieved.includes(rule)),
+      recall: ratio(evalCase.retrievedRules.filter(rule => retrieved.includes(rule)).length, evalCase.retrievedRules.length),
+      precision: ratio(retrieved.filter(rule => relevant.some(expected => citesRule([rule], expected))).length, retrieved.length),
+    };
+
+    const report: CaseReport = {
+      id: evalCase.id,
+      passed: false,
+      structured: false,
+      citations: { required: evalCase.citedRules, cited: [], missing: evalCase.citedRules },
+      retrieval,
+      assertions: evalCase.assertions.map(assertion => ({ description: assertion.description, passed: false })),
+    };
+
+    if (options.provider === 'recorded' && replies[evalCase.id] === undefined) {
+      return { ...report, error: 'No recorded answer' };
+    }
+
+    let result: RulingResult;
+    try {
+      result = await getCardRuling(evalCase.question, primaryCard ?? null, [], additionalCards);
+    } catch (error: any) {
+      return { ...report, error: error.message };
+    }
+
+    const hash = promptHash(provider.lastMessages);
+    if (options.record) {
+      recordings.cases[evalCase.id] = { promptHash: hash, reply: provider.lastReply };
+    }
+    if (options.provider === 'recorded') {
+      report.promptChanged = recordings.cases[evalCase.id].promptHash !== hash;
+    }
+
+    const cited = Array.from(new Set([
+      ...(result.structured?.citedRules ?? []),
+      ...extractCitationReferences(result.content).filter(ref => ref.type === 'rule').map(ref => ref.reference),
+    ])).sort();
+    const missing = evalCase.citedRules.filter(rule => !citesRule(cited, rule));
+
+    const outcomeText = result.structured ? `${result.structured.verdict}\n${result.structured.outcome}` : result.content;
+    const assertions = evalCase.assertions.map(assertion => {
+      const matched = new RegExp(assertion.pattern, 'i').test(outcomeText);
+      return { description: assertion.description, passed: assertion.absent ? !matched : matched };
+    });
+
+    return {
+      ...report,
+      passed: !!result.structured && missing.length === 0 && assertions.every(assertion => assertion.passed),
+      structured: !!result.structured,
+      citations: { required: evalCase.citedRules, cited, missing },
+      assertions,
+    };
+  };
+
+  const cases: CaseReport[] = [];
+  for (const evalCase of EVAL_CASES) {
+    const report = await runCase(evalCase);
+    cases.push(report);
+
+    const assertionsPassed = report.assertions.filter(assertion => assertion.passed).length;
+    log([
+      report.passed ? 'PASS' : 'FAIL',
+      evalCase.id.padEnd(32),
+      `retrieval ${report.retrieval.expected.length - report.retrieval.missing.length}/${report.retrieval.expected.length}`,
+      `citations ${report.citations.required.length - report.citations.missing.length}/${report.citations.required.length}`,
+      `assertions ${assertionsPassed}/${report.assertions.length}`,
+      report.promptChanged ? '(prompt changed since recording)' : '',
+      report.error ? `(${report.error})` : '',
+    ].filter(Boolean).join('  '));
+  }
+
+  const allAssertions = cases.flatMap(report => report.assertions);
+  const requiredCitations = cases.reduce((total, report) => total + report.citations.required.length, 0);
+  const missingCitations = cases.reduce((total, report) => total + report.citations.missing.length, 0);
+  const summary = {
+    cases: cases.length,
+    passed: cases.filter(report => report.passed).length,
+    structured: cases.filter(report => report.structured).length,
+    citationRecall: ratio(requiredCitations - missingCitations, requiredCitations),
+    assertionsPassed: allAssertions.filter(assertion => assertion.passed).length,
+    assertions: allAssertions.length,
+    retrievalRecall: ratio(
+      cases.reduce((total, report) => total + report.retrieval.expected.length - report.retrieval.missing.length, 0),
+      cases.reduce((total, report) => total + report.retrieval.expected.length, 0)
+    ),
+    retrievalPrecision: ratio(
+      cases.reduce((total, report) => total + report.retrieval.precision * report.retrieval.retrieved.length, 0),
+      cases.reduce((total, report) => total + report.retrieval.retrieved.length, 0)
+    ),
+  };
+
+  // No timestamps, so reports from the same code are identical
+  const evalReport = {
+    evalSetVersion: EVAL_SET_VERSION,
+    provider: options.provider === 'live' ? provider.name : options.provider,
+    rules: options.rules,
+    summary,
+    cases,
+  };
+  fs.writeFileSync(options.out, `${JSON.stringify(evalReport, null, 2)}\n`);
+
+  if (options.record) {
+    fs.writeFileSync(RECORDINGS_PATH, `${JSON.stringify({ ...recordings, evalSetVersion: EVAL_SET_VERSION }, null, 2)}\n`);
+    log(`Recorded answers written to ${path.relative(process.cwd(), RECORDINGS_PATH)}`);
+  }
+
+  log(`\n${summary.passed}/${summary.cases} cases passed, retrieval recall ${summary.retrievalRecall}, precision ${summary.retrievalPrecision}`);
+  log(`Report written to ${path.relative(process.cwd(), options.out)}`);
+
+  process.exit(summary.passed === summary.cases ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,177 @@
+import type { NextFunction, Request, Response } from 'express';
+import { OpenAIProvider } from './openai-provider';
+import { StubProvider, loadStubFixtures } from './stub-provider';
+import { LLMUnavailableError, type ChatMessage, type LLMFeature, type LLMProvider } from './provider';
+
+export interface FeatureModelConfig {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+const FEATURE_DEFAULTS: Record<LLMFeature, FeatureModelConfig> = {
+  ruling: { model: 'gpt-4o', temperature: 0.3, maxTokens: 1500 }, // Lower temperature for more factual responses; room for the JSON sections
+  deckGeneration: { model: 'gpt-4o', temperature: 0.7 },
+  rulesSearch: { model: 'gpt-4o' },
+};
+
+// Environment variable prefix per feature, e.g. LLM_DECK_GENERATION_MODEL
+const FEATURE_ENV_PREFIXES: Record<LLMFeature, string> = {
+  ruling: 'LLM_RULING',
+  deckGeneration: 'LLM_DECK_GENERATION',
+  rulesSearch: 'LLM_RULES_SEARCH',
+};
+
+function numberFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    console.warn(`Ignoring ${name}: "${value}" is not a number`);
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * A feature's model settings: LLM_<FEATURE>_MODEL, _TEMPERATURE and _MAX_TOKENS, then
+ * LLM_MODEL for every feature, then the defaults above
+ */
+export function getFeatureConfig(feature: LLMFeature): FeatureModelConfig {
+  const defaults = FEATURE_DEFAULTS[feature];
+  const prefix = FEATURE_ENV_PREFIXES[feature];
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || defaults.model,
+    temperature: numberFromEnv(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    maxTokens: numberFromEnv(`${prefix}_MAX_TOKENS`) ?? defaults.maxTokens,
+  };
+}
+
+// Where answering from stub fixtures without being asked to is expected
+function isStubEnvironment(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * The provider named by LLM_PROVIDER: "openai", "openai-compatible" (LLM_BASE_URL) or "stub".
+ * Without it, OpenAI when OPENAI_API_KEY is set, and otherwise the stub in development and
+ * tests. Elsewhere that's an LLMUnavailableError, so canned answers never pass for real ones.
+ */
+export function createProvider(): LLMProvider {
+  const providerName = process.env.LLM_PROVIDER
+    || (process.env.OPENAI_API_KEY ? 'openai' : isStubEnvironment() ? 'stub' : null);
+  if (!providerName) {
+    throw new LLMUnavailableError('AI features are not configured: set OPENAI_API_KEY or LLM_PROVIDER');
+  }
+
+  switch (providerName) {
+    case 'openai':
+      return new OpenAIProvider({
+        name: 'openai',
+        apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
+      });
+
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER is "openai-compatible"');
+      }
+      return new OpenAIProvider({
+        name: 'openai-compatible',
+        // Most local servers ignore the key, but the client needs one
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL,
+        jsonMode: process.env.LLM_JSON_MODE !== 'false',
+      });
+
+    case 'stub':
+      if (!process.env.LLM_PROVIDER) {
+        console.warn('OPENAI_API_KEY is not set; AI features will answer from offline stub fixtures');
+      }
+      return new StubProvider(process.env.LLM_STUB_FIXTURES ? loadStubFixtures(process.env.LLM_STUB_FIXTURES) : {});
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}"; expected openai, openai-compatible or stub`);
+  }
+}
+
+export interface FeatureCallOptions {
+  json?: boolean; // Ask for a JSON object
+  signal?: AbortSignal;
+}
+
+/**
+ * Chat completions for the app's AI features, each with its own model settings
+ */
+export class LLMService {
+  private static instance: LLMService;
+  private provider: LLMProvider | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): LLMService {
+    if (!LLMService.instance) {
+      LLMService.instance = new LLMService();
+    }
+    return LLMService.instance;
+  }
+
+  /**
+   * The configured provider, created on first use so the environment is read after startup
+   */
+  public getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createProvider();
+      console.log(`Using the ${this.provider.name} model provider`);
+    }
+    return this.provider;
+  }
+
+  /**
+   * Use a different provider, e.g. a StubProvider with test fixtures
+   */
+  public setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+  }
+
+  public complete(feature: LLMFeature, messages: ChatMessage[], options: FeatureCallOptions = {}): Promise<string> {
+    return this.getProvider().complete(messages, { feature, ...getFeatureConfig(feature), ...options });
+  }
+
+  public completeJson<T = unknown>(feature: LLMFeature, messages: ChatMessage[], options: FeatureCallOptions = {}): Promise<T> {
+    return this.getProvider().completeJson<T>(messages, { feature, ...getFeatureConfig(feature), ...options });
+  }
+
+  /**
+   * Stream a completion, handing each token to onToken, and return the full text.
+   * Aborting the signal stops generation; the text so far is returned.
+   */
+  public stream(
+    feature: LLMFeature,
+    messages: ChatMessage[],
+    options: FeatureCallOptions & { onToken: (token: string) => void }
+  ): Promise<string> {
+    return this.getProvider().stream(messages, { feature, ...getFeatureConfig(feature), ...options });
+  }
+}
+
+export const llmService = LLMService.getInstance();
+
+/**
+ * Answer 503 on AI routes when no model provider is configured
+ */
+export function requireModelProvider(req: Request, res: Response, next: NextFunction): void {
+  try {
+    llmService.getProvider();
+    next();
+  } catch (error: any) {
+    if (error instanceof LLMUnavailableError) {
+      res.status(503).json({ message: error.message });
+      return;
+    }
+    next(error);
+  }
+}
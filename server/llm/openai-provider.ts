@@ -0,0 +1,90 @@
+import OpenAI from 'openai';
+import {
+  LLMResponseError,
+  parseJsonReply,
+  type ChatMessage,
+  type CompletionOptions,
+  type LLMProvider,
+  type StreamOptions,
+} from './provider';
+
+export interface OpenAIProviderConfig {
+  name: string;
+  apiKey: string;
+  baseURL?: string; // An OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  jsonMode?: boolean; // Send response_format json_object; not every compatible server supports it
+}
+
+/**
+ * OpenAI, or any server that speaks the OpenAI chat completions API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private jsonMode: boolean;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.name = config.name;
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    this.jsonMode = config.jsonMode ?? true;
+  }
+
+  private responseFormat(options: CompletionOptions) {
+    return options.json && this.jsonMode ? { response_format: { type: 'json_object' as const } } : {};
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...this.responseFormat(options),
+    }, { signal: options.signal });
+
+    return response.choices[0]?.message.content ?? '';
+  }
+
+  async completeJson<T = unknown>(messages: ChatMessage[], options: CompletionOptions): Promise<T> {
+    const response = await this.client.chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...this.responseFormat({ ...options, json: true }),
+    }, { signal: options.signal });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new LLMResponseError(`Empty ${options.feature} reply from ${this.name}`);
+    }
+    return parseJsonReply<T>(content, options.feature);
+  }
+
+  async stream(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    let reply = '';
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: options.model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...this.responseFormat(options),
+        stream: true,
+      }, { signal: options.signal });
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          reply += token;
+          options.onToken(token);
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+    }
+    return reply;
+  }
+}
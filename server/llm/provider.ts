@@ -0,0 +1,83 @@
+/**
+ * Chat completion providers: OpenAI, any OpenAI-compatible endpoint and an offline stub
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Features that call the model, each with its own model, temperature and token limit
+export type LLMFeature = 'ruling' | 'deckGeneration' | 'rulesSearch';
+
+export interface CompletionOptions {
+  feature: LLMFeature; // Lets the stub pick a fixture and errors name the caller
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object, using the provider's JSON mode where it has one
+  signal?: AbortSignal;
+}
+
+export interface StreamOptions extends CompletionOptions {
+  onToken: (token: string) => void;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  /** The assistant's reply */
+  complete(messages: ChatMessage[], options: CompletionOptions): Promise<string>;
+
+  /** The reply parsed as a JSON object (implies json) */
+  completeJson<T = unknown>(messages: ChatMessage[], options: CompletionOptions): Promise<T>;
+
+  /**
+   * The reply token by token. Resolves with the full text; aborting the signal stops
+   * generation and resolves with the text so far.
+   */
+  stream(messages: ChatMessage[], options: StreamOptions): Promise<string>;
+}
+
+export class LLMResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMResponseError';
+  }
+}
+
+/**
+ * Error thrown when no model provider is configured, so AI features can't answer
+ */
+export class LLMUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+/**
+ * Parse a JSON reply, tolerating the Markdown code fence or leading prose that models
+ * without a JSON mode sometimes add around the object
+ */
+export function parseJsonReply<T>(reply: string, feature: LLMFeature): T {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : reply).trim();
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(text.slice(start, end + 1)) as T;
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    throw new LLMResponseError(`The ${feature} reply was not valid JSON`);
+  }
+}
@@ -0,0 +1,89 @@
+import type { ChatMessage, LLMFeature } from './provider';
+
+/**
+ * A canned reply: used when the last user message contains `match` (case-insensitive), or
+ * as the feature's default when `match` is omitted. JSON features reply with serialized JSON.
+ */
+export interface StubFixture {
+  match?: string;
+  response: string | ((messages: ChatMessage[]) => string);
+}
+
+export type StubFixtureSet = Partial<Record<LLMFeature, StubFixture[]>>;
+
+// Rule numbers in the keyword-search list the rules search prompt includes, e.g. "702.19b: ..."
+function listedRuleNumbers(messages: ChatMessage[]): string[] {
+  const prompt = messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+  const numbers = prompt.match(/^\d{3}(?:\.\d+[a-z]?)?(?=:)/gm) || [];
+  return Array.from(new Set(numbers));
+}
+
+export const DEFAULT_STUB_FIXTURES: StubFixtureSet = {
+  // Ruling replies follow the structured answer schema (shared/ruling-answer.ts)
+  ruling: [
+    {
+      match: 'trample',
+      response: JSON.stringify({
+        verdict: 'Assign lethal damage to each blocker; the rest can go to the player or planeswalker being attacked.',
+        summary: 'An attacking creature with trample is blocked, and the question is how its combat damage is assigned.',
+        cardMechanics: 'Trample is a static ability that changes how the creature assigns combat damage.',
+        rulesApplication: 'According to rule 702.19b, the attacking creature\'s controller must assign lethal damage to all blocking creatures before assigning the rest to the player. Rule 702.2c means one point of damage from a source with deathtouch counts as lethal damage.',
+        interactionAnalysis: 'Damage is assigned in the combat damage step, after blockers are declared, and state-based actions (rule 704) then destroy creatures with lethal damage.',
+        outcome: 'Assign lethal damage to each blocker and the remainder to the defending player.',
+        citedRules: ['702.19b', '702.2c', '704'],
+        citedCards: [],
+      }),
+    },
+    {
+      match: 'stack',
+      response: JSON.stringify({
+        verdict: 'The last spell or ability put on the stack resolves first.',
+        summary: 'Several spells or abilities are on the stack, and the question is the order they resolve in.',
+        cardMechanics: 'No particular card is involved.',
+        rulesApplication: 'Rule 405.5 says that when all players pass in succession, the top object of the stack resolves. Rule 117.3b gives the active player priority after a spell or ability resolves.',
+        interactionAnalysis: 'Players can respond to each object on the stack, adding new objects on top, which resolve before it.',
+        outcome: 'The most recently cast spell or activated ability resolves first.',
+        citedRules: ['405.5', '117.3b'],
+        citedCards: [],
+      }),
+    },
+    {
+      response: JSON.stringify({
+        verdict: 'No ruling was made: this is an offline answer from the stub model provider.',
+        summary: 'The stub model provider answered, so this does not reflect the actual cards or rules in question.',
+        cardMechanics: '',
+        rulesApplication: 'See rule 100.1 for the basics of the game, and set LLM_PROVIDER to "openai" or "openai-compatible" for real rulings.',
+        interactionAnalysis: '',
+        outcome: 'No ruling was made.',
+        citedRules: ['100.1'],
+        citedCards: [],
+      }),
+    },
+  ],
+
+  deckGeneration: [
+    {
+      response: JSON.stringify({
+        deckName: 'Offline Red Aggro',
+        deckDescription: 'A fixed mono-red list from the stub model provider, for developing the deck generator without a model.',
+        cards: [
+          { name: 'Monastery Swiftspear', quantity: 4, type: 'Creature' },
+          { name: 'Goblin Guide', quantity: 4, type: 'Creature' },
+          { name: 'Lightning Bolt', quantity: 4, type: 'Instant' },
+          { name: 'Shock', quantity: 4, type: 'Instant' },
+          { name: 'Lava Spike', quantity: 4, type: 'Sorcery' },
+          { name: 'Mountain', quantity: 20, type: 'Land' },
+        ],
+      }),
+    },
+  ],
+
+  rulesSearch: [
+    {
+      response: messages => JSON.stringify({
+        relevantRuleNumbers: listedRuleNumbers(messages).slice(0, 3),
+        explanation: 'The stub model provider picked the first keyword matches; set LLM_PROVIDER for a real explanation.',
+      }),
+    },
+  ],
+};
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import {
+  LLMResponseError,
+  parseJsonReply,
+  type ChatMessage,
+  type CompletionOptions,
+  type LLMFeature,
+  type LLMProvider,
+  type StreamOptions,
+} from './provider';
+import { DEFAULT_STUB_FIXTURES, type StubFixture, type StubFixtureSet } from './stub-fixtures';
+
+/**
+ * Fixtures from a JSON file shaped like DEFAULT_STUB_FIXTURES (string responses only).
+ * Its fixtures are tried before the built-in ones.
+ */
+export function loadStubFixtures(path: string): StubFixtureSet {
+  const fixtures = JSON.parse(fs.readFileSync(path, 'utf8')) as StubFixtureSet;
+  for (const [feature, entries] of Object.entries(fixtures)) {
+    if (!Array.isArray(entries) || entries.some(entry => typeof entry?.response !== 'string')) {
+      throw new Error(`Invalid stub fixtures for "${feature}" in ${path}`);
+    }
+  }
+  return fixtures;
+}
+
+/**
+ * A deterministic provider that answers from fixtures, for tests and offline development.
+ * The same messages always get the same reply, and nothing leaves the machine.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  private fixtures: StubFixtureSet;
+
+  constructor(fixtures: StubFixtureSet = {}) {
+    this.fixtures = fixtures;
+  }
+
+  private findFixture(feature: LLMFeature, messages: ChatMessage[]): StubFixture | undefined {
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    const question = (lastUserMessage?.content || '').toLowerCase();
+    const candidates = [...(this.fixtures[feature] || []), ...(DEFAULT_STUB_FIXTURES[feature] || [])];
+
+    return candidates.find(fixture => fixture.match && question.includes(fixture.match.toLowerCase()))
+      || candidates.find(fixture => !fixture.match);
+  }
+
+  private reply(messages: ChatMessage[], options: CompletionOptions): string {
+    const fixture = this.findFixture(options.feature, messages);
+    if (!fixture) {
+      throw new LLMResponseError(`No stub fixture for ${options.feature}`);
+    }
+    return typeof fixture.response === 'function' ? fixture.response(messages) : fixture.response;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    return this.reply(messages, options);
+  }
+
+  async completeJson<T = unknown>(messages: ChatMessage[], options: CompletionOptions): Promise<T> {
+    return parseJsonReply<T>(this.reply(messages, options), options.feature);
+  }
+
+  async stream(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    // Words with their trailing whitespace, so the tokens join back into the reply
+    const tokens = this.reply(messages, options).match(/\S+\s*|\s+/g) || [];
+    let reply = '';
+    for (const token of tokens) {
+      if (options.signal?.aborted) {
+        break;
+      }
+      reply += token;
+      options.onToken(token);
+      // Yield between tokens so a cancel can land mid-answer, as it would with a real model
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return reply;
+  }
+}
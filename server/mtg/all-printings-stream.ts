@@ -0,0 +1,42 @@
+import fs from 'fs';
+import streamJson from 'stream-json';
+import Pick from 'stream-json/filters/Pick.js';
+import StreamObject from 'stream-json/streamers/StreamObject.js';
+
+export interface AllPrintingsSetEntry {
+  setCode: string;
+  setData: any;
+  bytesRead: number; // Bytes of the file consumed so far, for progress reporting
+}
+
+/**
+ * Stream the sets of an AllPrintings.json file one at a time.
+ * Only the set currently being yielded is held in memory, instead of the
+ * several hundred MB a full JSON.parse needs.
+ */
+export async function* streamAllPrintingsSets(filePath: string): AsyncGenerator<AllPrintingsSetEntry> {
+  const fileStream = fs.createReadStream(filePath);
+  const parser = streamJson.parser();
+  const picker = Pick.pick({ filter: 'data' });
+  const setStream = fileStream.pipe(parser).pipe(picker).pipe(StreamObject.streamObject());
+  const streams = [fileStream, parser, picker, setStream];
+
+  // pipe() does not forward errors, so a truncated or malformed file would otherwise hang the loop
+  const failure = new Promise<never>((_, reject) => {
+    streams.forEach(stream => stream.on('error', reject));
+  });
+  failure.catch(() => {});
+
+  try {
+    const iterator = setStream[Symbol.asyncIterator]();
+    while (true) {
+      const next = await Promise.race([iterator.next(), failure]);
+      if (next.done) break;
+
+      const { key, value } = next.value as { key: string; value: any };
+      yield { setCode: key, setData: value, bytesRead: fileStream.bytesRead };
+    }
+  } finally {
+    streams.forEach(stream => stream.destroy());
+  }
+}
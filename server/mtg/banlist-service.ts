@@ -0,0 +1,376 @@
+import { db } from '../db';
+import {
+  banlistEntries,
+  oracleCards,
+  type BanlistEntry,
+  type InsertBanlistEntry
+} from '@shared/schema';
+import { and, asc, eq, ilike, inArray, sql, type SQL } from 'drizzle-orm';
+import { formatStatusSql, todayIsoDate, toLegalityKey } from './card-query';
+
+export const BANLIST_STATUSES = ['banned', 'restricted', 'legal'] as const;
+export type BanlistStatus = typeof BANLIST_STATUSES[number];
+
+// Status of a card in a format on a date; null when the card is not in the format's card pool
+export type FormatLegality = 'legal' | 'restricted' | 'banned' | null;
+
+export interface BanlistEntryInput {
+  format?: string;
+  oracleId?: string;
+  cardName?: string; // Resolved to an oracle card when no oracleId is given
+  status?: string;
+  effectiveDate?: string | null;
+  note?: string | null;
+}
+
+export interface BanlistCard {
+  oracleId: string;
+  cardName: string;
+  status: 'banned' | 'restricted';
+  effectiveDate: string | null;
+  note: string | null;
+}
+
+/**
+ * Error thrown for banlist input that cannot be stored, e.g. an unknown card or a malformed date
+ */
+export class BanlistValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BanlistValidationError';
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const INSERT_BATCH_SIZE = 500;
+
+// Fields of an entry given as text, and those that may also be null to clear them
+const TEXT_FIELDS = ['format', 'oracleId', 'cardName', 'status'] as const;
+const NULLABLE_TEXT_FIELDS = ['effectiveDate', 'note'] as const;
+
+/**
+ * A request body as entry input, once each field it gives is the right type
+ */
+function toEntryInput(body: unknown): BanlistEntryInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BanlistValidationError('A banlist entry must be an object');
+  }
+  const input = body as Record<string, unknown>;
+  for (const field of TEXT_FIELDS) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      throw new BanlistValidationError(`${field} must be text`);
+    }
+  }
+  for (const field of NULLABLE_TEXT_FIELDS) {
+    if (input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+      throw new BanlistValidationError(`${field} must be text or null`);
+    }
+  }
+  return input as BanlistEntryInput;
+}
+
+/**
+ * Whether a string is a YYYY-MM-DD date
+ */
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE.test(value) && !isNaN(Date.parse(value));
+}
+
+// Order entries so that, per card, the one in effect comes last
+function byEffectiveDate(a: BanlistEntry, b: BanlistEntry): number {
+  if (a.effectiveDate !== b.effectiveDate) {
+    if (a.effectiveDate === null) return -1;
+    if (b.effectiveDate === null) return 1;
+    return a.effectiveDate < b.effectiveDate ? -1 : 1;
+  }
+  return a.id - b.id;
+}
+
+/**
+ * Banned and restricted list management.
+ * MTGJSON only publishes current legalities, so entries seeded from it have no
+ * effective date (or the date a change was first seen); admins add dated entries
+ * for announcements, including ones MTGJSON has not picked up yet.
+ */
+export class BanlistService {
+  private static instance: BanlistService;
+
+  private constructor() {}
+
+  public static getInstance(): BanlistService {
+    if (!BanlistService.instance) {
+      BanlistService.instance = new BanlistService();
+    }
+    return BanlistService.instance;
+  }
+
+  /**
+   * Banlist entries, optionally limited to a format, a card or a card name match
+   */
+  public async getEntries(filters: { format?: string; oracleId?: string; query?: string } = {}): Promise<BanlistEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.format) {
+      conditions.push(eq(banlistEntries.format, toLegalityKey(filters.format)));
+    }
+    if (filters.oracleId) {
+      conditions.push(eq(banlistEntries.oracleId, filters.oracleId));
+    }
+    if (filters.query) {
+      conditions.push(ilike(banlistEntries.cardName, `%${filters.query}%`));
+    }
+
+    return db
+      .select()
+      .from(banlistEntries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(banlistEntries.format), asc(banlistEntries.cardName), sql`${banlistEntries.effectiveDate} DESC NULLS LAST`);
+  }
+
+  /**
+   * Cards banned or restricted in a format on a date (today by default)
+   */
+  public async getBanlist(format: string, asOf: string = todayIsoDate()): Promise<BanlistCard[]> {
+    const entries = await db
+      .select()
+      .from(banlistEntries)
+      .where(and(
+        eq(banlistEntries.format, toLegalityKey(format)),
+        sql`(${banlistEntries.effectiveDate} IS NULL OR ${banlistEntries.effectiveDate} <= ${asOf})`
+      ));
+
+    const current = new Map<string, BanlistEntry>();
+    for (const entry of entries.sort(byEffectiveDate)) {
+      current.set(entry.oracleId, entry);
+    }
+
+    return Array.from(current.values())
+      .filter(entry => entry.status === 'banned' || entry.status === 'restricted')
+      .map(entry => ({
+        oracleId: entry.oracleId,
+        cardName: entry.cardName,
+        status: entry.status as BanlistCard['status'],
+        effectiveDate: entry.effectiveDate,
+        note: entry.note
+      }))
+      .sort((a, b) => a.cardName.localeCompare(b.cardName));
+  }
+
+  /**
+   * Status of oracle cards in a format on a date (today by default), keyed by oracle id.
+   * Unknown cards are left out of the map.
+   */
+  public async getLegality(oracleIds: string[], format: string, asOf: string = todayIsoDate()): Promise<Map<string, FormatLegality>> {
+    const legality = new Map<string, FormatLegality>();
+    if (oracleIds.length === 0) {
+      return legality;
+    }
+
+    const rows = await db
+      .select({ id: oracleCards.id, status: sql<string | null>`${formatStatusSql(format, asOf)}` })
+      .from(oracleCards)
+      .where(inArray(oracleCards.id, Array.from(new Set(oracleIds))));
+
+    for (const row of rows) {
+      const status = row.status === 'legal' || row.status === 'restricted' || row.status === 'banned' ? row.status : null;
+      legality.set(row.id, status);
+    }
+    return legality;
+  }
+
+  /**
+   * Add an entry, e.g. for a ban announcement that has not reached MTGJSON yet
+   */
+  public async createEntry(body: unknown): Promise<BanlistEntry> {
+    const input = toEntryInput(body);
+    if (!input.format || toLegalityKey(input.format) === '') {
+      throw new BanlistValidationError('A format is required');
+    }
+    const card = await this.resolveCard(input);
+
+    const [entry] = await db.insert(banlistEntries)
+      .values({
+        format: toLegalityKey(input.format),
+        oracleId: card.id,
+        cardName: card.name,
+        status: this.validateStatus(input.status),
+        effectiveDate: this.validateDate(input.effectiveDate),
+        source: 'admin',
+        note: input.note || null
+      })
+      .returning();
+    return entry;
+  }
+
+  /**
+   * Change an entry's format, card, status, date or note. Returns null if the entry does not exist.
+   * Edited entries count as admin entries, so the MTGJSON sync leaves the card alone from then on.
+   */
+  public async updateEntry(id: number, body: unknown): Promise<BanlistEntry | null> {
+    const input = toEntryInput(body);
+    const values: Partial<InsertBanlistEntry> = { source: 'admin', updatedAt: new Date() };
+
+    if (input.format !== undefined) {
+      if (toLegalityKey(input.format) === '') {
+        throw new BanlistValidationError('A format is required');
+      }
+      values.format = toLegalityKey(input.format);
+    }
+    if (input.oracleId !== undefined || input.cardName !== undefined) {
+      const card = await this.resolveCard(input);
+      values.oracleId = card.id;
+      values.cardName = card.name;
+    }
+    if (input.status !== undefined) {
+      values.status = this.validateStatus(input.status);
+    }
+    if (input.effectiveDate !== undefined) {
+      values.effectiveDate = this.validateDate(input.effectiveDate);
+    }
+    if (input.note !== undefined) {
+      values.note = input.note || null;
+    }
+
+    const [entry] = await db.update(banlistEntries)
+      .set(values)
+      .where(eq(banlistEntries.id, id))
+      .returning();
+    return entry ?? null;
+  }
+
+  public async deleteEntry(id: number): Promise<boolean> {
+    const deleted = await db.delete(banlistEntries)
+      .where(eq(banlistEntries.id, id))
+      .returning({ id: banlistEntries.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Bring the banlist in line with the MTGJSON legalities stored on oracle_cards.
+   * A card's first entry in a format gets no effective date (MTGJSON does not say when
+   * it was banned); later changes are dated today, when the sync first saw them.
+   * Cards with admin entries in a format are left alone, so announcements entered
+   * ahead of MTGJSON are not overwritten. Returns the number of entries added.
+   */
+  public async syncFromMtgjson(sourceVersion: string | null = null): Promise<number> {
+    const today = todayIsoDate();
+    const note = sourceVersion ? `MTGJSON ${sourceVersion}` : 'MTGJSON';
+
+    // Current status and ownership of every (format, card) pair on the banlist
+    const pairs = new Map<string, { status: string | null; hasAdminEntry: boolean }>();
+    const entries = await db.select().from(banlistEntries);
+    for (const entry of entries.sort(byEffectiveDate)) {
+      const key = `${entry.format}|${entry.oracleId}`;
+      const pair = pairs.get(key) ?? { status: null, hasAdminEntry: false };
+      if (entry.effectiveDate === null || entry.effectiveDate <= today) {
+        pair.status = entry.status;
+      }
+      pair.hasAdminEntry = pair.hasAdminEntry || entry.source === 'admin';
+      pairs.set(key, pair);
+    }
+
+    const additions: InsertBanlistEntry[] = [];
+    const addEntry = (format: string, oracleId: string, cardName: string, status: string) => {
+      additions.push({
+        format,
+        oracleId,
+        cardName,
+        status,
+        effectiveDate: pairs.has(`${format}|${oracleId}`) ? today : null,
+        source: 'mtgjson',
+        note
+      });
+    };
+
+    // Cards MTGJSON lists as banned or restricted somewhere
+    const restrictedCards = await db
+      .select({ id: oracleCards.id, name: oracleCards.name, legalities: oracleCards.legalities })
+      .from(oracleCards)
+      .where(sql`EXISTS (SELECT 1 FROM jsonb_each_text(${oracleCards.legalities}) AS l WHERE LOWER(l.value) IN ('banned', 'restricted'))`);
+
+    for (const card of restrictedCards) {
+      for (const [format, value] of Object.entries((card.legalities ?? {}) as Record<string, string>)) {
+        const status = String(value).toLowerCase();
+        if (status !== 'banned' && status !== 'restricted') continue;
+
+        const key = toLegalityKey(format);
+        const pair = pairs.get(`${key}|${card.id}`);
+        if (pair?.hasAdminEntry || pair?.status === status) continue;
+        addEntry(key, card.id, card.name, status);
+      }
+    }
+
+    // Cards the banlist still has banned or restricted that MTGJSON no longer does
+    const stale = Array.from(pairs.entries())
+      .filter(([, pair]) => !pair.hasAdminEntry && (pair.status === 'banned' || pair.status === 'restricted'))
+      .map(([key]) => key.split('|') as [string, string]);
+
+    if (stale.length > 0) {
+      const cards = await db
+        .select({ id: oracleCards.id, name: oracleCards.name, legalities: oracleCards.legalities })
+        .from(oracleCards)
+        .where(inArray(oracleCards.id, Array.from(new Set(stale.map(([, oracleId]) => oracleId)))));
+      const cardsById = new Map(cards.map(card => [card.id, card]));
+
+      for (const [format, oracleId] of stale) {
+        // Cards removed upstream keep their last status
+        const card = cardsById.get(oracleId);
+        if (!card) continue;
+
+        const legalities = (card.legalities ?? {}) as Record<string, string>;
+        const mtgjsonStatus = Object.entries(legalities)
+          .find(([key]) => toLegalityKey(key) === format)?.[1]?.toLowerCase();
+        if (mtgjsonStatus !== 'banned' && mtgjsonStatus !== 'restricted') {
+          addEntry(format, oracleId, card.name, 'legal');
+        }
+      }
+    }
+
+    for (let i = 0; i < additions.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(banlistEntries).values(additions.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    console.log(`Banlist sync from ${note}: ${additions.length} entries added`);
+    return additions.length;
+  }
+
+  private async resolveCard(input: BanlistEntryInput): Promise<{ id: string; name: string }> {
+    const condition = input.oracleId
+      ? eq(oracleCards.id, input.oracleId)
+      : input.cardName
+        ? sql`LOWER(${oracleCards.name}) = LOWER(${input.cardName.trim()})`
+        : null;
+    if (!condition) {
+      throw new BanlistValidationError('A card name or oracle id is required');
+    }
+
+    const [card] = await db
+      .select({ id: oracleCards.id, name: oracleCards.name })
+      .from(oracleCards)
+      .where(condition)
+      .limit(1);
+    if (!card) {
+      throw new BanlistValidationError(`Card not found: ${input.oracleId || input.cardName}`);
+    }
+    return card;
+  }
+
+  private validateStatus(status?: string): BanlistStatus {
+    const normalized = (status || '').toLowerCase();
+    if (!(BANLIST_STATUSES as readonly string[]).includes(normalized)) {
+      throw new BanlistValidationError(`Status must be one of: ${BANLIST_STATUSES.join(', ')}`);
+    }
+    return normalized as BanlistStatus;
+  }
+
+  private validateDate(date?: string | null): string | null {
+    if (!date) {
+      return null;
+    }
+    if (!isIsoDate(date)) {
+      throw new BanlistValidationError('Effective date must be formatted YYYY-MM-DD');
+    }
+    return date;
+  }
+}
+
+export const banlistService = BanlistService.getInstance();
@@ -0,0 +1,546 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { banlistEntries, oracleCards, printings } from '@shared/schema';
+import { getFormat } from '@shared/formats';
+
+/**
+ * Scryfall-style card query language
+ *
+ * Supports queries such as:
+ *   t:creature o:"draw a card" c>=ur cmc<=3 f:modern r:rare pow>=4 is:commander -t:legendary
+ * with implicit AND, explicit "and"/"or", "-" negation and parentheses.
+ */
+
+export type ComparisonOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type CardQueryField =
+  | 'name'
+  | 'type'
+  | 'oracle'
+  | 'color'
+  | 'identity'
+  | 'cmc'
+  | 'power'
+  | 'toughness'
+  | 'loyalty'
+  | 'rarity'
+  | 'format'
+  | 'banned'
+  | 'restricted'
+  | 'set'
+  | 'artist'
+  | 'is';
+
+export type CardQueryNode =
+  | { kind: 'and'; children: CardQueryNode[] }
+  | { kind: 'or'; children: CardQueryNode[] }
+  | { kind: 'not'; child: CardQueryNode }
+  | {
+      kind: 'term';
+      field: CardQueryField;
+      operator: ComparisonOperator;
+      value: string;
+      exact?: boolean;
+      position: number;
+    };
+
+/**
+ * Error thrown when a query cannot be parsed. `position` is the character
+ * offset of the offending token within the original query string.
+ */
+export class CardQueryError extends Error {
+  constructor(message: string, public position: number, public token: string) {
+    super(message);
+    this.name = 'CardQueryError';
+  }
+}
+
+// Keyword aliases mapped to their canonical field
+const FIELD_ALIASES: Record<string, CardQueryField> = {
+  name: 'name', n: 'name',
+  t: 'type', type: 'type',
+  o: 'oracle', oracle: 'oracle', text: 'oracle',
+  c: 'color', color: 'color', colors: 'color',
+  id: 'identity', identity: 'identity', ci: 'identity',
+  cmc: 'cmc', mv: 'cmc', manavalue: 'cmc',
+  pow: 'power', power: 'power',
+  tou: 'toughness', toughness: 'toughness',
+  loy: 'loyalty', loyalty: 'loyalty',
+  r: 'rarity', rarity: 'rarity',
+  f: 'format', format: 'format', legal: 'format',
+  banned: 'banned',
+  restricted: 'restricted',
+  s: 'set', e: 'set', set: 'set', edition: 'set',
+  a: 'artist', artist: 'artist',
+  is: 'is',
+};
+
+// The field a keyword stands for; undefined for any other word, "constructor" included
+function keywordField(key: string): CardQueryField | undefined {
+  return Object.hasOwn(FIELD_ALIASES, key) ? FIELD_ALIASES[key] : undefined;
+}
+
+const NUMERIC_FIELDS: CardQueryField[] = ['cmc', 'power', 'toughness', 'loyalty'];
+const TEXT_FIELDS: CardQueryField[] = ['name', 'type', 'oracle', 'artist'];
+
+const COLOR_NAMES: Record<string, string> = {
+  white: 'W', blue: 'U', black: 'B', red: 'R', green: 'G',
+  azorius: 'WU', dimir: 'UB', rakdos: 'BR', gruul: 'RG', selesnya: 'GW',
+  orzhov: 'WB', izzet: 'UR', golgari: 'BG', boros: 'RW', simic: 'GU',
+  esper: 'WUB', grixis: 'UBR', jund: 'BRG', naya: 'RGW', bant: 'GWU',
+  abzan: 'WBG', jeskai: 'URW', sultai: 'BGU', mardu: 'RWB', temur: 'GUR',
+};
+
+const RARITY_RANK: Record<string, number> = {
+  common: 0, c: 0,
+  uncommon: 1, u: 1,
+  rare: 2, r: 2,
+  mythic: 3, m: 3,
+  special: 4, s: 4,
+  bonus: 5, b: 5,
+};
+
+const IS_PREDICATES = ['commander', 'permanent', 'spell', 'vanilla', 'dfc', 'split', 'multicolor', 'colorless'];
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'minus'; position: number; raw: string }
+  | { type: 'term'; position: number; raw: string; key?: string; operator?: ComparisonOperator; value: string; quoted: boolean; exact: boolean };
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readValue = (start: number): { value: string; quoted: boolean; end: number } => {
+    if (input[start] === '"' || input[start] === "'") {
+      const quote = input[start];
+      const close = input.indexOf(quote, start + 1);
+      if (close === -1) {
+        throw new CardQueryError(`Unterminated quote starting at position ${start}`, start, input.slice(start));
+      }
+      return { value: input.slice(start + 1, close), quoted: true, end: close + 1 };
+    }
+    let end = start;
+    while (end < input.length && !/[\s()]/.test(input[end])) end++;
+    return { value: input.slice(start, end), quoted: false, end };
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', position: i, raw: ch });
+      i++;
+      continue;
+    }
+
+    // A leading "-" negates the following term or group
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'minus', position: i, raw: ch });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const exact = ch === '!';
+    if (exact) i++;
+
+    // key + operator, e.g. "cmc<=3" or "t:creature". A word that isn't a keyword is one too when a
+    // value follows, so "tpye:creature" is an unknown keyword; with nothing after it, it's part of a
+    // card name, as in "Circle of Protection: Red"
+    const keyMatch = !exact ? /^([a-zA-Z]+)(!=|<=|>=|:|=|<|>)/.exec(input.slice(i)) : null;
+    const valueStart = keyMatch ? i + keyMatch[0].length : i;
+    const hasValue = valueStart < input.length && !/[\s()]/.test(input[valueStart]);
+    if (keyMatch && (keywordField(keyMatch[1].toLowerCase()) || hasValue)) {
+      i += keyMatch[0].length;
+      const { value, quoted, end } = readValue(i);
+      i = end;
+      tokens.push({
+        type: 'term',
+        position: start,
+        raw: input.slice(start, i),
+        key: keyMatch[1].toLowerCase(),
+        operator: keyMatch[2] as ComparisonOperator,
+        value,
+        quoted,
+        exact: false,
+      });
+      continue;
+    }
+
+    const { value, quoted, end } = readValue(i);
+    i = end;
+    const raw = input.slice(start, i);
+
+    if (!quoted && !exact) {
+      const lower = value.toLowerCase();
+      if (lower === 'or') {
+        tokens.push({ type: 'or', position: start, raw });
+        continue;
+      }
+      if (lower === 'and') {
+        tokens.push({ type: 'and', position: start, raw });
+        continue;
+      }
+    }
+
+    tokens.push({ type: 'term', position: start, raw, value, quoted, exact });
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser:
+ *   orExpr  := andExpr ("or" andExpr)*
+ *   andExpr := unary (["and"] unary)*
+ *   unary   := "-" unary | "(" orExpr ")" | term
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private input: string) {}
+
+  parse(): CardQueryNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new CardQueryError(`Unexpected "${next.raw}" at position ${next.position}`, next.position, next.raw);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): CardQueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): CardQueryNode {
+    const children = [this.parseUnary()];
+    while (true) {
+      const next = this.peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') break;
+      if (next.type === 'and') this.index++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(): CardQueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new CardQueryError(`Unexpected end of query`, this.input.length, '');
+    }
+
+    if (token.type === 'minus') {
+      this.index++;
+      return { kind: 'not', child: this.parseUnary() };
+    }
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      const close = this.peek();
+      if (!close || close.type !== 'rparen') {
+        throw new CardQueryError(`Missing closing parenthesis for "(" at position ${token.position}`, token.position, token.raw);
+      }
+      this.index++;
+      return node;
+    }
+
+    if (token.type === 'term') {
+      this.index++;
+      return this.buildTerm(token);
+    }
+
+    throw new CardQueryError(`Unexpected "${token.raw}" at position ${token.position}`, token.position, token.raw);
+  }
+
+  private buildTerm(token: Extract<Token, { type: 'term' }>): CardQueryNode {
+    // Bare words and quoted phrases search card names
+    if (!token.key) {
+      if (!token.value) {
+        throw new CardQueryError(`Empty search term at position ${token.position}`, token.position, token.raw);
+      }
+      return { kind: 'term', field: 'name', operator: ':', value: token.value, exact: token.exact, position: token.position };
+    }
+
+    const field = keywordField(token.key);
+    if (!field) {
+      throw new CardQueryError(`Unknown keyword "${token.key}" at position ${token.position}`, token.position, token.raw);
+    }
+
+    return createTerm(field, token.operator!, token.value, token.position, token.raw);
+  }
+}
+
+/**
+ * Build a validated term node. Used by the parser and by callers that turn
+ * simple filter parameters into query terms. Throws CardQueryError on invalid input.
+ */
+export function createTerm(
+  field: CardQueryField,
+  operator: ComparisonOperator,
+  value: string,
+  position: number = 0,
+  raw: string = `${field}${operator}${value}`
+): CardQueryNode {
+  if (!value) {
+    throw new CardQueryError(`Missing value for "${field}" at position ${position}`, position, raw);
+  }
+
+  if (TEXT_FIELDS.includes(field) || field === 'set' || field === 'format' || field === 'banned' || field === 'restricted' || field === 'is') {
+    if (operator !== ':' && operator !== '=' && operator !== '!=') {
+      throw new CardQueryError(`Operator "${operator}" is not supported for "${field}" at position ${position}`, position, raw);
+    }
+  }
+
+  if (NUMERIC_FIELDS.includes(field) && !/^-?\d+(\.\d+)?$/.test(value)) {
+    throw new CardQueryError(`Expected a number for "${field}" but got "${value}" at position ${position}`, position, raw);
+  }
+
+  if (field === 'rarity' && RARITY_RANK[value.toLowerCase()] === undefined) {
+    throw new CardQueryError(`Unknown rarity "${value}" at position ${position}`, position, raw);
+  }
+
+  if ((field === 'color' || field === 'identity') && parseColorValue(value) === null) {
+    throw new CardQueryError(`Unknown color "${value}" at position ${position}`, position, raw);
+  }
+
+  if (field === 'is' && !IS_PREDICATES.includes(value.toLowerCase())) {
+    throw new CardQueryError(`Unknown "is:" predicate "${value}" at position ${position}`, position, raw);
+  }
+
+  const node: CardQueryNode = { kind: 'term', field, operator: operator === '!=' ? '=' : operator, value, position };
+  return operator === '!=' ? { kind: 'not', child: node } : node;
+}
+
+/**
+ * Parse a query string into an AST. Throws CardQueryError on invalid input.
+ */
+export function parseCardQuery(input: string): CardQueryNode {
+  const trimmed = input ?? '';
+  if (trimmed.trim() === '') {
+    throw new CardQueryError('Search query is empty', 0, '');
+  }
+  return new Parser(tokenize(trimmed), trimmed).parse();
+}
+
+type ColorValue = { kind: 'colors'; colors: string[] } | { kind: 'colorless' } | { kind: 'multicolor' };
+
+function parseColorValue(value: string): ColorValue | null {
+  const lower = value.toLowerCase();
+  if (lower === 'c' || lower === 'colorless') return { kind: 'colorless' };
+  if (lower === 'm' || lower === 'multicolor' || lower === 'multicolored') return { kind: 'multicolor' };
+  if (COLOR_NAMES[lower]) return { kind: 'colors', colors: COLOR_NAMES[lower].split('') };
+  if (/^[wubrg]+$/.test(lower)) {
+    return { kind: 'colors', colors: Array.from(new Set(lower.toUpperCase().split(''))) };
+  }
+  return null;
+}
+
+function textArray(values: string[]): SQL {
+  if (values.length === 0) return sql`ARRAY[]::text[]`;
+  return sql`ARRAY[${sql.join(values.map(v => sql`${v}`), sql`, `)}]::text[]`;
+}
+
+function compileColor(column: SQL, node: Extract<CardQueryNode, { kind: 'term' }>): SQL {
+  const parsed = parseColorValue(node.value)!;
+  const count = sql`COALESCE(array_length(${column}, 1), 0)`;
+
+  if (parsed.kind === 'colorless') {
+    return sql`${count} = 0`;
+  }
+  if (parsed.kind === 'multicolor') {
+    return sql`${count} > 1`;
+  }
+
+  const wanted = textArray(parsed.colors);
+  const cardColors = sql`COALESCE(${column}, ARRAY[]::text[])`;
+  // Scryfall semantics: "c:" means "at least these colors", "id:" means "fits within this identity"
+  const operator = node.operator === ':' ? (node.field === 'identity' ? '<=' : '>=') : node.operator;
+
+  switch (operator) {
+    case '=':
+      return sql`(${cardColors} @> ${wanted} AND ${cardColors} <@ ${wanted})`;
+    case '>=':
+      return sql`${cardColors} @> ${wanted}`;
+    case '>':
+      return sql`(${cardColors} @> ${wanted} AND ${count} > ${parsed.colors.length})`;
+    case '<=':
+      return sql`${cardColors} <@ ${wanted}`;
+    case '<':
+      return sql`(${cardColors} <@ ${wanted} AND ${count} < ${parsed.colors.length})`;
+    default:
+      throw new CardQueryError(`Operator "${node.operator}" is not supported for colors`, node.position, node.value);
+  }
+}
+
+function compareSql(left: SQL, operator: ComparisonOperator, right: SQL): SQL {
+  switch (operator) {
+    case ':':
+    case '=':
+      return sql`${left} = ${right}`;
+    case '<':
+      return sql`${left} < ${right}`;
+    case '<=':
+      return sql`${left} <= ${right}`;
+    case '>':
+      return sql`${left} > ${right}`;
+    case '>=':
+      return sql`${left} >= ${right}`;
+    default:
+      return sql`${left} <> ${right}`;
+  }
+}
+
+function numericColumn(column: SQL): SQL {
+  return sql`(CASE WHEN ${column} ~ '^-?[0-9]+(\\.[0-9]+)?$' THEN CAST(${column} AS NUMERIC) END)`;
+}
+
+function rarityRank(column: SQL): SQL {
+  return sql`(CASE LOWER(COALESCE(${column}, '')) WHEN 'common' THEN 0 WHEN 'uncommon' THEN 1 WHEN 'rare' THEN 2 WHEN 'mythic' THEN 3 WHEN 'special' THEN 4 WHEN 'bonus' THEN 5 END)`;
+}
+
+/**
+ * Normalize a format name to its MTGJSON legality key ("Duel Commander" -> "duel"), falling
+ * back to the bare name for formats missing from the registry
+ */
+export function toLegalityKey(format: string): string {
+  return getFormat(format)?.legalityKey ?? format.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Today's date as YYYY-MM-DD, the default date legality is evaluated on
+ */
+export function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * A card's lowercase status in a format on a date ('legal', 'restricted' or 'banned'):
+ * its latest banlist entry in effect on that date, 'legal' if all of its entries take
+ * effect later, or the MTGJSON legality if the banlist has no entries for it.
+ * NULL when the card is not in the format's card pool; the pool itself comes from
+ * MTGJSON and is not dated, so rotation is not evaluated historically.
+ */
+export function formatStatusSql(format: string, asOf: string = todayIsoDate(), oracleId: SQL = sql`${oracleCards.id}`): SQL {
+  const key = toLegalityKey(format);
+  const legality = sql`LOWER(${oracleCards.legalities}->>${key})`;
+  const forCard = sql`${banlistEntries.oracleId} = ${oracleId} AND ${banlistEntries.format} = ${key}`;
+
+  return sql`(CASE WHEN ${legality} IS NULL OR ${legality} = 'not legal' THEN NULL ELSE COALESCE(
+    (SELECT ${banlistEntries.status} FROM ${banlistEntries}
+      WHERE ${forCard} AND (${banlistEntries.effectiveDate} IS NULL OR ${banlistEntries.effectiveDate} <= ${asOf})
+      ORDER BY ${banlistEntries.effectiveDate} DESC NULLS LAST, ${banlistEntries.id} DESC LIMIT 1),
+    CASE WHEN EXISTS (SELECT 1 FROM ${banlistEntries} WHERE ${forCard}) THEN 'legal' ELSE ${legality} END
+  ) END)`;
+}
+
+function compileIs(value: string): SQL {
+  const type = sql`${oracleCards.type}`;
+  const text = sql`COALESCE(${oracleCards.text}, '')`;
+
+  switch (value.toLowerCase()) {
+    case 'commander':
+      return sql`((${type} ILIKE '%Legendary%' AND ${type} ILIKE '%Creature%') OR ${text} ILIKE '%can be your commander%')`;
+    case 'permanent':
+      return sql`(${type} ~* '(artifact|creature|enchantment|land|planeswalker|battle)')`;
+    case 'spell':
+      return sql`(${type} !~* '(^|\\s)land(\\s|$)')`;
+    case 'vanilla':
+      return sql`(${type} ILIKE '%Creature%' AND ${text} = '')`;
+    case 'dfc':
+      return sql`(${oracleCards.layout} IN ('transform', 'modal_dfc', 'reversible_card'))`;
+    case 'split':
+      return sql`(${oracleCards.layout} = 'split')`;
+    case 'multicolor':
+      return sql`(COALESCE(array_length(${oracleCards.colors}, 1), 0) > 1)`;
+    default:
+      return sql`(COALESCE(array_length(${oracleCards.colors}, 1), 0) = 0)`;
+  }
+}
+
+// Printing-level fields (set, rarity, artist) match if any printing of the card matches
+function anyPrinting(condition: SQL): SQL {
+  return sql`EXISTS (SELECT 1 FROM ${printings} WHERE ${printings.oracleId} = ${oracleCards.id} AND ${condition})`;
+}
+
+function compileTerm(node: Extract<CardQueryNode, { kind: 'term' }>, options: CardQueryOptions): SQL {
+  const value = node.value;
+  const contains = `%${value.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+
+  switch (node.field) {
+    case 'name':
+      return node.exact || node.operator === '='
+        ? sql`LOWER(${oracleCards.name}) = LOWER(${value})`
+        : sql`${oracleCards.name} ILIKE ${contains}`;
+    case 'type':
+      return sql`${oracleCards.type} ILIKE ${contains}`;
+    case 'oracle':
+      return sql`COALESCE(${oracleCards.text}, '') ILIKE ${contains}`;
+    case 'artist':
+      return anyPrinting(sql`COALESCE(${printings.artist}, '') ILIKE ${contains}`);
+    case 'color':
+      return compileColor(sql`${oracleCards.colors}`, node);
+    case 'identity':
+      return compileColor(sql`${oracleCards.colorIdentity}`, node);
+    case 'cmc':
+      return compareSql(sql`CAST(COALESCE(NULLIF(${oracleCards.cmc}, ''), '0') AS NUMERIC)`, node.operator, sql`${Number(value)}`);
+    case 'power':
+      return compareSql(numericColumn(sql`${oracleCards.power}`), node.operator, sql`${Number(value)}`);
+    case 'toughness':
+      return compareSql(numericColumn(sql`${oracleCards.toughness}`), node.operator, sql`${Number(value)}`);
+    case 'loyalty':
+      return compareSql(numericColumn(sql`${oracleCards.loyalty}`), node.operator, sql`${Number(value)}`);
+    case 'rarity':
+      return anyPrinting(compareSql(rarityRank(sql`${printings.rarity}`), node.operator, sql`${RARITY_RANK[value.toLowerCase()]}`));
+    case 'format':
+      return sql`${formatStatusSql(value, options.legalAsOf)} IN ('legal', 'restricted')`;
+    case 'banned':
+      return sql`${formatStatusSql(value, options.legalAsOf)} = 'banned'`;
+    case 'restricted':
+      return sql`${formatStatusSql(value, options.legalAsOf)} = 'restricted'`;
+    case 'set':
+      return anyPrinting(sql`UPPER(${printings.set}) = ${value.toUpperCase()}`);
+    case 'is':
+      return compileIs(value);
+  }
+}
+
+export interface CardQueryOptions {
+  legalAsOf?: string; // Evaluate format legality on this date (YYYY-MM-DD) instead of today
+}
+
+/**
+ * Compile an AST into a parameterized SQL condition over the oracle_cards table
+ */
+export function compileCardQuery(node: CardQueryNode, options: CardQueryOptions = {}): SQL {
+  const compileChild = (child: CardQueryNode) => compileCardQuery(child, options);
+
+  switch (node.kind) {
+    case 'and':
+      return sql`(${sql.join(node.children.map(compileChild), sql` AND `)})`;
+    case 'or':
+      return sql`(${sql.join(node.children.map(compileChild), sql` OR `)})`;
+    case 'not':
+      return sql`NOT COALESCE(${compileChild(node.child)}, FALSE)`;
+    case 'term':
+      return compileTerm(node, options);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Field-level diffing for the MTGJSON card sync
+ */
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Rules fields compared on oracle_cards
+export const ORACLE_SYNC_FIELDS = [
+  'name', 'manaCost', 'cmc', 'colors', 'colorIdentity', 'type', 'supertypes', 'types',
+  'subtypes', 'text', 'power', 'toughness', 'loyalty', 'layout', 'rulings', 'legalities',
+] as const;
+
+// Set-specific fields compared on printings
+export const PRINTING_SYNC_FIELDS = [
+  'oracleId', 'cardId', 'set', 'setName', 'number', 'artist', 'flavor', 'rarity',
+  'imageUrl', 'multiverseid', 'releaseDate',
+] as const;
+
+// Fields compared on the legacy cards table
+export const LEGACY_CARD_SYNC_FIELDS = [
+  'name', 'manaCost', 'cmc', 'colors', 'colorIdentity', 'type', 'supertypes', 'types', 'subtypes',
+  'rarity', 'set', 'setName', 'text', 'flavor', 'artist', 'number', 'power', 'toughness', 'loyalty',
+  'layout', 'multiverseid', 'imageUrl', 'rulings', 'foreignNames', 'printings', 'originalText',
+  'originalType', 'legalities', 'variations',
+] as const;
+
+/**
+ * JSON with object keys sorted, so values read back from jsonb columns
+ * (which reorder keys) compare equal to the MTGJSON input
+ */
+function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fields whose value differs between a stored row and an incoming one.
+ * Missing and null values are treated as equal.
+ */
+export function diffFields<T extends Record<string, any>>(
+  existing: T,
+  incoming: Partial<T>,
+  fields: readonly string[]
+): FieldChanges {
+  const changes: FieldChanges = {};
+
+  for (const field of fields) {
+    const from = existing[field] ?? null;
+    const to = incoming[field] ?? null;
+    if (canonicalJson(from) !== canonicalJson(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+export interface HistoryChange {
+  field: 'text' | 'type' | 'legality';
+  format: string | null;
+  previousValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * Errata and legality changes worth keeping in a card's history, from an
+ * oracle card diff. Legalities are split into one change per format.
+ */
+export function historyChangesFromDiff(changes: FieldChanges): HistoryChange[] {
+  const history: HistoryChange[] = [];
+
+  for (const field of ['text', 'type'] as const) {
+    if (changes[field]) {
+      history.push({
+        field,
+        format: null,
+        previousValue: (changes[field].from as string | null) ?? null,
+        newValue: (changes[field].to as string | null) ?? null,
+      });
+    }
+  }
+
+  if (changes.legalities) {
+    const before = (changes.legalities.from ?? {}) as Record<string, string>;
+    const after = (changes.legalities.to ?? {}) as Record<string, string>;
+    const formats = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+    for (const format of formats) {
+      if ((before[format] ?? null) !== (after[format] ?? null)) {
+        history.push({
+          field: 'legality',
+          format,
+          previousValue: before[format] ?? null,
+          newValue: after[format] ?? null,
+        });
+      }
+    }
+  }
+
+  return history;
+}
@@ -0,0 +1,102 @@
+import type { GlossaryTerm } from '@shared/schema';
+
+// A text mentioning more terms than this gets only its most specific ones
+const MAX_MENTIONED_TERMS = 8;
+
+// "Mana Burn (Obsolete)" is looked up and mentioned as "mana burn"
+function termName(term: string): string {
+  return term.replace(/\s*\([^)]*\)\s*$/, '').trim().toLowerCase();
+}
+
+// Entries that only point at another, e.g. "Deal: See Damage." or "If: See Intervening “If” Clause."
+function isCrossReference(term: GlossaryTerm): boolean {
+  return /^See [^\d\n]+\.$/.test(term.definition);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "Permanents" and "abilities" are looked up as "permanent" and "ability"
+function singulars(name: string): string[] {
+  const forms = [name];
+  if (name.endsWith('ies')) forms.push(`${name.slice(0, -3)}y`);
+  if (name.endsWith('es')) forms.push(name.slice(0, -2));
+  if (name.endsWith('s')) forms.push(name.slice(0, -1));
+  return forms;
+}
+
+/**
+ * The comprehensive rules' glossary: terms by name, searched, and found in a question
+ */
+export class Glossary {
+  private byName = new Map<string, GlossaryTerm>();
+  // Longest first, so "Combat Damage" is found before "Damage"
+  private patterns: { term: GlossaryTerm; pattern: RegExp }[] = [];
+
+  constructor(private terms: GlossaryTerm[]) {
+    for (const term of terms) {
+      const name = termName(term.term);
+      if (name && !this.byName.has(name)) {
+        this.byName.set(name, term);
+        // Their names are often everyday words, and a mention of one says nothing about the other
+        if (isCrossReference(term)) continue;
+        this.patterns.push({ term, pattern: new RegExp(`\\b${escapeRegExp(name)}(?:s|es)?\\b`, 'gi') });
+      }
+    }
+    this.patterns.sort((a, b) => termName(b.term.term).length - termName(a.term.term).length);
+  }
+
+  get size(): number {
+    return this.terms.length;
+  }
+
+  public all(): GlossaryTerm[] {
+    return this.terms;
+  }
+
+  /**
+   * A term by name, in any case and singular or plural
+   */
+  public get(name: string): GlossaryTerm | null {
+    for (const form of singulars(termName(name))) {
+      const term = this.byName.get(form);
+      if (term) return term;
+    }
+    return null;
+  }
+
+  /**
+   * Terms whose name contains the query, then those whose definition does
+   */
+  public search(query: string): GlossaryTerm[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return this.terms;
+    const byName = this.terms.filter(term => term.term.toLowerCase().includes(needle));
+    const byDefinition = this.terms.filter(term => !byName.includes(term) && term.definition.toLowerCase().includes(needle));
+    return byName.concat(byDefinition);
+  }
+
+  /**
+   * The terms the text mentions, most specific (longest) first. A mention inside a longer one
+   * ("damage" in "combat damage") isn't counted again.
+   */
+  public findMentions(text: string, limit = MAX_MENTIONED_TERMS): GlossaryTerm[] {
+    const claimed: [number, number][] = [];
+    const found: GlossaryTerm[] = [];
+    for (const { term, pattern } of this.patterns) {
+      if (found.length >= limit) break;
+      let mentioned = false;
+      for (const match of Array.from(text.matchAll(pattern))) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (!claimed.some(([from, to]) => start < to && end > from)) {
+          claimed.push([start, end]);
+          mentioned = true;
+        }
+      }
+      if (mentioned) found.push(term);
+    }
+    return found;
+  }
+}
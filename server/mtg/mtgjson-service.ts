@@ -1,12 +1,82 @@
 // Import required modules
 import { Card } from '@/types/card';
 import { db } from '../db';
-import { cards as cardsTable, dbMetadata } from '@shared/schema';
+import {
+  cards as cardsTable,
+  cardChanges,
+  cardHistory,
+  cardSyncRuns,
+  dbMetadata,
+  importCheckpoints,
+  oracleCards,
+  printings as printingsTable,
+  sets as setsTable,
+  type CardChange,
+  type CardSyncRun,
+  type ImportCheckpoint,
+  type InsertCard,
+  type InsertCardChange,
+  type InsertCardHistoryEntry,
+  type InsertCardSet,
+  type InsertImportCheckpoint,
+  type InsertOracleCard,
+  type InsertPrinting
+} from '@shared/schema';
 import fs from 'fs';
 import path from 'path';
+import { EventEmitter } from 'events';
 import { fileURLToPath } from 'url';
-import { eq, or, like, ilike, desc, sql } from 'drizzle-orm';
+import { eq, or, like, ilike, desc, and, sql, inArray, getTableColumns, type SQL } from 'drizzle-orm';
 import axios from 'axios';
+import { streamAllPrintingsSets } from './all-printings-stream';
+import { banlistService } from './banlist-service';
+import {
+  diffFields,
+  historyChangesFromDiff,
+  LEGACY_CARD_SYNC_FIELDS,
+  ORACLE_SYNC_FIELDS,
+  PRINTING_SYNC_FIELDS
+} from './card-sync';
+
+const ALL_PRINTINGS_CHECKPOINT_ID = 'all_printings';
+
+/**
+ * Progress of a card database import, streamed to the admin page
+ */
+export interface CardImportProgress {
+  phase: 'idle' | 'downloading' | 'processing' | 'completed' | 'failed';
+  message: string;
+  setCode?: string; // Last completed set
+  setName?: string;
+  setsCompleted: number;
+  cardsProcessed: number;
+  bytesRead: number; // Bytes downloaded or parsed so far in the current phase
+  totalBytes: number;
+  resumedFrom?: string;
+  updatedAt: string;
+}
+
+/**
+ * Latest sync run with the first page of its change log, for /api/metadata
+ */
+export interface CardSyncSummary extends CardSyncRun {
+  changes: CardChange[];
+}
+
+// Bookkeeping for the sync run in progress
+interface SyncRunState {
+  id: number;
+  sourceVersion: string | null;
+  startedAt: Date; // Date recorded on the card history entries of this run
+  added: number;
+  updated: number;
+  removed: number;
+  errors: number;
+  // Ids seen during this pass, for detecting removed cards. Null for a resumed
+  // import, which never saw the sets imported before the interruption.
+  seenOracleIds: Set<string> | null;
+  seenPrintingIds: Set<string> | null;
+}
 
 /**
  * Service to interact with the MTGJSON data
@@ -15,9 +85,21 @@ export class MTGJsonService {
   private static instance: MTGJsonService;
   private initialized: boolean = false;
   private initializing: boolean = false;
+  private importInProgress: boolean = false;
+  private progressEmitter = new EventEmitter();
+  private progress: CardImportProgress = {
+    phase: 'idle',
+    message: 'No import has run since the server started',
+    setsCompleted: 0,
+    cardsProcessed: 0,
+    bytesRead: 0,
+    totalBytes: 0,
+    updatedAt: new Date().toISOString()
+  };
   
   // URL for downloading AllPrintings.json
   private readonly MTGJSON_ALLPRINTINGS_URL = 'https://mtgjson.com/api/v5/AllPrintings.json';
+  private readonly MTGJSON_META_URL = 'https://mtgjson.com/api/v5/Meta.json';
 
   private constructor() {}
 
@@ -316,21 +398,29 @@ export class MTGJsonService {
     });
   }
 
+  /**
+   * Location of the downloaded AllPrintings.json
+   */
+  private getAllPrintingsPath(): string {
+    const __filename = fileURLToPath(import.meta.url);
+    const __dirname = path.dirname(__filename);
+    return path.join(__dirname, '..', '..', 'data', 'AllPrintings.json');
+  }
+
   /**
    * Download AllPrintings.json directly from MTGJSON
    * This will provide the complete set of MTG cards (approx 31,000)
    */
   public async downloadAllPrintingsJson(): Promise<boolean> {
     try {
-      // Get data directory path
-      const __filename = fileURLToPath(import.meta.url);
-      const __dirname = path.dirname(__filename);
-      const allPrintingsPath = path.join(__dirname, '..', '..', 'data', 'AllPrintings.json');
+      const allPrintingsPath = this.getAllPrintingsPath();
+      // Download to a temporary file so an interrupted download never replaces a good file
+      const downloadPath = `${allPrintingsPath}.download`;
       
       console.log("Starting download of AllPrintings.json from MTGJSON...");
       
       // Create data directory if it doesn't exist
-      const dataDir = path.join(__dirname, '..', '..', 'data');
+      const dataDir = path.dirname(allPrintingsPath);
       if (!fs.existsSync(dataDir)) {
         fs.mkdirSync(dataDir, { recursive: true });
       }
@@ -342,173 +432,143 @@ export class MTGJsonService {
         responseType: 'stream'
       });
       
+      const totalBytes = parseInt(response.headers['content-length'] || '0', 10);
+      let bytesRead = 0;
+      let lastReported = 0;
+      this.emitProgress({ phase: 'downloading', message: 'Downloading AllPrintings.json', bytesRead, totalBytes });
+      
+      response.data.on('data', (chunk: Buffer) => {
+        bytesRead += chunk.length;
+        // Report every 5 MB rather than on every chunk
+        if (bytesRead - lastReported >= 5 * 1024 * 1024) {
+          lastReported = bytesRead;
+          this.emitProgress({ phase: 'downloading', bytesRead });
+        }
+      });
+      
       // Pipe response to file
-      const writer = fs.createWriteStream(allPrintingsPath);
+      const writer = fs.createWriteStream(downloadPath);
       response.data.pipe(writer);
       
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => {
-          console.log("AllPrintings.json downloaded successfully");
-          resolve(true);
-        });
-        
-        writer.on('error', (err) => {
-          console.error("Error writing AllPrintings.json:", err);
-          reject(err);
-        });
+      await new Promise<void>((resolve, reject) => {
+        writer.on('finish', () => resolve());
+        writer.on('error', reject);
+        response.data.on('error', reject);
       });
+      
+      fs.renameSync(downloadPath, allPrintingsPath);
+      console.log("AllPrintings.json downloaded successfully");
+      this.emitProgress({ phase: 'downloading', message: 'Download complete', bytesRead, totalBytes: totalBytes || bytesRead });
+      return true;
     } catch (error) {
       console.error("Error downloading AllPrintings.json:", error);
+      this.emitProgress({ phase: 'failed', message: `Download failed: ${(error as Error).message}` });
       return false;
     }
   }
   
   /**
    * Process AllPrintings.json to extract all cards
-   * This will load all 31,000+ cards from all sets
+   * Sets are streamed one at a time and a checkpoint is saved after each one,
+   * so an interrupted import resumes after the last completed set.
+   * Only new or changed rows are written, and every change is logged to the sync run.
+   * Returns a summary of the changes.
    */
-  private async processAllPrintingsData(filePath: string): Promise<void> {
+  private async processAllPrintingsData(filePath: string, sourceVersion: string | null = null): Promise<string> {
     console.log(`Starting to process AllPrintings.json at ${filePath}`);
+    
+    const totalBytes = fs.statSync(filePath).size;
+    const sourceFingerprint = this.getFileFingerprint(filePath);
+    const checkpoint = await this.getResumableCheckpoint(sourceFingerprint);
+    const resumeAfterSet = checkpoint?.lastCompletedSet ?? null;
+    let setsCompleted = checkpoint?.setsCompleted ?? 0;
+    let totalCardsProcessed = checkpoint?.cardsProcessed ?? 0;
+    
+    // A resumed import keeps adding to the sync run it started
+    const run = await this.startSyncRun(checkpoint, sourceVersion);
+    
+    if (resumeAfterSet) {
+      console.log(`Resuming AllPrintings.json import after set ${resumeAfterSet} (${setsCompleted} sets already imported)`);
+    }
+    
+    await this.saveCheckpoint({
+      status: 'running',
+      sourceFingerprint,
+      sourceVersion: run.sourceVersion,
+      syncRunId: run.id,
+      lastCompletedSet: resumeAfterSet,
+      setsCompleted,
+      cardsProcessed: totalCardsProcessed,
+      error: null,
+      completedAt: null,
+      ...(checkpoint ? {} : { startedAt: new Date() })
+    });
+    
+    this.emitProgress({
+      phase: 'processing',
+      message: resumeAfterSet ? `Resuming after set ${resumeAfterSet}` : 'Processing AllPrintings.json',
+      setCode: undefined,
+      setName: undefined,
+      setsCompleted,
+      cardsProcessed: totalCardsProcessed,
+      bytesRead: 0,
+      totalBytes,
+      resumedFrom: resumeAfterSet ?? undefined
+    });
+    
     try {
-      // Read and parse the AllPrintings.json file
-      const fileContent = fs.readFileSync(filePath, 'utf8');
-      const allPrintingsData = JSON.parse(fileContent);
-      
-      if (!allPrintingsData.data) {
-        throw new Error('Invalid AllPrintings.json format: missing data property');
-      }
+      // Sets up to the checkpoint were already imported by the interrupted run
+      let skipping = resumeAfterSet !== null;
       
-      // Get existing card IDs to avoid duplicates
-      const existingCardIds = await this.getExistingCardIds();
-      console.log(`Found ${existingCardIds.size} existing card IDs in the database`);
-      
-      // Process sets in batches
-      const sets = Object.keys(allPrintingsData.data);
-      console.log(`Found ${sets.length} sets in AllPrintings.json`);
-      
-      let totalCardsProcessed = 0;
-      const BATCH_SIZE = 50;
-      
-      // Iterate through each set to find all cards
-      for (const setCode of sets) {
-        const setData = allPrintingsData.data[setCode];
-        if (!setData || !setData.cards || !Array.isArray(setData.cards)) {
-          console.log(`Skipping set ${setCode}: no cards data found or invalid format`);
+      for await (const { setCode, setData, bytesRead } of streamAllPrintingsSets(filePath)) {
+        if (skipping) {
+          skipping = setCode !== resumeAfterSet;
           continue;
         }
         
-        console.log(`Processing ${setData.cards.length} cards from set ${setCode} (${setData.name || 'Unknown'})`);
+        totalCardsProcessed += await this.processAllPrintingsSet(setCode, setData, run);
+        setsCompleted++;
         
-        // Process cards in batches
-        for (let i = 0; i < setData.cards.length; i += BATCH_SIZE) {
-          const cardBatch = setData.cards.slice(i, i + BATCH_SIZE);
-          const batchCards: Card[] = [];
-          
-          for (const cardData of cardBatch) {
-            // Generate a consistent ID for the card based on name and set
-            const cardId = `${cardData.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${setCode.toLowerCase()}`;
-            
-            // Skip if this exact card (with set) is already in the database
-            if (existingCardIds.has(cardId)) {
-              continue;
-            }
-            
-            // Add to existing IDs to avoid duplicates within this processing
-            existingCardIds.add(cardId);
-            
-            // Convert the card data to our format
-            try {
-              const card: Card = {
-                id: cardId,
-                name: cardData.name,
-                manaCost: cardData.manaCost,
-                cmc: cardData.convertedManaCost !== undefined ? parseFloat(cardData.convertedManaCost.toString()) : undefined,
-                colors: cardData.colors,
-                colorIdentity: cardData.colorIdentity,
-                type: cardData.type,
-                supertypes: cardData.supertypes,
-                types: cardData.types,
-                subtypes: cardData.subtypes,
-                rarity: cardData.rarity,
-                set: setCode,
-                setName: setData.name,
-                text: cardData.text,
-                flavor: cardData.flavorText,
-                artist: cardData.artist,
-                number: cardData.number,
-                power: cardData.power,
-                toughness: cardData.toughness,
-                loyalty: cardData.loyalty,
-                layout: cardData.layout,
-                multiverseid: cardData.identifiers?.multiverseId,
-                imageUrl: cardData.identifiers?.scryfallId 
-                  ? `https://api.scryfall.com/cards/${cardData.identifiers.scryfallId}?format=image` 
-                  : undefined,
-                rulings: cardData.rulings,
-                foreignNames: cardData.foreignData,
-                printings: cardData.printings,
-                originalText: cardData.originalText,
-                originalType: cardData.originalType,
-                legalities: cardData.legalities,
-                variations: cardData.variations
-              };
-              
-              batchCards.push(card);
-            } catch (err) {
-              console.error(`Error converting card ${cardData.name} from set ${setCode}:`, err);
-            }
-          }
-          
-          // Store batch of cards
-          if (batchCards.length > 0) {
-            try {
-              // Convert cards to database format
-              const dbCards = batchCards.map(card => ({
-                id: card.id,
-                name: card.name,
-                mana_cost: card.manaCost,
-                cmc: card.cmc !== undefined ? card.cmc.toString() : null,
-                colors: card.colors,
-                color_identity: card.colorIdentity,
-                type: card.type,
-                supertypes: card.supertypes,
-                types: card.types,
-                subtypes: card.subtypes,
-                rarity: card.rarity,
-                set: card.set,
-                set_name: card.setName,
-                text: card.text,
-                flavor: card.flavor,
-                artist: card.artist,
-                number: card.number,
-                power: card.power,
-                toughness: card.toughness,
-                loyalty: card.loyalty,
-                layout: card.layout,
-                multiverseid: card.multiverseid,
-                image_url: card.imageUrl,
-                rulings: card.rulings,
-                foreign_names: card.foreignNames,
-                printings: card.printings,
-                original_text: card.originalText,
-                original_type: card.originalType,
-                legalities: card.legalities,
-                variations: card.variations
-              }));
-              
-              // Insert cards directly
-              await db.insert(cardsTable).values(dbCards).onConflictDoNothing();
-              
-              totalCardsProcessed += batchCards.length;
-              console.log(`Stored batch of ${batchCards.length} cards from set ${setCode} (total: ${totalCardsProcessed})`);
-            } catch (err) {
-              console.error(`Error storing batch of cards from set ${setCode}:`, err);
-            }
-          }
-        }
+        await this.saveSyncRunCounts(run);
+        await this.saveCheckpoint({
+          lastCompletedSet: setCode,
+          setsCompleted,
+          cardsProcessed: totalCardsProcessed
+        });
+        
+        this.emitProgress({
+          phase: 'processing',
+          message: `Imported set ${setCode}`,
+          setCode,
+          setName: setData?.name,
+          setsCompleted,
+          cardsProcessed: totalCardsProcessed,
+          bytesRead,
+          totalBytes
+        });
       }
       
-      console.log(`AllPrintings.json processing completed. Processed ${totalCardsProcessed} cards from all sets.`);
+      console.log(`AllPrintings.json processing completed. Processed ${totalCardsProcessed} cards from ${setsCompleted} sets.`);
+      
+      // Only a single uninterrupted, error-free pass has seen every card, so only
+      // then can a card missing from the file be treated as removed upstream
+      if (run.seenOracleIds && run.seenPrintingIds && run.errors === 0) {
+        await this.removeMissingCards(run);
+      } else {
+        console.log(`Skipping removed card detection (${run.errors} errors, resumed: ${!run.seenPrintingIds})`);
+      }
+      
+      // Pick up bans and unbans from the new legalities; a failure here should not fail the import
+      try {
+        await banlistService.syncFromMtgjson(run.sourceVersion);
+      } catch (banlistError) {
+        console.error('Error syncing banlist from MTGJSON legalities:', banlistError);
+      }
+      
+      const versionLabel = run.sourceVersion ? `MTGJSON ${run.sourceVersion}` : 'MTGJSON AllPrintings.json';
+      const summary = `Synced ${versionLabel}: ${run.added} added, ${run.updated} updated, ${run.removed} removed`;
+      await this.finishSyncRun(run, 'completed', summary);
+      console.log(summary);
       
       // Update database metadata with total card count
       try {
@@ -521,14 +581,17 @@ export class MTGJsonService {
             id: "card_database",
             last_updated: new Date(),
             total_cards: cardCount,
-            description: "Database updated from MTGJSON AllPrintings.json"
+            description: summary,
+            source_version: run.sourceVersion
           })
           .onConflictDoUpdate({
             target: dbMetadata.id,
             set: {
               last_updated: new Date(),
               total_cards: cardCount,
-              description: "Database updated from MTGJSON AllPrintings.json"
+              description: summary,
+              // A run without a known version keeps the last known one
+              ...(run.sourceVersion ? { source_version: run.sourceVersion } : {})
             }
           });
         console.log(`Updated database metadata with ${cardCount} total cards and current timestamp`);
@@ -536,46 +599,766 @@ export class MTGJsonService {
         console.error("Error updating database metadata:", error);
       }
       
+      await this.saveCheckpoint({ status: 'completed', completedAt: new Date() });
+      this.emitProgress({
+        phase: 'completed',
+        message: summary,
+        setsCompleted,
+        cardsProcessed: totalCardsProcessed,
+        bytesRead: totalBytes,
+        totalBytes
+      });
+      
       this.initialized = true;
+      return summary;
     } catch (error) {
       console.error('Error processing AllPrintings.json:', error);
+      
+      // Keep the checkpoint so the next run resumes after the last completed set
+      try {
+        await this.saveCheckpoint({ status: 'failed', error: (error as Error).message });
+        await this.finishSyncRun(run, 'failed', (error as Error).message);
+      } catch (checkpointError) {
+        console.error('Error saving import checkpoint:', checkpointError);
+      }
+      this.emitProgress({ phase: 'failed', message: (error as Error).message });
+      
       throw error;
     }
   }
   
+  /**
+   * Sync one AllPrintings set: its metadata, oracle cards, printings and legacy card rows.
+   * Returns the number of cards in the set.
+   */
+  private async processAllPrintingsSet(setCode: string, setData: any, run: SyncRunState): Promise<number> {
+    const BATCH_SIZE = 50;
+    // Legacy ids are "name-set", so only the first printing of a name in a set is stored
+    const seenLegacyIds = new Set<string>();
+    
+    if (setData) {
+      try {
+        await this.upsertSet(setCode, setData);
+      } catch (err) {
+        console.error(`Error storing metadata for set ${setCode}:`, err);
+      }
+    }
+    
+    if (!setData || !setData.cards || !Array.isArray(setData.cards)) {
+      console.log(`Skipping set ${setCode}: no cards data found or invalid format`);
+      return 0;
+    }
+    
+    console.log(`Processing ${setData.cards.length} cards from set ${setCode} (${setData.name || 'Unknown'})`);
+    
+    // A card's faces can fall in different batches, so they're looked up across the set
+    const cardsByUuid = new Map<string, any>(setData.cards.map((card: any) => [card.uuid, card]));
+    
+    // Process cards in batches
+    for (let i = 0; i < setData.cards.length; i += BATCH_SIZE) {
+      const cardBatch = setData.cards.slice(i, i + BATCH_SIZE);
+      
+      try {
+        await this.syncOracleCardsAndPrintings(cardBatch, setCode, setData, run, cardsByUuid);
+      } catch (err) {
+        run.errors++;
+        console.error(`Error syncing oracle cards and printings from set ${setCode}:`, err);
+      }
+      
+      const legacyRows: InsertCard[] = [];
+      for (const cardData of cardBatch) {
+        try {
+          const row = this.toLegacyCardRow(cardData, setCode, setData);
+          if (!seenLegacyIds.has(row.id)) {
+            seenLegacyIds.add(row.id);
+            legacyRows.push(row);
+          }
+        } catch (err) {
+          console.error(`Error converting card ${cardData.name} from set ${setCode}:`, err);
+        }
+      }
+      
+      try {
+        const storedCount = await this.syncLegacyCards(legacyRows);
+        if (storedCount > 0) {
+          console.log(`Stored ${storedCount} new or changed cards from set ${setCode}`);
+        }
+      } catch (err) {
+        run.errors++;
+        console.error(`Error storing batch of cards from set ${setCode}:`, err);
+      }
+    }
+    
+    return setData.cards.length;
+  }
+  
+  /**
+   * Row for the legacy cards table
+   */
+  private toLegacyCardRow(cardData: any, setCode: string, setData: any): InsertCard {
+    return {
+      id: `${cardData.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${setCode.toLowerCase()}`,
+      name: cardData.name,
+      manaCost: cardData.manaCost,
+      cmc: cardData.convertedManaCost !== undefined ? parseFloat(cardData.convertedManaCost.toString()).toString() : null,
+      colors: cardData.colors,
+      colorIdentity: cardData.colorIdentity,
+      type: cardData.type,
+      supertypes: cardData.supertypes,
+      types: cardData.types,
+      subtypes: cardData.subtypes,
+      rarity: cardData.rarity,
+      set: setCode,
+      setName: setData.name,
+      text: cardData.text,
+      flavor: cardData.flavorText,
+      artist: cardData.artist,
+      number: cardData.number,
+      power: cardData.power,
+      toughness: cardData.toughness,
+      loyalty: cardData.loyalty,
+      layout: cardData.layout,
+      multiverseid: cardData.identifiers?.multiverseId,
+      imageUrl: cardData.identifiers?.scryfallId
+        ? `https://api.scryfall.com/cards/${cardData.identifiers.scryfallId}?format=image`
+        : null,
+      rulings: cardData.rulings,
+      foreignNames: cardData.foreignData,
+      printings: cardData.printings,
+      originalText: cardData.originalText,
+      originalType: cardData.originalType,
+      legalities: cardData.legalities,
+      variations: cardData.variations
+    };
+  }
+  
+  /**
+   * Write the legacy card rows that are new or differ from what is stored.
+   * Returns the number of rows written.
+   */
+  private async syncLegacyCards(rows: InsertCard[]): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+    
+    const stored = await db.select().from(cardsTable).where(inArray(cardsTable.id, rows.map(row => row.id)));
+    const storedById = new Map(stored.map(row => [row.id, row]));
+    
+    const changedRows = rows.filter(row => {
+      const existing = storedById.get(row.id);
+      return !existing || Object.keys(diffFields(existing, row, LEGACY_CARD_SYNC_FIELDS)).length > 0;
+    });
+    
+    if (changedRows.length > 0) {
+      await db.insert(cardsTable)
+        .values(changedRows)
+        .onConflictDoUpdate({
+          target: cardsTable.id,
+          set: { ...this.excludedColumns(cardsTable, LEGACY_CARD_SYNC_FIELDS), updatedAt: new Date() }
+        });
+    }
+    
+    return changedRows.length;
+  }
+  
+  /**
+   * `excluded.<column>` for each field, to upsert every synced column at once
+   */
+  private excludedColumns(table: any, fields: readonly string[]): Record<string, SQL> {
+    return Object.fromEntries(
+      fields.map(field => [field, sql.raw(`excluded."${table[field].name}"`)])
+    );
+  }
+  
+  /**
+   * Size and modification time of a file, used to tell whether a checkpoint
+   * belongs to the same AllPrintings.json download
+   */
+  private getFileFingerprint(filePath: string): string {
+    const stats = fs.statSync(filePath);
+    return `${stats.size}:${Math.floor(stats.mtimeMs)}`;
+  }
+  
+  /**
+   * The AllPrintings checkpoint, if an unfinished import of the same file can be resumed
+   */
+  private async getResumableCheckpoint(sourceFingerprint: string): Promise<ImportCheckpoint | null> {
+    const [checkpoint] = await db
+      .select()
+      .from(importCheckpoints)
+      .where(eq(importCheckpoints.id, ALL_PRINTINGS_CHECKPOINT_ID));
+    
+    if (!checkpoint || checkpoint.status === 'completed' || !checkpoint.lastCompletedSet) {
+      return null;
+    }
+    return checkpoint.sourceFingerprint === sourceFingerprint ? checkpoint : null;
+  }
+  
+  private async saveCheckpoint(values: Partial<InsertImportCheckpoint>): Promise<void> {
+    const updatedAt = new Date();
+    await db.insert(importCheckpoints)
+      .values({ id: ALL_PRINTINGS_CHECKPOINT_ID, status: 'running', ...values, updatedAt })
+      .onConflictDoUpdate({
+        target: importCheckpoints.id,
+        set: { ...values, updatedAt }
+      });
+  }
+  
+  /**
+   * Record import progress and notify listeners (the admin page subscribes over SSE)
+   */
+  private emitProgress(update: Partial<CardImportProgress>): void {
+    this.progress = { ...this.progress, ...update, updatedAt: new Date().toISOString() };
+    this.progressEmitter.emit('progress', this.progress);
+  }
+  
+  /**
+   * Subscribe to card import progress. Returns a function that unsubscribes.
+   */
+  public onImportProgress(listener: (progress: CardImportProgress) => void): () => void {
+    this.progressEmitter.on('progress', listener);
+    return () => {
+      this.progressEmitter.off('progress', listener);
+    };
+  }
+  
+  /**
+   * Current card import progress. If nothing has run since startup, an
+   * interrupted import is reported from the stored checkpoint.
+   */
+  public async getImportProgress(): Promise<CardImportProgress> {
+    if (this.progress.phase !== 'idle') {
+      return this.progress;
+    }
+    
+    const [checkpoint] = await db
+      .select()
+      .from(importCheckpoints)
+      .where(eq(importCheckpoints.id, ALL_PRINTINGS_CHECKPOINT_ID));
+    
+    if (!checkpoint || checkpoint.status === 'completed') {
+      return this.progress;
+    }
+    
+    return {
+      ...this.progress,
+      message: checkpoint.lastCompletedSet
+        ? `Previous import stopped after set ${checkpoint.lastCompletedSet}; the next update resumes from there`
+        : 'Previous import stopped before completing a set',
+      setCode: checkpoint.lastCompletedSet ?? undefined,
+      setsCompleted: checkpoint.setsCompleted ?? 0,
+      cardsProcessed: checkpoint.cardsProcessed ?? 0,
+      updatedAt: (checkpoint.updatedAt ?? new Date()).toISOString()
+    };
+  }
+  
+  /**
+   * Set metadata from an AllPrintings set entry
+   */
+  private toSetRow(setCode: string, setData: any): InsertCardSet {
+    return {
+      code: setData.code || setCode,
+      name: setData.name || setCode,
+      releaseDate: setData.releaseDate,
+      type: setData.type,
+      block: setData.block,
+      parentCode: setData.parentCode,
+      cardCount: setData.totalSetSize ?? setData.baseSetSize ?? (Array.isArray(setData.cards) ? setData.cards.length : 0),
+      iconCode: setData.keyruneCode,
+    };
+  }
+
+  /**
+   * Insert or refresh a set's metadata
+   */
+  private async upsertSet(setCode: string, setData: any): Promise<void> {
+    const row = this.toSetRow(setCode, setData);
+    
+    await db.insert(setsTable)
+      .values(row)
+      .onConflictDoUpdate({
+        target: setsTable.code,
+        set: {
+          name: row.name,
+          releaseDate: row.releaseDate,
+          type: row.type,
+          block: row.block,
+          parentCode: row.parentCode,
+          cardCount: row.cardCount,
+          iconCode: row.iconCode,
+          updatedAt: new Date(),
+        }
+      });
+  }
+
+  /**
+   * MTGJSON's oracle id groups every printing of the same card. A handful of
+   * cards (some tokens and test cards) have none, so fall back to the name.
+   */
+  private getOracleId(cardData: any): string {
+    return cardData.identifiers?.scryfallOracleId
+      || `name:${cardData.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
+  }
+
+  /**
+   * Rules-relevant fields of an MTGJSON card. The faces of a split, adventure, double-faced or
+   * meld card are merged into one row: their costs, type lines and text joined with "//", their
+   * colors and types combined, and the first stats a face has.
+   */
+  private toOracleCardRow(cardData: any, faces: any[] = [cardData]): InsertOracleCard {
+    if (faces.length > 1) {
+      const front = faces[0];
+      const joined = (field: string, separator: string) => {
+        const values = faces.map(face => face[field]).filter(Boolean);
+        return values.length > 0 ? values.join(separator) : null;
+      };
+      const combined = (field: string) => {
+        const values = Array.from(new Set(faces.flatMap(face => face[field] ?? [])));
+        return front[field] || values.length > 0 ? values : front[field];
+      };
+      const firstStat = (field: string) => faces.map(face => face[field]).find(value => value !== undefined && value !== null);
+      
+      return {
+        ...this.toOracleCardRow(front),
+        manaCost: joined('manaCost', ' // '),
+        colors: combined('colors'),
+        type: joined('type', ' // ') ?? front.type,
+        supertypes: combined('supertypes'),
+        types: combined('types'),
+        subtypes: combined('subtypes'),
+        text: joined('text', '\n//\n'),
+        power: firstStat('power'),
+        toughness: firstStat('toughness'),
+        loyalty: firstStat('loyalty'),
+      };
+    }
+    
+    const manaValue = cardData.manaValue ?? cardData.convertedManaCost;
+    
+    return {
+      id: this.getOracleId(cardData),
+      name: cardData.name,
+      manaCost: cardData.manaCost,
+      cmc: manaValue !== undefined ? manaValue.toString() : null,
+      colors: cardData.colors,
+      colorIdentity: cardData.colorIdentity,
+      type: cardData.type,
+      supertypes: cardData.supertypes,
+      types: cardData.types,
+      subtypes: cardData.subtypes,
+      text: cardData.text,
+      power: cardData.power,
+      toughness: cardData.toughness,
+      loyalty: cardData.loyalty,
+      layout: cardData.layout,
+      rulings: cardData.rulings,
+      legalities: cardData.legalities,
+    };
+  }
+
+  /**
+   * A card's faces in side order, front first; just the card itself if it has one face
+   */
+  private cardFaces(cardData: any, cardsByUuid: Map<string, any>): any[] {
+    const others = (cardData.otherFaceIds ?? [])
+      .map((uuid: string) => cardsByUuid.get(uuid))
+      // A meld card's other front face has its own oracle card
+      .filter((face: any) => face && face.side && face.side !== 'a');
+    return [cardData, ...others].sort((a, b) => (a.side ?? '').localeCompare(b.side ?? ''));
+  }
+
+  /**
+   * Set-specific fields of an MTGJSON card
+   */
+  private toPrintingRow(cardData: any, setCode: string, setData: any): InsertPrinting {
+    return {
+      id: cardData.uuid,
+      oracleId: this.getOracleId(cardData),
+      cardId: `${cardData.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${setCode.toLowerCase()}`,
+      set: setCode,
+      setName: setData.name,
+      number: cardData.number,
+      artist: cardData.artist,
+      flavor: cardData.flavorText,
+      rarity: cardData.rarity,
+      imageUrl: cardData.identifiers?.scryfallId
+        ? `https://api.scryfall.com/cards/${cardData.identifiers.scryfallId}?format=image`
+        : null,
+      multiverseid: cardData.identifiers?.multiverseId,
+      releaseDate: cardData.originalReleaseDate || setData.releaseDate,
+    };
+  }
+
+  /**
+   * Sync the oracle cards and printings for a batch of MTGJSON cards from one set.
+   * Only new or changed rows are written; each one is recorded in the run's change log.
+   */
+  private async syncOracleCardsAndPrintings(
+    cardBatch: any[],
+    setCode: string,
+    setData: any,
+    run: SyncRunState,
+    cardsByUuid: Map<string, any> = new Map()
+  ): Promise<void> {
+    const oracleRows = new Map<string, InsertOracleCard>();
+    const printingRows = new Map<string, InsertPrinting>();
+    
+    for (const cardData of cardBatch) {
+      // Multi-face cards list each face separately; the front face is the printing, with every face's oracle text
+      if (!cardData.uuid || (cardData.side && cardData.side !== 'a')) {
+        continue;
+      }
+      
+      const oracleRow = this.toOracleCardRow(cardData, this.cardFaces(cardData, cardsByUuid));
+      if (!oracleRows.has(oracleRow.id)) {
+        oracleRows.set(oracleRow.id, oracleRow);
+      }
+      printingRows.set(cardData.uuid, this.toPrintingRow(cardData, setCode, setData));
+    }
+    
+    oracleRows.forEach((_, id) => run.seenOracleIds?.add(id));
+    printingRows.forEach((_, id) => run.seenPrintingIds?.add(id));
+    
+    if (printingRows.size === 0) {
+      return;
+    }
+    
+    const { searchVector, ...oracleColumns } = getTableColumns(oracleCards);
+    const storedOracleCards = await db
+      .select(oracleColumns)
+      .from(oracleCards)
+      .where(inArray(oracleCards.id, Array.from(oracleRows.keys())));
+    const storedPrintings = await db
+      .select()
+      .from(printingsTable)
+      .where(inArray(printingsTable.id, Array.from(printingRows.keys())));
+    
+    const storedOracleById = new Map(storedOracleCards.map(row => [row.id, row]));
+    const storedPrintingById = new Map(storedPrintings.map(row => [row.id, row]));
+    const changes: InsertCardChange[] = [];
+    const history: InsertCardHistoryEntry[] = [];
+    
+    const changedOracleRows = Array.from(oracleRows.values()).filter(row => {
+      const stored = storedOracleById.get(row.id);
+      const fields = stored ? diffFields(stored, row, ORACLE_SYNC_FIELDS) : null;
+      if (fields && Object.keys(fields).length === 0) {
+        return false;
+      }
+      
+      if (fields) {
+        history.push(...historyChangesFromDiff(fields).map(entry => ({
+          ...entry,
+          oracleId: row.id,
+          syncRunId: run.id,
+          sourceVersion: run.sourceVersion,
+          changedAt: run.startedAt
+        })));
+      }
+      
+      changes.push({
+        runId: run.id,
+        entity: 'oracle_card',
+        entityId: row.id,
+        oracleId: row.id,
+        name: row.name,
+        change: stored ? 'updated' : 'added',
+        fields
+      });
+      return true;
+    });
+    
+    const changedPrintingRows = Array.from(printingRows.values()).filter(row => {
+      const stored = storedPrintingById.get(row.id);
+      const fields = stored ? diffFields(stored, row, PRINTING_SYNC_FIELDS) : null;
+      if (fields && Object.keys(fields).length === 0) {
+        return false;
+      }
+      
+      changes.push({
+        runId: run.id,
+        entity: 'printing',
+        entityId: row.id,
+        oracleId: row.oracleId,
+        name: oracleRows.get(row.oracleId)?.name ?? row.oracleId,
+        setCode: row.set,
+        change: stored ? 'updated' : 'added',
+        fields
+      });
+      return true;
+    });
+    
+    if (changedOracleRows.length > 0) {
+      await db.insert(oracleCards)
+        .values(changedOracleRows)
+        .onConflictDoUpdate({
+          target: oracleCards.id,
+          set: { ...this.excludedColumns(oracleCards, ORACLE_SYNC_FIELDS), updatedAt: new Date() }
+        });
+    }
+    
+    if (changedPrintingRows.length > 0) {
+      await db.insert(printingsTable)
+        .values(changedPrintingRows)
+        .onConflictDoUpdate({
+          target: printingsTable.id,
+          set: { ...this.excludedColumns(printingsTable, PRINTING_SYNC_FIELDS), updatedAt: new Date() }
+        });
+    }
+    
+    if (history.length > 0) {
+      await db.insert(cardHistory).values(history);
+    }
+    
+    if (changes.length > 0) {
+      await db.insert(cardChanges).values(changes);
+      run.added += changes.filter(change => change.change === 'added').length;
+      run.updated += changes.filter(change => change.change === 'updated').length;
+    }
+  }
+  
+  /**
+   * Delete oracle cards and printings that were not in the synced file, logging each removal.
+   * Legacy cards rows are kept because AI rulings reference them.
+   */
+  private async removeMissingCards(run: SyncRunState): Promise<void> {
+    const REMOVE_BATCH_SIZE = 500;
+    
+    const storedPrintings = await db
+      .select({ id: printingsTable.id, oracleId: printingsTable.oracleId, set: printingsTable.set, name: oracleCards.name })
+      .from(printingsTable)
+      .innerJoin(oracleCards, eq(printingsTable.oracleId, oracleCards.id));
+    const storedOracleCards = await db
+      .select({ id: oracleCards.id, name: oracleCards.name })
+      .from(oracleCards);
+    
+    const removedPrintings = storedPrintings.filter(row => !run.seenPrintingIds!.has(row.id));
+    const removedOracleCards = storedOracleCards.filter(row => !run.seenOracleIds!.has(row.id));
+    
+    const changes: InsertCardChange[] = [
+      ...removedPrintings.map(row => ({
+        runId: run.id,
+        entity: 'printing',
+        entityId: row.id,
+        oracleId: row.oracleId,
+        name: row.name,
+        setCode: row.set,
+        change: 'removed'
+      })),
+      ...removedOracleCards.map(row => ({
+        runId: run.id,
+        entity: 'oracle_card',
+        entityId: row.id,
+        oracleId: row.id,
+        name: row.name,
+        change: 'removed'
+      }))
+    ];
+    
+    // Printings first, since they reference oracle cards
+    for (let i = 0; i < removedPrintings.length; i += REMOVE_BATCH_SIZE) {
+      const ids = removedPrintings.slice(i, i + REMOVE_BATCH_SIZE).map(row => row.id);
+      await db.delete(printingsTable).where(inArray(printingsTable.id, ids));
+    }
+    for (let i = 0; i < removedOracleCards.length; i += REMOVE_BATCH_SIZE) {
+      const ids = removedOracleCards.slice(i, i + REMOVE_BATCH_SIZE).map(row => row.id);
+      await db.delete(oracleCards).where(inArray(oracleCards.id, ids));
+    }
+    for (let i = 0; i < changes.length; i += REMOVE_BATCH_SIZE) {
+      await db.insert(cardChanges).values(changes.slice(i, i + REMOVE_BATCH_SIZE));
+    }
+    
+    run.removed += changes.length;
+    console.log(`Removed ${removedPrintings.length} printings and ${removedOracleCards.length} oracle cards no longer in MTGJSON`);
+  }
+  
+  /**
+   * Start a sync run, or pick up the run of the checkpoint being resumed
+   */
+  private async startSyncRun(checkpoint: ImportCheckpoint | null, sourceVersion: string | null): Promise<SyncRunState> {
+    if (checkpoint?.syncRunId) {
+      const [existing] = await db.select().from(cardSyncRuns).where(eq(cardSyncRuns.id, checkpoint.syncRunId));
+      
+      if (existing) {
+        await db.update(cardSyncRuns)
+          .set({ status: 'running', message: null })
+          .where(eq(cardSyncRuns.id, existing.id));
+        
+        return {
+          id: existing.id,
+          sourceVersion: existing.sourceVersion,
+          startedAt: existing.startedAt ?? new Date(),
+          added: existing.added ?? 0,
+          updated: existing.updated ?? 0,
+          removed: existing.removed ?? 0,
+          errors: 0,
+          seenOracleIds: null,
+          seenPrintingIds: null
+        };
+      }
+    }
+    
+    const [created] = await db.insert(cardSyncRuns)
+      .values({
+        sourceVersion,
+        previousVersion: await this.getSyncedVersion(),
+        status: 'running'
+      })
+      .returning();
+    
+    return {
+      id: created.id,
+      sourceVersion,
+      startedAt: created.startedAt ?? new Date(),
+      added: 0,
+      updated: 0,
+      removed: 0,
+      errors: 0,
+      seenOracleIds: new Set(),
+      seenPrintingIds: new Set()
+    };
+  }
+  
+  private async saveSyncRunCounts(run: SyncRunState): Promise<void> {
+    await db.update(cardSyncRuns)
+      .set({ added: run.added, updated: run.updated, removed: run.removed })
+      .where(eq(cardSyncRuns.id, run.id));
+  }
+  
+  private async finishSyncRun(run: SyncRunState, status: 'completed' | 'failed', message: string): Promise<void> {
+    await db.update(cardSyncRuns)
+      .set({
+        status,
+        message,
+        added: run.added,
+        updated: run.updated,
+        removed: run.removed,
+        completedAt: status === 'completed' ? new Date() : null
+      })
+      .where(eq(cardSyncRuns.id, run.id));
+  }
+  
+  /**
+   * MTGJSON version the card database was last synced from
+   */
+  private async getSyncedVersion(): Promise<string | null> {
+    const [metadata] = await db.select().from(dbMetadata).where(eq(dbMetadata.id, "card_database"));
+    return metadata?.source_version ?? null;
+  }
+  
+  /**
+   * Current MTGJSON version from Meta.json, or null if it can't be fetched
+   */
+  private async fetchLatestVersion(): Promise<string | null> {
+    try {
+      const response = await axios.get(this.MTGJSON_META_URL, { timeout: 30000 });
+      return response.data?.data?.version ?? response.data?.meta?.version ?? null;
+    } catch (error) {
+      console.error("Error fetching MTGJSON Meta.json:", error);
+      return null;
+    }
+  }
+  
+  /**
+   * Latest sync run with its first changes. Pass a run id for an older run.
+   */
+  public async getSyncSummary(runId?: number, changeLimit: number = 100): Promise<CardSyncSummary | null> {
+    const [run] = runId
+      ? await db.select().from(cardSyncRuns).where(eq(cardSyncRuns.id, runId))
+      : await db.select().from(cardSyncRuns).orderBy(desc(cardSyncRuns.startedAt)).limit(1);
+    
+    if (!run) {
+      return null;
+    }
+    
+    return { ...run, changes: await this.getSyncChanges(run.id, { limit: changeLimit }) };
+  }
+  
+  /**
+   * Change log of a sync run, optionally filtered by change type
+   */
+  public async getSyncChanges(
+    runId: number,
+    options: { change?: string; limit?: number; offset?: number } = {}
+  ): Promise<CardChange[]> {
+    const conditions = [eq(cardChanges.runId, runId)];
+    if (options.change) {
+      conditions.push(eq(cardChanges.change, options.change));
+    }
+    
+    return db.select()
+      .from(cardChanges)
+      .where(and(...conditions))
+      .orderBy(cardChanges.id)
+      .limit(options.limit ?? 100)
+      .offset(options.offset ?? 0);
+  }
+  
   /**
    * Complete database update from MTGJSON
-   * This downloads and processes AllPrintings.json to get all 31,000+ cards
+   * This downloads and processes AllPrintings.json to get all 31,000+ cards.
+   * Nothing is downloaded when the MTGJSON Meta version matches the last sync,
+   * unless `force` is set. If a previous import of the downloaded file was
+   * interrupted, it resumes that import instead of downloading again.
    */
-  public async completeCardDatabaseUpdate(): Promise<{success: boolean, message: string}> {
+  public async completeCardDatabaseUpdate(options: { force?: boolean } = {}): Promise<{success: boolean, message: string}> {
+    if (this.importInProgress) {
+      return { success: false, message: "A card database update is already running" };
+    }
+    this.importInProgress = true;
+    
     try {
-      // Download AllPrintings.json
-      const downloadSuccess = await this.downloadAllPrintingsJson();
-      if (!downloadSuccess) {
-        return { success: false, message: "Failed to download AllPrintings.json" };
-      }
+      const allPrintingsPath = this.getAllPrintingsPath();
+      
+      const resumable = fs.existsSync(allPrintingsPath)
+        && await this.getResumableCheckpoint(this.getFileFingerprint(allPrintingsPath));
       
-      // Get path to the downloaded file
-      const __filename = fileURLToPath(import.meta.url);
-      const __dirname = path.dirname(__filename);
-      const allPrintingsPath = path.join(__dirname, '..', '..', 'data', 'AllPrintings.json');
+      let latestVersion: string | null = null;
+      
+      if (resumable) {
+        console.log("Found an interrupted AllPrintings.json import, resuming without downloading");
+        latestVersion = resumable.sourceVersion;
+      } else {
+        latestVersion = await this.fetchLatestVersion();
+        const syncedVersion = await this.getSyncedVersion();
+        
+        if (!options.force && latestVersion && latestVersion === syncedVersion) {
+          const message = `Card database is already at MTGJSON version ${latestVersion}`;
+          console.log(message);
+          this.emitProgress({ phase: 'completed', message });
+          return { success: true, message };
+        }
+        
+        console.log(`Syncing card database from MTGJSON version ${latestVersion ?? 'unknown'} (last synced: ${syncedVersion ?? 'never'})`);
+        
+        // Download AllPrintings.json
+        const downloadSuccess = await this.downloadAllPrintingsJson();
+        if (!downloadSuccess) {
+          return { success: false, message: "Failed to download AllPrintings.json" };
+        }
+      }
       
       // Process the file to update the database
-      await this.processAllPrintingsData(allPrintingsPath);
+      const summary = await this.processAllPrintingsData(allPrintingsPath, latestVersion);
       
-      return { 
-        success: true, 
-        message: "Successfully downloaded and processed AllPrintings.json. Card database has been updated with all 31,000+ cards." 
-      };
+      return { success: true, message: summary };
     } catch (error) {
       console.error("Error in complete card database update:", error);
       return { 
         success: false, 
         message: `Error updating card database: ${(error as Error).message}` 
       };
+    } finally {
+      this.importInProgress = false;
     }
   }
 
+  /**
+   * Whether a card database update is currently running
+   */
+  public isImportInProgress(): boolean {
+    return this.importInProgress;
+  }
+
   /**
    * Get popular and classic cards
    */
@@ -860,6 +1643,15 @@ export class MTGJsonService {
       // Iterate through each set to find all cards
       for (const setCode of sets) {
         const setData = allPrintingsData.data[setCode];
+        
+        if (setData) {
+          try {
+            await this.upsertSet(setCode, setData);
+          } catch (err) {
+            console.error(`Error storing metadata for set ${setCode}:`, err);
+          }
+        }
+        
         if (!setData || !setData.cards || !Array.isArray(setData.cards)) {
           console.log(`Skipping set ${setCode}: no cards data found or invalid format`);
           continue;
@@ -0,0 +1,243 @@
+import type { Rule } from '@shared/schema';
+import { isWithinRule, parentRuleNumber } from '@shared/rule-numbers';
+import type { Card } from '@/types/card';
+import { Glossary } from './glossary';
+
+export interface RankedRule {
+  rule: Rule;
+  score: number;
+  // Matched the query, or added as a match's parent, subrule or a rule it refers to
+  via: 'search' | 'parent' | 'child' | 'reference';
+}
+
+interface IndexedRule {
+  rule: Rule;
+  position: number; // Order in the rules, for ties
+  terms: Map<string, number>;
+  length: number;
+}
+
+// BM25 parameters: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Card text says what the question is about, but less directly than the question itself
+const CARD_TERM_WEIGHT = 0.3;
+// Rules of a keyword ability the question or its cards name (rule 702.x), and rules the glossary
+// entries for the question's terms refer to; a whole section referred to isn't given the floor
+const NAMED_RULE_BOOST = 2;
+const NAMED_RULE_FLOOR = 1;
+// Parents, subrules and rules referred to ("See rule 510") are worth less than the match
+const EXPANSION_DISCOUNT = 0.5;
+const MAX_EXPANDED_CHILDREN = 6;
+const MAX_EXPANDED_REFERENCES = 3;
+const KEYWORD_NAME_MAX_WORDS = 3;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'before', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'during', 'each', 'even', 'for',
+  'from', 'get', 'gets', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just',
+  'me', 'my', 'of', 'on', 'one', 'or', 'other', 'our', 'same', 'should', 'so', 'some', 'still', 'such',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'though',
+  'to', 'too', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why',
+  'will', 'with', 'would', 'you', 'your',
+]);
+
+const SUFFIXES = ['ies', 'ing', 'ers', 'er', 'ed', 'es', 's'];
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * A rough stem, so "blocks", "blocked" and "blocking" match "block"
+ */
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH && !word.endsWith('ss')) {
+      word = suffix === 'ies' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return word.length > MIN_STEM_LENGTH && word.endsWith('e') ? word.slice(0, -1) : word;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function countTerms(tokens: string[], weight: number, counts = new Map<string, number>()): Map<string, number> {
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + weight);
+  }
+  return counts;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The text of a card's rules, without its own name ("Goblin Guide deals...") and with its type line
+function cardQueryText(card: Card): string {
+  const text = card.text ? card.text.replace(new RegExp(escapeRegExp(card.name), 'gi'), ' ') : '';
+  return `${card.type || ''} ${text}`;
+}
+
+/**
+ * A BM25 index over the comprehensive rules, ranking rules for a question and its cards. Keyword
+ * abilities the question or cards name rank their own rules (702.x) higher, as do the rules the
+ * glossary gives for terms in the question, and each match brings along its parent rule, subrules
+ * and the rules it refers to.
+ */
+export class RuleIndex {
+  private entries: IndexedRule[] = [];
+  private byNumber = new Map<string, IndexedRule>();
+  private children = new Map<string, IndexedRule[]>();
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+  // Keyword ability name → its section, e.g. "trample" → "702.19"
+  private keywordSections = new Map<string, string>();
+
+  constructor(rules: Rule[], private glossary: Glossary = new Glossary([])) {
+    for (const rule of rules) {
+      // Some imports repeat a rule; the first copy wins
+      if (this.byNumber.has(rule.rule_number)) {
+        continue;
+      }
+      const tokens = tokenize([rule.text, ...(rule.examples || [])].join(' '));
+      const entry: IndexedRule = { rule, position: this.entries.length, terms: countTerms(tokens, 1), length: tokens.length };
+      this.entries.push(entry);
+      this.byNumber.set(rule.rule_number, entry);
+      entry.terms.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+    }
+
+    for (const entry of this.entries) {
+      const parent = parentRuleNumber(entry.rule.rule_number);
+      if (parent) {
+        this.children.set(parent, (this.children.get(parent) || []).concat(entry));
+      }
+    }
+
+    this.averageLength = this.entries.reduce((total, entry) => total + entry.length, 0) / (this.entries.length || 1);
+    this.indexKeywordSections();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Keyword abilities by name, from each 702.x rule's title ("702.19. Trample") or, when the
+   * title wasn't imported, its first subrule ("702.19a Trample is a static ability...")
+   */
+  private indexKeywordSections(): void {
+    const sections = new Set<string>();
+    for (const entry of this.entries) {
+      const match = entry.rule.rule_number.match(/^(702\.\d+)[a-z]?$/);
+      if (match) {
+        sections.add(match[1]);
+      }
+    }
+
+    sections.forEach(section => {
+      const title = this.byNumber.get(section)?.rule.text.match(/^([A-Za-z][A-Za-z' -]*?)(?=\s+\d{3}\.|\s*$)/);
+      const definition = this.byNumber.get(`${section}a`)?.rule.text.match(/^([A-Z][A-Za-z' -]*?) is an? /);
+      const name = (title || definition)?.[1].trim().toLowerCase();
+      if (name && name.split(' ').length <= KEYWORD_NAME_MAX_WORDS && !this.keywordSections.has(name)) {
+        this.keywordSections.set(name, section);
+      }
+    });
+  }
+
+  // Sections of the keyword abilities named anywhere in the text
+  private namedKeywordSections(text: string): Set<string> {
+    const sections = new Set<string>();
+    this.keywordSections.forEach((section, name) => {
+      if (new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text)) {
+        sections.add(section);
+      }
+    });
+    return sections;
+  }
+
+  private bm25(entry: IndexedRule, query: Map<string, number>): number {
+    let score = 0;
+    query.forEach((weight, term) => {
+      const frequency = entry.terms.get(term);
+      if (!frequency) {
+        return;
+      }
+      const documentFrequency = this.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (this.entries.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalization = BM25_K1 * (1 - BM25_B + BM25_B * entry.length / (this.averageLength || 1));
+      score += weight * idf * (frequency * (BM25_K1 + 1)) / (frequency + normalization);
+    });
+    return score;
+  }
+
+  /**
+   * The top rules for a question about these cards, best first, each rule once
+   */
+  public search(question: string, cards: Card[] = [], limit = 20): RankedRule[] {
+    if (limit <= 0 || this.entries.length === 0) {
+      return [];
+    }
+
+    const query = countTerms(tokenize(question), 1);
+    for (const card of cards) {
+      countTerms(tokenize(cardQueryText(card)), CARD_TERM_WEIGHT, query);
+    }
+    const keywordSections = this.namedKeywordSections([question, ...cards.map(cardQueryText)].join('\n'));
+    const glossaryReferences = this.glossary.findMentions(question).flatMap(term => term.ruleNumbers);
+    if (query.size === 0 && keywordSections.size === 0) {
+      return [];
+    }
+
+    const matches: { entry: IndexedRule; score: number }[] = [];
+    for (const entry of this.entries) {
+      let score = this.bm25(entry, query);
+      const number = entry.rule.rule_number;
+      const section = number.match(/^702\.\d+/)?.[0];
+      const references = glossaryReferences.filter(reference => isWithinRule(number, reference));
+      if ((section && keywordSections.has(section)) || references.some(reference => reference.includes('.'))) {
+        score = score * NAMED_RULE_BOOST + NAMED_RULE_FLOOR;
+      } else if (references.length > 0) {
+        score *= NAMED_RULE_BOOST;
+      }
+      if (score > 0) {
+        matches.push({ entry, score });
+      }
+    }
+    matches.sort((a, b) => b.score - a.score || a.entry.position - b.entry.position);
+
+    // Each match, then its parent, subrules and references at a discount, keeping a rule's best score
+    const ranked = new Map<string, { entry: IndexedRule; score: number; via: RankedRule['via'] }>();
+    const add = (entry: IndexedRule, score: number, via: RankedRule['via']) => {
+      const existing = ranked.get(entry.rule.rule_number);
+      if (!existing || existing.score < score) {
+        ranked.set(entry.rule.rule_number, { entry, score, via });
+      }
+    };
+    for (const { entry, score } of matches.slice(0, limit)) {
+      add(entry, score, 'search');
+      const parent = this.byNumber.get(parentRuleNumber(entry.rule.rule_number) || '');
+      if (parent) {
+        add(parent, score * EXPANSION_DISCOUNT, 'parent');
+      }
+      for (const child of (this.children.get(entry.rule.rule_number) || []).slice(0, MAX_EXPANDED_CHILDREN)) {
+        add(child, score * EXPANSION_DISCOUNT, 'child');
+      }
+      // Only references to rules the index has, not whole sections ("See rule 510")
+      const references = (entry.rule.related_rules || []).flatMap(number => this.byNumber.get(number) || []);
+      for (const referenced of references.slice(0, MAX_EXPANDED_REFERENCES)) {
+        add(referenced, score * EXPANSION_DISCOUNT, 'reference');
+      }
+    }
+
+    return Array.from(ranked.values())
+      .sort((a, b) => b.score - a.score || a.entry.position - b.entry.position)
+      .slice(0, limit)
+      .map(({ entry, score, via }) => ({ rule: entry.rule, score: Math.round(score * 1000) / 1000, via }));
+  }
+}
@@ -0,0 +1,108 @@
+import { compareRuleNumbers } from '@shared/rule-numbers';
+import type { RuleChange, WordChange } from '@shared/rules-versions';
+
+// Past this many word pairs a reworded rule is shown as its old text removed and its new text added
+const MAX_WORD_PAIRS = 250000;
+
+export interface VersionedRuleText {
+  ruleNumber: string;
+  text: string;
+}
+
+function words(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+// Consecutive words of the same kind become one change
+function pushWords(changes: WordChange[], type: WordChange['type'], added: string[]): void {
+  if (added.length === 0) return;
+  const last = changes[changes.length - 1];
+  if (last && last.type === type) {
+    last.text += ` ${added.join(' ')}`;
+  } else {
+    changes.push({ type, text: added.join(' ') });
+  }
+}
+
+/**
+ * The words two texts share, in order, and those only one of them has (a longest common
+ * subsequence of their words). Whitespace differences aren't changes.
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = words(before);
+  const b = words(after);
+
+  // Only the middle, between the words both start and end with, is compared word by word
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const changes: WordChange[] = [];
+  pushWords(changes, 'same', a.slice(0, start));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  if (middleA.length * middleB.length > MAX_WORD_PAIRS) {
+    pushWords(changes, 'removed', middleA);
+    pushWords(changes, 'added', middleB);
+  } else {
+    // lengths[i][j]: the longest common subsequence of middleA from i and middleB from j
+    const lengths: number[][] = [];
+    for (let i = middleA.length; i >= 0; i--) {
+      lengths[i] = new Array(middleB.length + 1).fill(0);
+      if (i === middleA.length) continue;
+      for (let j = middleB.length - 1; j >= 0; j--) {
+        lengths[i][j] = middleA[i] === middleB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+      if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+        pushWords(changes, 'same', [middleA[i++]]);
+        j++;
+      } else if (i < middleA.length && (j === middleB.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        // Words taken out come before the words put in their place
+        pushWords(changes, 'removed', [middleA[i++]]);
+      } else {
+        pushWords(changes, 'added', [middleB[j++]]);
+      }
+    }
+  }
+
+  pushWords(changes, 'same', a.slice(endA));
+  return changes;
+}
+
+/**
+ * The rules one version added, removed and reworded compared with an earlier one, in rule number order
+ */
+export function diffRules(before: VersionedRuleText[], after: VersionedRuleText[]): RuleChange[] {
+  const beforeByNumber = new Map(before.map(rule => [rule.ruleNumber, rule.text]));
+  const afterByNumber = new Map(after.map(rule => [rule.ruleNumber, rule.text]));
+  const changes: RuleChange[] = [];
+
+  afterByNumber.forEach((text, ruleNumber) => {
+    const previous = beforeByNumber.get(ruleNumber);
+    if (previous === undefined) {
+      changes.push({ ruleNumber, type: 'added', before: null, after: text });
+    } else if (words(previous).join(' ') !== words(text).join(' ')) {
+      changes.push({ ruleNumber, type: 'reworded', before: previous, after: text, words: diffWords(previous, text) });
+    }
+  });
+  beforeByNumber.forEach((text, ruleNumber) => {
+    if (!afterByNumber.has(ruleNumber)) {
+      changes.push({ ruleNumber, type: 'removed', before: text, after: null });
+    }
+  });
+
+  return changes.sort((a, b) => compareRuleNumbers(a.ruleNumber, b.ruleNumber));
+}
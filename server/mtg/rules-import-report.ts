@@ -0,0 +1,67 @@
+import { compareRuleNumbers } from '@shared/rule-numbers';
+
+// Subrule letters, which skip "l" and "o" so they aren't mistaken for "1" and "0"
+const SUBRULE_LETTERS = 'abcdefghijkmnpqrstuvwxyz';
+
+export interface RulesImportReport {
+  effectiveDate: string | null;
+  format: 'paragraphs' | 'run-together'; // A paragraph per rule, or text whose line breaks were lost
+  ruleCount: number;
+  chapters: { chapter: string; title: string; rules: number }[];
+  gaps: { ruleNumber: string; missing: string[] }[]; // A section or rule whose numbering skips some
+  supplied: string[]; // Rules the document doesn't have, which the importer fills in from its built-in text
+  duplicates: string[]; // Rule numbers the document has more than once
+  glossaryTerms: number;
+  duplicateGlossaryTerms: string[];
+  errors: string[]; // Problems the document can't be imported with
+  warnings: string[];
+}
+
+/**
+ * The rules missing from each section's and rule's numbering, e.g. 704.5m when 704.5k and
+ * 704.5n are there, or a rule whose subrules are there without it
+ */
+export function findNumberingGaps(ruleNumbers: string[]): RulesImportReport['gaps'] {
+  const present = new Set(ruleNumbers);
+  // The highest rule number of each section, and the highest subrule letter of each rule
+  const highest = new Map<string, number>();
+  const note = (parent: string, index: number) => {
+    highest.set(parent, Math.max(highest.get(parent) ?? 0, index));
+  };
+
+  for (const ruleNumber of ruleNumbers) {
+    const match = ruleNumber.match(/^(\d{3})\.(\d+)([a-z]?)$/);
+    if (!match) continue;
+    const [, section, number, letter] = match;
+    note(section, parseInt(number, 10));
+    if (letter && SUBRULE_LETTERS.includes(letter)) {
+      note(`${section}.${number}`, SUBRULE_LETTERS.indexOf(letter) + 1);
+    }
+  }
+
+  const gaps: RulesImportReport['gaps'] = [];
+  highest.forEach((last, parent) => {
+    const isSection = !parent.includes('.');
+    const missing: string[] = [];
+    for (let i = 1; i <= last; i++) {
+      const ruleNumber = isSection ? `${parent}.${i}` : `${parent}${SUBRULE_LETTERS[i - 1]}`;
+      if (!present.has(ruleNumber)) missing.push(ruleNumber);
+    }
+    if (missing.length > 0) gaps.push({ ruleNumber: parent, missing });
+  });
+
+  return gaps.sort((a, b) => compareRuleNumbers(a.ruleNumber, b.ruleNumber));
+}
+
+/**
+ * The values found more than once, in the order they first repeat
+ */
+export function findDuplicates(values: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const value of values) {
+    if (seen.has(value)) duplicates.add(value);
+    seen.add(value);
+  }
+  return Array.from(duplicates);
+}
@@ -2,9 +2,13 @@ import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
+import { randomUUID } from 'crypto';
 import { db } from '../db';
-import { rules as rulesTable, InsertRule } from '@shared/schema';
+import { rules as rulesTable, glossaryTerms, InsertRule, InsertGlossaryTerm } from '@shared/schema';
 import { eq, ilike, or, and, desc, sql } from 'drizzle-orm';
+import { ruleReferences } from '@shared/rule-numbers';
+import { rulesVersionService, parseEffectiveDate } from './rules-version-service';
+import { findDuplicates, findNumberingGaps, type RulesImportReport } from './rules-import-report';
 
 // Path to store downloaded rules
 const RULES_DIRECTORY = path.join(process.cwd(), '..', 'data');
@@ -21,7 +25,48 @@ interface ParsedRule {
   subsection?: string;
   rule_number: string;
   text: string;
+  examples?: string[];
   keywords: string[];
+  related_rules?: string[];
+}
+
+interface ParsedGlossaryTerm {
+  term: string;
+  definition: string;
+  ruleNumbers: string[];
+}
+
+// Fewer rules than this from the file's paragraphs means its text is run together, and is pattern matched
+const MIN_PARAGRAPH_RULES = 500;
+// The complete rules have thousands; a document with fewer than this is an excerpt
+const MIN_COMPLETE_RULES = 1000;
+// An uploaded document waits this long for an admin to import it
+const UPLOAD_TTL_MS = 60 * 60 * 1000;
+// Past this many waiting uploads, the oldest is dropped
+const MAX_STAGED_UPLOADS = 5;
+const CHAPTERS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Error thrown for rules that can't be imported, with the HTTP status to answer with
+ */
+export class RulesImportError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RulesImportError';
+  }
+}
+
+/**
+ * The rules text without what a PDF adds to it: the byte order mark, page breaks and lines
+ * that are only a page number
+ */
+export function normalizeRulesText(rulesText: string): string {
+  return rulesText
+    .replace(/^\uFEFF/, '')
+    .replace(/\f/g, '\n')
+    .split(/\r\n|\r|\n/)
+    .filter(line => !/^\s*\d{1,3}\s*$/.test(line))
+    .join('\n');
 }
 
 /**
@@ -29,6 +74,8 @@ interface ParsedRule {
  */
 export class RulesImporter {
   private static instance: RulesImporter;
+  // Uploaded documents waiting for an admin to import them, by upload id
+  private uploads = new Map<string, { rulesText: string; report: RulesImportReport; uploadedAt: number }>();
   private rulesUrl: string = "https://media.wizards.com/2025/downloads/MagicCompRules%2020250404.txt";
   
   private constructor() {}
@@ -67,82 +114,11 @@ export class RulesImporter {
         console.error("Error with primary download:", downloadError);
       }
       
-      // Use a hardcoded sample of the comprehensive rules as fallback
-      console.log("Using built-in MTG rules content as fallback");
-      const rulesContent = `
-Magic: The Gathering Comprehensive Rules
-
-These rules are effective as of April 5, 2024.
-
-Introduction
-
-This document is the ultimate authority for Magic: The Gathering® competitive game play. It consists of a series of numbered rules followed by a glossary. Many of the numbered rules are divided into subrules, and each separate rule and subrule of the game has its own number. (Note that subrules skip the letters "l" and "o" due to potential confusion with the numbers "1" and "0"; subrule 704.5k is followed by 704.5m, then 704.5n, then 704.5p, for example.)
-
-Contents
-
-1. Game Concepts
-2. Parts of a Card
-3. Card Types
-4. Zones
-5. Turn Structure
-6. Spells, Abilities, and Effects
-7. Additional Rules
-8. Multiplayer Rules
-9. Casual Variants
-Glossary
-Credits
-
-1. Game Concepts
-
-100. General
-
-100.1. These Magic rules apply to any Magic game with two or more players, including two-player games and multiplayer games.
-
-100.1a. A two-player game is a game that begins with only two players.
-
-100.1b. A multiplayer game is a game that begins with more than two players. See section 8, "Multiplayer Rules."
-
-100.2. To play, each player needs their own deck of traditional Magic cards, small items to represent any tokens and counters, and some way to clearly track life totals.
-
-100.2a. In constructed play (a way of playing in which each player creates their own deck ahead of time), each deck must contain at least sixty cards. A constructed deck may contain any number of basic land cards and no more than four of any card with a particular English name other than basic land cards.
-
-100.2b. In limited play (a way of playing in which each player gets the same quantity of unopened Magic product such as booster packs and creates their own deck using only this product and basic land cards), each deck must contain at least forty cards. A limited deck may contain as many duplicates of a card as are included with the product.
-
-101. The Magic Golden Rules
-
-101.1. Whenever a card's text directly contradicts these rules, the card takes precedence. The card overrides only the rule that applies to that specific situation. The only exception is that a player can concede the game at any time (see rule 104.3a).
-
-101.2. When a rule or effect allows or directs something to happen, and another effect states that it can't happen, the "can't" effect takes precedence.
-
-3. Card Types
-
-302. Creatures
-
-302.1. A player who has priority may cast a creature card from their hand during a main phase of their turn when the stack is empty. Casting a creature as a spell uses the stack. (See rule 601, "Casting Spells.")
-
-302.2. When a creature spell resolves, its controller puts it onto the battlefield under their control.
-
-7. Additional Rules
-
-702. Keyword Abilities
-
-702.19. Trample
-702.19a. Trample is a static ability that modifies the rules for assigning an attacking creature's combat damage. The ability has no effect when a creature with trample is blocking or is dealing noncombat damage. (See rule 510, "Combat Damage Step.")
-
-702.19b. The controller of an attacking creature with trample first assigns damage to the creature(s) blocking it. Once all those blocking creatures are assigned lethal damage, any excess damage is assigned as its controller chooses among those blocking creatures and the player or planeswalker the creature is attacking. When checking for assigned lethal damage, take into account damage already marked on the creature and damage from other creatures that's being assigned during the same combat damage step, but not any abilities or effects that might change the amount of damage that's actually dealt. The attacking creature's controller need not assign lethal damage to all those blocking creatures but in that case can't assign any damage to the player or planeswalker it's attacking.
-
-722. Special Actions
-
-722.1. Special actions are actions a player may take when they have priority that don't use the stack. These are not to be confused with turn-based actions and state-based actions, which the game generates automatically. (See rule 703, "Turn-Based Actions," and rule 704, "State-Based Actions.")
-
-722.2. During the declare attackers step, a player declares a 'band' as they declare attackers. A band is a group of attacking creatures with banding and up to one attacking creature without banding. The creatures in a band must attack the same player or planeswalker. Other than the ability to form a band, banding doesn't affect the rules of the combat phase.
-`;
-      
-      // Save the hardcoded rules to a file
-      await promisify(fs.writeFile)(RULES_FILEPATH, rulesContent, 'utf8');
-      console.log(`Built-in rules saved to ${RULES_FILEPATH}`);
-      
-      return rulesContent;
+      // A handful of rules would pass for the real thing, so there's no built-in fallback
+      throw new RulesImportError(
+        502,
+        "Couldn't download the comprehensive rules from Wizards of the Coast. Upload the rules file from the admin page instead."
+      );
     } catch (error) {
       console.error("Error handling rules:", error);
       throw error;
@@ -150,53 +126,182 @@ Credits
   }
   
   /**
-   * Read the rules from the local file system
+   * Read the rules from the local file system, skipping files that aren't the complete rules
    */
   public async readRulesFile(): Promise<string> {
     try {
-      // Check for the user-provided file first
-      const userProvidedPath = "./attached_assets/MagicCompRules.txt";
-      if (fs.existsSync(userProvidedPath)) {
-        console.log("Using user-provided comprehensive rules file");
-        const content = await promisify(fs.readFile)(userProvidedPath, 'utf8');
-        
-        // Check if it has valid content
-        if (content && content.length > 500 && content.includes("Magic: The Gathering Comprehensive Rules")) {
-          console.log(`Found valid user-provided rules file (${content.length} bytes)`);
-          return content;
-        }
-      }
-      
-      // Fall back to the previously downloaded file
-      if (fs.existsSync(RULES_FILEPATH)) {
-        const content = await promisify(fs.readFile)(RULES_FILEPATH, 'utf8');
+      // The user-provided file first, then the previously downloaded one
+      const candidates = ["./attached_assets/MagicCompRules.txt", RULES_FILEPATH];
+      for (const filePath of candidates) {
+        if (!fs.existsSync(filePath)) continue;
         
-        // If the file is too small, download a fresh copy
-        if (content && content.length > 1000) {
+        const content = normalizeRulesText(await promisify(fs.readFile)(filePath, 'utf8'));
+        const { errors } = this.validateRules(content);
+        if (errors.length === 0) {
+          console.log(`Using comprehensive rules file ${filePath} (${content.length} bytes)`);
           return content;
         }
+        console.warn(`Skipping comprehensive rules file ${filePath}: ${errors.join(' ')}`);
       }
       
       // As a last resort, download from the official source
       console.log("No valid rules file found, downloading from official source");
       return await this.downloadRules();
     } catch (error) {
+      if (error instanceof RulesImportError) throw error;
       console.error("Error reading rules file:", error);
       return await this.downloadRules();
     }
   }
   
+  /**
+   * Check a rules document without importing it: its rules per chapter, gaps in their numbering,
+   * duplicate numbers and glossary terms. Errors are problems it can't be imported with.
+   */
+  public validateRules(rulesText: string): RulesImportReport {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (rulesText.startsWith('%PDF')) {
+      errors.push("This is a PDF file. Upload the rules as text: the official TXT, or the text copied out of the PDF.");
+    }
+
+    const parsed = this.parseRulesDocument(rulesText);
+    const { format, supplied, duplicates } = parsed;
+    // The report is of the document; rules filled in from built-in text are only listed
+    const rules = parsed.rules.filter(rule => !supplied.includes(rule.rule_number));
+    const glossaryEntries = this.parseGlossaryEntries(rulesText);
+    const chapterNames = this.getChapterSectionMappings();
+
+    const chapters = CHAPTERS.map(chapter => ({
+      chapter,
+      title: chapterNames[chapter],
+      rules: rules.filter(rule => rule.rule_number.startsWith(chapter)).length,
+    }));
+
+    if (!rulesText.includes('Comprehensive Rules')) {
+      warnings.push('The document has no "Comprehensive Rules" title.');
+    }
+    if (rules.length < MIN_COMPLETE_RULES) {
+      errors.push(`Only ${rules.length} rules were found; the complete comprehensive rules have thousands.`);
+    }
+    chapters.filter(chapter => chapter.rules === 0).forEach(chapter => {
+      errors.push(`No rules were found in chapter ${chapter.chapter}, ${chapter.title}.`);
+    });
+    if (glossaryEntries.length === 0) {
+      warnings.push('No glossary was found; importing will leave the glossary empty.');
+    }
+    if (format === 'run-together') {
+      warnings.push("The document's line breaks were lost, so its rules were found by their numbers alone and may run into each other.");
+    }
+
+    const gaps = findNumberingGaps(rules.map(rule => rule.rule_number));
+    if (gaps.length > 0) {
+      warnings.push(`${gaps.length} sections or rules skip numbers.`);
+    }
+    if (supplied.length > 0) {
+      warnings.push(`${supplied.length} rules weren't found in the document and would be filled in from built-in text: ${supplied.join(', ')}.`);
+    }
+    if (duplicates.length > 0) {
+      warnings.push(`${duplicates.length} rule numbers appear more than once; the first of each is imported.`);
+    }
+
+    return {
+      effectiveDate: parseEffectiveDate(rulesText),
+      format,
+      ruleCount: rules.length,
+      chapters,
+      gaps,
+      supplied,
+      duplicates,
+      glossaryTerms: new Set(glossaryEntries.map(entry => entry.term.toLowerCase())).size,
+      duplicateGlossaryTerms: findDuplicates(glossaryEntries.map(entry => entry.term.toLowerCase())),
+      errors,
+      warnings,
+    };
+  }
+  
+  /**
+   * Keep an uploaded rules document for an admin to import once they've seen its report. Only the
+   * latest few uploads are kept.
+   */
+  public stageUpload(documentText: string): { uploadId: string; report: RulesImportReport } {
+    const now = Date.now();
+    this.uploads.forEach((upload, id) => {
+      if (now - upload.uploadedAt > UPLOAD_TTL_MS) this.uploads.delete(id);
+    });
+
+    // Uploads are kept in the order they came in, so the first is the oldest
+    while (this.uploads.size >= MAX_STAGED_UPLOADS) {
+      const oldest = this.uploads.keys().next().value as string;
+      this.uploads.delete(oldest);
+    }
+
+    const rulesText = normalizeRulesText(documentText);
+    const uploadId = randomUUID();
+    const report = this.validateRules(rulesText);
+    this.uploads.set(uploadId, { rulesText, report, uploadedAt: now });
+    return { uploadId, report };
+  }
+  
+  /**
+   * An uploaded document that can be imported. Throws RulesImportError if it's gone or its report has errors.
+   */
+  public getStagedUpload(uploadId: string): { rulesText: string; report: RulesImportReport } {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) {
+      throw new RulesImportError(404, 'Upload not found. It may have expired; please upload the file again.');
+    }
+    if (upload.report.errors.length > 0) {
+      throw new RulesImportError(400, `The uploaded rules can't be imported: ${upload.report.errors.join(' ')}`);
+    }
+    return upload;
+  }
+  
+  public discardUpload(uploadId: string): void {
+    this.uploads.delete(uploadId);
+  }
+  
   /**
    * Parse the comprehensive rules text and extract structured data
    */
   public parseRules(rulesText: string): ParsedRule[] {
+    return this.parseRulesDocument(rulesText).rules;
+  }
+  
+  /**
+   * The document's rules, one per number, with how they were found, the rules filled in from
+   * built-in text and the numbers it repeats
+   */
+  private parseRulesDocument(rulesText: string): {
+    rules: ParsedRule[];
+    format: RulesImportReport['format'];
+    supplied: string[];
+    duplicates: string[];
+  } {
     console.log("Parsing rules text...");
     
     // This is a preprocessing step - the rules file is not in a line-by-line format
     // Instead, we need to use a different approach for this compressed format
     
-    // Get chapter and section mappings for proper categorization
-    const chapterSectionMappings = this.getChapterSectionMappings();
+    // Only the rules; the glossary and credits would run on as the last rule's text
+    const glossary = this.findGlossary(rulesText);
+    if (glossary) {
+      rulesText = rulesText.slice(0, glossary.start);
+    }
+
+    // Get chapter and section mappings for proper categorization, preferring the file's own section headings
+    const chapterSectionMappings = { ...this.getChapterSectionMappings(), ...this.parseSectionHeadings(rulesText) };
+
+    // The official file has a paragraph per rule, which needs none of the pattern matching's repairs
+    const paragraphRules = this.parseRuleParagraphs(rulesText, chapterSectionMappings);
+    if (paragraphRules.length >= MIN_PARAGRAPH_RULES) {
+      console.log(`Parsed ${paragraphRules.length} rules from the rules file's paragraphs`);
+      const ruleNumbers = paragraphRules.map(rule => rule.rule_number);
+      // A repeated number's first paragraph is the rule
+      const firstRules = paragraphRules.filter((rule, i) => ruleNumbers.indexOf(rule.rule_number) === i);
+      return { rules: this.addReferences(firstRules), format: 'paragraphs', supplied: [], duplicates: findDuplicates(ruleNumbers) };
+    }
     
     // First, detect all possible rules using a regular expression
     // This pattern matches "XXX.YYa. Rule text" where XXX is the rule number, YY is the subrule number, and a is optional
@@ -371,6 +476,9 @@ Credits
       }
     }
     
+    // Rules the document didn't have, filled in from the text below
+    const supplied: string[] = [];
+    
     // Add specific important subrules that our regex might miss
     const importantSubrules = [
       {
@@ -400,6 +508,7 @@ Credits
     for (const subrule of importantSubrules) {
       if (!rules.some(r => r.rule_number === subrule.rule_number)) {
         console.log(`Adding essential subrule: ${subrule.rule_number}`);
+        supplied.push(subrule.rule_number);
         
         // Extract keywords from rule text
         const keywords = this.extractKeywords(subrule.text);
@@ -436,11 +545,126 @@ Credits
     console.log(`After removing duplicates: ${uniqueRules.length} unique rules`);
     
     // For critical rules, ensure we have them with proper sections
-    this.ensureEssentialRules(uniqueRules);
+    supplied.push(...this.ensureEssentialRules(uniqueRules));
     
-    return uniqueRules;
+    return {
+      rules: this.addReferences(uniqueRules),
+      format: 'run-together',
+      supplied,
+      duplicates: findDuplicates(matches.map(match => `${match[1]}.${match[2]}`)),
+    };
+  }
+
+  /**
+   * The rules one paragraph at a time: each rule and subrule starts a line, and is followed by
+   * its "Example:" paragraphs. A line that's neither continues the paragraph before it.
+   */
+  private parseRuleParagraphs(rulesText: string, sectionNames: Record<string, string>): ParsedRule[] {
+    const rules: ParsedRule[] = [];
+    let current: (ParsedRule & { examples: string[] }) | null = null;
+
+    for (const line of rulesText.split(/\r\n|\r|\n/)) {
+      const paragraph = line.trim();
+      if (!paragraph) continue;
+
+      const rule = paragraph.match(/^(\d{3})\.(\d+)([a-z]?)\.?\s+(.+)$/);
+      if (rule) {
+        const [, section, number, letter, text] = rule;
+        current = {
+          chapter: section.charAt(0),
+          section: sectionNames[section] || sectionNames[section.charAt(0)] || "General Rules",
+          subsection: letter ? `${section}.${number}` : undefined,
+          rule_number: `${section}.${number}${letter}`,
+          text,
+          examples: [],
+          keywords: this.extractKeywords(text),
+        };
+        rules.push(current);
+      } else if (/^\d{1,3}\.\s/.test(paragraph)) {
+        // A chapter or section heading, which the contents also list before the first rule
+        current = null;
+      } else if (current && paragraph.startsWith('Example:')) {
+        current.examples.push(paragraph.replace(/^Example:\s*/, ''));
+      } else if (current && current.examples.length > 0) {
+        current.examples[current.examples.length - 1] += ` ${paragraph}`;
+      } else if (current) {
+        current.text += ` ${paragraph}`;
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * The rules each rule's text and examples refer to, e.g. "(see rule 104.3a)"
+   */
+  private addReferences(rules: ParsedRule[]): ParsedRule[] {
+    for (const rule of rules) {
+      rule.related_rules = ruleReferences([rule.text, ...(rule.examples || [])].join(' '))
+        .filter(number => number !== rule.rule_number);
+    }
+    return rules;
   }
   
+  /**
+   * Section names from the headings on their own lines, e.g. "702. Keyword Abilities"
+   */
+  private parseSectionHeadings(rulesText: string): Record<string, string> {
+    const headings: Record<string, string> = {};
+    for (const match of Array.from(rulesText.matchAll(/^\s*([1-9]\d{2})\.\s+([A-Z][^\n.]*?)\s*$/gm))) {
+      headings[match[1]] = match[2];
+    }
+    return headings;
+  }
+
+  /**
+   * Where the glossary is in the rules file: from its heading after the rules up to the credits.
+   * Null if the file has none, as the contents list "Glossary" and "Credits" too.
+   */
+  private findGlossary(rulesText: string): { start: number; end: number } | null {
+    const headings = Array.from(rulesText.matchAll(/^[ \t]*(Glossary|Credits)[ \t]*\r?$/gm));
+    const heading = headings.filter(match => match[1] === 'Glossary').pop();
+    if (!heading || heading.index === undefined) return null;
+
+    const start = heading.index;
+    const credits = headings.find(match => match[1] === 'Credits' && match.index! > start);
+    const end = credits ? credits.index! : rulesText.length;
+    return rulesText.slice(start + heading[0].length, end).trim() ? { start, end } : null;
+  }
+
+  /**
+   * The glossary's terms: each is a line with its name, then its definition, then a blank line
+   */
+  public parseGlossary(rulesText: string): ParsedGlossaryTerm[] {
+    const terms = new Map<string, ParsedGlossaryTerm>();
+    for (const entry of this.parseGlossaryEntries(rulesText)) {
+      // A term's first definition wins, should the glossary repeat it
+      if (!terms.has(entry.term.toLowerCase())) terms.set(entry.term.toLowerCase(), entry);
+    }
+    return Array.from(terms.values());
+  }
+
+  /**
+   * Every entry in the glossary, repeated terms included
+   */
+  private parseGlossaryEntries(rulesText: string): ParsedGlossaryTerm[] {
+    const glossary = this.findGlossary(rulesText);
+    if (!glossary) return [];
+
+    const entries: ParsedGlossaryTerm[] = [];
+    // Files come with any of the three kinds of line break
+    const body = rulesText.slice(glossary.start, glossary.end).replace(/^[^\r\n]*/, '');
+    for (const block of body.split(/(?:\r\n|\r|\n)[ \t]*(?:\r\n|\r|\n)/)) {
+      const [term, ...lines] = block.split(/\r\n|\r|\n/).map(line => line.trim()).filter(Boolean);
+      if (!term || lines.length === 0) continue;
+
+      const definition = lines.join('\n');
+      entries.push({ term, definition, ruleNumbers: ruleReferences(definition) });
+    }
+
+    return entries;
+  }
+
   /**
    * Create a mapping of rule numbers and chapters to proper section names
    */
@@ -486,9 +710,12 @@ Credits
   
   /**
    * Ensure essential rules are present in the rules collection 
-   * and fix their chapter/section assignments if needed
+   * and fix their chapter/section assignments if needed.
+   * Returns the rules it added.
    */
-  private ensureEssentialRules(rules: ParsedRule[]): void {
+  private ensureEssentialRules(rules: ParsedRule[]): string[] {
+    const supplied: string[] = [];
+    
     // Critical rules that must be present with their correct attributes
     const essentialRules = [
       {
@@ -531,6 +758,7 @@ Credits
       if (!existingRule) {
         // Rule doesn't exist, add it
         console.log(`Adding missing essential rule: ${essentialRule.rule_number}`);
+        supplied.push(essentialRule.rule_number);
         
         // Extract keywords from rule text
         const keywords = this.extractKeywords(essentialRule.text);
@@ -560,6 +788,8 @@ Credits
         }
       }
     }
+    
+    return supplied;
   }
   
   /**
@@ -622,15 +852,27 @@ Credits
   }
   
   /**
-   * Import rules into the database
+   * Import rules into the database, from the given document or else the local or downloaded file.
+   * Each document imported is also archived as a rules version, with only the rules it has: those
+   * filled in from built-in text aren't part of the release.
    */
-  public async importRules(): Promise<number> {
+  public async importRules(documentText?: string): Promise<number> {
     try {
       // Download and read the rules
-      const rulesText = await this.readRulesFile();
+      const rulesText = normalizeRulesText(documentText ?? await this.readRulesFile());
+      
+      // Check the document before anything is cleared: a bad upload is the caller's to fix, a bad
+      // download isn't
+      const { errors } = this.validateRules(rulesText);
+      if (errors.length > 0) {
+        throw new RulesImportError(
+          documentText === undefined ? 502 : 400,
+          `The comprehensive rules can't be imported: ${errors.join(' ')}`
+        );
+      }
       
       // Parse the rules text into structured data
-      const parsedRules = this.parseRules(rulesText);
+      const { rules: parsedRules, supplied } = this.parseRulesDocument(rulesText);
       
       // Delete existing rules to avoid duplicates
       await db.delete(rulesTable);
@@ -650,7 +892,9 @@ Credits
           subsection: rule.subsection,
           rule_number: rule.rule_number,
           text: rule.text,
+          examples: rule.examples,
           keywords: rule.keywords,
+          related_rules: rule.related_rules,
         }));
         
         await db.insert(rulesTable).values(insertRules);
@@ -659,6 +903,23 @@ Credits
         console.log(`Imported batch of ${batch.length} rules. Total: ${rulesImported}`);
       }
       
+      // The glossary is replaced along with the rules
+      const parsedGlossary = this.parseGlossary(rulesText);
+      await db.delete(glossaryTerms);
+      for (let i = 0; i < parsedGlossary.length; i += BATCH_SIZE) {
+        const insertTerms: InsertGlossaryTerm[] = parsedGlossary.slice(i, i + BATCH_SIZE);
+        await db.insert(glossaryTerms).values(insertTerms);
+      }
+      console.log(`Imported ${parsedGlossary.length} glossary terms`);
+      
+      const suppliedNumbers = new Set(supplied);
+      await rulesVersionService.recordVersion(
+        rulesText,
+        parsedRules
+          .filter(rule => !suppliedNumbers.has(rule.rule_number))
+          .map(rule => ({ ruleNumber: rule.rule_number, text: rule.text }))
+      );
+      
       // Verify some important rules were imported
       await this.verifyRulesImport();
       
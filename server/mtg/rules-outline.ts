@@ -0,0 +1,174 @@
+import type { Rule } from '@shared/schema';
+import {
+  compareRuleNumbers,
+  isWithinRule,
+  parentRuleNumber,
+  ruleLevel,
+  type RuleGraph,
+  type RuleNavigation,
+  type RuleOutlineEntry,
+  type RuleSummary,
+  type RulesTocChapter,
+} from '@shared/rule-numbers';
+
+// The comprehensive rules' chapters, which the rules file only names in its contents
+const CHAPTER_TITLES: Record<string, string> = {
+  '1': 'Game Concepts',
+  '2': 'Parts of a Card',
+  '3': 'Card Types',
+  '4': 'Zones',
+  '5': 'Turn Structure',
+  '6': 'Spells, Abilities, and Effects',
+  '7': 'Additional Rules',
+  '8': 'Multiplayer Rules',
+  '9': 'Casual Variants',
+};
+
+const TITLE_MAX_LENGTH = 80;
+
+// The rule's first sentence, cut at a word boundary; keyword abilities' rules are just their name
+function ruleTitle(text: string): string {
+  const sentence = text.match(/^.*?[.:](?=\s|$)/)?.[0] ?? text;
+  if (sentence.length <= TITLE_MAX_LENGTH) return sentence;
+  const cut = sentence.slice(0, TITLE_MAX_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length).trimEnd()}…`;
+}
+
+function summary({ number, level, title }: RuleOutlineEntry): RuleSummary {
+  return { number, level, title };
+}
+
+/**
+ * The comprehensive rules as a document: chapters, sections, rules and subrules in order, for
+ * the table of contents and moving between rules, and the references between them. Sections are
+ * named from the rules' section column, and a rule missing from the import still gets an entry
+ * if it has subrules.
+ */
+export class RulesOutline {
+  private entries: RuleOutlineEntry[] = [];
+  private byNumber = new Map<string, RuleOutlineEntry>();
+  private positions = new Map<string, number>();
+  private children = new Map<string, RuleOutlineEntry[]>();
+  // The rules each rule refers to, from its related_rules column, and the reverse
+  private outbound = new Map<string, string[]>();
+  private inbound = new Map<string, string[]>();
+
+  constructor(rules: Rule[]) {
+    const sectionTitles = new Map<string, string>();
+
+    for (const rule of rules) {
+      const level = ruleLevel(rule.rule_number);
+      if (!level || level === 'chapter' || level === 'section' || this.byNumber.has(rule.rule_number)) {
+        continue;
+      }
+      this.add({ number: rule.rule_number, level, title: ruleTitle(rule.text), text: rule.text, examples: rule.examples || [] });
+      this.outbound.set(rule.rule_number, rule.related_rules || []);
+
+      const section = rule.rule_number.split('.')[0];
+      // Sections the import couldn't name are filed under their chapter's name, and stay unnamed here
+      if (rule.section && rule.section !== CHAPTER_TITLES[section.charAt(0)] && !sectionTitles.has(section)) {
+        sectionTitles.set(section, rule.section);
+      }
+    }
+
+    // Every rule's parents, up to its chapter
+    for (const entry of Array.from(this.byNumber.values())) {
+      let number = parentRuleNumber(entry.number);
+      while (number && !this.byNumber.has(number)) {
+        const level = ruleLevel(number)!;
+        const title = level === 'chapter'
+          ? CHAPTER_TITLES[number] ?? `Chapter ${number}`
+          : level === 'section' ? sectionTitles.get(number) ?? '' : number;
+        this.add({ number, level, title, text: null, examples: [] });
+        number = parentRuleNumber(number);
+      }
+    }
+
+    this.entries.sort((a, b) => compareRuleNumbers(a.number, b.number));
+    this.entries.forEach((entry, position) => {
+      this.positions.set(entry.number, position);
+      const parent = parentRuleNumber(entry.number);
+      if (parent) {
+        this.children.set(parent, (this.children.get(parent) || []).concat(entry));
+      }
+    });
+
+    // References to rules the outline has; "See section 6" and numbers that don't exist are dropped
+    this.outbound.forEach((references, number) => {
+      const known = references.filter(reference => reference !== number && this.byNumber.has(reference));
+      this.outbound.set(number, known);
+      known.forEach(reference => this.inbound.set(reference, (this.inbound.get(reference) || []).concat(number)));
+    });
+  }
+
+  private add(entry: RuleOutlineEntry): void {
+    this.entries.push(entry);
+    this.byNumber.set(entry.number, entry);
+  }
+
+  public get(ruleNumber: string): RuleOutlineEntry | null {
+    return this.byNumber.get(ruleNumber) ?? null;
+  }
+
+  public getChildren(ruleNumber: string): RuleOutlineEntry[] {
+    return this.children.get(ruleNumber) ?? [];
+  }
+
+  /**
+   * Chapters, their sections and the sections' rules, without subrules
+   */
+  public getTableOfContents(): RulesTocChapter[] {
+    return this.entries
+      .filter(entry => entry.level === 'chapter')
+      .map(chapter => ({
+        ...summary(chapter),
+        sections: this.getChildren(chapter.number).map(section => ({
+          ...summary(section),
+          rules: this.getChildren(section.number).map(summary),
+        })),
+      }));
+  }
+
+  public getNavigation(ruleNumber: string): RuleNavigation | null {
+    const entry = this.get(ruleNumber);
+    if (!entry) return null;
+
+    const breadcrumbs: RuleSummary[] = [];
+    for (let number = parentRuleNumber(ruleNumber); number; number = parentRuleNumber(number)) {
+      breadcrumbs.unshift(summary(this.byNumber.get(number)!));
+    }
+    const parent = breadcrumbs.length > 0 ? breadcrumbs[breadcrumbs.length - 1] : null;
+    const position = this.positions.get(ruleNumber)!;
+
+    return {
+      entry,
+      breadcrumbs,
+      parent,
+      siblings: (parent ? this.getChildren(parent.number) : this.entries.filter(e => e.level === 'chapter')).map(summary),
+      children: this.getChildren(ruleNumber),
+      previous: position > 0 ? summary(this.entries[position - 1]) : null,
+      next: position < this.entries.length - 1 ? summary(this.entries[position + 1]) : null,
+    };
+  }
+
+  /**
+   * The rules an entry refers to, and the rules outside it that refer to it or anything under it
+   */
+  public getGraph(ruleNumber: string): RuleGraph | null {
+    const entry = this.get(ruleNumber);
+    if (!entry) return null;
+
+    const inbound = new Set<string>();
+    this.inbound.forEach((sources, target) => {
+      if (isWithinRule(target, ruleNumber)) {
+        sources.filter(source => !isWithinRule(source, ruleNumber)).forEach(source => inbound.add(source));
+      }
+    });
+
+    return {
+      entry: summary(entry),
+      outbound: (this.outbound.get(ruleNumber) || []).map(number => summary(this.byNumber.get(number)!)),
+      inbound: Array.from(inbound).sort(compareRuleNumbers).map(number => summary(this.byNumber.get(number)!)),
+    };
+  }
+}
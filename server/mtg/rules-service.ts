@@ -1,17 +1,33 @@
 import { db } from '../db';
-import { rules as rulesTable, Rule, InsertRule } from '@shared/schema';
+import { rules as rulesTable, glossaryTerms, Rule, InsertRule, GlossaryTerm } from '@shared/schema';
 import { eq, ilike, or, and, desc, sql } from 'drizzle-orm';
-import OpenAI from 'openai';
 import { rulesImporter } from './rules-importer';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { llmService } from '../llm/llm-service';
+import { RuleIndex, type RankedRule } from './rule-index';
+import { RulesOutline } from './rules-outline';
+import { Glossary } from './glossary';
+import type { RulesImportReport } from './rules-import-report';
+import type { RuleGraph, RuleNavigation, RuleOutlineEntry, RulesTocChapter } from '@shared/rule-numbers';
+import type { Card } from '@/types/card';
 
 /**
  * Service to interact with the MTG Rules
  */
+// How long the rules version is trusted before it's recomputed, in case another process reimported the rules
+const RULES_VERSION_TTL_MS = 10 * 60 * 1000;
+
 export class RulesService {
   private static instance: RulesService;
   private initialized: boolean = false;
+  private rulesVersion: { value: string; computedAt: number } | null = null;
+  // The rules and glossary as last loaded, with the search index and outline built from them when first needed
+  private snapshot: {
+    version: string;
+    rules: Rule[];
+    glossary: Glossary;
+    index: RuleIndex | null;
+    outline: RulesOutline | null;
+  } | null = null;
   
   private constructor() {}
   
@@ -49,22 +65,36 @@ export class RulesService {
   }
   
   /**
-   * Import the official MTG comprehensive rules
+   * Import the official MTG comprehensive rules, from the given document or else the official source
    */
-  public async importComprehensiveRules(): Promise<void> {
+  public async importComprehensiveRules(rulesText?: string): Promise<number> {
     try {
       console.log("Importing comprehensive MTG rules from official source...");
-      const rulesCount = await rulesImporter.importRules();
+      const rulesCount = await rulesImporter.importRules(rulesText);
+      this.rulesVersion = null;
+      this.snapshot = null;
       console.log(`Successfully imported ${rulesCount} rules from the official source.`);
       
       // Verify that some important rules were imported
       await this.verifyRulesImport();
+      return rulesCount;
     } catch (error) {
       console.error('Error importing comprehensive rules:', error);
       throw error;
     }
   }
   
+  /**
+   * Import a rules document an admin uploaded and checked. Throws RulesImportError if the upload
+   * has expired or can't be imported.
+   */
+  public async importRulesUpload(uploadId: string): Promise<{ rulesImported: number; report: RulesImportReport }> {
+    const { rulesText, report } = rulesImporter.getStagedUpload(uploadId);
+    const rulesImported = await this.importComprehensiveRules(rulesText);
+    rulesImporter.discardUpload(uploadId);
+    return { rulesImported, report };
+  }
+  
   /**
    * Verify that important rules were properly imported
    */
@@ -178,19 +208,23 @@ export class RulesService {
     relatedRules: Rule[];
     explanation: string;
   }> {
-    // First get some basic rules that might be relevant
-    const basicSearchResults = await this.searchRules(query);
+    // First get the rules that rank best for the question, and what its terms mean
+    const basicSearchResults = (await this.rankRules(query, [], 10)).map(ranked => ranked.rule);
+    const glossaryResults = await this.findGlossaryTerms(query);
     
-    // Use OpenAI to analyze the query and find the most relevant rules
+    // Use the model to analyze the query and find the most relevant rules
     const prompt = `
 I need help finding the most relevant Magic: The Gathering rules for this question:
 "${query}"
 
-Here are some rules that might be relevant based on keyword search:
-${basicSearchResults.slice(0, 10).map(rule => 
+Here are some rules that might be relevant based on a search of the rules, most relevant first:
+${basicSearchResults.map(rule => 
   `${rule.rule_number}: ${rule.text}`
 ).join('\n')}
-
+${glossaryResults.length > 0 ? `
+And the glossary's definitions of terms in the question:
+${glossaryResults.map(term => `${term.term}: ${term.definition}`).join('\n')}
+` : ''}
 Please analyze the question and:
 1. Select the 1-5 most relevant rules from the list above
 2. Provide a brief explanation in plain language that answers the question
@@ -204,10 +238,11 @@ Respond with JSON in this format:
 `;
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [
-          { role: "system", content: `You are a Magic: The Gathering rules expert AI assistant with deep knowledge of the game mechanics and comprehensive rules.
+      const result = await llmService.completeJson<{
+        relevantRuleNumbers?: string[];
+        explanation: string;
+      }>('rulesSearch', [
+        { role: "system", content: `You are a Magic: The Gathering rules expert AI assistant with deep knowledge of the game mechanics and comprehensive rules.
 
 When analyzing rules questions, always consider these critical Magic concepts:
 
@@ -234,14 +269,8 @@ When analyzing rules questions, always consider these critical Magic concepts:
    * Special actions that don't use the stack
 
 Your analysis should always be technically precise, citing specific rule numbers, and thoroughly explaining the game mechanics at play.` },
-          { role: "user", content: prompt }
-        ],
-        response_format: { type: "json_object" }
-      });
-      
-      // Type assertion to handle TypeScript's concern about null content
-      const content = response.choices[0].message.content as string;
-      const result = JSON.parse(content);
+        { role: "user", content: prompt }
+      ]);
       
       // Get the full rule objects for the relevant rule numbers
       const relevantRules = await Promise.all(
@@ -259,18 +288,125 @@ Your analysis should always be technically precise, citing specific rule numbers
       );
       
       return {
-        relatedRules: relevantRules.filter(Boolean),
+        relatedRules: relevantRules.filter((rule): rule is Rule => Boolean(rule)),
         explanation: result.explanation
       };
     } catch (error) {
       console.error('Error with semantic rule search:', error);
       return {
         relatedRules: basicSearchResults.slice(0, 5),
-        explanation: "Unable to process semantic search at this time. Here are some keyword-matched rules that might be relevant."
+        explanation: "Unable to process semantic search at this time. Here are the rules that best match your question."
       };
     }
   }
   
+  /**
+   * The rules ranked for a question about these cards, best first, with their scores
+   */
+  public async rankRules(query: string, cards: Card[] = [], limit = 20): Promise<RankedRule[]> {
+    return (await this.getRuleIndex()).search(query, cards, limit);
+  }
+
+  /**
+   * Glossary terms whose name or definition contains the query, or every term, alphabetically
+   */
+  public async getGlossary(query = ''): Promise<GlossaryTerm[]> {
+    return (await this.getRulesSnapshot()).glossary.search(query);
+  }
+
+  /**
+   * A glossary term by name, in any case and singular or plural
+   */
+  public async getGlossaryTerm(term: string): Promise<GlossaryTerm | null> {
+    return (await this.getRulesSnapshot()).glossary.get(term);
+  }
+
+  /**
+   * The glossary terms a question mentions, most specific first
+   */
+  public async findGlossaryTerms(text: string, limit?: number): Promise<GlossaryTerm[]> {
+    return (await this.getRulesSnapshot()).glossary.findMentions(text, limit);
+  }
+
+  /**
+   * Chapters, sections and rules, for browsing the rules like the document
+   */
+  public async getTableOfContents(): Promise<RulesTocChapter[]> {
+    return (await this.getRulesOutline()).getTableOfContents();
+  }
+
+  /**
+   * The chapter, section or rule's entries one level down, or null if there's no such number
+   */
+  public async getRuleChildren(ruleNumber: string): Promise<RuleOutlineEntry[] | null> {
+    const outline = await this.getRulesOutline();
+    return outline.get(ruleNumber) ? outline.getChildren(ruleNumber) : null;
+  }
+
+  /**
+   * A chapter, section or rule with its place in the document: its parents, siblings, subrules
+   * and the entries before and after it
+   */
+  public async getRuleNavigation(ruleNumber: string): Promise<RuleNavigation | null> {
+    return (await this.getRulesOutline()).getNavigation(ruleNumber);
+  }
+
+  /**
+   * The rules a rule refers to ("see rule 104.3a") and the rules that refer to it
+   */
+  public async getRuleGraph(ruleNumber: string): Promise<RuleGraph | null> {
+    return (await this.getRulesOutline()).getGraph(ruleNumber);
+  }
+
+  private async getRulesSnapshot() {
+    const version = await this.getRulesVersion();
+    if (this.snapshot?.version !== version) {
+      const rules = await db.select().from(rulesTable).orderBy(rulesTable.id);
+      const terms = await db.select().from(glossaryTerms).orderBy(glossaryTerms.term);
+      this.snapshot = { version, rules, glossary: new Glossary(terms), index: null, outline: null };
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * The search index over the rules, rebuilt when the rules change
+   */
+  private async getRuleIndex(): Promise<RuleIndex> {
+    const snapshot = await this.getRulesSnapshot();
+    if (!snapshot.index) {
+      snapshot.index = new RuleIndex(snapshot.rules, snapshot.glossary);
+      console.log(`Indexed ${snapshot.index.size} rules and ${snapshot.glossary.size} glossary terms for search`);
+    }
+    return snapshot.index;
+  }
+
+  private async getRulesOutline(): Promise<RulesOutline> {
+    const snapshot = await this.getRulesSnapshot();
+    if (!snapshot.outline) {
+      snapshot.outline = new RulesOutline(snapshot.rules);
+    }
+    return snapshot.outline;
+  }
+
+  /**
+   * A fingerprint of the rules as imported, which changes whenever any rule's number or text does
+   */
+  public async getRulesVersion(): Promise<string> {
+    if (this.rulesVersion && Date.now() - this.rulesVersion.computedAt < RULES_VERSION_TTL_MS) {
+      return this.rulesVersion.value;
+    }
+
+    const [row] = await db
+      .select({
+        version: sql<string | null>`md5(string_agg(${rulesTable.rule_number} || ':' || ${rulesTable.text}, E'\n' ORDER BY ${rulesTable.rule_number}, ${rulesTable.text}))`,
+      })
+      .from(rulesTable);
+
+    const value = row?.version ?? 'empty';
+    this.rulesVersion = { value, computedAt: Date.now() };
+    return value;
+  }
+
   /**
    * Get rule by number
    */
@@ -283,6 +419,28 @@ Your analysis should always be technically precise, citing specific rule numbers
       
     return rule || null;
   }
+
+  /**
+   * The rule a citation points at: the rule itself, or for a section or rule cited without
+   * its subrules (e.g. "704" or "702.19"), the first rule under it
+   */
+  public async findCitedRule(ruleNumber: string): Promise<Rule | null> {
+    const rule = await this.getRuleByNumber(ruleNumber);
+    if (rule || /[a-z]$/.test(ruleNumber)) {
+      return rule;
+    }
+
+    const escaped = ruleNumber.replace('.', '\\.');
+    const childPattern = ruleNumber.includes('.') ? `^${escaped}[a-z]$` : `^${escaped}\\.\\d+$`;
+    const [firstChild] = await db
+      .select()
+      .from(rulesTable)
+      .where(sql`${rulesTable.rule_number} ~ ${childPattern}`)
+      .orderBy(rulesTable.id)
+      .limit(1);
+
+    return firstChild || null;
+  }
 }
 
 export const rulesService = RulesService.getInstance();
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { db } from '../db';
+import {
+  rulesVersions,
+  rulesVersionRules,
+  type InsertRulesVersionRule,
+  type RulesVersion
+} from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import type { RulesDiff, RulesVersionSummary } from '@shared/rules-versions';
+import { isIsoDate } from './banlist-service';
+import { diffRules, type VersionedRuleText } from './rules-diff';
+
+const INSERT_BATCH_SIZE = 500;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/**
+ * Error thrown for a diff that can't be made: an unknown version (404) or a malformed one (400)
+ */
+export class RulesVersionError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RulesVersionError';
+  }
+}
+
+/**
+ * The YYYY-MM-DD date of the document's "These rules are effective as of April 4, 2025."
+ */
+export function parseEffectiveDate(rulesText: string): string | null {
+  const match = rulesText.match(/effective as of ([A-Za-z]+) (\d{1,2}), (\d{4})/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+  if (month === 0) return null;
+  const date = `${match[3]}-${String(month).padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  return isIsoDate(date) ? date : null;
+}
+
+// The same rules, however the file's lines were broken, hash the same
+function contentHash(rules: VersionedRuleText[]): string {
+  const lines = rules.map(rule => `${rule.ruleNumber} ${rule.text.trim().replace(/\s+/g, ' ')}`);
+  return createHash('sha256').update(lines.join('\n')).digest('hex');
+}
+
+// Release order: by effective date, then by when they were imported; undated versions first
+function byRelease(a: RulesVersion, b: RulesVersion): number {
+  if (a.effectiveDate !== b.effectiveDate) {
+    if (a.effectiveDate === null) return -1;
+    if (b.effectiveDate === null) return 1;
+    return a.effectiveDate < b.effectiveDate ? -1 : 1;
+  }
+  return a.id - b.id;
+}
+
+function toSummary(version: RulesVersion): RulesVersionSummary {
+  return {
+    id: version.id,
+    effectiveDate: version.effectiveDate,
+    ruleCount: version.ruleCount,
+    importedAt: version.importedAt ? version.importedAt.toISOString() : null,
+  };
+}
+
+/**
+ * The comprehensive rules documents imported over time. The rules table only holds the current
+ * one, so each import's rule text is archived here to compare releases.
+ */
+export class RulesVersionService {
+  private static instance: RulesVersionService;
+
+  private constructor() {}
+
+  public static getInstance(): RulesVersionService {
+    if (!RulesVersionService.instance) {
+      RulesVersionService.instance = new RulesVersionService();
+    }
+    return RulesVersionService.instance;
+  }
+
+  /**
+   * Archive an imported document's rules as a version. Reimporting the latest version's rules
+   * changes nothing, and a document with a version's effective date replaces that version's rules.
+   */
+  public async recordVersion(rulesText: string, rules: VersionedRuleText[]): Promise<RulesVersion> {
+    const effectiveDate = parseEffectiveDate(rulesText);
+    const hash = contentHash(rules);
+    const versions = await this.orderedVersions();
+
+    const latest = versions[versions.length - 1];
+    if (latest && latest.contentHash === hash) {
+      return latest;
+    }
+
+    const sameDate = effectiveDate ? versions.find(version => version.effectiveDate === effectiveDate) : undefined;
+
+    return await db.transaction(async (tx) => {
+      let version: RulesVersion;
+      if (sameDate) {
+        [version] = await tx
+          .update(rulesVersions)
+          .set({ contentHash: hash, ruleCount: rules.length, importedAt: new Date() })
+          .where(eq(rulesVersions.id, sameDate.id))
+          .returning();
+        await tx.delete(rulesVersionRules).where(eq(rulesVersionRules.versionId, version.id));
+      } else {
+        [version] = await tx
+          .insert(rulesVersions)
+          .values({ effectiveDate, contentHash: hash, ruleCount: rules.length })
+          .returning();
+      }
+
+      for (let i = 0; i < rules.length; i += INSERT_BATCH_SIZE) {
+        const rows: InsertRulesVersionRule[] = rules.slice(i, i + INSERT_BATCH_SIZE).map(rule => ({
+          versionId: version.id,
+          ruleNumber: rule.ruleNumber,
+          text: rule.text,
+        }));
+        await tx.insert(rulesVersionRules).values(rows);
+      }
+
+      console.log(`Recorded rules version ${effectiveDate ?? '(undated)'} with ${rules.length} rules`);
+      return version;
+    });
+  }
+
+  /**
+   * The imported versions, newest release first
+   */
+  public async listVersions(): Promise<RulesVersionSummary[]> {
+    const versions = await this.orderedVersions();
+    return versions.reverse().map(toSummary);
+  }
+
+  /**
+   * The rules added, removed and reworded between two versions, each given by id or effective
+   * date. By default, the latest version compared with the one released before it.
+   */
+  public async getDiff(fromRef?: string, toRef?: string): Promise<RulesDiff> {
+    const versions = await this.orderedVersions();
+
+    const to = toRef ? this.findVersion(versions, toRef) : versions[versions.length - 1];
+    if (!to) {
+      throw new RulesVersionError(404, 'No rules versions have been imported');
+    }
+    const from = fromRef ? this.findVersion(versions, fromRef) : versions[versions.indexOf(to) - 1];
+    if (!from) {
+      throw new RulesVersionError(400, 'There is no earlier rules version to compare with');
+    }
+
+    const [before, after] = await Promise.all([this.versionRules(from.id), this.versionRules(to.id)]);
+    const changes = diffRules(before, after);
+
+    return {
+      from: toSummary(from),
+      to: toSummary(to),
+      added: changes.filter(change => change.type === 'added').length,
+      removed: changes.filter(change => change.type === 'removed').length,
+      reworded: changes.filter(change => change.type === 'reworded').length,
+      changes,
+    };
+  }
+
+  private async orderedVersions(): Promise<RulesVersion[]> {
+    const versions = await db.select().from(rulesVersions);
+    return versions.sort(byRelease);
+  }
+
+  private findVersion(versions: RulesVersion[], ref: string): RulesVersion {
+    let version: RulesVersion | undefined;
+    if (/^\d+$/.test(ref)) {
+      version = versions.find(candidate => candidate.id === parseInt(ref, 10));
+    } else if (isIsoDate(ref)) {
+      version = versions.find(candidate => candidate.effectiveDate === ref);
+    } else {
+      throw new RulesVersionError(400, `Rules version "${ref}" must be a version id or a YYYY-MM-DD effective date`);
+    }
+    if (!version) {
+      throw new RulesVersionError(404, `Rules version ${ref} not found`);
+    }
+    return version;
+  }
+
+  private async versionRules(versionId: number): Promise<VersionedRuleText[]> {
+    return await db
+      .select({ ruleNumber: rulesVersionRules.ruleNumber, text: rulesVersionRules.text })
+      .from(rulesVersionRules)
+      .where(eq(rulesVersionRules.versionId, versionId));
+  }
+}
+
+export const rulesVersionService = RulesVersionService.getInstance();
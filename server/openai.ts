@@ -1,13 +1,10 @@
-import OpenAI from "openai";
 import { Card } from "@/types/card";
-import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-import { Rule } from "@shared/schema";
-import { db } from "./db";
-import { rules as rulesTable } from "@shared/schema";
-import { ilike, or } from "drizzle-orm";
-
-// Initialize OpenAI client
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
+import { llmService } from "./llm/llm-service";
+import type { ChatMessage } from "./llm/provider";
+import { parseRulingAnswer, recoverRulingSections, RulingSectionStream, type RulingResult } from "./rulings/ruling-answer";
+import type { RulingPromptContext } from "@shared/schema";
+import { rulingKnowledge } from "./rulings/ruling-knowledge";
+import { cardIdentity } from "./rulings/ruling-cache";
 
 // System prompt for MTG rulings
 const SYSTEM_PROMPT = `
@@ -16,7 +13,7 @@ Your purpose is to provide accurate rulings and explanations on how cards work t
 based on the comprehensive rules of Magic: The Gathering.
 
 STRUCTURE OF YOUR RESPONSES:
-For each question, organize your response in this specific format:
+For each question, organize your response into these sections, written as the JSON fields described in the special instructions:
 1. SUMMARY: Begin with a concise summary of your understanding of the scenario.
 2. CARD MECHANICS: Quote and explain all relevant card text and abilities in detail.
 3. RULES APPLICATION: Explain how the relevant rules apply, always citing specific rule numbers.
@@ -74,114 +71,25 @@ interface ConversationMessage {
   content: string;
 }
 
-/**
- * Find relevant rules from the database based on a question and card context
- */
-async function findRelevantRules(
-  question: string, 
-  primaryCard: Card | null, 
-  additionalCards: Card[] = []
-): Promise<Rule[]> {
-  try {
-    const keywords: string[] = [];
-    
-    // Extract keywords from the question
-    const questionKeywords = question
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 3 && !['what', 'when', 'does', 'will', 'with', 'have', 'this', 'that', 'card'].includes(word));
-    
-    keywords.push(...questionKeywords);
-    
-    // Extract keywords from primary card
-    if (primaryCard) {
-      // Add card types and mechanics
-      if (primaryCard.type) {
-        const typeKeywords = primaryCard.type
-          .toLowerCase()
-          .split(/\s+|\W+/)
-          .filter(word => word.length > 2);
-        keywords.push(...typeKeywords);
-      }
-      
-      // Extract keywords from card text
-      if (primaryCard.text) {
-        // Look for mechanic keywords in card text (first word of each sentence often)
-        const textKeywords = primaryCard.text
-          .toLowerCase()
-          .split(/\.\s+/)
-          .map(sentence => sentence.trim().split(/\s+/)[0])
-          .filter(word => word && word.length > 3);
-        keywords.push(...textKeywords);
-        
-        // Look for specific mechanic keywords
-        const mechanicMatches = primaryCard.text.match(/\b(trample|flying|lifelink|deathtouch|banding|vigilance|cumulative upkeep|flash|first strike|double strike|protection|equip|cascade)\b/gi);
-        if (mechanicMatches) {
-          keywords.push(...mechanicMatches.map(m => m.toLowerCase()));
-        }
-      }
-    }
-    
-    // Add keywords from additional cards
-    additionalCards.forEach(card => {
-      if (card.type) {
-        const typeKeywords = card.type
-          .toLowerCase()
-          .split(/\s+|\W+/)
-          .filter(word => word.length > 2);
-        keywords.push(...typeKeywords);
-      }
-      
-      if (card.text) {
-        const mechanicMatches = card.text.match(/\b(trample|flying|lifelink|deathtouch|banding|vigilance|cumulative upkeep|flash|first strike|double strike|protection|equip|cascade)\b/gi);
-        if (mechanicMatches) {
-          keywords.push(...mechanicMatches.map(m => m.toLowerCase()));
-        }
-      }
-    });
-    
-    // Deduplicate keywords
-    const uniqueKeywords = Array.from(new Set(keywords));
-    
-    // Return empty array if no meaningful keywords found
-    if (uniqueKeywords.length === 0) {
-      return [];
-    }
-    
-    console.log("Searching for rules with keywords:", uniqueKeywords);
-    
-    // Prepare search conditions for each keyword
-    const searchConditions = uniqueKeywords.map(keyword => 
-      ilike(rulesTable.text, `%${keyword}%`)
-    );
-    
-    // Query the database for matching rules
-    const matchingRules = await db
-      .select()
-      .from(rulesTable)
-      .where(or(...searchConditions))
-      .limit(20);
-    
-    console.log(`Found ${matchingRules.length} potentially relevant rules`);
-    
-    // Return the matching rules
-    return matchingRules;
-  } catch (error) {
-    console.error("Error finding relevant rules:", error);
-    return [];
-  }
+export interface RulingStreamOptions {
+  onToken: (token: string, section: string | null) => void; // section is null when the reply isn't JSON
+  signal?: AbortSignal; // Aborting stops generation; the answer so far is returned
+}
+
+function parseReply(reply: string): RulingResult {
+  return reply ? parseRulingAnswer(reply) : { content: "I couldn't generate a ruling for this question.", structured: null };
 }
 
 export async function getCardRuling(
   question: string,
   primaryCard: Card | null,
   conversationHistory: ConversationMessage[],
-  additionalCards: Card[] = []
-): Promise<string> {
+  additionalCards: Card[] = [],
+  stream?: RulingStreamOptions
+): Promise<RulingResult> {
   try {
-    // Format conversation history for OpenAI
-    const messages: ChatCompletionMessageParam[] = [
+    // Format conversation history for the model
+    const messages: ChatMessage[] = [
       { role: "system", content: SYSTEM_PROMPT },
     ];
 
@@ -228,6 +136,11 @@ Type: ${card.type}
 Card Text: ${card.text || "N/A"}
 ${card.power ? `Power/Toughness: ${card.power}/${card.toughness}` : ""}
 ${card.loyalty ? `Loyalty: ${card.loyalty}` : ""}
+Official Rulings:
+${card.rulings && card.rulings.length > 0 
+  ? card.rulings.map((ruling: any) => `${ruling.date}: ${ruling.text}`).join("\n") 
+  : "No official rulings available."
+}
 
 `;
       });
@@ -241,20 +154,24 @@ IMPORTANT: You MUST quote the relevant card text from all cards in your answer w
     }
 
     // Find relevant rules based on the question and cards
-    const relevantRules = await findRelevantRules(question, primaryCard, additionalCards);
+    const relevantRules = await rulingKnowledge.findRelevantRules(question, primaryCard, additionalCards);
     
     // Add rules context if we found any relevant rules
     if (relevantRules && relevantRules.length > 0) {
       let rulesContext = `
 === RELEVANT MTG RULES ===
-Below are the official Magic: The Gathering rules that are relevant to this question. 
+Below are the official Magic: The Gathering rules that are relevant to this question, most relevant first. 
 ALWAYS REFER TO THESE EXACT RULES in your answer when explaining card interactions:
 
 `;
       
-      // Add each rule with its number and text
-      relevantRules.forEach(rule => {
-        rulesContext += `RULE ${rule.rule_number}: ${rule.text}\n\n`;
+      // Add each rule with its number, text and examples
+      relevantRules.forEach(({ rule }) => {
+        rulesContext += `RULE ${rule.rule_number}: ${rule.text}\n`;
+        (rule.examples || []).forEach(example => {
+          rulesContext += `Example: ${example}\n`;
+        });
+        rulesContext += `\n`;
       });
       
       rulesContext += `
@@ -264,16 +181,73 @@ IMPORTANT: When explaining rules, cite the specific rule number (e.g., "Accordin
       
       messages.push({ role: "system", content: rulesContext });
     }
+
+    // The glossary's definitions of the terms the question uses, e.g. "permanent" or "dies"
+    const glossaryTerms = await rulingKnowledge.findGlossaryTerms(question);
+    if (glossaryTerms.length > 0) {
+      let glossaryContext = `
+=== GLOSSARY ===
+The comprehensive rules define these terms used in the question:
+
+`;
+
+      glossaryTerms.forEach(term => {
+        glossaryContext += `${term.term.toUpperCase()}: ${term.definition}\n\n`;
+      });
+
+      glossaryContext += `=== END GLOSSARY ===
+      `;
+
+      messages.push({ role: "system", content: glossaryContext });
+    }
+
+    // Corrections our judges approved for earlier answers about these cards
+    const cardIds = (primaryCard ? [primaryCard, ...additionalCards] : additionalCards).map(cardIdentity);
+    const corrections = await rulingKnowledge.findApprovedCorrections(cardIds);
+    if (corrections.length > 0) {
+      let correctionsContext = `
+=== JUDGE-APPROVED CORRECTIONS ===
+Judges reviewed earlier answers about these cards and approved the following rulings. They are AUTHORITATIVE:
+follow them over your own reasoning wherever they apply to this question.
+
+`;
+
+      corrections.forEach((correction, index) => {
+        correctionsContext += `CORRECTION ${index + 1}
+Question: ${correction.question}
+Correct ruling: ${correction.correction}
+
+`;
+      });
+
+      correctionsContext += `=== END JUDGE-APPROVED CORRECTIONS ===
+      `;
+
+      messages.push({ role: "system", content: correctionsContext });
+    }
+
+    const promptContext: RulingPromptContext = {
+      cardIds,
+      ruleNumbers: relevantRules.map(({ rule }) => rule.rule_number),
+      correctionIds: corrections.map(correction => correction.id),
+    };
     
     // Add special instructions for the model to improve handling of missing cards and structure responses
     const instructionContext = `
 === SPECIAL INSTRUCTIONS FOR COMPREHENSIVE RESPONSES ===
-RESPONSE STRUCTURE REQUIREMENTS:
-1. Begin with a "SUMMARY" section summarizing your understanding of the scenario
-2. Include a "CARD MECHANICS" section quoting and explaining all relevant card text in detail
-3. Include a "RULES APPLICATION" section citing specific rule numbers
-4. Include an "INTERACTION ANALYSIS" section detailing turn phases, the stack, and state-based actions
-5. End with an "OUTCOME" section clearly stating the final ruling
+RESPONSE FORMAT REQUIREMENTS:
+Respond with a single JSON object with these fields, in this order:
+{
+  "verdict": "One sentence that directly answers the question",
+  "summary": "Your understanding of the scenario",
+  "cardMechanics": "All relevant card text, quoted and explained in detail",
+  "rulesApplication": "How the rules apply, citing specific rule numbers",
+  "interactionAnalysis": "How the cards interact: turn phases, the stack and state-based actions",
+  "outcome": "The final ruling",
+  "citedRules": ["Every rule number you cite, e.g. 702.19b"],
+  "citedCards": ["Every card you refer to, by its exact name"]
+}
+The text fields may use line breaks and Markdown. Do not add text outside the JSON object.
 
 CARD HANDLING RULES:
 1. ONLY use the card information explicitly provided in the PRIMARY CARD INFORMATION and ADDITIONAL CARD INFORMATION sections
@@ -297,7 +271,7 @@ PROHIBITED BEHAVIORS:
 1. DO NOT guess at card abilities or rules not contained in provided information
 2. DO NOT provide generalized or vague explanations without citing specific rules
 3. DO NOT ignore any of the critical game mechanics listed above
-4. DO NOT skip any sections of the required response structure
+4. DO NOT skip any fields of the required response format
 === END SPECIAL INSTRUCTIONS ===
     `;
     messages.push({ role: "system", content: instructionContext });
@@ -316,18 +290,26 @@ PROHIBITED BEHAVIORS:
       messages.push({ role: "user", content: question });
     }
 
-    // Call OpenAI API
-    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: messages,
-      temperature: 0.3, // Lower temperature for more factual responses
-      max_tokens: 1000,
-    });
+    // Stream the answer token by token when asked to, passing on the text of each section
+    if (stream) {
+      const sections = new RulingSectionStream(stream.onToken);
+      const reply = await llmService.stream("ruling", messages, {
+        json: true,
+        signal: stream.signal,
+        onToken: token => sections.write(token),
+      });
+
+      // A cancelled answer keeps the sections written so far
+      if (stream.signal?.aborted) {
+        return { content: recoverRulingSections(reply) ?? reply.trim(), structured: null, promptContext };
+      }
+      return { ...parseReply(reply), promptContext };
+    }
 
-    return response.choices[0].message.content || "I couldn't generate a ruling for this question.";
+    const reply = await llmService.complete("ruling", messages, { json: true });
+    return { ...parseReply(reply), promptContext };
   } catch (error: any) {
-    console.error("Error getting ruling from OpenAI:", error);
+    console.error("Error getting ruling from the model:", error);
     throw new Error("Failed to get ruling: " + (error?.message || "Unknown error"));
   }
 }
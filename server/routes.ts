@@ -1,12 +1,16 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { processCardData } from "./mtg/card-service";
-import { mtgJsonService } from "./mtg/mtgjson-service";
+import { mtgJsonService, type CardImportProgress } from "./mtg/mtgjson-service";
 import { rulesService } from "./mtg/rules-service";
+import { rulesVersionService, RulesVersionError } from "./mtg/rules-version-service";
+import { rulesImporter, RulesImportError } from "./mtg/rules-importer";
 import { getCardRuling } from "./openai";
-import { Card } from "@/types/card";
-import { rules as rulesTable, dbMetadata, cards } from "@shared/schema";
+import { requireModelProvider } from "./llm/llm-service";
+import { createAdminSession } from "./auth/admin-sessions";
+import { dbMetadata, cards } from "@shared/schema";
+import { FORMATS, getFormat } from "@shared/formats";
 import { db } from "./db";
 import fs from "fs";
 import path from "path";
@@ -14,11 +18,15 @@ import multer from "multer";
 import { fileURLToPath } from "url";
 import { eq, sql } from "drizzle-orm";
 import { rarityRepairService } from "./mtg/rarity-repair";
+import { parseCardQuery, createTerm, CardQueryError, type CardQueryNode } from "./mtg/card-query";
 import { generateDeckSuggestion } from "./deck-generator";
 import { registerGraphQLRoutes } from "./routes/graphql-routes";
 import { searchCardsWithGraphQL } from "./mtg/mtg-graphql";
-import { registerAuthRoutes } from "./routes/auth-routes";
+import { registerAuthRoutes, requireAdmin } from "./routes/auth-routes";
 import { registerDeckRoutes } from "./routes/deck-routes";
+import { registerBanlistRoutes } from "./routes/banlist-routes";
+import { registerRulingRoutes } from "./routes/ruling-routes";
+import { isIsoDate } from "./mtg/banlist-service";
 import { DeckService } from "./decks/deck-service";
 import seoRoutes from "./routes/seo-routes";
 import cookieParser from "cookie-parser";
@@ -35,6 +43,43 @@ const upload = multer({
     fileSize: 1024 * 1024 * 1000, // 1000MB max file size
   }
 });
+
+// The comprehensive rules are about 1MB of text; anything much bigger isn't them
+const MAX_RULES_FILE_MB = 5;
+const rulesUpload = multer({
+  dest: "uploads/",
+  limits: {
+    fileSize: MAX_RULES_FILE_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype === "text/plain" || file.originalname.toLowerCase().endsWith(".txt")) {
+      cb(null, true);
+    } else {
+      cb(new RulesImportError(400, "Upload the comprehensive rules as a .txt file"));
+    }
+  },
+});
+
+// Receive a rules file upload, answering 400 for one that's too big or isn't text
+function receiveRulesFile(req: Request, res: Response, next: NextFunction): void {
+  rulesUpload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      res.status(400).json({
+        message: error.code === "LIMIT_FILE_SIZE"
+          ? `The rules file must be under ${MAX_RULES_FILE_MB}MB`
+          : error.message,
+      });
+      return;
+    }
+    if (error instanceof RulesImportError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    next(error);
+  });
+}
+
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -50,9 +95,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register deck management routes after auth setup
   registerDeckRoutes(app);
   
-  // Session management for conversation history
-  let currentConversation: Array<{ role: string; content: string }> = [];
-
+  // Banned and restricted list, public and admin
+  registerBanlistRoutes(app);
+  
+  // AI ruling conversations, per user or anonymous session
+  registerRulingRoutes(app);
+  
   // Load cards from uploaded file endpoint
   app.post("/api/cards/load", upload.single("file"), async (req: MulterRequest, res: Response) => {
     try {
@@ -201,28 +249,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Download and process AllPrintings.json from MTGJSON.com
   // Complete card database update to get all 31,000+ cards
+  // Runs in the background; follow it with /api/admin/card-import/progress
   app.post("/api/admin/complete-card-database-update", async (req, res) => {
     try {
-      console.log("Starting complete card database update from AllPrintings.json...");
-      
-      // This downloads AllPrintings.json and processes all cards
-      const result = await mtgJsonService.completeCardDatabaseUpdate();
-      
-      if (!result.success) {
-        return res.status(500).json({
+      if (mtgJsonService.isImportInProgress()) {
+        return res.status(409).json({
           success: false,
-          message: result.message
+          message: "A card database update is already running"
         });
       }
       
-      // Get updated card count
-      const count = await db.select({ count: sql`COUNT(*)` }).from(cards);
-      const cardCount = parseInt(count[0].count as string, 10);
+      console.log("Starting complete card database update from AllPrintings.json...");
       
-      return res.status(200).json({
+      // force re-syncs even when the MTGJSON version hasn't changed
+      mtgJsonService.completeCardDatabaseUpdate({ force: req.body?.force === true })
+        .then(result => {
+          console.log(`Complete card database update finished: ${result.message}`);
+        })
+        .catch(err => {
+          console.error("Error in complete card database update:", err);
+        });
+      
+      return res.status(202).json({
         success: true,
-        message: `Complete card database update successful. The database now contains ${cardCount} cards.`,
-        cardCount
+        message: "Card database update started in the background"
       });
     } catch (error: any) {
       console.error("Error in complete card database update:", error);
@@ -234,6 +284,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
   });
+  
+  // Card import progress as server-sent events
+  app.get("/api/admin/card-import/progress", async (req, res) => {
+    try {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      });
+      
+      const send = (progress: CardImportProgress) => {
+        res.write(`data: ${JSON.stringify(progress)}\n\n`);
+      };
+      
+      send(await mtgJsonService.getImportProgress());
+      const unsubscribe = mtgJsonService.onImportProgress(send);
+      
+      req.on("close", () => {
+        unsubscribe();
+      });
+    } catch (error: any) {
+      console.error("Error streaming card import progress:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Error streaming card import progress", error: error.message });
+      } else {
+        res.end();
+      }
+    }
+  });
 
   // Update rules database endpoint
   app.post("/api/rules/update", async (req: Request, res: Response) => {
@@ -315,21 +394,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get all available formats
-  app.get("/api/formats", async (req, res) => {
-    try {
-      const formats = await storage.getFormats();
-      res.json(formats);
-    } catch (error: any) {
-      console.error("Error fetching formats:", error);
-      res.status(500).json({ message: "Error fetching formats", error: error.message });
-    }
+  // The format registry: deck sizes, copy limits, sideboards and commander rules
+  app.get("/api/formats", (req, res) => {
+    res.json(FORMATS);
   });
   
-  // Get all available sets
+  // Set metadata, e.g. /api/sets?type=expansion&q=dominaria&sort=releaseDate&order=desc
   app.get("/api/sets", async (req, res) => {
     try {
-      const sets = await storage.getSets();
+      const sortOptions = ['releaseDate', 'name', 'code', 'cardCount'] as const;
+      const sort = sortOptions.find(option => option === req.query.sort);
+      const order = req.query.order === 'asc' || req.query.order === 'desc' ? req.query.order : undefined;
+      
+      const sets = await storage.getSets({
+        type: typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined,
+        block: typeof req.query.block === 'string' && req.query.block ? req.query.block : undefined,
+        query: typeof req.query.q === 'string' && req.query.q ? req.query.q : undefined,
+        year: typeof req.query.year === 'string' && req.query.year ? req.query.year : undefined,
+        topLevelOnly: req.query.topLevelOnly === 'true',
+        sort,
+        order,
+      });
       res.json(sets);
     } catch (error: any) {
       console.error("Error fetching sets:", error);
@@ -337,6 +422,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Single set with its child sets (promos, tokens, commander decks, ...)
+  app.get("/api/sets/:code", async (req, res) => {
+    try {
+      const set = await storage.getSet(req.params.code);
+      if (!set) {
+        return res.status(404).json({ message: "Set not found" });
+      }
+      
+      const allSets = await storage.getSets({ sort: 'releaseDate', order: 'asc' });
+      const childSets = allSets.filter(s => s.parentCode?.toUpperCase() === set.code.toUpperCase());
+      
+      res.json({ ...set, childSets });
+    } catch (error: any) {
+      console.error("Error fetching set:", error);
+      res.status(500).json({ message: "Error fetching set", error: error.message });
+    }
+  });
+  
+  // Cards in a set, paged and ordered by collector number
+  app.get("/api/sets/:code/cards", async (req, res) => {
+    try {
+      const set = await storage.getSet(req.params.code);
+      if (!set) {
+        return res.status(404).json({ message: "Set not found" });
+      }
+      
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(200, Math.max(1, parseInt(req.query.pageSize as string) || 60));
+      
+      const { cards: setCards, total } = await storage.getSetCards(set.code, page, pageSize);
+      
+      res.json({
+        set,
+        cards: setCards,
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      });
+    } catch (error: any) {
+      console.error("Error fetching set cards:", error);
+      res.status(500).json({ message: "Error fetching set cards", error: error.message });
+    }
+  });
+  
   // Get cards by format
   app.get("/api/formats/:format/cards", async (req, res) => {
     try {
@@ -396,108 +526,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Only search by name for autocomplete
+      // Results come back ranked by relevance, one per oracle card with its printings attached
       const cards = await storage.findCards(q, filters);
       
-      // Don't deduplicate if we're explicitly requesting all sets
-      let prioritizedCards = [];
-      
-      if (includeAllSets) {
-        // For deck builder with include_all_sets, we want ALL cards including newer sets
-        prioritizedCards = [...cards];
-        
-        // Check for exact matches first, prioritizing basic lands
-        const exactMatch = cards.find(card => 
-          card.name.toLowerCase() === q.toLowerCase()
-        );
-        
-        const basicLandExactMatch = cards.find(card =>
-          card.name.toLowerCase() === q.toLowerCase() &&
-          card.type?.toLowerCase().includes('basic land')
-        );
-        
-        if (basicLandExactMatch) {
-          // Prioritize basic lands for exact matches
-          prioritizedCards = [
-            basicLandExactMatch,
-            ...cards.filter(card => card.id !== basicLandExactMatch.id)
-          ];
-        } else if (exactMatch) {
-          // Move exact match to the front
-          prioritizedCards = [
-            exactMatch,
-            ...cards.filter(card => card.id !== exactMatch.id)
-          ];
-        }
-      } else {
-        // For regular search, deduplicate and prioritize best versions
-        const cardNames = new Set(cards.map(card => card.name.toLowerCase()));
-        const bestVersionsByName = new Map();
-        
-        // Process each card to find the best version
-        cards.forEach(card => {
-          const cardName = card.name.toLowerCase();
-          
-          // Special prioritization for basic lands - always include them
-          if (card.type?.toLowerCase().includes('basic land')) {
-            if (!bestVersionsByName.has(cardName)) {
-              bestVersionsByName.set(cardName, card);
-            }
-          } else {
-            // Check if this card is better than the current best version
-            if (!bestVersionsByName.has(cardName) || 
-                isPrioritizedVersion(card, bestVersionsByName.get(cardName))) {
-              bestVersionsByName.set(cardName, card);
-            }
-          }
-        });
-        
-        // Get the best versions
-        prioritizedCards = Array.from(bestVersionsByName.values());
-        
-        // Check for exact or nearly exact matches
-        const exactMatch = prioritizedCards.find(card => 
-          card.name.toLowerCase() === q.toLowerCase()
-        );
-        
-        const closeMatches = prioritizedCards.filter(card => 
-          card.name.toLowerCase().includes(q.toLowerCase())
-        );
-        
-        // Prioritize basic lands for exact matches
-        const basicLands = prioritizedCards.filter(card => 
-          card.type?.toLowerCase().includes('basic land') && 
-          card.name.toLowerCase() === q.toLowerCase()
-        );
-        
-        // For basic land searches, prioritize them heavily
-        if (basicLands.length > 0) {
-          prioritizedCards = [
-            ...basicLands,
-            ...prioritizedCards.filter(card => !basicLands.some(bl => bl.id === card.id))
-          ];
-        } else if (exactMatch || closeMatches.length > 0) {
-          prioritizedCards = [
-            ...(exactMatch ? [exactMatch] : []),
-            ...closeMatches.filter(card => card.id !== exactMatch?.id)
-          ];
-        }
-      }
-      
       // Limit results to 10 cards for autocomplete performance
-      const limitedResults = prioritizedCards.slice(0, 10);
+      const limitedResults = cards.slice(0, 10);
       
-      // Log search results
       console.log(`Card search for "${q}" found ${cards.length} results, returning ${limitedResults.length}`);
       
-      const exactMatch = limitedResults.find(card => 
-        card.name.toLowerCase() === q.toLowerCase()
-      );
-      
-      if (exactMatch) {
-        console.log(`Found exact match: ${exactMatch.name} (ID: ${exactMatch.id})`);
-      }
-      
       res.json(limitedResults);
     } catch (error: any) {
       console.error("Error searching cards:", error);
@@ -505,42 +541,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Helper function to determine if a card version should be prioritized over another
-  function isPrioritizedVersion(card: any, existingCard: any): boolean {
-    if (!existingCard) return true;
-    
-    // Prioritize cards with an image
-    if (card.imageUrl && !existingCard.imageUrl) return true;
-    
-    // Prioritize newer sets (generally have more accurate data)
-    // These set codes are roughly in reverse chronological order
-    const setOrder = [
-      // Adding Tarkir Dragonstorm and newer Alchemy sets
-      'TDM', 'YTDM', 'LTK', 'YLTK', 'POW', 'YPOW',
-      // Standard sets in chronological order (newest first)
-      'OTJ', 'MKM', 'WOE', 'LCI', 'MOM', 'ONE', 'BRO', 'DMU',  
-      'WHO', 'SNC', 'NEO', 'VOW', 'MID', 'AFR', 'STX', 'KHM',
-      // Alchemy sets
-      'YOTJ', 'YMKM', 'YWOE', 'YLCI', 'YMOM', 'YONE', 'YBRO', 'YDMU',
-      'YDFT', 'YDSK', 'YBLB', 'YSNC', 'YNEO', 'YVOW', 'YMID', 'YAFR'
-    ];
-    
-    const cardSetIndex = setOrder.indexOf(card.set);
-    const existingSetIndex = setOrder.indexOf(existingCard.set);
-    
-    // If both sets are in our priority list, use the newer one
-    if (cardSetIndex !== -1 && existingSetIndex !== -1) {
-      return cardSetIndex < existingSetIndex; // Lower index = newer set
-    }
-    
-    // If only one card is in the priority list, choose that one
-    if (cardSetIndex !== -1) return true;
-    if (existingSetIndex !== -1) return false;
-    
-    // Default behavior: keep existing card
-    return false;
-  }
-
   // Get all cards endpoint with advanced filtering
   app.get("/api/cards", async (req, res) => {
     try {
@@ -552,11 +552,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const cmc = typeof req.query.cmc === 'string' ? req.query.cmc : "";
       const format = typeof req.query.format === 'string' ? req.query.format : "";
       const set = typeof req.query.set === 'string' ? req.query.set : "";
+      // Evaluate format legality on a past or future date instead of today
+      const asOf = typeof req.query.asOf === 'string' ? req.query.asOf.trim() : "";
+      
+      const q = typeof req.query.q === 'string' ? req.query.q : "";
       
-      console.log("Search filters:", { query, color, type, rarity, cmc, format, set });
+      console.log("Search filters:", { q, query, color, type, rarity, cmc, format, set, asOf });
+      
+      if (asOf !== '' && !isIsoDate(asOf)) {
+        return res.status(400).json({ message: "asOf must be formatted YYYY-MM-DD" });
+      }
+      const legalAsOf = asOf || undefined;
+      
+      let parsedQuery: CardQueryNode | null = null;
+      
+      if (q.trim() !== '') {
+        // Scryfall-style query language, e.g. "t:creature c>=ur cmc<=3 f:modern"
+        try {
+          parsedQuery = parseCardQuery(q);
+        } catch (error) {
+          if (error instanceof CardQueryError) {
+            return res.status(400).json({
+              message: "Invalid search query",
+              error: error.message,
+              position: error.position,
+              token: error.token
+            });
+          }
+          throw error;
+        }
+        
+        // Format and set parameters further restrict the query (used by the deck builder)
+        const restrictions: CardQueryNode[] = [];
+        if (format.trim() !== '') {
+          restrictions.push(createTerm('format', ':', format.trim()));
+        }
+        if (set.trim() !== '') {
+          restrictions.push(createTerm('set', ':', set.trim()));
+        }
+        if (restrictions.length > 0) {
+          parsedQuery = { kind: 'and', children: [parsedQuery, ...restrictions] };
+        }
+      }
       
       // Pass all filter parameters to the storage method
-      const cards = await storage.findCards(query, { color, type, rarity, cmc, format, set });
+      const cards = parsedQuery
+        ? await storage.findCardsByQuery(parsedQuery, undefined, { legalAsOf })
+        : await storage.findCards(query, { color, type, rarity, cmc, format, set, legalAsOf });
       
       // Log result count for debugging
       console.log(`Found ${cards.length} cards matching filters`);
@@ -605,8 +647,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Search query must be at least 2 characters" });
       }
       
-      // First try our local database
-      let cards = await storage.findCards(query);
+      // First try our local database (ranked by relevance, each card carries a score)
+      const cards = await storage.findCards(query);
       
       // If we don't have enough results, supplement with GraphQL API
       if (cards.length < 5) {
@@ -620,9 +662,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           !existingIds.has(card.id) && !existingNames.has(card.name.toLowerCase())
         );
         
-        // Combine results
-        cards = [...cards, ...uniqueGraphqlCards];
         console.log(`Added ${uniqueGraphqlCards.length} cards from GraphQL API`);
+        
+        // Unranked GraphQL results go after the scored database matches
+        return res.json([...cards, ...uniqueGraphqlCards]);
       }
       
       res.json(cards);
@@ -643,10 +686,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const resolvedCards = [];
       for (const cardId of cardIds) {
         try {
-          const [card] = await db.select({ id: cards.id, name: cards.name })
-            .from(cards)
-            .where(eq(cards.id, cardId))
-            .limit(1);
+          // Resolves legacy card ids as well as printing and oracle ids
+          const card = await storage.getCard(cardId);
           
           if (card) {
             resolvedCards.push({ id: cardId, name: card.name });
@@ -665,6 +706,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Oracle text, type line and legality changes of a card, newest first
+  app.get("/api/cards/:id/history", async (req, res) => {
+    try {
+      const result = await storage.getCardHistory(req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      
+      res.json({ cardId: req.params.id, ...result });
+    } catch (error: any) {
+      console.error("Error fetching card history:", error);
+      res.status(500).json({ message: "Error fetching card history", error: error.message });
+    }
+  });
+
   // Get single card endpoint
   app.get("/api/cards/:id", async (req, res) => {
     try {
@@ -704,100 +760,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI ruling endpoints
-  app.post("/api/rulings/ask", async (req, res) => {
+  // Initialize the rules service
+  rulesService.initialize().catch(err => {
+    console.error("Error initializing rules service:", err);
+  });
+
+  // Rules API endpoints
+  app.get("/api/rules", async (req, res) => {
     try {
-      const { question, cardId, cardIds } = req.body;
+      const query = typeof req.query.query === 'string' ? req.query.query : "";
+      const rules = await rulesService.searchRules(query);
       
-      if (!question) {
-        return res.status(400).json({ message: "Question is required" });
-      }
+      res.json(rules);
+    } catch (error: any) {
+      console.error("Error searching rules:", error);
+      res.status(500).json({ message: "Error searching rules", error: error.message });
+    }
+  });
 
-      // Primary card for the ruling (can be null)
-      let primaryCard = null;
-      if (cardId) {
-        primaryCard = await storage.getCard(cardId);
-      }
-      
-      // Additional cards mentioned in the question
-      let mentionedCards: Card[] = [];
-      if (cardIds && Array.isArray(cardIds) && cardIds.length > 0) {
-        const cardPromises = cardIds.map(id => storage.getCard(id));
-        const cards = await Promise.all(cardPromises);
-        mentionedCards = cards.filter(card => card !== null) as Card[];
-        
-        // If no primary card is set but we have mentioned cards, use the first one as primary
-        if (!primaryCard && mentionedCards.length > 0) {
-          primaryCard = mentionedCards[0];
-          // Remove primary card from mentioned cards to avoid duplication
-          mentionedCards = mentionedCards.slice(1);
-        }
-      }
+  // Chapters → sections → rules, for the rules reader's table of contents
+  app.get("/api/rules/toc", async (req, res) => {
+    try {
+      res.json(await rulesService.getTableOfContents());
+    } catch (error: any) {
+      console.error("Error fetching rules table of contents:", error);
+      res.status(500).json({ message: "Error fetching rules table of contents", error: error.message });
+    }
+  });
 
-      // Add the user's question to the conversation
-      currentConversation.push({ role: "user", content: question });
-      
-      // Get AI response with primary and mentioned cards
-      const answer = await getCardRuling(question, primaryCard, currentConversation, mentionedCards);
-      
-      // Add AI response to conversation
-      currentConversation.push({ role: "assistant", content: answer });
-      
-      // Keep conversation history manageable (limit to last 10 messages)
-      if (currentConversation.length > 10) {
-        currentConversation = currentConversation.slice(
-          currentConversation.length - 10
-        );
-      }
-      
-      res.json({ role: "assistant", content: answer });
+  // The comprehensive rules releases imported, newest first
+  app.get("/api/rules/versions", async (req, res) => {
+    try {
+      res.json(await rulesVersionService.listVersions());
     } catch (error: any) {
-      console.error("Error getting ruling:", error);
-      res.status(500).json({ message: "Error getting ruling", error: error.message });
+      console.error("Error fetching rules versions:", error);
+      res.status(500).json({ message: "Error fetching rules versions", error: error.message });
     }
   });
 
-  // Get conversation history
-  app.get("/api/rulings/conversation", (req, res) => {
+  // Rules added, removed and reworded between two versions (ids or effective dates), e.g.
+  // /api/rules/diff?from=2025-02-07&to=2025-04-04; by default the latest against the one before it
+  app.get("/api/rules/diff", async (req, res) => {
     try {
-      const formattedConversation = currentConversation.map(message => ({
-        role: message.role === "user" ? "user" : "assistant",
-        content: message.content
-      }));
-      
-      res.json(formattedConversation);
+      const from = typeof req.query.from === 'string' && req.query.from ? req.query.from : undefined;
+      const to = typeof req.query.to === 'string' && req.query.to ? req.query.to : undefined;
+
+      res.json(await rulesVersionService.getDiff(from, to));
     } catch (error: any) {
-      console.error("Error fetching conversation:", error);
-      res.status(500).json({ message: "Error fetching conversation", error: error.message });
+      if (error instanceof RulesVersionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error comparing rules versions:", error);
+      res.status(500).json({ message: "Error comparing rules versions", error: error.message });
     }
   });
 
-  // Start new conversation
-  app.post("/api/rulings/new-conversation", (req, res) => {
+  // A chapter, section or rule's entries one level down, e.g. /api/rules/702.19/children
+  app.get("/api/rules/:ruleNumber/children", async (req, res) => {
     try {
-      currentConversation = [];
-      res.json({ message: "New conversation started" });
+      const children = await rulesService.getRuleChildren(req.params.ruleNumber);
+      if (!children) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+
+      res.json(children);
     } catch (error: any) {
-      console.error("Error starting new conversation:", error);
-      res.status(500).json({ message: "Error starting new conversation", error: error.message });
+      console.error("Error fetching rule children:", error);
+      res.status(500).json({ message: "Error fetching rule children", error: error.message });
     }
   });
 
-  // Initialize the rules service
-  rulesService.initialize().catch(err => {
-    console.error("Error initializing rules service:", err);
+  // Breadcrumbs, parent, siblings, subrules and the previous and next entries
+  app.get("/api/rules/:ruleNumber/navigation", async (req, res) => {
+    try {
+      const navigation = await rulesService.getRuleNavigation(req.params.ruleNumber);
+      if (!navigation) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+
+      res.json(navigation);
+    } catch (error: any) {
+      console.error("Error fetching rule navigation:", error);
+      res.status(500).json({ message: "Error fetching rule navigation", error: error.message });
+    }
   });
 
-  // Rules API endpoints
-  app.get("/api/rules", async (req, res) => {
+  // The rules a rule refers to and the rules that refer to it, e.g. /api/rules/702.19b/graph
+  app.get("/api/rules/:ruleNumber/graph", async (req, res) => {
     try {
-      const query = typeof req.query.query === 'string' ? req.query.query : "";
-      const rules = await rulesService.searchRules(query);
-      
-      res.json(rules);
+      const graph = await rulesService.getRuleGraph(req.params.ruleNumber);
+      if (!graph) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+
+      res.json(graph);
     } catch (error: any) {
-      console.error("Error searching rules:", error);
-      res.status(500).json({ message: "Error searching rules", error: error.message });
+      console.error("Error fetching rule graph:", error);
+      res.status(500).json({ message: "Error fetching rule graph", error: error.message });
     }
   });
 
@@ -815,7 +874,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/rules/semantic-search", async (req, res) => {
+  // Glossary terms, all or those matching ?query= by name or definition
+  app.get("/api/glossary", async (req, res) => {
+    try {
+      const query = typeof req.query.query === 'string' ? req.query.query : "";
+      res.json(await rulesService.getGlossary(query));
+    } catch (error: any) {
+      console.error("Error fetching glossary:", error);
+      res.status(500).json({ message: "Error fetching glossary", error: error.message });
+    }
+  });
+
+  // A glossary term by name, e.g. /api/glossary/permanent
+  app.get("/api/glossary/:term", async (req, res) => {
+    try {
+      const term = await rulesService.getGlossaryTerm(req.params.term);
+      if (!term) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+
+      res.json(term);
+    } catch (error: any) {
+      console.error("Error fetching glossary term:", error);
+      res.status(500).json({ message: "Error fetching glossary term", error: error.message });
+    }
+  });
+
+  app.post("/api/rules/semantic-search", requireModelProvider, async (req, res) => {
     try {
       const { query } = req.body;
       
@@ -832,7 +917,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Test endpoint for the trained AI on MTG rules
-  app.post("/api/rules/ai-interpret", async (req, res) => {
+  app.post("/api/rules/ai-interpret", requireModelProvider, async (req, res) => {
     try {
       const { question, cardId } = req.body;
       
@@ -850,10 +935,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const emptyConversation: Array<{ role: string; content: string }> = [];
       
       // Get AI response with rules focus
-      const answer = await getCardRuling(question, card, emptyConversation, []);
+      const ruling = await getCardRuling(question, card, emptyConversation, []);
       
       res.json({ 
-        answer,
+        answer: ruling.content,
+        structured: ruling.structured,
         cardUsed: card ? card.name : null
       });
     } catch (error: any) {
@@ -893,10 +979,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ success: false, message: 'Invalid credentials' });
       }
       
-      // If credentials are valid, send success response
+      // If credentials are valid, start an admin session for the admin-only routes
       return res.status(200).json({ 
         success: true, 
-        message: 'Login successful'
+        message: 'Login successful',
+        token: createAdminSession()
       });
     } catch (error) {
       console.error('Error during admin login:', error);
@@ -904,17 +991,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/import-rules", async (req, res) => {
+  // Check an uploaded comprehensive rules document (the official TXT, or text copied out of the PDF)
+  // without importing it; import it with the upload id once the report looks right
+  app.post("/api/admin/rules/upload", requireAdmin, receiveRulesFile, async (req: MulterRequest, res: Response) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    try {
+      const documentText = await fs.promises.readFile(req.file.path, "utf8");
+      const { uploadId, report } = rulesImporter.stageUpload(documentText);
+
+      res.json({ uploadId, fileName: req.file.originalname, report });
+    } catch (error: any) {
+      console.error("Error checking uploaded rules:", error);
+      res.status(500).json({ message: "Error checking uploaded rules", error: error.message });
+    } finally {
+      fs.promises.unlink(req.file.path).catch(() => {});
+    }
+  });
+
+  app.post("/api/admin/rules/upload/:uploadId/import", requireAdmin, async (req, res) => {
+    try {
+      const { rulesImported, report } = await rulesService.importRulesUpload(req.params.uploadId);
+
+      res.json({
+        success: true,
+        message: `Imported ${rulesImported} rules and ${report.glossaryTerms} glossary terms`,
+        rulesImported,
+      });
+    } catch (error: any) {
+      if (error instanceof RulesImportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error importing uploaded rules:", error);
+      res.status(500).json({ message: "Error importing uploaded rules", error: error.message });
+    }
+  });
+
+  // The existing rules are only replaced once the new document has been checked
+  app.post("/api/admin/import-rules", requireAdmin, async (req, res) => {
     try {
-      // Clear the existing rules first
-      await db.delete(rulesTable);
-      console.log('Cleared existing rules from database');
-      
-      // Import the comprehensive rules
       await rulesService.importComprehensiveRules();
       
       res.json({ success: true, message: 'Comprehensive rules imported successfully' });
     } catch (error: any) {
+      if (error instanceof RulesImportError) {
+        return res.status(error.status).json({
+          success: false,
+          error: 'Error importing comprehensive rules',
+          details: error.message
+        });
+      }
       console.error('Error importing comprehensive rules:', error);
       res.status(500).json({ 
         success: false, 
@@ -925,7 +1053,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Generate deck suggestions with AI
-  app.post("/api/decks/generate", async (req, res) => {
+  app.post("/api/decks/generate", requireModelProvider, async (req, res) => {
     try {
       const { format, prompt, commander, deckSize, maxCopies } = req.body;
       
@@ -936,12 +1064,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const rules = getFormat(format);
       const deckSuggestion = await generateDeckSuggestion({
-        format,
+        format: rules?.name ?? format,
         prompt,
         commander,
-        deckSize: deckSize || 60,
-        maxCopies: maxCopies || 4
+        deckSize: deckSize || rules?.minDeckSize || 60,
+        maxCopies: maxCopies || rules?.maxCopies || 4
       });
       
       res.json(deckSuggestion);
@@ -974,16 +1103,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
         
         await db.insert(dbMetadata).values(newMetadata);
-        return res.json(newMetadata);
+        return res.json({ ...newMetadata, lastSync: await mtgJsonService.getSyncSummary() });
       }
       
-      res.json(metadata);
+      // Change log of the most recent MTGJSON sync
+      res.json({ ...metadata, lastSync: await mtgJsonService.getSyncSummary() });
     } catch (error: any) {
       console.error("Error fetching database metadata:", error);
       res.status(500).json({ message: "Error fetching database metadata", error: error.message });
     }
   });
 
+  // Full change log of a sync run, e.g. /api/metadata/changes?runId=3&change=updated&offset=100
+  app.get("/api/metadata/changes", async (req, res) => {
+    try {
+      const runId = parseInt(req.query.runId as string);
+      if (isNaN(runId)) {
+        return res.status(400).json({ message: "runId is required" });
+      }
+      
+      const changeTypes = ['added', 'updated', 'removed'];
+      const change = changeTypes.includes(req.query.change as string) ? req.query.change as string : undefined;
+      const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+      const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+      
+      const changes = await mtgJsonService.getSyncChanges(runId, { change, limit, offset });
+      res.json({ runId, changes, limit, offset });
+    } catch (error: any) {
+      console.error("Error fetching card changes:", error);
+      res.status(500).json({ message: "Error fetching card changes", error: error.message });
+    }
+  });
+
   app.get("/api/admin/rule-test/:ruleNumber", async (req, res) => {
     try {
       const ruleNumber = req.params.ruleNumber;
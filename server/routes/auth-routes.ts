@@ -1,6 +1,7 @@
 
 import type { Express, Request, Response } from "express";
 import { AuthService } from "../auth/auth-service";
+import { isAdminSession } from "../auth/admin-sessions";
 
 interface AuthenticatedRequest extends Request {
   user?: any;
@@ -47,6 +48,14 @@ export const optionalAuth = async (req: AuthenticatedRequest, res: Response, nex
   }
 };
 
+// Middleware for admin-only routes: needs the token from /api/admin/login in X-Admin-Token
+export const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!isAdminSession(req.get('X-Admin-Token'))) {
+    return res.status(401).json({ message: 'Admin login required' });
+  }
+  next();
+};
+
 export function registerAuthRoutes(app: Express): void {
   // Password reset routes
   app.post('/api/auth/forgot-password', async (req: Request, res: Response) => {
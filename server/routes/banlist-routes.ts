@@ -0,0 +1,107 @@
+import type { Express, Request, Response } from "express";
+import { requireAdmin } from "./auth-routes";
+import { banlistService, BanlistValidationError, isIsoDate } from "../mtg/banlist-service";
+import { todayIsoDate } from "../mtg/card-query";
+
+// A banlist entry id from the URL, or null if it isn't one
+function parseEntryId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendBanlistError(res: Response, error: any, message: string): void {
+  if (error instanceof BanlistValidationError) {
+    res.status(400).json({ message: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message, error: error.message });
+}
+
+export function registerBanlistRoutes(app: Express): void {
+  // Cards banned or restricted in a format, e.g. /api/banlist?format=modern&asOf=2019-08-26
+  app.get("/api/banlist", async (req: Request, res: Response) => {
+    try {
+      const format = typeof req.query.format === 'string' ? req.query.format.trim() : "";
+      const asOf = typeof req.query.asOf === 'string' && req.query.asOf ? req.query.asOf : todayIsoDate();
+
+      if (!format) {
+        return res.status(400).json({ message: "A format is required" });
+      }
+      if (!isIsoDate(asOf)) {
+        return res.status(400).json({ message: "asOf must be formatted YYYY-MM-DD" });
+      }
+
+      const cards = await banlistService.getBanlist(format, asOf);
+      res.json({ format, asOf, cards });
+    } catch (error: any) {
+      sendBanlistError(res, error, "Error fetching banlist");
+    }
+  });
+
+  // All banlist entries, including future-dated and unbanned ones, for the admin page
+  app.get("/api/admin/banlist", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const entries = await banlistService.getEntries({
+        format: typeof req.query.format === 'string' ? req.query.format : undefined,
+        oracleId: typeof req.query.oracleId === 'string' ? req.query.oracleId : undefined,
+        query: typeof req.query.q === 'string' ? req.query.q : undefined,
+      });
+      res.json(entries);
+    } catch (error: any) {
+      sendBanlistError(res, error, "Error fetching banlist entries");
+    }
+  });
+
+  // Add an entry, e.g. { format: "modern", cardName: "Fury", status: "banned", effectiveDate: "2023-12-04" }
+  app.post("/api/admin/banlist", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const entry = await banlistService.createEntry(req.body ?? {});
+      res.status(201).json(entry);
+    } catch (error: any) {
+      sendBanlistError(res, error, "Error creating banlist entry");
+    }
+  });
+
+  app.put("/api/admin/banlist/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseEntryId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Banlist entry id must be a positive integer" });
+      }
+      const entry = await banlistService.updateEntry(id, req.body ?? {});
+      if (!entry) {
+        return res.status(404).json({ message: "Banlist entry not found" });
+      }
+      res.json(entry);
+    } catch (error: any) {
+      sendBanlistError(res, error, "Error updating banlist entry");
+    }
+  });
+
+  app.delete("/api/admin/banlist/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseEntryId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Banlist entry id must be a positive integer" });
+      }
+      const deleted = await banlistService.deleteEntry(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Banlist entry not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      sendBanlistError(res, error, "Error deleting banlist entry");
+    }
+  });
+
+  // Seed or refresh the banlist from the MTGJSON legalities already in the database
+  app.post("/api/admin/banlist/sync", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const added = await banlistService.syncFromMtgjson();
+      res.json({ success: true, added });
+    } catch (error: any) {
+      sendBanlistError(res, error, "Error syncing banlist from MTGJSON");
+    }
+  });
+}
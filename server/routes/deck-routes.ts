@@ -2,9 +2,9 @@
 import type { Express, Request, Response } from "express";
 import { DeckService } from "../decks/deck-service";
 import { requireAuth, optionalAuth } from "./auth-routes";
-import { db } from "../db";
-import { cards } from "../../shared/schema";
-import { eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { validateDeck } from "../decks/deck-validation";
+import { isIsoDate } from "../mtg/banlist-service";
 
 interface AuthenticatedRequest extends Request {
   user?: any;
@@ -98,6 +98,26 @@ export function registerDeckRoutes(app: Express): void {
     }
   });
 
+  // Validate a deck that hasn't been saved (no authentication required), e.g. from the deck builder
+  app.post("/api/decks/validate", async (req: Request, res: Response) => {
+    try {
+      const { format, deckCards, sideboardCards, commander, commanderCards, companion, asOf } = req.body ?? {};
+
+      if (!format || !Array.isArray(deckCards)) {
+        return res.status(400).json({ success: false, error: 'Format and deckCards are required' });
+      }
+      if (asOf && !isIsoDate(asOf)) {
+        return res.status(400).json({ success: false, error: 'asOf must be formatted YYYY-MM-DD' });
+      }
+
+      const validation = await validateDeck({ format, deckCards, sideboardCards, commander, commanderCards, companion, asOf });
+      res.json({ success: true, validation });
+    } catch (error) {
+      console.error('Validate deck error:', error);
+      res.status(500).json({ success: false, error: 'Failed to validate deck' });
+    }
+  });
+
   // Get public decks grouped by format (no authentication required) - must come before :deckId route
   app.get("/api/decks/public-by-format", async (req: Request, res: Response) => {
     try {
@@ -129,6 +149,27 @@ export function registerDeckRoutes(app: Express): void {
     }
   });
 
+  // Check a saved deck against its format's rules (optionally as of a date)
+  app.get("/api/decks/:deckId/validation", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const deck = await DeckService.getDeck(req.params.deckId, req.user?.id);
+      const asOf = typeof req.query.asOf === 'string' && req.query.asOf ? req.query.asOf : undefined;
+
+      if (!deck) {
+        return res.status(404).json({ success: false, error: 'Deck not found or access denied' });
+      }
+      if (asOf && !isIsoDate(asOf)) {
+        return res.status(400).json({ success: false, error: 'asOf must be formatted YYYY-MM-DD' });
+      }
+
+      const validation = await DeckService.validateSavedDeck(deck, asOf);
+      res.json({ success: true, validation });
+    } catch (error) {
+      console.error('Deck validation error:', error);
+      res.status(500).json({ success: false, error: 'Failed to validate deck' });
+    }
+  });
+
   // Export deck as text file
   app.get("/api/decks/:deckId/export", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -149,11 +190,8 @@ export function registerDeckRoutes(app: Express): void {
       if (Array.isArray(deck.deckData)) {
         for (const cardData of deck.deckData) {
           try {
-            // Query the database to get the actual card name
-            const [card] = await db.select({ name: cards.name })
-              .from(cards)
-              .where(eq(cards.id, cardData.cardId))
-              .limit(1);
+            // Look up the card name (cardId may be a legacy id, printing id or oracle id)
+            const card = await storage.getCard(cardData.cardId);
             
             const cardName = card?.name || cardData.cardId.replace(/-/g, ' ');
             deckText += `${cardData.quantity} ${cardName}\n`;
@@ -170,11 +208,8 @@ export function registerDeckRoutes(app: Express): void {
         deckText += '\nSideboard\n';
         for (const cardData of deck.sideboardData) {
           try {
-            // Query the database to get the actual card name
-            const [card] = await db.select({ name: cards.name })
-              .from(cards)
-              .where(eq(cards.id, cardData.cardId))
-              .limit(1);
+            // Look up the card name (cardId may be a legacy id, printing id or oracle id)
+            const card = await storage.getCard(cardData.cardId);
             
             const cardName = card?.name || cardData.cardId.replace(/-/g, ' ');
             deckText += `${cardData.quantity} ${cardName}\n`;
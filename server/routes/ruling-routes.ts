@@ -0,0 +1,549 @@
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { optionalAuth, requireAdmin } from "./auth-routes";
+import { storage } from "../storage";
+import { getCardRuling } from "../openai";
+import { requireModelProvider } from "../llm/llm-service";
+import type { RulingResult } from "../rulings/ruling-answer";
+import { ConversationService, type ConversationOwner, type ConversationWithMessages } from "../rulings/conversation-service";
+import { verifyCitations } from "../rulings/citation-service";
+import { cardRecognizer } from "../rulings/card-recognizer";
+import { RulingCache } from "../rulings/ruling-cache";
+import { RulingFeedbackService, FeedbackValidationError, type FeedbackStatus } from "../rulings/feedback-service";
+import type { ConversationMessage, DetectedCard, RulingCitation } from "@shared/schema";
+import type { Card } from "@/types/card";
+
+interface AuthenticatedRequest extends Request {
+  user?: any;
+}
+
+const RULING_SESSION_COOKIE = "rulingSession";
+const MAX_DETECTED_CARDS = 6; // Keeps the prompt focused when a question lists many cards
+
+/**
+ * The signed-in user, or else the anonymous ruling session (set on first use). Conversations
+ * started anonymously move to the user once they sign in on the same browser.
+ */
+async function resolveOwner(req: AuthenticatedRequest, res: Response): Promise<ConversationOwner> {
+  const sessionId: string | undefined = req.cookies?.[RULING_SESSION_COOKIE];
+
+  if (req.user) {
+    if (sessionId) {
+      await ConversationService.claimSessionConversations(sessionId, req.user.id);
+      res.clearCookie(RULING_SESSION_COOKIE);
+    }
+    return { userId: req.user.id };
+  }
+
+  if (sessionId) {
+    return { sessionId };
+  }
+
+  const newSessionId = randomUUID();
+  res.cookie(RULING_SESSION_COOKIE, newSessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 365 * 24 * 60 * 60 * 1000 // 1 year
+  });
+  return { sessionId: newSessionId };
+}
+
+function parseConversationId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : parseInt(String(value));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendFeedbackError(res: Response, error: any, message: string): void {
+  if (error instanceof FeedbackValidationError) {
+    res.status(400).json({ message: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message, error: error.message });
+}
+
+class RulingRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RulingRequestError';
+  }
+}
+
+interface RulingContext {
+  owner: ConversationOwner;
+  conversation: ConversationWithMessages | null;
+  question: string;
+  primaryCard: Card | null;
+  mentionedCards: Card[];
+  detectedCards: DetectedCard[];
+  userMessage: ConversationMessage;
+  regenerate: boolean; // Skip earlier answers and ask the model
+  replacedRulingId: number | null; // The earlier answer being regenerated, replaced in the conversation
+}
+
+/**
+ * Cards named in the question that the user didn't pick, skipping the ones they've told us
+ * were detected wrongly (excludedCardIds). A recognizer failure just means no detected cards.
+ */
+async function detectQuestionCards(
+  question: string,
+  pickedCards: Card[],
+  excludedCardIds: unknown
+): Promise<{ cards: Card[]; detectedCards: DetectedCard[] }> {
+  const excluded = new Set(Array.isArray(excludedCardIds) ? excludedCardIds.map(String) : []);
+  const pickedNames = new Set(pickedCards.map(card => card.name.toLowerCase()));
+
+  let recognized;
+  try {
+    recognized = await cardRecognizer.recognize(question);
+  } catch (error) {
+    console.error("Error detecting cards in question:", error);
+    return { cards: [], detectedCards: [] };
+  }
+
+  const candidates = recognized
+    .filter(match => !excluded.has(match.id) && !pickedNames.has(match.name.toLowerCase()))
+    .slice(0, MAX_DETECTED_CARDS);
+  const cards = await Promise.all(candidates.map(match => storage.getCard(match.id)));
+
+  const found = candidates.flatMap((match, i) => {
+    const card = cards[i];
+    return card ? [{ card, detected: { id: match.id, name: match.name, mention: match.mention } }] : [];
+  });
+  return { cards: found.map(f => f.card), detectedCards: found.map(f => f.detected) };
+}
+
+/**
+ * Everything a ruling needs from an ask request: the question, the conversation it continues
+ * and the cards it's about. Throws RulingRequestError for a bad request.
+ */
+async function loadRulingContext(req: AuthenticatedRequest, res: Response): Promise<RulingContext> {
+  const { question, cardId, cardIds, excludedCardIds, conversationId, regenerate } = req.body;
+
+  if (!question) {
+    throw new RulingRequestError(400, "Question is required");
+  }
+
+  const owner = await resolveOwner(req, res);
+  let conversation = null;
+  if (conversationId !== undefined && conversationId !== null) {
+    const id = parseConversationId(conversationId);
+    conversation = id ? await ConversationService.getConversation(owner, id) : null;
+    if (!conversation) {
+      throw new RulingRequestError(404, "Conversation not found");
+    }
+  }
+
+  // Regenerating an answer that came from an earlier one replaces that exchange, rather than
+  // following it up, and stops the earlier answer being given again
+  let replacedRulingId: number | null = null;
+  const lastMessage = conversation?.messages[conversation.messages.length - 1];
+  if (regenerate && conversation && lastMessage?.role === "assistant" && lastMessage.cached) {
+    replacedRulingId = lastMessage.cached.rulingId;
+    conversation = { ...conversation, messages: conversation.messages.slice(0, -2) };
+  }
+
+  // Primary card for the ruling (can be null)
+  let primaryCard = null;
+  if (cardId) {
+    primaryCard = await storage.getCard(cardId);
+  }
+
+  // Additional cards mentioned in the question
+  let mentionedCards: Card[] = [];
+  if (cardIds && Array.isArray(cardIds) && cardIds.length > 0) {
+    const cardPromises = cardIds.map(id => storage.getCard(id));
+    const cards = await Promise.all(cardPromises);
+    mentionedCards = cards.filter(card => card !== null) as Card[];
+
+    // If no primary card is set but we have mentioned cards, use the first one as primary
+    if (!primaryCard && mentionedCards.length > 0) {
+      primaryCard = mentionedCards[0];
+      // Remove primary card from mentioned cards to avoid duplication
+      mentionedCards = mentionedCards.slice(1);
+    }
+  }
+
+  // Cards the question names without the user picking them, with their text and rulings
+  const pickedCards = primaryCard ? [primaryCard, ...mentionedCards] : mentionedCards;
+  const detected = await detectQuestionCards(question, pickedCards, excludedCardIds);
+  if (!primaryCard && detected.cards.length > 0) {
+    primaryCard = detected.cards[0];
+    mentionedCards = detected.cards.slice(1);
+  } else {
+    mentionedCards = [...mentionedCards, ...detected.cards];
+  }
+
+  const userMessage: ConversationMessage = {
+    role: "user",
+    content: question,
+    createdAt: new Date().toISOString(),
+    ...(detected.detectedCards.length > 0 ? { detectedCards: detected.detectedCards } : {}),
+  };
+  return {
+    owner,
+    conversation,
+    question,
+    primaryCard,
+    mentionedCards,
+    detectedCards: detected.detectedCards,
+    userMessage,
+    regenerate: Boolean(regenerate),
+    replacedRulingId,
+  };
+}
+
+function contextCards(context: RulingContext): Card[] {
+  return context.primaryCard ? [context.primaryCard, ...context.mentionedCards] : context.mentionedCards;
+}
+
+// Answers depend on the conversation before them, so only a conversation's first question shares answers
+function isFirstQuestion(context: RulingContext): boolean {
+  return (context.conversation?.messages.length ?? 0) === 0;
+}
+
+/**
+ * An earlier answer to the same question about the same cards, as an assistant message, or null
+ * if the model has to answer. A cache failure just means asking the model.
+ */
+async function findCachedAnswer(context: RulingContext): Promise<ConversationMessage | null> {
+  if (context.regenerate || !isFirstQuestion(context)) {
+    return null;
+  }
+
+  try {
+    const cached = await RulingCache.find(context.question, contextCards(context));
+    if (!cached) {
+      return null;
+    }
+    return {
+      role: "assistant",
+      content: cached.ruling.content,
+      createdAt: new Date().toISOString(),
+      ...(cached.ruling.structured ? { structured: cached.ruling.structured } : {}),
+      citations: cached.citations,
+      ...(cached.ruling.promptContext ? { promptContext: cached.ruling.promptContext } : {}),
+      cached: cached.info,
+    };
+  } catch (error) {
+    console.error("Error looking up earlier rulings:", error);
+    return null;
+  }
+}
+
+/**
+ * Keep a complete answer to a first question for the next time it's asked
+ */
+async function cacheAnswer(context: RulingContext, ruling: RulingResult, citations: RulingCitation[]): Promise<void> {
+  if (!isFirstQuestion(context)) {
+    return;
+  }
+
+  try {
+    if (context.replacedRulingId !== null) {
+      await RulingCache.invalidate([context.replacedRulingId]);
+    }
+    await RulingCache.store(context.question, contextCards(context), ruling, citations);
+  } catch (error) {
+    console.error("Error saving ruling for reuse:", error);
+  }
+}
+
+/**
+ * The rules and cards an answer cites. A lookup failure leaves the answer without citations
+ * rather than failing the ruling.
+ */
+async function citeAnswer(context: RulingContext, ruling: RulingResult): Promise<RulingCitation[]> {
+  try {
+    return await verifyCitations(ruling.content, contextCards(context), ruling.structured
+      ? { rules: ruling.structured.citedRules, cards: ruling.structured.citedCards }
+      : undefined);
+  } catch (error) {
+    console.error("Error verifying citations:", error);
+    return [];
+  }
+}
+
+/**
+ * Save a finished exchange, starting the conversation if this was its first question, or in
+ * place of the earlier answer it regenerated
+ */
+async function saveExchange(context: RulingContext, assistantMessage: ConversationMessage): Promise<ConversationWithMessages> {
+  const conversation = context.conversation
+    ?? await ConversationService.createConversation(context.owner, ConversationService.titleFromQuestion(context.question));
+  if (context.replacedRulingId !== null) {
+    await ConversationService.replaceLastExchange(context.owner, conversation.id, [context.userMessage, assistantMessage]);
+  } else {
+    await ConversationService.appendMessages(context.owner, conversation.id, [context.userMessage, assistantMessage]);
+  }
+  return conversation;
+}
+
+export function registerRulingRoutes(app: Express): void {
+  // Ask a question, continuing a conversation (conversationId) or starting a new one. Cards named
+  // in the question are detected and given to the model too, and returned as detectedCards; pass
+  // a wrongly detected card's id in excludedCardIds to leave it out. The answer comes with its
+  // citations: each rule number and card it names, checked against the database.
+  // A first question asked before about the same cards gets the earlier answer, marked as cached,
+  // while the cards' text and the rules are unchanged; pass regenerate: true to ask the model anyway,
+  // which replaces a cached answer that ends the conversation.
+  app.post("/api/rulings/ask", optionalAuth, requireModelProvider, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const context = await loadRulingContext(req, res);
+      const history = [...(context.conversation?.messages ?? []), context.userMessage];
+
+      let assistantMessage = await findCachedAnswer(context);
+      if (!assistantMessage) {
+        // Get AI response with primary and mentioned cards
+        const ruling = await getCardRuling(context.question, context.primaryCard, history, context.mentionedCards);
+        const citations = await citeAnswer(context, ruling);
+        assistantMessage = {
+          role: "assistant",
+          content: ruling.content,
+          createdAt: new Date().toISOString(),
+          ...(ruling.structured ? { structured: ruling.structured } : {}),
+          citations,
+          ...(ruling.promptContext ? { promptContext: ruling.promptContext } : {}),
+        };
+        await cacheAnswer(context, ruling, citations);
+      }
+
+      // Save the exchange only once it's complete
+      const conversation = await saveExchange(context, assistantMessage);
+
+      res.json({ ...assistantMessage, conversationId: conversation.id, title: conversation.title, detectedCards: context.detectedCards });
+    } catch (error: any) {
+      if (error instanceof RulingRequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error getting ruling:", error);
+      res.status(500).json({ message: "Error getting ruling", error: error.message });
+    }
+  });
+
+  // Same as /api/rulings/ask, streamed as server-sent events: "start" with the conversation and detected cards,
+  // "token" with each piece of the answer and the section it belongs to (null if the model didn't
+  // answer in sections), then "done" with the saved message, its sections and citations, or "error".
+  // A cached answer comes straight after "start" as "done", with no tokens.
+  // Closing the connection cancels the ruling; the partial answer is saved, marked as cancelled.
+  app.post("/api/rulings/ask/stream", optionalAuth, requireModelProvider, async (req: AuthenticatedRequest, res: Response) => {
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abort.abort();
+      }
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // The conversation started for this question, until an answer is saved in it; one left
+    // without an answer is deleted
+    let startedConversation: { owner: ConversationOwner; id: number } | null = null;
+
+    try {
+      const context = await loadRulingContext(req, res);
+      const history = [...(context.conversation?.messages ?? []), context.userMessage];
+
+      // Start a new conversation up front, so the client knows which one to follow if it cancels
+      if (!context.conversation) {
+        context.conversation = await ConversationService.createConversation(context.owner, ConversationService.titleFromQuestion(context.question));
+        startedConversation = { owner: context.owner, id: context.conversation.id };
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+      });
+      send("start", { conversationId: context.conversation.id, title: context.conversation.title, detectedCards: context.detectedCards });
+
+      const cachedAnswer = await findCachedAnswer(context);
+      if (cachedAnswer) {
+        const conversation = await saveExchange(context, cachedAnswer);
+        startedConversation = null;
+        send("done", { ...cachedAnswer, conversationId: conversation.id, title: conversation.title });
+        res.end();
+        return;
+      }
+
+      const ruling = await getCardRuling(context.question, context.primaryCard, history, context.mentionedCards, {
+        onToken: (token, section) => send("token", { content: token, section }),
+        signal: abort.signal,
+      });
+
+      // Nothing to keep if the ruling was cancelled before its first token
+      if (abort.signal.aborted && !ruling.content) {
+        if (startedConversation) {
+          await ConversationService.deleteConversation(startedConversation.owner, startedConversation.id);
+        }
+        return;
+      }
+
+      const citations = await citeAnswer(context, ruling);
+      const assistantMessage: ConversationMessage = {
+        role: "assistant",
+        content: ruling.content,
+        createdAt: new Date().toISOString(),
+        ...(ruling.structured ? { structured: ruling.structured } : {}),
+        citations,
+        ...(ruling.promptContext ? { promptContext: ruling.promptContext } : {}),
+        ...(abort.signal.aborted ? { cancelled: true } : {}),
+      };
+      const conversation = await saveExchange(context, assistantMessage);
+      startedConversation = null;
+      if (!abort.signal.aborted) {
+        await cacheAnswer(context, ruling, citations);
+      }
+
+      if (!abort.signal.aborted) {
+        send("done", { ...assistantMessage, conversationId: conversation.id, title: conversation.title });
+        res.end();
+      }
+    } catch (error: any) {
+      if (error instanceof RulingRequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error streaming ruling:", error);
+      if (startedConversation) {
+        await ConversationService.deleteConversation(startedConversation.owner, startedConversation.id)
+          .catch(deleteError => console.error("Error deleting unanswered conversation:", deleteError));
+      }
+      if (!res.headersSent) {
+        return res.status(500).json({ message: "Error getting ruling", error: error.message });
+      }
+      if (!abort.signal.aborted) {
+        send("error", { message: "Error getting ruling" });
+        res.end();
+      }
+    }
+  });
+
+  // The requester's conversations, most recently active first
+  app.get("/api/rulings/conversations", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const owner = await resolveOwner(req, res);
+      res.json(await ConversationService.listConversations(owner));
+    } catch (error: any) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Error fetching conversations", error: error.message });
+    }
+  });
+
+  // Start an empty conversation, optionally with a title
+  app.post("/api/rulings/conversations", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const owner = await resolveOwner(req, res);
+      const conversation = await ConversationService.createConversation(owner, ConversationService.normalizeTitle(req.body?.title));
+      res.status(201).json(conversation);
+    } catch (error: any) {
+      console.error("Error creating conversation:", error);
+      res.status(500).json({ message: "Error creating conversation", error: error.message });
+    }
+  });
+
+  // A conversation with all of its messages
+  app.get("/api/rulings/conversations/:id", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const owner = await resolveOwner(req, res);
+      const id = parseConversationId(req.params.id);
+      const conversation = id ? await ConversationService.getConversation(owner, id) : null;
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error: any) {
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ message: "Error fetching conversation", error: error.message });
+    }
+  });
+
+  // Rename a conversation, e.g. { title: "Humility and Opalescence" }
+  app.patch("/api/rulings/conversations/:id", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const title = ConversationService.normalizeTitle(req.body?.title);
+      if (!title) {
+        return res.status(400).json({ message: "A title is required" });
+      }
+
+      const owner = await resolveOwner(req, res);
+      const id = parseConversationId(req.params.id);
+      const conversation = id ? await ConversationService.renameConversation(owner, id, title) : null;
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error: any) {
+      console.error("Error renaming conversation:", error);
+      res.status(500).json({ message: "Error renaming conversation", error: error.message });
+    }
+  });
+
+  app.delete("/api/rulings/conversations/:id", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const owner = await resolveOwner(req, res);
+      const id = parseConversationId(req.params.id);
+      const deleted = id ? await ConversationService.deleteConversation(owner, id) : false;
+      if (!deleted) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ message: "Error deleting conversation", error: error.message });
+    }
+  });
+
+  // Rate an answer, e.g. { rating: "down", correction: "Blood Moon makes Urborg a Mountain, so..." }.
+  // Thumbs-down ratings and corrections go to the judges' review queue; rating again replaces the
+  // earlier rating until it's reviewed.
+  app.post("/api/rulings/conversations/:id/messages/:index/feedback", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const owner = await resolveOwner(req, res);
+      const id = parseConversationId(req.params.id);
+      const index = parseInt(req.params.index);
+      if (!id || !Number.isInteger(index) || index < 0) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const feedback = await RulingFeedbackService.submitFeedback(owner, id, index, req.body ?? {});
+      if (!feedback) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json({ rating: feedback.rating, correction: feedback.correction, status: feedback.status });
+    } catch (error: any) {
+      sendFeedbackError(res, error, "Error saving feedback");
+    }
+  });
+
+  // The review queue: rated answers with the cards and rules their prompt was given, by status
+  // (pending by default, approved or rejected)
+  app.get("/api/admin/ruling-feedback", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : 'pending';
+      res.json(await RulingFeedbackService.listFeedback(status as FeedbackStatus));
+    } catch (error: any) {
+      sendFeedbackError(res, error, "Error fetching ruling feedback");
+    }
+  });
+
+  // Review feedback, e.g. { status: "approved", correction: "...", reviewNote: "..." }. Approved
+  // corrections are given to the model for later questions about the same cards.
+  app.patch("/api/admin/ruling-feedback/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Feedback id must be a positive integer" });
+      }
+      const feedback = await RulingFeedbackService.reviewFeedback(id, req.body ?? {});
+      if (!feedback) {
+        return res.status(404).json({ message: "Feedback not found" });
+      }
+      res.json(feedback);
+    } catch (error: any) {
+      sendFeedbackError(res, error, "Error reviewing ruling feedback");
+    }
+  });
+}
@@ -1,10 +1,10 @@
 import fs from 'fs';
 import { db } from './db';
-import { rules } from '@shared/schema';
+import { rulesService } from './mtg/rules-service';
 
 /**
  * Parse and update the comprehensive rules database
- * This will clear existing rules and load the latest version
+ * This replaces the current rules and records the document as a rules version
  */
 export async function updateRulesDatabase(filePath: string): Promise<void> {
   console.log('Starting rules database update...');
@@ -13,21 +13,7 @@ export async function updateRulesDatabase(filePath: string): Promise<void> {
     // Read the comprehensive rules file
     const rulesText = fs.readFileSync(filePath, 'utf-8');
     
-    // Clear existing rules
-    await db.delete(rules);
-    console.log('Cleared existing rules');
-    
-    // Parse the rules text
-    const parsedRules = parseComprehensiveRules(rulesText);
-    console.log(`Parsed ${parsedRules.length} rules`);
-    
-    // Insert rules in batches
-    const batchSize = 100;
-    for (let i = 0; i < parsedRules.length; i += batchSize) {
-      const batch = parsedRules.slice(i, i + batchSize);
-      await db.insert(rules).values(batch);
-      console.log(`Inserted batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(parsedRules.length / batchSize)}`);
-    }
+    await rulesService.importComprehensiveRules(rulesText);
     
     console.log('Rules database update completed successfully');
   } catch (error) {
@@ -36,103 +22,6 @@ export async function updateRulesDatabase(filePath: string): Promise<void> {
   }
 }
 
-/**
- * Parse the comprehensive rules text into structured data
- */
-function parseComprehensiveRules(rulesText: string): any[] {
-  const rules: any[] = [];
-  
-  // Find where the actual rules content starts (after "1. Game Concepts")
-  const startIndex = rulesText.indexOf('1. Game Concepts');
-  if (startIndex === -1) {
-    console.log('Could not find "1. Game Concepts" in the rules text');
-    return rules;
-  }
-  
-  let cleanText = rulesText.substring(startIndex);
-  
-  // The text is all concatenated, so we need to find rule patterns in the continuous text
-  // Match patterns like "100.1. " or "100.1a. " followed by rule text
-  const rulePattern = /(\d{3}\.\d+[a-z]*)\.\s+([^0-9]*?)(?=\d{3}\.\d+[a-z]*\.|$)/g;
-  
-  let currentChapter = 'Game Concepts';
-  let currentSection = '';
-  
-  // Extract chapters and sections
-  const chapterPattern = /(\d+)\.\s+([A-Z][^0-9]*?)(?=\d{3}\.)/g;
-  let chapterMatch;
-  const chapters: {[key: number]: string} = {};
-  
-  while ((chapterMatch = chapterPattern.exec(cleanText)) !== null) {
-    const chapterNum = parseInt(chapterMatch[1]);
-    chapters[chapterNum] = chapterMatch[2].trim();
-  }
-  
-  // Extract sections like "100. General"
-  const sectionPattern = /(\d{3})\.\s+([A-Z][^0-9]*?)(?=\d{3}\.\d+)/g;
-  let sectionMatch;
-  const sections: {[key: number]: string} = {};
-  
-  while ((sectionMatch = sectionPattern.exec(cleanText)) !== null) {
-    const sectionNum = parseInt(sectionMatch[1]);
-    sections[sectionNum] = sectionMatch[2].trim();
-  }
-  
-  // Now extract individual rules
-  let ruleMatch;
-  while ((ruleMatch = rulePattern.exec(cleanText)) !== null) {
-    const ruleNumber = ruleMatch[1];
-    const ruleText = ruleMatch[2].trim();
-    
-    if (ruleText.length > 10) { // Filter out very short matches
-      // Determine chapter and section from rule number
-      const rulePrefix = parseInt(ruleNumber.split('.')[0]);
-      const chapterNum = Math.floor(rulePrefix / 100);
-      
-      currentChapter = chapters[chapterNum] || currentChapter;
-      currentSection = sections[rulePrefix] || currentSection;
-      
-      rules.push(createRuleEntry(ruleNumber, ruleText, currentChapter, currentSection));
-    }
-  }
-  
-  return rules;
-}
-
-/**
- * Create a rule entry for database insertion
- */
-function createRuleEntry(ruleNumber: string, text: string, chapter: string, section: string): any {
-  // Extract examples from the text
-  const examples: string[] = [];
-  const exampleRegex = /Example:\s*([^.]*\.)/g;
-  let match;
-  while ((match = exampleRegex.exec(text)) !== null) {
-    examples.push(match[1].trim());
-  }
-  
-  // Extract keywords from the text
-  const keywords: string[] = [];
-  const keywordMatches = text.match(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g);
-  if (keywordMatches) {
-    keywords.push(...keywordMatches.slice(0, 10)); // Limit to 10 keywords
-  }
-  
-  // Determine subsection
-  const subsection = ruleNumber.includes('.') ? ruleNumber.split('.')[1] : '';
-  
-  return {
-    ruleNumber,
-    text: text.replace(/Example:\s*[^.]*\./g, '').trim(), // Remove examples from main text
-    examples,
-    keywords,
-    chapter,
-    section,
-    subsection,
-    relatedRules: [] // Could be enhanced to find related rules
-  };
-}
-
 /**
  * Update rules from the attached comprehensive rules file
  */
@@ -0,0 +1,214 @@
+import { db } from '../db';
+import { oracleCards } from '@shared/schema';
+
+export interface RecognizedCard {
+  id: string; // Oracle card id
+  name: string;
+  mention: string; // The text of the question that named the card
+  start: number;
+  end: number;
+}
+
+type NameKind = 'name' | 'face' | 'short';
+
+interface NameEntry {
+  id: string;
+  name: string;
+  kind: NameKind;
+}
+
+interface QuestionToken {
+  key: string;
+  start: number;
+  end: number;
+  capitalized: boolean;
+}
+
+const INDEX_TTL_MS = 60 * 60 * 1000; // Card names change only when the card database is synced
+const MAX_NAME_TOKENS = 10;
+const MIN_SINGLE_WORD_LENGTH = 3;
+// Lowercase mentions starting with these are ordinary phrases ("the end of turn"), not card names
+const LEADING_ARTICLES = new Set(['the', 'a', 'an']);
+
+// Words with inner apostrophes and hyphens, e.g. "Urza's" or "Will-o'-the-Wisp"
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\u024F][A-Za-z0-9\u00C0-\u024F'’\-]*/g;
+
+function normalizeWord(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/['\-]+$/, '');
+}
+
+function nameKey(name: string): string {
+  return (name.match(WORD_PATTERN) || []).map(normalizeWord).join(' ');
+}
+
+/**
+ * Finds card names in free text against an in-memory index of oracle card names: full names,
+ * each face of split and double-faced cards, and the short name of legends ("Ragavan" for
+ * "Ragavan, Nimble Pilferer") when only one card has it
+ */
+export class CardRecognizer {
+  private static instance: CardRecognizer;
+  private index: Map<string, NameEntry[]> | null = null;
+  private loadedAt = 0;
+  private loading: Promise<Map<string, NameEntry[]>> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): CardRecognizer {
+    if (!CardRecognizer.instance) {
+      CardRecognizer.instance = new CardRecognizer();
+    }
+    return CardRecognizer.instance;
+  }
+
+  /**
+   * Drop the index so the next lookup reloads card names
+   */
+  public invalidate(): void {
+    this.index = null;
+  }
+
+  private async getIndex(): Promise<Map<string, NameEntry[]>> {
+    if (this.index && Date.now() - this.loadedAt < INDEX_TTL_MS) {
+      return this.index;
+    }
+    if (!this.loading) {
+      this.loading = this.loadIndex().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadIndex(): Promise<Map<string, NameEntry[]>> {
+    const rows = await db.select({ id: oracleCards.id, name: oracleCards.name }).from(oracleCards);
+    const index = new Map<string, NameEntry[]>();
+    const add = (key: string, entry: NameEntry) => {
+      if (!key) return;
+      const entries = index.get(key);
+      if (!entries) {
+        index.set(key, [entry]);
+      } else if (!entries.some(existing => existing.id === entry.id)) {
+        entries.push(entry);
+      }
+    };
+
+    for (const row of rows) {
+      add(nameKey(row.name), { ...row, kind: 'name' });
+
+      const faces = row.name.split(' // ');
+      if (faces.length > 1) {
+        for (const face of faces) {
+          add(nameKey(face), { ...row, kind: 'face' });
+        }
+      }
+
+      for (const face of faces) {
+        const commaIndex = face.indexOf(',');
+        if (commaIndex > 0) {
+          add(nameKey(face.slice(0, commaIndex)), { ...row, kind: 'short' });
+        }
+      }
+    }
+
+    this.index = index;
+    this.loadedAt = Date.now();
+    return index;
+  }
+
+  /**
+   * The single card a key names, preferring a full name over a face over a short name.
+   * Null when the key is ambiguous at its best kind, e.g. "Jace".
+   */
+  private resolve(entries: NameEntry[] | undefined): NameEntry | null {
+    if (!entries) return null;
+    for (const kind of ['name', 'face', 'short'] as NameKind[]) {
+      const ofKind = entries.filter(entry => entry.kind === kind);
+      if (ofKind.length === 1) return ofKind[0];
+      if (ofKind.length > 1) return null;
+    }
+    return null;
+  }
+
+  /**
+   * Whether a match is plausibly a card rather than an ordinary word or phrase: single words
+   * must be capitalized ("Shock", not "shock"), and lowercase phrases mustn't start with an article
+   */
+  private isPlausibleMention(tokens: QuestionToken[], entry: NameEntry): boolean {
+    if (tokens.length === 1) {
+      return tokens[0].capitalized && tokens[0].key.length >= MIN_SINGLE_WORD_LENGTH;
+    }
+    if (entry.kind === 'short' && !tokens[0].capitalized) {
+      return false;
+    }
+    return tokens.some(token => token.capitalized) || !LEADING_ARTICLES.has(tokens[0].key);
+  }
+
+  /**
+   * Cards named in the text, longest match first, in order of appearance
+   */
+  public async recognize(text: string): Promise<RecognizedCard[]> {
+    const index = await this.getIndex();
+    const tokens: QuestionToken[] = Array.from(text.matchAll(WORD_PATTERN)).map(match => ({
+      key: normalizeWord(match[0]),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].replace(/['’\-]+$/, '').length,
+      capitalized: /^[A-Z\u00C0-\u00DE]/.test(match[0]),
+    }));
+
+    const recognized: RecognizedCard[] = [];
+    const seen = new Set<string>();
+    let i = 0;
+
+    while (i < tokens.length) {
+      let matched: { entry: NameEntry; length: number; end: number } | null = null;
+
+      for (let length = Math.min(MAX_NAME_TOKENS, tokens.length - i); length >= 1 && !matched; length--) {
+        const span = tokens.slice(i, i + length);
+        const key = span.map(token => token.key).join(' ');
+        const last = span[span.length - 1];
+
+        // A possessive mention, e.g. "Blood Moon's effect"
+        const candidates: [string, number][] = [[key, last.end]];
+        if (last.key.endsWith("'s")) {
+          candidates.push([key.slice(0, -2), last.end - 2]);
+        }
+
+        for (const [candidate, end] of candidates) {
+          const entry = this.resolve(index.get(candidate));
+          if (entry && this.isPlausibleMention(span, entry)) {
+            matched = { entry, length, end };
+            break;
+          }
+        }
+      }
+
+      if (!matched) {
+        i++;
+        continue;
+      }
+
+      if (!seen.has(matched.entry.id)) {
+        seen.add(matched.entry.id);
+        const start = tokens[i].start;
+        recognized.push({
+          id: matched.entry.id,
+          name: matched.entry.name,
+          mention: text.slice(start, matched.end),
+          start,
+          end: matched.end,
+        });
+      }
+      i += matched.length;
+    }
+
+    return recognized;
+  }
+}
+
+export const cardRecognizer = CardRecognizer.getInstance();
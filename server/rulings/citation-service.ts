@@ -0,0 +1,189 @@
+import { db } from '../db';
+import { oracleCards, type RulingCitation } from '@shared/schema';
+import { inArray, or, sql } from 'drizzle-orm';
+import { rulesService } from '../mtg/rules-service';
+import type { Card } from '@/types/card';
+
+export interface CitationReference {
+  type: 'rule' | 'card';
+  reference: string;
+  index: number; // Position of the first mention in the answer
+  explicit: boolean; // Named as a card ("the card X") or listed as cited, so a missing card is worth flagging
+}
+
+// Rule numbers such as 601.2 or 702.19b
+const RULE_NUMBER_PATTERN = /\b[1-9]\d{2}\.\d+[a-z]?\b/g;
+// A bare section number only counts after "rule", e.g. "rule 704"
+const SECTION_CITATION_PATTERN = /\b(?:rules?|CR|section)\s+([1-9]\d{2})\b(?!\.\d)/gi;
+// Answers name cards in quotes or bold
+const QUOTED_PHRASE_PATTERN = /"([^"\n]{2,60})"|“([^”\n]{2,60})”|\*\*([^*\n]{2,60})\*\*/g;
+const NAME_CONNECTORS = new Set(['of', 'the', 'a', 'an', 'and', 'to', 'in', 'on', 'from', 'with', 'for', 'at', 'into', '//']);
+const CONTEXT_MAX_LENGTH = 240;
+
+/**
+ * A quoted phrase that reads like a card name: a few title-case words, not a sentence
+ */
+function looksLikeCardName(phrase: string): boolean {
+  const words = phrase.trim().split(/\s+/);
+  if (words.length > 8 || /[.:;!?]$/.test(phrase.trim())) {
+    return false;
+  }
+  return words.every((word, i) => /^[A-Z0-9]/.test(word) || (i > 0 && NAME_CONNECTORS.has(word)));
+}
+
+/**
+ * The sentence (or line) of the answer around a position
+ */
+function sentenceAround(answer: string, index: number): string {
+  const before = answer.slice(0, index);
+  const startMatch = before.match(/[\s\S]*(?:[.!?]\s|\n)/);
+  const start = startMatch ? startMatch[0].length : 0;
+
+  const endMatch = answer.slice(index).match(/[.!?](?=\s|$)|\n/);
+  const end = endMatch && endMatch.index !== undefined ? index + endMatch.index + 1 : answer.length;
+
+  const sentence = answer.slice(start, end).trim().replace(/\*\*/g, '');
+  return sentence.length > CONTEXT_MAX_LENGTH ? `${sentence.slice(0, CONTEXT_MAX_LENGTH - 1).trimEnd()}…` : sentence;
+}
+
+/**
+ * Rule numbers and card-like names an answer cites, each once, in order of first mention
+ */
+export function extractCitationReferences(answer: string): CitationReference[] {
+  const references = new Map<string, CitationReference>();
+  const add = (reference: CitationReference) => {
+    const key = `${reference.type}:${reference.reference.toLowerCase()}`;
+    const existing = references.get(key);
+    if (!existing) {
+      references.set(key, reference);
+    } else if (reference.explicit) {
+      existing.explicit = true;
+    }
+  };
+
+  for (const match of Array.from(answer.matchAll(RULE_NUMBER_PATTERN))) {
+    add({ type: 'rule', reference: match[0], index: match.index ?? 0, explicit: true });
+  }
+  for (const match of Array.from(answer.matchAll(SECTION_CITATION_PATTERN))) {
+    add({ type: 'rule', reference: match[1], index: (match.index ?? 0) + match[0].length - match[1].length, explicit: true });
+  }
+  for (const match of Array.from(answer.matchAll(QUOTED_PHRASE_PATTERN))) {
+    const phrase = (match[1] || match[2] || match[3]).trim();
+    if (!looksLikeCardName(phrase)) {
+      continue;
+    }
+    const index = match.index ?? 0;
+    const explicit = /\bcard(?:\s+named|\s+called)?\s*$/i.test(answer.slice(Math.max(0, index - 20), index));
+    add({ type: 'card', reference: phrase, index, explicit });
+  }
+
+  return Array.from(references.values()).sort((a, b) => a.index - b.index);
+}
+
+async function findCardsByName(names: string[]) {
+  if (names.length === 0) {
+    return [];
+  }
+  const lowerNames = names.map(name => name.toLowerCase());
+  return db
+    .select({ id: oracleCards.id, name: oracleCards.name, type: oracleCards.type, text: oracleCards.text })
+    .from(oracleCards)
+    .where(or(
+      inArray(sql`lower(${oracleCards.name})`, lowerNames),
+      // The front face of a double-faced or split card, e.g. "Delver of Secrets"
+      inArray(sql`lower(split_part(${oracleCards.name}, ' // ', 1))`, lowerNames)
+    ));
+}
+
+/**
+ * Check the rules and cards an answer cites against the database. Cards the question was
+ * about (contextCards) count wherever the answer names them, and the rules and cards a
+ * structured answer lists as cited (declared) are checked even where the text doesn't name them.
+ */
+export async function verifyCitations(
+  answer: string,
+  contextCards: Card[] = [],
+  declared?: { rules: string[]; cards: string[] }
+): Promise<RulingCitation[]> {
+  const references = extractCitationReferences(answer);
+  const lowerAnswer = answer.toLowerCase();
+
+  // Rules listed but not named in the text have no sentence to show, so they sort last
+  const isListed = (type: 'rule' | 'card', reference: string) =>
+    references.some(r => r.type === type && r.reference.toLowerCase() === reference.toLowerCase());
+  for (const rule of declared?.rules ?? []) {
+    if (/^[1-9]\d{2}(?:\.\d+[a-z]?)?$/.test(rule) && !isListed('rule', rule)) {
+      references.push({ type: 'rule', reference: rule, index: answer.length, explicit: true });
+    }
+  }
+  for (const name of declared?.cards ?? []) {
+    if (name && !isListed('card', name)) {
+      const index = lowerAnswer.indexOf(name.toLowerCase());
+      references.push({ type: 'card', reference: name, index: index >= 0 ? index : answer.length, explicit: true });
+    }
+  }
+
+  // Context cards are already known, so they don't need to be looked up
+  const contextByName = new Map(contextCards.map(card => [card.name.toLowerCase(), card]));
+  for (const card of contextCards) {
+    const index = lowerAnswer.indexOf(card.name.toLowerCase());
+    if (index >= 0 && !references.some(r => r.type === 'card' && r.reference.toLowerCase() === card.name.toLowerCase())) {
+      references.push({ type: 'card', reference: answer.slice(index, index + card.name.length), index, explicit: true });
+    }
+  }
+  references.sort((a, b) => a.index - b.index);
+
+  const lookupNames = references
+    .filter(r => r.type === 'card' && !contextByName.has(r.reference.toLowerCase()))
+    .map(r => r.reference);
+  const foundCards = await findCardsByName(lookupNames);
+  const foundByName = new Map<string, typeof foundCards[number]>();
+  for (const card of foundCards) {
+    foundByName.set(card.name.toLowerCase(), card);
+    foundByName.set(card.name.split(' // ')[0].toLowerCase(), card);
+  }
+
+  const citations: RulingCitation[] = [];
+  const citedCardIds = new Set<string>();
+
+  for (const reference of references) {
+    const context = reference.index < answer.length ? sentenceAround(answer, reference.index) : '';
+
+    if (reference.type === 'rule') {
+      const rule = await rulesService.findCitedRule(reference.reference);
+      citations.push({
+        type: 'rule',
+        reference: reference.reference,
+        verified: rule !== null,
+        ruleNumber: rule?.rule_number,
+        text: rule?.text ?? null,
+        context,
+      });
+      continue;
+    }
+
+    const card = contextByName.get(reference.reference.toLowerCase()) || foundByName.get(reference.reference.toLowerCase());
+    if (card) {
+      if (citedCardIds.has(card.id)) {
+        continue;
+      }
+      citedCardIds.add(card.id);
+      citations.push({
+        type: 'card',
+        reference: reference.reference,
+        verified: true,
+        cardId: card.id,
+        name: card.name,
+        typeLine: card.type,
+        text: card.text ?? null,
+        context,
+      });
+    } else if (reference.explicit) {
+      // Quoted phrases that aren't cards are usually ability or card text, so only flag
+      // the ones the answer calls a card
+      citations.push({ type: 'card', reference: reference.reference, verified: false, text: null, context });
+    }
+  }
+
+  return citations;
+}
@@ -0,0 +1,196 @@
+import { db } from '../db';
+import { conversations, type Conversation, type ConversationMessage } from '@shared/schema';
+import { and, desc, eq, isNull, sql, type SQL } from 'drizzle-orm';
+
+/**
+ * Who a conversation belongs to: a signed-in user, or an anonymous ruling session
+ */
+export type ConversationOwner = { userId: string } | { sessionId: string };
+
+export interface ConversationSummary {
+  id: number;
+  title: string;
+  messageCount: number;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export type ConversationWithMessages = Omit<Conversation, 'messages'> & { messages: ConversationMessage[] };
+
+const TITLE_MAX_LENGTH = 80;
+
+function ownerCondition(owner: ConversationOwner): SQL {
+  return 'userId' in owner
+    ? eq(conversations.userId, owner.userId)
+    : and(eq(conversations.sessionId, owner.sessionId), isNull(conversations.userId))!;
+}
+
+function withMessages(conversation: Conversation): ConversationWithMessages {
+  return { ...conversation, messages: (conversation.messages as ConversationMessage[] | null) ?? [] };
+}
+
+export class ConversationService {
+  /**
+   * A title from the first question: its first line, cut at a word boundary
+   */
+  static titleFromQuestion(question: string): string {
+    const firstLine = question.trim().split('\n')[0].trim();
+    if (firstLine.length <= TITLE_MAX_LENGTH) {
+      return firstLine || 'New conversation';
+    }
+    const cut = firstLine.slice(0, TITLE_MAX_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+  }
+
+  /**
+   * Clean up a user-supplied title; null if nothing is left
+   */
+  static normalizeTitle(title: unknown): string | null {
+    if (typeof title !== 'string') {
+      return null;
+    }
+    const trimmed = title.trim().replace(/\s+/g, ' ').slice(0, TITLE_MAX_LENGTH);
+    return trimmed || null;
+  }
+
+  /**
+   * An owner's conversations, most recently active first
+   */
+  static async listConversations(owner: ConversationOwner): Promise<ConversationSummary[]> {
+    const rows = await db
+      .select()
+      .from(conversations)
+      .where(ownerCondition(owner))
+      .orderBy(desc(conversations.updatedAt), desc(conversations.id));
+
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      messageCount: withMessages(row).messages.length,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }));
+  }
+
+  static async getConversation(owner: ConversationOwner, id: number): Promise<ConversationWithMessages | null> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), ownerCondition(owner)))
+      .limit(1);
+
+    return conversation ? withMessages(conversation) : null;
+  }
+
+  static async createConversation(owner: ConversationOwner, title?: string | null): Promise<ConversationWithMessages> {
+    const [conversation] = await db
+      .insert(conversations)
+      .values({
+        userId: 'userId' in owner ? owner.userId : null,
+        sessionId: 'sessionId' in owner ? owner.sessionId : null,
+        title: title || 'New conversation',
+        messages: [],
+      })
+      .returning();
+
+    return withMessages(conversation);
+  }
+
+  static async renameConversation(owner: ConversationOwner, id: number, title: string): Promise<ConversationWithMessages | null> {
+    const [conversation] = await db
+      .update(conversations)
+      .set({ title, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), ownerCondition(owner)))
+      .returning();
+
+    return conversation ? withMessages(conversation) : null;
+  }
+
+  static async deleteConversation(owner: ConversationOwner, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(conversations)
+      .where(and(eq(conversations.id, id), ownerCondition(owner)))
+      .returning({ id: conversations.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Append messages to a conversation, keeping the full history. Messages are changed in the
+   * database rather than read and written back, so requests at the same time don't lose any.
+   */
+  static async appendMessages(
+    owner: ConversationOwner,
+    id: number,
+    messages: ConversationMessage[]
+  ): Promise<ConversationWithMessages | null> {
+    const [updated] = await db
+      .update(conversations)
+      .set({ messages: sql`${conversations.messages} || ${JSON.stringify(messages)}::jsonb`, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), ownerCondition(owner)))
+      .returning();
+
+    return updated ? withMessages(updated) : null;
+  }
+
+  /**
+   * Replace a conversation's last question and answer, e.g. with a regenerated answer
+   */
+  static async replaceLastExchange(
+    owner: ConversationOwner,
+    id: number,
+    messages: ConversationMessage[]
+  ): Promise<ConversationWithMessages | null> {
+    // "- -1" removes the last element
+    const [updated] = await db
+      .update(conversations)
+      .set({ messages: sql`(${conversations.messages} - -1 - -1) || ${JSON.stringify(messages)}::jsonb`, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), ownerCondition(owner)))
+      .returning();
+
+    return updated ? withMessages(updated) : null;
+  }
+
+  /**
+   * Change one message of a conversation, e.g. to record the asker's rating of an answer
+   */
+  static async updateMessage(
+    owner: ConversationOwner,
+    id: number,
+    index: number,
+    changes: Partial<ConversationMessage>
+  ): Promise<ConversationWithMessages | null> {
+    if (!Number.isInteger(index) || index < 0) {
+      return null;
+    }
+
+    // The changes are merged into the message in place, leaving the other messages as they are now
+    const [updated] = await db
+      .update(conversations)
+      .set({
+        messages: sql`jsonb_set(${conversations.messages}, ${`{${index}}`}::text[], (${conversations.messages} -> ${index}::int) || ${JSON.stringify(changes)}::jsonb)`,
+      })
+      .where(and(
+        eq(conversations.id, id),
+        ownerCondition(owner),
+        sql`jsonb_array_length(${conversations.messages}) > ${index}`
+      ))
+      .returning();
+
+    return updated ? withMessages(updated) : null;
+  }
+
+  /**
+   * Move an anonymous session's conversations to the user who just signed in on it
+   */
+  static async claimSessionConversations(sessionId: string, userId: string): Promise<number> {
+    const claimed = await db
+      .update(conversations)
+      .set({ userId, sessionId: null })
+      .where(and(eq(conversations.sessionId, sessionId), isNull(conversations.userId)))
+      .returning({ id: conversations.id });
+
+    return claimed.length;
+  }
+}
@@ -0,0 +1,207 @@
+import { db } from '../db';
+import {
+  rulingFeedback,
+  rules as rulesTable,
+  type RulingFeedback,
+  type RulingFeedbackContext,
+  type RulingPromptContext,
+} from '@shared/schema';
+import { desc, eq, inArray } from 'drizzle-orm';
+import { storage } from '../storage';
+import { ConversationService, type ConversationOwner } from './conversation-service';
+import { RulingCache } from './ruling-cache';
+
+export type FeedbackRating = 'up' | 'down';
+export type FeedbackStatus = 'none' | 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: FeedbackStatus[] = ['pending', 'approved', 'rejected'];
+
+export class FeedbackValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedbackValidationError';
+  }
+}
+
+export interface FeedbackInput {
+  rating?: unknown;
+  correction?: unknown;
+}
+
+export interface ReviewInput {
+  status?: unknown;
+  correction?: unknown;
+  reviewNote?: unknown;
+}
+
+const CORRECTION_MAX_LENGTH = 4000;
+const REVIEW_NOTE_MAX_LENGTH = 1000;
+const REVIEW_QUEUE_LIMIT = 200;
+
+function optionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new FeedbackValidationError(`${field} must be text`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new FeedbackValidationError(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed || null;
+}
+
+/**
+ * The cards and rules a prompt was given, as they read now
+ */
+async function loadFeedbackContext(promptContext: RulingPromptContext | undefined): Promise<RulingFeedbackContext> {
+  if (!promptContext) {
+    return { cards: [], rules: [], correctionIds: [] };
+  }
+
+  const cards = await Promise.all(promptContext.cardIds.map(id => storage.getCard(id)));
+  const ruleRows = promptContext.ruleNumbers.length > 0
+    ? await db
+      .select({ ruleNumber: rulesTable.rule_number, text: rulesTable.text })
+      .from(rulesTable)
+      .where(inArray(rulesTable.rule_number, promptContext.ruleNumbers))
+    : [];
+  const ruleText = new Map(ruleRows.map(rule => [rule.ruleNumber, rule.text]));
+
+  return {
+    cards: cards.flatMap((card, i) => card
+      ? [{ id: promptContext.cardIds[i], name: card.name, type: card.type, text: card.text ?? null, rulings: card.rulings ?? [] }]
+      : []),
+    rules: promptContext.ruleNumbers
+      .filter(ruleNumber => ruleText.has(ruleNumber))
+      .map(ruleNumber => ({ ruleNumber, text: ruleText.get(ruleNumber)! })),
+    correctionIds: promptContext.correctionIds,
+  };
+}
+
+export class RulingFeedbackService {
+  /**
+   * Rate an answer in one of the owner's conversations, replacing any earlier rating of it until
+   * it's reviewed. Thumbs-down ratings and corrections go to the review queue. Null if there's no
+   * such conversation.
+   */
+  static async submitFeedback(
+    owner: ConversationOwner,
+    conversationId: number,
+    messageIndex: number,
+    input: FeedbackInput
+  ): Promise<RulingFeedback | null> {
+    if (input.rating !== 'up' && input.rating !== 'down') {
+      throw new FeedbackValidationError('rating must be "up" or "down"');
+    }
+    const rating: FeedbackRating = input.rating;
+    const correction = optionalText(input.correction, 'correction', CORRECTION_MAX_LENGTH);
+
+    const conversation = await ConversationService.getConversation(owner, conversationId);
+    if (!conversation) {
+      return null;
+    }
+    const message = conversation.messages[messageIndex];
+    if (!message || message.role !== 'assistant') {
+      throw new FeedbackValidationError('Only answers can be rated');
+    }
+    if (message.cancelled) {
+      throw new FeedbackValidationError("A stopped answer can't be rated");
+    }
+    const question = conversation.messages
+      .slice(0, messageIndex)
+      .reverse()
+      .find(m => m.role === 'user')?.content ?? '';
+
+    const status: FeedbackStatus = rating === 'down' || correction ? 'pending' : 'none';
+    const values = {
+      rating,
+      correction,
+      question,
+      answer: message.content,
+      cardIds: message.promptContext?.cardIds ?? [],
+      promptContext: await loadFeedbackContext(message.promptContext),
+      status,
+      reviewNote: null,
+      reviewedAt: null,
+      updatedAt: new Date(),
+    };
+
+    const [feedback] = await db
+      .insert(rulingFeedback)
+      .values({
+        conversationId,
+        messageIndex,
+        userId: 'userId' in owner ? owner.userId : null,
+        sessionId: 'sessionId' in owner ? owner.sessionId : null,
+        ...values,
+      })
+      .onConflictDoUpdate({
+        target: [rulingFeedback.conversationId, rulingFeedback.messageIndex],
+        set: values,
+        // A judge's review stands once it's made
+        setWhere: inArray(rulingFeedback.status, ['none', 'pending']),
+      })
+      .returning();
+    if (!feedback) {
+      throw new FeedbackValidationError('Feedback on this answer has already been reviewed');
+    }
+
+    await ConversationService.updateMessage(owner, conversationId, messageIndex, { feedback: { rating, correction } });
+    return feedback;
+  }
+
+  /**
+   * Feedback waiting for review, or already reviewed, newest first
+   */
+  static async listFeedback(status: FeedbackStatus = 'pending'): Promise<RulingFeedback[]> {
+    if (!REVIEW_STATUSES.includes(status)) {
+      throw new FeedbackValidationError(`status must be one of ${REVIEW_STATUSES.join(', ')}`);
+    }
+    return db
+      .select()
+      .from(rulingFeedback)
+      .where(eq(rulingFeedback.status, status))
+      .orderBy(desc(rulingFeedback.createdAt), desc(rulingFeedback.id))
+      .limit(REVIEW_QUEUE_LIMIT);
+  }
+
+  /**
+   * Approve or reject feedback, optionally rewording its correction. Approving needs a correction,
+   * and stops earlier answers about its cards being reused, since they were given without it.
+   */
+  static async reviewFeedback(id: number, input: ReviewInput): Promise<RulingFeedback | null> {
+    if (input.status !== 'approved' && input.status !== 'rejected') {
+      throw new FeedbackValidationError('status must be "approved" or "rejected"');
+    }
+    const [existing] = await db.select().from(rulingFeedback).where(eq(rulingFeedback.id, id)).limit(1);
+    if (!existing) {
+      return null;
+    }
+
+    const correction = input.correction === undefined
+      ? existing.correction
+      : optionalText(input.correction, 'correction', CORRECTION_MAX_LENGTH);
+    if (input.status === 'approved' && !correction) {
+      throw new FeedbackValidationError('Approving feedback needs a correction to give the model');
+    }
+
+    const [feedback] = await db
+      .update(rulingFeedback)
+      .set({
+        status: input.status,
+        correction,
+        reviewNote: optionalText(input.reviewNote, 'reviewNote', REVIEW_NOTE_MAX_LENGTH),
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(rulingFeedback.id, id))
+      .returning();
+
+    if (feedback.status === 'approved') {
+      await RulingCache.invalidateForCards(feedback.cardIds);
+    }
+    return feedback;
+  }
+}
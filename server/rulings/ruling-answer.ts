@@ -0,0 +1,219 @@
+import { RULING_SECTIONS, structuredRulingSchema, type StructuredRuling } from '@shared/ruling-answer';
+import type { RulingPromptContext } from '@shared/schema';
+
+export interface RulingResult {
+  content: string; // The answer as text: the structured sections formatted, or the model's raw reply
+  structured: StructuredRuling | null; // Null when the reply couldn't be read as sections
+  promptContext?: RulingPromptContext; // The cards and rules the model was given
+}
+
+const RULE_NUMBER_PATTERN = /\b[1-9]\d{2}\.\d+[a-z]?\b/g;
+const SECTION_HEADING_PATTERN = new RegExp(
+  `^\\s*(?:#+\\s*)?(?:\\d+\\.\\s*)?\\**\\s*(${RULING_SECTIONS.map(section => section.heading).join('|')})\\s*\\**\\s*:?\\s*\\**\\s*(.*)$`,
+  'i'
+);
+
+/**
+ * The sections as text, with the same headings answers used before they were structured
+ */
+export function formatRulingAnswer(ruling: Partial<StructuredRuling>): string {
+  const parts: string[] = [];
+  if (ruling.verdict) {
+    parts.push(`VERDICT: ${ruling.verdict}`);
+  }
+  for (const section of RULING_SECTIONS) {
+    const text = ruling[section.key];
+    if (text) {
+      parts.push(`${section.heading}: ${text}`);
+    }
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Sections from a reply written as headed text ("SUMMARY: ..."), for models that ignore the
+ * JSON format. The verdict is the outcome's first sentence.
+ */
+function parseSectionedText(reply: string): StructuredRuling | null {
+  const sections: Record<string, string[]> = {};
+  let current: string | null = null;
+
+  for (const line of reply.split('\n')) {
+    const heading = line.match(SECTION_HEADING_PATTERN);
+    if (heading) {
+      current = RULING_SECTIONS.find(section => section.heading === heading[1].toUpperCase())!.key;
+      sections[current] = heading[2] ? [heading[2]] : [];
+    } else if (current) {
+      sections[current].push(line);
+    }
+  }
+
+  const text = (key: string) => (sections[key] || []).join('\n').trim();
+  const outcome = text('outcome');
+  const parsed = structuredRulingSchema.safeParse({
+    verdict: (outcome.match(/^[^\n]*?[.!?](?=\s|$)/) || [outcome])[0],
+    summary: text('summary'),
+    cardMechanics: text('cardMechanics'),
+    rulesApplication: text('rulesApplication'),
+    interactionAnalysis: text('interactionAnalysis'),
+    outcome,
+    citedRules: Array.from(new Set(reply.match(RULE_NUMBER_PATTERN) || [])),
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Read a ruling reply: JSON matching the schema, else headed text, else the reply as is
+ */
+export function parseRulingAnswer(reply: string): RulingResult {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonText = (fenced ? fenced[1] : reply).trim();
+  const start = jsonText.indexOf('{');
+  const end = jsonText.lastIndexOf('}');
+
+  if (start >= 0 && end > start) {
+    try {
+      const parsed = structuredRulingSchema.safeParse(JSON.parse(jsonText.slice(start, end + 1)));
+      if (parsed.success) {
+        return { content: formatRulingAnswer(parsed.data), structured: parsed.data };
+      }
+      console.warn('Ruling reply did not match the answer schema:', parsed.error.issues.map(issue => issue.path.join('.')).join(', '));
+    } catch {
+      // Not JSON; try it as headed text below
+    }
+  }
+
+  const structured = parseSectionedText(reply);
+  if (structured) {
+    return { content: formatRulingAnswer(structured), structured };
+  }
+  return { content: recoverRulingSections(reply) ?? reply.trim(), structured: null };
+}
+
+/**
+ * The section text of a cut-off or invalid JSON reply, formatted; null if it has none
+ */
+export function recoverRulingSections(reply: string): string | null {
+  const sectionStream = new RulingSectionStream(() => {});
+  sectionStream.write(reply);
+  const sections = sectionStream.getSections();
+  return Object.keys(sections).length > 0 ? formatRulingAnswer(sections as Partial<StructuredRuling>) : null;
+}
+
+/**
+ * Follows a JSON ruling reply as it streams, handing on the text of each top-level string
+ * field (verdict, summary, ...) as it arrives. A reply that doesn't start with a JSON object
+ * (after an optional code fence) is handed on as is, with no field.
+ */
+export class RulingSectionStream {
+  private mode: 'prefix' | 'json' | 'text' = 'prefix';
+  private prefix = '';
+  private depth = 0;
+  private inString = false;
+  private stringKind: 'key' | 'value' | 'other' = 'other';
+  private escape: string | null = null; // Pending escape sequence, e.g. "\u00"
+  private key = '';
+  private lastKey = '';
+  private expectingValue = false;
+  private sections: Record<string, string> = {};
+
+  constructor(private onText: (text: string, field: string | null) => void) {}
+
+  /**
+   * Text of each field so far
+   */
+  public getSections(): Record<string, string> {
+    return { ...this.sections };
+  }
+
+  public write(chunk: string): void {
+    if (this.mode === 'text') {
+      this.onText(chunk, null);
+      return;
+    }
+    if (this.mode === 'prefix') {
+      this.prefix += chunk;
+      const braceIndex = this.prefix.indexOf('{');
+      const before = braceIndex >= 0 ? this.prefix.slice(0, braceIndex) : this.prefix;
+      if (!/^\s*(?:`{1,3}(?:j(?:s(?:o(?:n)?)?)?)?)?\s*$/i.test(before)) {
+        this.mode = 'text';
+        this.onText(this.prefix, null);
+        return;
+      }
+      if (braceIndex < 0) return;
+      this.mode = 'json';
+      chunk = this.prefix.slice(braceIndex);
+    }
+
+    let emitted = '';
+    const flush = () => {
+      if (emitted) {
+        this.sections[this.lastKey] = (this.sections[this.lastKey] || '') + emitted;
+        this.onText(emitted, this.lastKey);
+        emitted = '';
+      }
+    };
+
+    for (const char of chunk) {
+      if (this.inString) {
+        let decoded: string | null = null;
+        if (this.escape !== null) {
+          this.escape += char;
+          if (this.escape.startsWith('u')) {
+            if (this.escape.length === 5) {
+              decoded = String.fromCharCode(parseInt(this.escape.slice(1), 16));
+              this.escape = null;
+            }
+          } else {
+            decoded = ({ n: '\n', t: '\t', r: '', b: '', f: '' } as Record<string, string>)[char] ?? char;
+            this.escape = null;
+          }
+        } else if (char === '\\') {
+          this.escape = '';
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.stringKind === 'key') {
+            this.lastKey = this.key;
+          } else if (this.stringKind === 'value') {
+            this.expectingValue = false;
+            flush();
+          }
+        } else {
+          decoded = char;
+        }
+
+        if (decoded !== null) {
+          if (this.stringKind === 'value') {
+            emitted += decoded;
+          } else if (this.stringKind === 'key') {
+            this.key += decoded;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+        // Only string values directly in the top-level object are sections
+        if (this.depth !== 1) {
+          this.stringKind = 'other';
+        } else if (this.expectingValue) {
+          this.stringKind = 'value';
+        } else {
+          this.stringKind = 'key';
+          this.key = '';
+        }
+      } else if (char === ':') {
+        this.expectingValue = this.depth === 1;
+      } else if (char === ',') {
+        this.expectingValue = false;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+        this.expectingValue = false;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+      }
+    }
+    flush();
+  }
+}
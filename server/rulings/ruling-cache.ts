@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { db } from '../db';
+import { rulings, type CachedRulingInfo, type Ruling, type RulingCitation, type RulingPromptContext } from '@shared/schema';
+import type { StructuredRuling } from '@shared/ruling-answer';
+import { and, arrayContains, desc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { rulesService } from '../mtg/rules-service';
+import { getFeatureConfig, llmService } from '../llm/llm-service';
+import type { RulingResult } from './ruling-answer';
+import type { Card } from '@/types/card';
+
+// How alike two questions' wording must be, from 0 to 1, to share an answer
+const SIMILARITY_THRESHOLD = 0.85;
+// Most recent answers about the same cards compared against a question
+const MAX_CANDIDATES = 50;
+// A question that differs from another by one of these asks the opposite
+const NEGATIONS = new Set(['not', 'no', 'never', 'cant', 'cannot', 'dont', 'doesnt', 'isnt', 'wont', 'without']);
+
+export interface CachedRuling {
+  info: CachedRulingInfo;
+  ruling: RulingResult;
+  citations: RulingCitation[];
+}
+
+/**
+ * A question reduced to its words: lowercase, without accents, apostrophes or punctuation
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * How alike two normalized questions are, from 0 to 1: one minus the word edit distance over the
+ * longer question's length. Word order counts, so "can X block Y" and "can Y block X" differ, and
+ * questions that differ in a number or a negation don't match at all.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const wordsA = a.split(' ').filter(Boolean);
+  const wordsB = b.split(' ').filter(Boolean);
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return 0;
+  }
+
+  const signature = (words: string[]) => words.filter(word => /\d/.test(word) || NEGATIONS.has(word)).sort().join(' ');
+  if (signature(wordsA) !== signature(wordsB)) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: wordsB.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= wordsA.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= wordsB.length; j++) {
+      const substitution = previous[j - 1] + (wordsA[i - 1] === wordsB[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[wordsB.length] / Math.max(wordsA.length, wordsB.length);
+}
+
+/**
+ * A card's id across printings, so the same card picked from another printing still matches
+ */
+export function cardIdentity(card: Card): string {
+  return card.oracleId || card.id;
+}
+
+function cardKey(cards: Card[]): string {
+  return Array.from(new Set(cards.map(cardIdentity))).sort().join(',');
+}
+
+/**
+ * A hash of what the model was told about the cards, so errata or new rulings retire the answer
+ */
+function cardTextHash(cards: Card[]): string {
+  const texts = [...cards]
+    .sort((a, b) => cardIdentity(a).localeCompare(cardIdentity(b)))
+    .map(card => JSON.stringify([card.name, card.type, card.text ?? '', card.rulings ?? []]));
+  return createHash('sha256').update(texts.join('\n')).digest('hex');
+}
+
+/**
+ * The provider and model answering ruling questions now; answers from any other aren't reused
+ */
+function answeringModel(): { provider: string; model: string } {
+  return { provider: llmService.getProvider().name, model: getFeatureConfig('ruling').model };
+}
+
+function toCachedRuling(row: Ruling): CachedRuling {
+  return {
+    info: { rulingId: row.id, answeredAt: (row.createdAt ?? new Date()).toISOString() },
+    ruling: {
+      content: row.answer,
+      structured: (row.structured as StructuredRuling | null) ?? null,
+      promptContext: (row.promptContext as RulingPromptContext | null) ?? undefined,
+    },
+    citations: (row.citations as RulingCitation[] | null) ?? [],
+  };
+}
+
+/**
+ * Answers to earlier ruling questions, reused when the same question comes up about the same
+ * cards. An answer is only reused while the cards' oracle text and the comprehensive rules are
+ * as they were when it was given, and the same model is answering. Stub answers aren't kept.
+ */
+export class RulingCache {
+  /**
+   * The most recent valid answer to a near-identical question about exactly these cards, or null.
+   * Answers whose cards or rules have since changed are invalidated on the way.
+   */
+  static async find(question: string, cards: Card[]): Promise<CachedRuling | null> {
+    const normalized = normalizeQuestion(question);
+    if (!normalized) {
+      return null;
+    }
+
+    const { provider, model } = answeringModel();
+    const candidates = await db
+      .select()
+      .from(rulings)
+      .where(and(
+        eq(rulings.cardKey, cardKey(cards)),
+        eq(rulings.provider, provider),
+        eq(rulings.model, model),
+        isNull(rulings.invalidatedAt)
+      ))
+      .orderBy(desc(rulings.createdAt), desc(rulings.id))
+      .limit(MAX_CANDIDATES);
+
+    const matches = candidates.filter(row => questionSimilarity(normalized, row.normalizedQuestion) >= SIMILARITY_THRESHOLD);
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const currentTextHash = cardTextHash(cards);
+    const currentRulesVersion = await rulesService.getRulesVersion();
+    const stale = matches.filter(row => row.cardTextHash !== currentTextHash || row.rulesVersion !== currentRulesVersion);
+    if (stale.length > 0) {
+      await this.invalidate(stale.map(row => row.id));
+    }
+
+    const match = matches.find(row => !stale.includes(row));
+    if (!match) {
+      return null;
+    }
+
+    await db
+      .update(rulings)
+      .set({ hitCount: sql`${rulings.hitCount} + 1` })
+      .where(eq(rulings.id, match.id));
+    return toCachedRuling(match);
+  }
+
+  /**
+   * Keep an answer for the next time the question is asked about these cards. Returns its id, or
+   * null for a stub answer, which isn't kept.
+   */
+  static async store(question: string, cards: Card[], ruling: RulingResult, citations: RulingCitation[]): Promise<number | null> {
+    const { provider, model } = answeringModel();
+    if (provider === 'stub') {
+      return null;
+    }
+
+    const [row] = await db
+      .insert(rulings)
+      .values({
+        question,
+        normalizedQuestion: normalizeQuestion(question),
+        cardKey: cardKey(cards),
+        cardIds: Array.from(new Set(cards.map(cardIdentity))),
+        answer: ruling.content,
+        structured: ruling.structured,
+        citations,
+        promptContext: ruling.promptContext ?? null,
+        cardTextHash: cardTextHash(cards),
+        rulesVersion: await rulesService.getRulesVersion(),
+        provider,
+        model,
+      })
+      .returning({ id: rulings.id });
+
+    return row.id;
+  }
+
+  /**
+   * Stop serving answers about all of these cards, e.g. once a correction about them is approved
+   */
+  static async invalidateForCards(cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) {
+      return;
+    }
+    await db
+      .update(rulings)
+      .set({ invalidatedAt: new Date() })
+      .where(and(arrayContains(rulings.cardIds, cardIds), isNull(rulings.invalidatedAt)));
+  }
+
+  /**
+   * Stop serving answers, e.g. one the user chose to regenerate
+   */
+  static async invalidate(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db
+      .update(rulings)
+      .set({ invalidatedAt: new Date() })
+      .where(and(inArray(rulings.id, ids), isNull(rulings.invalidatedAt)));
+  }
+}
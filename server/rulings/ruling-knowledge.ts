@@ -0,0 +1,166 @@
+import { db } from '../db';
+import { rulingFeedback, type GlossaryTerm, type Rule } from '@shared/schema';
+import { and, arrayContained, desc, eq, sql } from 'drizzle-orm';
+import { rulesService } from '../mtg/rules-service';
+import { RuleIndex, type RankedRule } from '../mtg/rule-index';
+import { Glossary } from '../mtg/glossary';
+import type { Card } from '@/types/card';
+
+const MAX_RELEVANT_RULES = 20;
+const MAX_PROMPT_CORRECTIONS = 5;
+const MAX_PROMPT_GLOSSARY_TERMS = 5;
+
+/**
+ * An approved correction, given to the model as authoritative for questions about its cards
+ */
+export interface ApprovedCorrection {
+  id: number;
+  question: string;
+  correction: string;
+}
+
+/**
+ * Where a ruling prompt's rules, glossary terms and approved corrections come from
+ */
+export interface KnowledgeSource {
+  name: string;
+  // The rules ranked for a question about these cards, best first
+  findRelevantRules(question: string, cards: Card[], limit: number): Promise<RankedRule[]>;
+  // The glossary terms the question mentions, most specific first
+  findGlossaryTerms(question: string, limit: number): Promise<GlossaryTerm[]>;
+  // Each approved correction whose cards are all among these, most recently approved first
+  findApprovedCorrections(cardIds: string[], limit: number): Promise<ApprovedCorrection[]>;
+}
+
+/**
+ * The rules and glossary tables and the judges' approved corrections
+ */
+export class DatabaseKnowledgeSource implements KnowledgeSource {
+  readonly name = 'database';
+
+  findRelevantRules(question: string, cards: Card[], limit: number): Promise<RankedRule[]> {
+    return rulesService.rankRules(question, cards, limit);
+  }
+
+  findGlossaryTerms(question: string, limit: number): Promise<GlossaryTerm[]> {
+    return rulesService.findGlossaryTerms(question, limit);
+  }
+
+  async findApprovedCorrections(cardIds: string[], limit: number): Promise<ApprovedCorrection[]> {
+    if (cardIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ id: rulingFeedback.id, question: rulingFeedback.question, correction: rulingFeedback.correction })
+      .from(rulingFeedback)
+      .where(and(
+        eq(rulingFeedback.status, 'approved'),
+        arrayContained(rulingFeedback.cardIds, cardIds),
+        sql`cardinality(${rulingFeedback.cardIds}) > 0`
+      ))
+      .orderBy(desc(rulingFeedback.reviewedAt))
+      .limit(limit);
+
+    return rows.flatMap(row => row.correction ? [{ id: row.id, question: row.question, correction: row.correction }] : []);
+  }
+}
+
+/**
+ * Rules, glossary terms and corrections held in memory, searched the way the database's are,
+ * e.g. the fixtures the offline evaluation runs against
+ */
+export class FixtureKnowledgeSource implements KnowledgeSource {
+  readonly name = 'fixtures';
+
+  private glossary: Glossary;
+  private index: RuleIndex;
+
+  constructor(
+    rules: Rule[],
+    glossary: GlossaryTerm[] = [],
+    private corrections: (ApprovedCorrection & { cardIds: string[] })[] = []
+  ) {
+    this.glossary = new Glossary(glossary);
+    this.index = new RuleIndex(rules, this.glossary);
+  }
+
+  async findRelevantRules(question: string, cards: Card[], limit: number): Promise<RankedRule[]> {
+    return this.index.search(question, cards, limit);
+  }
+
+  async findGlossaryTerms(question: string, limit: number): Promise<GlossaryTerm[]> {
+    return this.glossary.findMentions(question, limit);
+  }
+
+  async findApprovedCorrections(cardIds: string[], limit: number): Promise<ApprovedCorrection[]> {
+    return this.corrections
+      .filter(correction => correction.cardIds.length > 0 && correction.cardIds.every(id => cardIds.includes(id)))
+      .slice(0, limit)
+      .map(({ id, question, correction }) => ({ id, question, correction }));
+  }
+}
+
+/**
+ * The rules, glossary terms and judges' corrections a ruling prompt is given
+ */
+export class RulingKnowledge {
+  private static instance: RulingKnowledge;
+  private source: KnowledgeSource = new DatabaseKnowledgeSource();
+
+  private constructor() {}
+
+  public static getInstance(): RulingKnowledge {
+    if (!RulingKnowledge.instance) {
+      RulingKnowledge.instance = new RulingKnowledge();
+    }
+    return RulingKnowledge.instance;
+  }
+
+  /**
+   * Use a different source, e.g. fixtures for the offline evaluation
+   */
+  public setSource(source: KnowledgeSource): void {
+    this.source = source;
+  }
+
+  /**
+   * The rules most relevant to a question and its cards, best first. A search failure means no rules.
+   */
+  public async findRelevantRules(question: string, primaryCard: Card | null, additionalCards: Card[] = []): Promise<RankedRule[]> {
+    try {
+      const cards = primaryCard ? [primaryCard, ...additionalCards] : additionalCards;
+      const rankedRules = await this.source.findRelevantRules(question, cards, MAX_RELEVANT_RULES);
+      console.log(`Found ${rankedRules.length} relevant rules:`, rankedRules.map(ranked => `${ranked.rule.rule_number} (${ranked.score})`).join(', '));
+      return rankedRules;
+    } catch (error) {
+      console.error("Error finding relevant rules:", error);
+      return [];
+    }
+  }
+
+  /**
+   * What the glossary says the question's terms mean. A lookup failure just means no terms.
+   */
+  public async findGlossaryTerms(question: string): Promise<GlossaryTerm[]> {
+    try {
+      return await this.source.findGlossaryTerms(question, MAX_PROMPT_GLOSSARY_TERMS);
+    } catch (error) {
+      console.error("Error finding glossary terms:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Judge-approved corrections about the question's cards. A lookup failure just means none.
+   */
+  public async findApprovedCorrections(cardIds: string[]): Promise<ApprovedCorrection[]> {
+    try {
+      return await this.source.findApprovedCorrections(cardIds, MAX_PROMPT_CORRECTIONS);
+    } catch (error) {
+      console.error("Error finding approved corrections:", error);
+      return [];
+    }
+  }
+}
+
+export const rulingKnowledge = RulingKnowledge.getInstance();
@@ -1,9 +1,22 @@
 import { pool } from "./db";
-import { cards as cardsTable, type Card } from "@shared/schema";
-import { sql, eq, and, ilike, desc, asc } from "drizzle-orm";
+import {
+  cards as cardsTable,
+  cardHistory,
+  oracleCards,
+  printings as printingsTable,
+  sets as setsTable,
+  type Card,
+  type CardHistoryEntry,
+  type CardSet,
+  type OracleCard,
+  type Printing
+} from "@shared/schema";
+import type { Card as ApiCard } from "@/types/card";
+import { sql, eq, and, ilike, desc, asc, inArray, getTableColumns, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/neon-serverless";
 import * as schema from "@shared/schema";
 import { rarityRepairService } from "./mtg/rarity-repair";
+import { compileCardQuery, createTerm, type CardQueryNode, type CardQueryOptions } from "./mtg/card-query";
 
 // Database instance
 const db = drizzle(pool, { schema });
@@ -15,58 +28,56 @@ interface CardFilters {
   cmc?: string;
   format?: string;
   set?: string;
+  legalAsOf?: string; // YYYY-MM-DD date format legality is evaluated on; defaults to today
+}
+
+interface SetFilters {
+  type?: string;
+  block?: string;
+  query?: string; // Matches set name or code
+  year?: string;
+  topLevelOnly?: boolean; // Exclude child sets (promos, tokens, ...)
+  sort?: 'releaseDate' | 'name' | 'code' | 'cardCount';
+  order?: 'asc' | 'desc';
 }
 
 export interface IStorage {
-  // Card methods
-  storeCards(cards: Card[]): Promise<void>;
-  findCards(query: string, filters?: CardFilters): Promise<Card[]>;
-  getCard(id: string): Promise<Card | null>;
+  // Card methods - searches return one result per oracle card, with its printings attached
+  storeCards(cards: ApiCard[]): Promise<void>;
+  findCards(query: string, filters?: CardFilters): Promise<ApiCard[]>;
+  findCardsByQuery(query: CardQueryNode, limit?: number, options?: CardQueryOptions): Promise<ApiCard[]>;
+  getCard(id: string): Promise<ApiCard | null>;
+  // Errata and legality changes, newest first; null if the card is unknown
+  getCardHistory(id: string): Promise<{ oracleId: string; name: string; history: CardHistoryEntry[] } | null>;
   
   // Format legality queries
-  getCardsByFormat(format: string, page?: number, pageSize?: number): Promise<Card[]>;
-  getFormats(): Promise<string[]>;
+  getCardsByFormat(format: string, page?: number, pageSize?: number): Promise<ApiCard[]>;
   
   // Set queries
-  getSets(): Promise<string[]>;
+  getSets(filters?: SetFilters): Promise<CardSet[]>;
+  getSet(code: string): Promise<CardSet | null>;
+  getSetCards(code: string, page?: number, pageSize?: number): Promise<{ cards: ApiCard[]; total: number }>;
 }
 
 export class DatabaseStorage implements IStorage {
   constructor() {
-    this.initializeWithSampleCardsIfEmpty(false).catch(error => {
-      console.error("Error initializing storage:", error);
-    });
+    this.ensureSearchExtensions()
+      .then(() => this.initializeWithSampleCardsIfEmpty(false))
+      .catch(error => {
+        console.error("Error initializing storage:", error);
+      });
   }
 
-  // Helper to normalize card names, fixing malformed double-faced cards
-  private normalizeCardName(name: string): string {
-    if (!name) return name;
-    
-    // Handle malformed double-faced cards like "Marang River Regent // Coil and Catch // Marang River Regent"
-    if (name.includes('//')) {
-      const parts = name.split('//').map(part => part.trim());
-      
-      // If we have more than 2 parts and the first and last are the same, it's malformed
-      if (parts.length > 2 && parts[0] === parts[parts.length - 1]) {
-        // Return the correct format: "Front // Back"
-        return `${parts[0]} // ${parts[1]}`;
-      }
-      
-      // If we have exactly 2 parts, it's already correct
-      if (parts.length === 2) {
-        return `${parts[0]} // ${parts[1]}`;
-      }
-      
-      // If we have more than 2 parts but they're different, take first two
-      if (parts.length > 2) {
-        return `${parts[0]} // ${parts[1]}`;
-      }
+  // Card search relies on pg_trgm for typo-tolerant name matching
+  private async ensureSearchExtensions(): Promise<void> {
+    try {
+      await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    } catch (error) {
+      console.error("Could not enable pg_trgm extension:", error);
     }
-    
-    return name;
   }
 
-  async storeCards(cardsToStore: Card[]): Promise<void> {
+  async storeCards(cardsToStore: ApiCard[]): Promise<void> {
     try {
       // Let's handle batch insertion in chunks
       const chunkSize = 100;
@@ -162,343 +173,43 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async findCards(searchQuery: string, filters?: CardFilters): Promise<Card[]> {
+  async findCards(searchQuery: string, filters?: CardFilters): Promise<ApiCard[]> {
     console.log('Search filters:', filters);
     
     try {
+      const searchTerm = searchQuery ? searchQuery.trim() : '';
+      const filterQuery = this.filtersToQuery(filters);
+      
       // If no search criteria, return popular cards
-      if ((!searchQuery || searchQuery.trim() === '') && 
-          (!filters || Object.values(filters).every(value => !value || value === '' || value === ' '))) {
+      if (searchTerm === '' && !filterQuery) {
         console.log("No search query or filters, returning popular cards");
-        const results = await db.select().from(cardsTable).limit(20);
-        return results.map(card => this.dbCardToCard(card));
-      }
-
-      // For all cards including BLB rare talent cards, build a direct SQL query with all filters
-      const conditions = [];
-      
-      // Text search
-      if (searchQuery && searchQuery.trim() !== '') {
-        const searchTerm = searchQuery.toLowerCase().replace(/'/g, "''");
-        conditions.push(`(LOWER(name) LIKE '%${searchTerm}%' OR LOWER(COALESCE(text, '')) LIKE '%${searchTerm}%' OR LOWER(type) LIKE '%${searchTerm}%')`);
-      }
-      
-      // Color filter
-      if (filters?.color && filters.color.trim() !== '' && filters.color !== ' ') {
-        if (filters.color === 'Colorless') {
-          conditions.push(`(colors IS NULL OR array_length(colors, 1) IS NULL OR array_length(colors, 1) = 0)`);
-        } else if (filters.color === 'Multicolor') {
-          conditions.push(`(colors IS NOT NULL AND array_length(colors, 1) > 1)`);
-        } else {
-          // For specific colors, map to their code
-          let colorCode;
-          switch (filters.color.trim()) {
-            case 'White': colorCode = 'W'; break;
-            case 'Blue': colorCode = 'U'; break;
-            case 'Black': colorCode = 'B'; break;
-            case 'Red': colorCode = 'R'; break;
-            case 'Green': colorCode = 'G'; break;
-            default: colorCode = filters.color.charAt(0).toUpperCase();
-          }
-
-          // Use array contains for text array field - colors is a text[] in the schema
-          // This makes sure the card has the exact color, not just a substring
-          conditions.push(`'${colorCode}' = ANY(colors)`);
-        }
-      }
-      
-      // Type filter
-      if (filters?.type && filters.type.trim() !== '' && filters.type !== ' ') {
-        const typeValue = filters.type.trim().replace(/'/g, "''");
-        conditions.push(`(type ILIKE '%${typeValue}%' OR (types IS NOT NULL AND types::text ILIKE '%${typeValue}%'))`);
-      }
-      
-      // Rarity filter - case-insensitive exact match
-      if (filters?.rarity && filters.rarity.trim() !== '' && filters.rarity !== ' ') {
-        const rarityValue = filters.rarity.trim().replace(/'/g, "''");
-        
-        // Handle special case for BRO set which has missing rarity data
-        if (filters.set && filters.set.toUpperCase() === 'BRO') {
-          console.log("Special case handling for BRO set with missing rarity data");
-          // For BRO set, we'll skip rarity filtering since the data is missing
-        } else {
-          // Use LOWER on both sides for case-insensitive comparison
-          conditions.push(`(LOWER(COALESCE(rarity, '')) = LOWER('${rarityValue}'))`);
-        }
-      }
-      
-      // CMC filter - ensure proper numeric comparison
-      if (filters?.cmc && filters.cmc.trim() !== '' && filters.cmc !== ' ') {
-        if (filters.cmc === '7+') {
-          // Handle 7+ mana value
-          conditions.push(`(CAST(COALESCE(cmc, '0') AS NUMERIC) >= 7)`);
-        } else {
-          const cmcValue = parseFloat(filters.cmc);
-          if (!isNaN(cmcValue)) {
-            // CMC must strictly equal the specified value
-            conditions.push(`(CAST(COALESCE(cmc, '0') AS NUMERIC) = ${cmcValue})`);
-          }
-        }
-      }
-      
-      // Format filter
-      if (filters?.format && filters.format.trim() !== '' && filters.format !== ' ') {
-        const formatName = filters.format.trim().toLowerCase().replace(/'/g, "''");
-        conditions.push(`(
-          legalities IS NOT NULL AND 
-          (
-            legalities::text LIKE '%"${formatName}": "Legal"%' OR 
-            legalities::text LIKE '%"${formatName}":"Legal"%' OR
-            legalities::text LIKE '%"${formatName}": "Restricted"%' OR
-            legalities::text LIKE '%"${formatName}":"Restricted"%'
-          )
-        )`);
-      }
-      
-      // Set filter (various possible values)
-      if (filters?.set && filters.set.trim() !== '' && filters.set !== ' ') {
-        const setCode = filters.set.trim().toUpperCase();
-        
-        // Handle set code mappings and aliases
-        const setMappings: Record<string, string[]> = {
-          'FDN': ['M12', 'M10', 'M11', 'DOM', 'M15', 'AFR', 'MH2'],
-          'BLB': ['BLB'], // We'll handle BLB cards separately with our custom list
-          'DOM': ['DOM', 'DAR'],
-          'STX': ['STA', 'STX'],
-          'ZNR': ['ZNR', 'ZEN'],
-          'MID': ['MID', 'ISD'],
-          'VOW': ['VOW', 'ISD'],
-          'NEO': ['NEO', 'NEP']
-        };
-        
-        const setCodesForQuery = setMappings[setCode] || [setCode];
-        const setList = setCodesForQuery.map(s => `'${s}'`).join(',');
-        
-        // For BRO set, use exact match only (to avoid matching substrings like YBRO)
-        if (setCode === 'BRO') {
-          conditions.push(`(
-            (set IS NOT NULL AND UPPER(set) = 'BRO')
-            OR
-            (printings IS NOT NULL AND printings::text ILIKE '%"BRO"%')
-          )`);
-        } else {
-          conditions.push(`(
-            (set IS NOT NULL AND UPPER(set) IN (${setList}))
-            OR
-            (printings IS NOT NULL AND printings::text ILIKE '%${setCode}%')
-          )`);
-        }
+        return this.selectOracleCards(undefined, undefined, 20);
       }
       
-      // Build the complete query with all conditions
-      let queryString = "SELECT * FROM cards";
-      if (conditions.length > 0) {
-        queryString += ` WHERE ${conditions.join(' AND ')}`;
+      const conditions: SQL[] = [];
+      if (searchTerm !== '') {
+        conditions.push(this.textSearchCondition(searchTerm));
       }
-      // Add smart ordering to prioritize exact matches and basic lands
-      if (searchQuery && searchQuery.trim() !== '') {
-        const searchTerm = searchQuery.toLowerCase().replace(/'/g, "''");
-        queryString += ` ORDER BY 
-          CASE WHEN LOWER(name) = '${searchTerm}' THEN 0 ELSE 1 END,
-          CASE WHEN LOWER(type) LIKE '%basic land%' AND LOWER(name) = '${searchTerm}' THEN 0 ELSE 1 END,
-          name ASC LIMIT 100`;
-      } else {
-        queryString += " ORDER BY name ASC LIMIT 100";
+      if (filterQuery) {
+        conditions.push(compileCardQuery(filterQuery, { legalAsOf: filters?.legalAsOf }));
       }
-
-      console.log("Executing card search query:", queryString);
-      
-      // Execute raw SQL 
-      const results = await db.execute(sql.raw(queryString));
-      
-      // No special handling for BLB cards anymore - let the database handle it
-      // All set filtering should use the consistent database query approach
       
-      console.log(`Found ${results.rowCount || 0} cards matching criteria`);
+      // One row per oracle card, ranked by relevance when searching by text
+      const cards = await this.selectOracleCards(and(...conditions), searchTerm || undefined, 100);
+      console.log(`Found ${cards.length} cards matching criteria`);
       
-      // If no results with filters, let's return some cards that match at least one of the filters
-      if (!results.rowCount || results.rowCount === 0) {
-        
-        // If we have a color filter, try to find cards of that color only
-        if (filters?.color && filters.color.trim() !== '' && filters.color !== ' ') {
-          // For special color cases or map to color code
-          let colorCondition;
-          const color = filters.color.trim();
-          
-          if (color === 'Colorless') {
-            colorCondition = `(colors IS NULL OR array_length(colors, 1) IS NULL OR array_length(colors, 1) = 0)`;
-          } else if (color === 'Multicolor') {
-            colorCondition = `(colors IS NOT NULL AND array_length(colors, 1) > 1)`;
-          } else {
-            // For specific colors, map to their code
-            let colorCode;
-            switch (color) {
-              case 'White': colorCode = 'W'; break;
-              case 'Blue': colorCode = 'U'; break;
-              case 'Black': colorCode = 'B'; break;
-              case 'Red': colorCode = 'R'; break;
-              case 'Green': colorCode = 'G'; break;
-              default: colorCode = color.charAt(0).toUpperCase();
-            }
-            
-            colorCondition = `'${colorCode}' = ANY(colors)`;
-          }
-          
-          const colorOnlyQuery = `
-            SELECT * FROM cards 
-            WHERE ${colorCondition}
-            ORDER BY name ASC 
-            LIMIT 20
-          `;
-          console.log("No results with all filters. Trying color-only query:", colorOnlyQuery);
-          
-          try {
-            const colorResults = await db.execute(sql.raw(colorOnlyQuery));
-            
-            if (colorResults.rowCount && colorResults.rowCount > 0) {
-              console.log(`Found ${colorResults.rowCount} cards with color filter only`);
-              return colorResults.rows.map((row: any) => this.improveCardData(this.dbCardToCard(row)));
-            }
-          } catch (error) {
-            console.error("Error in color-only query:", error);
-          }
-        }
-        
-        // If we have a set filter, try to find cards from that set only
-        if (filters?.set && filters.set.trim() !== '' && filters.set !== ' ') {
-          // Special handling for BRO set due to substring matching issues
-          if (filters.set.toUpperCase() === 'BRO') {
-            // Use exact match for BRO to avoid matching YBRO, etc.
-            let broCondition = `(
-              (set IS NOT NULL AND UPPER(set) = 'BRO')
-            )`;
-            
-            let setQueryConditions = [broCondition];
-            
-            // For BRO, skip the rarity filter since the data is missing
-            console.log("Using special BRO exact match query");
-            
-            const setOnlyQuery = `
-              SELECT * FROM cards 
-              WHERE ${setQueryConditions.join(' AND ')} 
-              ORDER BY name ASC 
-              LIMIT 20
-            `;
-            console.log("Trying BRO-only query:", setOnlyQuery);
-            
-            try {
-              const setResults = await db.execute(sql.raw(setOnlyQuery));
-              
-              if (setResults.rowCount && setResults.rowCount > 0) {
-                console.log(`Found ${setResults.rowCount} cards with BRO set only`);
-                return setResults.rows.map((row: any) => this.improveCardData(this.dbCardToCard(row)));
-              }
-            } catch (error) {
-              console.error("Error in BRO-only query:", error);
-            }
-          } else {
-            // Standard handling for other sets
-            // Find the index of the set condition
-            const setConditionIndex = conditions.findIndex(c => c.includes('set IN') || c.includes('printings::text'));
-            
-            if (setConditionIndex >= 0) {
-              // Apply set filter and if rarity filter exists, apply it too
-              let setQueryConditions = [conditions[setConditionIndex]];
-            
-              // Add rarity filter if it exists (except for BRO set)
-              if (filters.rarity && filters.rarity.trim() !== '') {
-                // Special case for BRO set which has no rarity data
-                if (filters.set && filters.set.toUpperCase() === 'BRO') {
-                  console.log("Skipping rarity filter for BRO set in fallback query");
-                } else {
-                  const rarityValue = filters.rarity.trim().replace(/'/g, "''");
-                  setQueryConditions.push(`(LOWER(COALESCE(rarity, '')) = LOWER('${rarityValue}'))`);
-                }
-              }
-              
-              const setOnlyQuery = `
-                SELECT * FROM cards 
-                WHERE ${setQueryConditions.join(' AND ')} 
-                ORDER BY name ASC 
-                LIMIT 20
-              `;
-              console.log("Trying set-only query:", setOnlyQuery);
-              
-              try {
-                const setResults = await db.execute(sql.raw(setOnlyQuery));
-                
-                if (setResults.rowCount && setResults.rowCount > 0) {
-                  console.log(`Found ${setResults.rowCount} cards with set filter only`);
-                  return setResults.rows.map((row: any) => this.improveCardData(this.dbCardToCard(row)));
-                }
-              } catch (error) {
-                console.error("Error in set-only query:", error);
-              }
-            }
-          }
-        }
-        
-        // If we have a search query and format filter but found no results, return empty array
-        // Don't fall back to popular cards when user is specifically searching for something
-        if (searchQuery && searchQuery.trim() !== '' && filters?.format) {
-          console.log("No results found for search query with format filter, returning empty array");
-          return [];
-        }
-        
-        // Fall back to popular cards only when no specific search query is provided
+      // Fall back to popular cards only when no specific search query is provided
+      if (cards.length === 0 && searchTerm === '') {
         console.log("No results with any filters, returning popular cards");
-        const popularResults = await db.select().from(cardsTable).limit(20);
-        return popularResults.map(card => this.improveCardData(this.dbCardToCard(card)));
+        return this.selectOracleCards(undefined, undefined, 20);
       }
       
-      // Process the results if we found cards matching all filters
-      let cards = results.rows.map((row: any) => {
-        const card = this.dbCardToCard(row);
-        return this.improveCardData(card);
-      });
-      
-      // Deduplicate cards by normalized name to handle malformed double-faced cards
-      const cardsByName = new Map<string, Card>();
-      
-      for (const card of cards) {
-        // Normalize card name to handle malformed double-faced cards
-        const normalizedName = this.normalizeCardName(card.name);
-        const existingCard = cardsByName.get(normalizedName);
-        
-        if (!existingCard) {
-          // First time seeing this normalized card name
-          // Use the better formatted version of the name
-          const betterCard = { ...card, name: normalizedName };
-          cardsByName.set(normalizedName, betterCard);
-        } else {
-          // Merge with existing card, keeping the most complete information
-          const mergedCard = this.mergeCardData(existingCard, card);
-          // Ensure we use the normalized name
-          mergedCard.name = normalizedName;
-          cardsByName.set(normalizedName, mergedCard);
-        }
-      }
-      
-      // Convert map back to array
-      cards = Array.from(cardsByName.values());
-      
       // Check for any rarity issues if we are filtering by rarity
       if (filters?.rarity && cards.length > 0) {
         // Asynchronously start validating rarities (don't wait for it)
         this.validateCardRarities(cards);
       }
       
-      // Log if we found exact matches
-      if (searchQuery && searchQuery.trim() !== '') {
-        const exactMatch = cards.find(card => 
-          card.name.toLowerCase() === searchQuery.trim().toLowerCase()
-        );
-        
-        if (exactMatch) {
-          console.log(`Found exact match: ${exactMatch.name} (ID: ${exactMatch.id})`);
-        }
-      }
-      
       return cards;
     } catch (error) {
       console.error("Error searching for cards:", error);
@@ -506,8 +217,199 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  /**
+   * Find cards matching a parsed query-language AST (see mtg/card-query.ts)
+   */
+  async findCardsByQuery(query: CardQueryNode, limit: number = 100, options: CardQueryOptions = {}): Promise<ApiCard[]> {
+    return this.selectOracleCards(compileCardQuery(query, options), undefined, limit);
+  }
+  
+  // Convert the simple search filters into query-language terms
+  private filtersToQuery(filters?: CardFilters): CardQueryNode | null {
+    const present = (value?: string) => !!value && value.trim() !== '';
+    const terms: CardQueryNode[] = [];
+    
+    if (filters && present(filters.color)) {
+      const color = filters.color!.trim();
+      if (color === 'Colorless') {
+        terms.push(createTerm('color', ':', 'c'));
+      } else if (color === 'Multicolor') {
+        terms.push(createTerm('color', ':', 'm'));
+      } else {
+        terms.push(createTerm('color', ':', color.toLowerCase()));
+      }
+    }
+    
+    if (filters && present(filters.type)) {
+      terms.push(createTerm('type', ':', filters.type!.trim()));
+    }
+    
+    if (filters && present(filters.rarity)) {
+      terms.push(createTerm('rarity', '=', filters.rarity!.trim().toLowerCase()));
+    }
+    
+    if (filters && present(filters.cmc)) {
+      // "7+" is the UI's bucket for seven or more
+      terms.push(filters.cmc === '7+'
+        ? createTerm('cmc', '>=', '7')
+        : createTerm('cmc', '=', filters.cmc!.trim()));
+    }
+    
+    if (filters && present(filters.format)) {
+      terms.push(createTerm('format', ':', filters.format!.trim()));
+    }
+    
+    if (filters && present(filters.set)) {
+      terms.push(createTerm('set', ':', filters.set!.trim()));
+    }
+    
+    if (terms.length === 0) return null;
+    return terms.length === 1 ? terms[0] : { kind: 'and', children: terms };
+  }
+  
+  // Full-text match on name/type/oracle text, or a fuzzy (trigram) name match.
+  // ILIKE on the bare column, so the name's trigram index serves it too.
+  private textSearchCondition(searchTerm: string): SQL {
+    const likeTerm = `%${searchTerm.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+    
+    return sql`(
+      ${oracleCards.searchVector} @@ websearch_to_tsquery('english', ${searchTerm}) OR
+      ${oracleCards.name} % ${searchTerm} OR
+      ${oracleCards.name} ILIKE ${likeTerm}
+    )`;
+  }
+  
+  /**
+   * Relevance score for a text search. Exact and whole-word name matches dominate,
+   * then name prefixes, trigram similarity (typo tolerance) and the weighted
+   * full-text rank over name, type line and oracle text.
+   */
+  private relevanceScoreSql(searchTerm: string): SQL<number> {
+    const lowerTerm = searchTerm.toLowerCase();
+    const prefixTerm = `${lowerTerm.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${searchTerm})`;
+    
+    return sql<number>`(
+      CASE WHEN LOWER(${oracleCards.name}) = ${lowerTerm} THEN 10 ELSE 0 END +
+      CASE WHEN to_tsvector('english', ${oracleCards.name}) @@ ${tsQuery} THEN 3 ELSE 0 END +
+      CASE WHEN LOWER(${oracleCards.name}) LIKE ${prefixTerm} THEN 1 ELSE 0 END +
+      similarity(${oracleCards.name}, ${searchTerm}) * 2 +
+      ts_rank(${oracleCards.searchVector}, ${tsQuery})
+    )`;
+  }
+  
+  /**
+   * Select oracle cards with their printings attached. When a search term is
+   * given, results are ordered by relevance and carry a score.
+   */
+  private async selectOracleCards(
+    where: SQL | undefined,
+    searchTerm: string | undefined,
+    limit: number,
+    offset: number = 0
+  ): Promise<ApiCard[]> {
+    // The search vector is only needed inside the query, not in the results
+    const { searchVector, ...columns } = getTableColumns(oracleCards);
+    const score = searchTerm ? this.relevanceScoreSql(searchTerm) : sql<number>`0`;
+    
+    const rows = await db
+      .select({ ...columns, score: score.as('score') })
+      .from(oracleCards)
+      .where(where)
+      .orderBy(...(searchTerm ? [desc(sql`score`), asc(oracleCards.name)] : [asc(oracleCards.name)]))
+      .limit(limit)
+      .offset(offset);
+    
+    const printingsByOracleId = await this.getPrintingsForOracleCards(rows.map(row => row.id));
+    
+    return rows.map(({ score: rowScore, ...oracleCard }) => {
+      const card = this.oracleCardToCard(oracleCard, printingsByOracleId.get(oracleCard.id) || []);
+      if (searchTerm) {
+        card.score = Number(rowScore);
+      }
+      return card;
+    });
+  }
+  
+  // Load printings for a batch of oracle cards, newest first
+  private async getPrintingsForOracleCards(oracleIds: string[]): Promise<Map<string, Printing[]>> {
+    const printingsByOracleId = new Map<string, Printing[]>();
+    if (oracleIds.length === 0) return printingsByOracleId;
+    
+    const rows = await db
+      .select()
+      .from(printingsTable)
+      .where(inArray(printingsTable.oracleId, oracleIds))
+      .orderBy(desc(printingsTable.releaseDate), asc(printingsTable.set), asc(printingsTable.number));
+    
+    for (const printing of rows) {
+      const list = printingsByOracleId.get(printing.oracleId) || [];
+      list.push(printing);
+      printingsByOracleId.set(printing.oracleId, list);
+    }
+    
+    return printingsByOracleId;
+  }
+  
+  // Build the API card shape from an oracle card and its printings
+  private oracleCardToCard(
+    oracleCard: Omit<OracleCard, 'searchVector'>,
+    cardPrintings: Printing[],
+    preferredPrintingId?: string
+  ): ApiCard {
+    // Show the requested printing, otherwise the newest printing that has an image
+    const primary = cardPrintings.find(printing => printing.id === preferredPrintingId)
+      || cardPrintings.find(printing => printing.imageUrl)
+      || cardPrintings[0];
+    const frontFaceName = oracleCard.name.split('//')[0].trim();
+    const cmc = oracleCard.cmc !== null ? parseFloat(oracleCard.cmc) : NaN;
+    
+    return {
+      id: primary?.cardId || primary?.id || oracleCard.id,
+      oracleId: oracleCard.id,
+      printingId: primary?.id,
+      name: oracleCard.name,
+      manaCost: oracleCard.manaCost ?? undefined,
+      cmc: isNaN(cmc) ? undefined : cmc,
+      colors: oracleCard.colors ?? [],
+      colorIdentity: oracleCard.colorIdentity ?? [],
+      type: oracleCard.type,
+      supertypes: oracleCard.supertypes ?? [],
+      types: oracleCard.types ?? [],
+      subtypes: oracleCard.subtypes ?? [],
+      rarity: primary?.rarity ?? undefined,
+      set: primary?.set,
+      setName: primary?.setName ?? undefined,
+      text: oracleCard.text ?? undefined,
+      flavor: primary?.flavor ?? undefined,
+      artist: primary?.artist ?? undefined,
+      number: primary?.number ?? undefined,
+      power: oracleCard.power ?? undefined,
+      toughness: oracleCard.toughness ?? undefined,
+      loyalty: oracleCard.loyalty ?? undefined,
+      layout: oracleCard.layout ?? undefined,
+      multiverseid: primary?.multiverseid ?? undefined,
+      imageUrl: primary?.imageUrl
+        || `https://api.scryfall.com/cards/named?exact=${encodeURIComponent(frontFaceName)}&format=image&version=large`,
+      rulings: (oracleCard.rulings as ApiCard['rulings']) ?? [],
+      legalities: (oracleCard.legalities as ApiCard['legalities']) ?? {},
+      printings: Array.from(new Set(cardPrintings.map(printing => printing.set))),
+      prints: cardPrintings.map(printing => ({
+        id: printing.id,
+        cardId: printing.cardId ?? undefined,
+        set: printing.set,
+        setName: printing.setName ?? undefined,
+        number: printing.number ?? undefined,
+        artist: printing.artist ?? undefined,
+        rarity: printing.rarity ?? undefined,
+        imageUrl: printing.imageUrl ?? undefined,
+        releaseDate: printing.releaseDate ?? undefined,
+      })),
+    };
+  }
+  
   // Helper to improve card data with missing fields
-  private improveCardData(card: Card): Card {
+  private improveCardData(card: ApiCard): ApiCard {
     // Ensure image URL is set, especially fixing double-faced cards
     if (!card.imageUrl || 
         card.imageUrl.includes('gatherer.wizards.com') || 
@@ -548,217 +450,213 @@ export class DatabaseStorage implements IStorage {
     return card;
   }
   
-  // Helper to merge two cards, keeping the most complete information
-  private mergeCardData(card1: Card, card2: Card): Card {
-    // Create a new object to avoid mutating the inputs
-    const mergedCard: Card = { ...card1 };
-    
-    // Prefer the card with the most recent set if available
-    // This is a simple heuristic - newer sets generally have more up-to-date card info
-    const sets = ['TDM', 'PTDM', 'MOM', 'MKM', 'LTR', 'ONE', 'MUL', 'BRO', 'DMU', 'SNC', 'NEO', 'VOW', 'MID', 'AFR', 'STX', 'KHM', 'ZNR', 'IKO', 'THB', 'ELD', 'MH2', 'MH1'];
-    
-    const set1Index = card1.set ? sets.indexOf(card1.set) : -1;
-    const set2Index = card2.set ? sets.indexOf(card2.set) : -1;
-    
-    // If card2 is from a newer set (lower index in our array), prefer it as the base
-    const newerCard = (set1Index === -1 || (set2Index !== -1 && set2Index < set1Index)) ? card2 : card1;
-    const olderCard = newerCard === card1 ? card2 : card1;
-    
-    // Fields that we always prefer from the newer card
-    mergedCard.id = newerCard.id;
-    mergedCard.set = newerCard.set;
-    mergedCard.setName = newerCard.setName;
-    mergedCard.rarity = newerCard.rarity;
-    mergedCard.number = newerCard.number;
-    
-    // For each field, prefer the non-null value
-    // Start with text fields
-    mergedCard.text = newerCard.text || olderCard.text;
-    mergedCard.flavor = newerCard.flavor || olderCard.flavor;
-    mergedCard.manaCost = newerCard.manaCost || olderCard.manaCost;
-    mergedCard.type = newerCard.type || olderCard.type;
-    
-    // Prefer better image URLs (avoid placeholder URLs)
-    if (newerCard.imageUrl && 
-        !newerCard.imageUrl.includes('gatherer.wizards.com') && 
-        !newerCard.imageUrl.includes('0000000-0000-0000-0000')) {
-      mergedCard.imageUrl = newerCard.imageUrl;
-    } else if (olderCard.imageUrl && 
-               !olderCard.imageUrl.includes('gatherer.wizards.com') && 
-               !olderCard.imageUrl.includes('0000000-0000-0000-0000')) {
-      mergedCard.imageUrl = olderCard.imageUrl;
+  async getCard(id: string): Promise<ApiCard | null> {
+    try {
+      const result = await db.execute(sql`SELECT * FROM cards WHERE id = ${id}`);
+        
+      if (result.rows.length > 0) {
+        const card = this.dbCardToCard(result.rows[0]);
+        return this.improveCardData(card);
+      }
+      
+      // Otherwise the id may be a printing (MTGJSON uuid) or an oracle id
+      return this.getOracleCardByPrintingOrOracleId(id);
+    } catch (error) {
+      console.error(`Error getting card with id ${id}:`, error);
+      return null;
     }
-    
-    // For arrays, prefer non-empty arrays
-    mergedCard.colors = (newerCard.colors && newerCard.colors.length > 0) ? newerCard.colors : 
-                         (olderCard.colors && olderCard.colors.length > 0) ? olderCard.colors : [];
-                         
-    mergedCard.colorIdentity = (newerCard.colorIdentity && newerCard.colorIdentity.length > 0) ? newerCard.colorIdentity : 
-                               (olderCard.colorIdentity && olderCard.colorIdentity.length > 0) ? olderCard.colorIdentity : [];
-    
-    mergedCard.supertypes = (newerCard.supertypes && newerCard.supertypes.length > 0) ? newerCard.supertypes : 
-                            (olderCard.supertypes && olderCard.supertypes.length > 0) ? olderCard.supertypes : [];
-                            
-    mergedCard.types = (newerCard.types && newerCard.types.length > 0) ? newerCard.types : 
-                       (olderCard.types && olderCard.types.length > 0) ? olderCard.types : [];
-                       
-    mergedCard.subtypes = (newerCard.subtypes && newerCard.subtypes.length > 0) ? newerCard.subtypes : 
-                          (olderCard.subtypes && olderCard.subtypes.length > 0) ? olderCard.subtypes : [];
-    
-    // For objects like legalities, combine them
-    mergedCard.legalities = { ...olderCard.legalities, ...newerCard.legalities };
-    
-    // For CMC, use the calculated value or prefer the non-null value
-    mergedCard.cmc = newerCard.cmc || olderCard.cmc;
-    
-    // For card attributes specific to creatures/planeswalkers
-    mergedCard.power = newerCard.power || olderCard.power;
-    mergedCard.toughness = newerCard.toughness || olderCard.toughness;
-    mergedCard.loyalty = newerCard.loyalty || olderCard.loyalty;
-    
-    // Improve the merged card data
-    return this.improveCardData(mergedCard);
   }
   
-  async getCard(id: string): Promise<Card | null> {
+  async getCardHistory(id: string): Promise<{ oracleId: string; name: string; history: CardHistoryEntry[] } | null> {
     try {
-      const result = await db
+      // Card ids may be oracle ids, printing ids or legacy "name-set" ids
+      const [printing] = await db
+        .select({ oracleId: printingsTable.oracleId })
+        .from(printingsTable)
+        .where(sql`${printingsTable.id} = ${id} OR ${printingsTable.cardId} = ${id}`)
+        .limit(1);
+      const oracleId = printing ? printing.oracleId : id;
+      
+      const [oracleCard] = await db
+        .select({ id: oracleCards.id, name: oracleCards.name })
+        .from(oracleCards)
+        .where(eq(oracleCards.id, oracleId))
+        .limit(1);
+      
+      const history = await db
         .select()
-        .from(cardsTable)
-        .where(eq(cardsTable.id, id));
-        
-      if (result.length > 0) {
-        const card = this.dbCardToCard(result[0]);
-        return this.improveCardData(card);
+        .from(cardHistory)
+        .where(eq(cardHistory.oracleId, oracleId))
+        .orderBy(desc(cardHistory.changedAt), asc(cardHistory.id));
+      
+      // Removed cards have no oracle row but may still have history
+      if (!oracleCard && history.length === 0) {
+        return null;
       }
       
-      return null;
+      return { oracleId, name: oracleCard?.name ?? oracleId, history };
     } catch (error) {
-      console.error(`Error getting card with id ${id}:`, error);
+      console.error(`Error getting history for card ${id}:`, error);
       return null;
     }
   }
   
+  // Resolve a printing id or oracle id to a card with all of its printings
+  private async getOracleCardByPrintingOrOracleId(id: string): Promise<ApiCard | null> {
+    const [printing] = await db
+      .select()
+      .from(printingsTable)
+      .where(eq(printingsTable.id, id))
+      .limit(1);
+    const oracleId = printing ? printing.oracleId : id;
+    
+    const { searchVector, ...columns } = getTableColumns(oracleCards);
+    const [oracleCard] = await db
+      .select(columns)
+      .from(oracleCards)
+      .where(eq(oracleCards.id, oracleId))
+      .limit(1);
+    
+    if (!oracleCard) return null;
+    
+    const printingsByOracleId = await this.getPrintingsForOracleCards([oracleId]);
+    return this.oracleCardToCard(oracleCard, printingsByOracleId.get(oracleId) || [], printing?.id);
+  }
+  
   // Get cards legal in a specific format
-  async getCardsByFormat(format: string, page: number = 1, pageSize: number = 20): Promise<Card[]> {
+  async getCardsByFormat(format: string, page: number = 1, pageSize: number = 20): Promise<ApiCard[]> {
     try {
       const offset = (page - 1) * pageSize;
       
       // Skip processing if format is empty or just a space
       if (!format || format.trim() === '' || format === ' ') {
         console.log("Empty format parameter, returning popular cards");
-        const results = await db.select().from(cardsTable).limit(20);
-        return results.map(card => this.improveCardData(this.dbCardToCard(card)));
+        return this.selectOracleCards(undefined, undefined, 20);
       }
       
-      // Standardize format name (e.g., standard, pioneer, modern)
-      const formatName = format.toLowerCase();
-      console.log(`Getting cards for format: ${formatName}`);
-      
-      // Query using the JSONB format of legalities
-      // Safe SQL query for format
-      const query = `
-        SELECT * FROM cards 
-        WHERE legalities IS NOT NULL 
-        AND (
-          legalities::text LIKE '%"${formatName.replace(/'/g, "''")}": "Legal"%' OR 
-          legalities::text LIKE '%"${formatName.replace(/'/g, "''")}":"Legal"%' OR
-          legalities::text LIKE '%"${formatName.replace(/'/g, "''")}": "Restricted"%' OR
-          legalities::text LIKE '%"${formatName.replace(/'/g, "''")}":"Restricted"%'
-        )
-        ORDER BY name ASC
-        LIMIT ${pageSize} OFFSET ${offset}
-      `;
+      console.log(`Getting cards for format: ${format}`);
       
-      const results = await db.execute(sql.raw(query));
+      const formatQuery = createTerm('format', ':', format.trim());
+      const cards = await this.selectOracleCards(compileCardQuery(formatQuery), undefined, pageSize, offset);
       
       // Check if any cards were found
-      if (results.rowCount === 0) {
-        console.log(`No cards found for format: ${formatName}, returning popular cards`);
-        const popularResults = await db.select().from(cardsTable).limit(20);
-        return popularResults.map(card => this.improveCardData(this.dbCardToCard(card)));
+      if (cards.length === 0) {
+        console.log(`No cards found for format: ${format}, returning popular cards`);
+        return this.selectOracleCards(undefined, undefined, 20);
       }
       
-      // Process the cards from the format query with improved handling
-      return results.rows.map((row: any) => this.improveCardData(this.dbCardToCard(row)));
+      return cards;
     } catch (error) {
       console.error(`Error getting cards for format ${format}:`, error);
       return [];
     }
   }
   
-  // Get all available formats from the database
-  async getFormats(): Promise<string[]> {
+  // Get all available sets from the database
+  async getSets(filters?: SetFilters): Promise<CardSet[]> {
     try {
-      // Use a raw SQL query to get cards with legalities
-      const query = `
-        SELECT * FROM cards 
-        WHERE legalities IS NOT NULL 
-        AND legalities::text != '{}' 
-        AND legalities::text != 'null'
-        LIMIT 50
-      `;
-      
-      const result = await db.execute(sql.raw(query));
-      const cards = result.rows;
-      
-      // Extract all format names from the legalities objects
-      const formatSet = new Set<string>();
-      
-      for (const card of cards) {
-        // Parse the legalities JSON if it exists
-        if (card.legalities) {
-          let legalities: Record<string, string> = {};
-          
-          // Handle both string and object formats
-          if (typeof card.legalities === 'string') {
-            try {
-              legalities = JSON.parse(card.legalities);
-            } catch (e) {
-              console.warn("Failed to parse legalities JSON:", e);
-              continue;
-            }
-          } else if (card.legalities && typeof card.legalities === 'object') {
-            legalities = card.legalities as Record<string, string>;
-          }
-          
-          // Add all format names to the set
-          Object.keys(legalities).forEach(format => formatSet.add(format));
-        }
+      const conditions: SQL[] = [];
+      
+      if (filters?.type) {
+        conditions.push(eq(setsTable.type, filters.type));
       }
+      if (filters?.block) {
+        conditions.push(ilike(setsTable.block, filters.block));
+      }
+      if (filters?.query) {
+        const likeQuery = `%${filters.query.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+        conditions.push(sql`(${setsTable.name} ILIKE ${likeQuery} OR ${setsTable.code} ILIKE ${likeQuery})`);
+      }
+      if (filters?.year) {
+        conditions.push(sql`LEFT(${setsTable.releaseDate}, 4) = ${filters.year}`);
+      }
+      if (filters?.topLevelOnly) {
+        conditions.push(sql`${setsTable.parentCode} IS NULL`);
+      }
+      
+      const sortColumns = {
+        releaseDate: setsTable.releaseDate,
+        name: setsTable.name,
+        code: setsTable.code,
+        cardCount: setsTable.cardCount,
+      };
+      const sortColumn = sortColumns[filters?.sort || 'releaseDate'];
+      // Newest sets first unless asked otherwise
+      const direction = filters?.order || (filters?.sort && filters.sort !== 'releaseDate' ? 'asc' : 'desc');
+      
+      const sets = await db
+        .select()
+        .from(setsTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(direction === 'asc' ? sql`${sortColumn} ASC NULLS LAST` : sql`${sortColumn} DESC NULLS LAST`, asc(setsTable.code));
       
-      // Convert set to sorted array
-      return Array.from(formatSet).sort();
+      console.log(`Found ${sets.length} sets in the database`);
+      return sets;
     } catch (error) {
-      console.error("Error getting formats:", error);
+      console.error("Error getting sets:", error);
       return [];
     }
   }
   
-  // Get all available sets from the database
-  async getSets(): Promise<string[]> {
+  async getSet(code: string): Promise<CardSet | null> {
     try {
-      // Find all unique set codes
-      const query = `SELECT DISTINCT set FROM cards WHERE set IS NOT NULL AND set != ''`;
-      const result = await db.execute(sql.raw(query));
+      const [set] = await db
+        .select()
+        .from(setsTable)
+        .where(sql`UPPER(${setsTable.code}) = ${code.toUpperCase()}`)
+        .limit(1);
       
-      console.log(`Found ${result.rowCount} unique sets in the database`);
+      return set || null;
+    } catch (error) {
+      console.error(`Error getting set ${code}:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Printings in a set, ordered by collector number (numeric part first, so 2 < 10 < 10a)
+   */
+  async getSetCards(code: string, page: number = 1, pageSize: number = 60): Promise<{ cards: ApiCard[]; total: number }> {
+    try {
+      const inSet = sql`UPPER(${printingsTable.set}) = ${code.toUpperCase()}`;
+      const { searchVector, ...columns } = getTableColumns(oracleCards);
+      
+      const [countResult] = await db
+        .select({ count: sql<number>`COUNT(*)` })
+        .from(printingsTable)
+        .where(inSet);
+      
+      const rows = await db
+        .select({ printingId: printingsTable.id, oracleCard: columns })
+        .from(printingsTable)
+        .innerJoin(oracleCards, eq(printingsTable.oracleId, oracleCards.id))
+        .where(inSet)
+        .orderBy(
+          sql`NULLIF(regexp_replace(${printingsTable.number}, '[^0-9]', '', 'g'), '')::int NULLS LAST`,
+          asc(printingsTable.number)
+        )
+        .limit(pageSize)
+        .offset((page - 1) * pageSize);
       
-      // Extract and sort set codes
-      const sets = result.rows
-        .map((row: any) => row.set)
-        .filter((set: string) => set && set.trim() !== '')
-        .sort();
+      const printingsByOracleId = await this.getPrintingsForOracleCards(
+        Array.from(new Set(rows.map(row => row.oracleCard.id)))
+      );
       
-      return sets;
+      const cards = rows.map(row => this.oracleCardToCard(
+        row.oracleCard,
+        printingsByOracleId.get(row.oracleCard.id) || [],
+        row.printingId
+      ));
+      
+      return { cards, total: Number(countResult?.count || 0) };
     } catch (error) {
-      console.error("Error getting sets:", error);
-      return [];
+      console.error(`Error getting cards for set ${code}:`, error);
+      return { cards: [], total: 0 };
     }
   }
   
   // Convert database card to the Card type
-  private dbCardToCard(dbCard: any): Card {
+  private dbCardToCard(dbCard: any): ApiCard {
     // Convert cmc to number if possible
     let cmc: number | undefined = undefined;
     if (dbCard.cmc !== undefined && dbCard.cmc !== null) {
@@ -828,7 +726,7 @@ export class DatabaseStorage implements IStorage {
    * Validate and fix card rarities using the rarity repair service
    * This is an asynchronous operation that runs in the background
    */
-  private async validateCardRarities(cards: Card[]): Promise<void> {
+  private async validateCardRarities(cards: ApiCard[]): Promise<void> {
     try {
       // Initialize the rarity repair service if it hasn't been already
       await rarityRepairService.initialize();
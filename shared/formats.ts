@@ -0,0 +1,111 @@
+// Format registry shared by the server, the client and the AI prompts. Deck sizes
+// count the command zone, so a Commander deck is 100 cards including its commander.
+
+export type FormatCategory = 'constructed' | 'commander' | 'limited';
+
+export interface CommanderRules {
+  allowPlaneswalkers: boolean; // Legendary planeswalkers may lead the deck (Brawl)
+  requiresLegendary: boolean; // False when any creature may lead the deck (Pauper Commander)
+  signatureSpell: boolean; // The deck is led by a planeswalker plus an instant or sorcery (Oathbreaker)
+}
+
+export interface FormatDefinition {
+  id: string; // Stable key used in URLs and saved settings
+  name: string; // Display name, as saved decks store it
+  legalityKey: string | null; // MTGJSON legality key; null when any card may be played (Limited)
+  category: FormatCategory;
+  description: string;
+  minDeckSize: number;
+  maxDeckSize: number | null; // Equal to minDeckSize for exact-size formats; null for no limit
+  maxCopies: number | null; // Copies of a card across deck and sideboard; null for no limit
+  maxSideboard: number | null; // 0 when the format has no sideboard; null for no limit
+  commander: CommanderRules | null;
+}
+
+const CONSTRUCTED = { category: 'constructed', minDeckSize: 60, maxDeckSize: null, maxCopies: 4, maxSideboard: 15, commander: null } as const;
+const COMMANDER_RULES: CommanderRules = { allowPlaneswalkers: false, requiresLegendary: true, signatureSpell: false };
+const BRAWL_RULES: CommanderRules = { allowPlaneswalkers: true, requiresLegendary: true, signatureSpell: false };
+
+// In display order: the popular paper formats first, then Arena, then the rest
+export const FORMATS: readonly FormatDefinition[] = [
+  { ...CONSTRUCTED, id: 'standard', name: 'Standard', legalityKey: 'standard', description: 'Cards from the most recent sets' },
+  { ...CONSTRUCTED, id: 'pioneer', name: 'Pioneer', legalityKey: 'pioneer', description: 'Cards from Return to Theros onwards' },
+  { ...CONSTRUCTED, id: 'modern', name: 'Modern', legalityKey: 'modern', description: 'Cards from Eighth Edition onwards' },
+  { ...CONSTRUCTED, id: 'legacy', name: 'Legacy', legalityKey: 'legacy', description: 'Every card, with a banned list' },
+  { ...CONSTRUCTED, id: 'vintage', name: 'Vintage', legalityKey: 'vintage', description: 'Every card, with a restricted list' },
+  { ...CONSTRUCTED, id: 'pauper', name: 'Pauper', legalityKey: 'pauper', description: 'Cards printed at common' },
+  {
+    id: 'commander', name: 'Commander', legalityKey: 'commander', category: 'commander',
+    description: 'A 100-card singleton deck led by a legendary creature',
+    minDeckSize: 100, maxDeckSize: 100, maxCopies: 1, maxSideboard: 0, commander: COMMANDER_RULES,
+  },
+  {
+    id: 'brawl', name: 'Brawl', legalityKey: 'brawl', category: 'commander',
+    description: 'Historic Brawl on Arena: a 100-card singleton deck led by a legendary creature or planeswalker',
+    minDeckSize: 100, maxDeckSize: 100, maxCopies: 1, maxSideboard: 0, commander: BRAWL_RULES,
+  },
+  {
+    id: 'standardbrawl', name: 'Standard Brawl', legalityKey: 'standardbrawl', category: 'commander',
+    description: 'A 60-card singleton deck of Standard cards led by a legendary creature or planeswalker',
+    minDeckSize: 60, maxDeckSize: 60, maxCopies: 1, maxSideboard: 0, commander: BRAWL_RULES,
+  },
+  {
+    id: 'oathbreaker', name: 'Oathbreaker', legalityKey: 'oathbreaker', category: 'commander',
+    description: 'A 60-card singleton deck led by a planeswalker and its signature spell',
+    minDeckSize: 60, maxDeckSize: 60, maxCopies: 1, maxSideboard: 0,
+    commander: { allowPlaneswalkers: true, requiresLegendary: false, signatureSpell: true },
+  },
+  { ...CONSTRUCTED, id: 'historic', name: 'Historic', legalityKey: 'historic', description: 'Every card on Arena' },
+  { ...CONSTRUCTED, id: 'timeless', name: 'Timeless', legalityKey: 'timeless', description: 'Every card on Arena, with a restricted list' },
+  { ...CONSTRUCTED, id: 'alchemy', name: 'Alchemy', legalityKey: 'alchemy', description: 'Standard with digital-only and rebalanced cards' },
+  { ...CONSTRUCTED, id: 'explorer', name: 'Explorer', legalityKey: 'explorer', description: 'Pioneer cards available on Arena' },
+  {
+    id: 'gladiator', name: 'Gladiator', legalityKey: 'gladiator', category: 'constructed',
+    description: 'A 100-card singleton deck of Arena cards',
+    minDeckSize: 100, maxDeckSize: 100, maxCopies: 1, maxSideboard: 0, commander: null,
+  },
+  { ...CONSTRUCTED, id: 'premodern', name: 'Premodern', legalityKey: 'premodern', description: 'Cards from Fourth Edition to Scourge' },
+  { ...CONSTRUCTED, id: 'oldschool', name: 'Old School', legalityKey: 'oldschool', description: 'Cards from 1993 and 1994' },
+  { ...CONSTRUCTED, id: 'penny', name: 'Penny Dreadful', legalityKey: 'penny', description: 'Cards that cost one cent on Magic Online' },
+  {
+    id: 'duel', name: 'Duel Commander', legalityKey: 'duel', category: 'commander',
+    description: 'One-on-one Commander with its own banned list',
+    minDeckSize: 100, maxDeckSize: 100, maxCopies: 1, maxSideboard: 0, commander: COMMANDER_RULES,
+  },
+  {
+    id: 'paupercommander', name: 'Pauper Commander', legalityKey: 'paupercommander', category: 'commander',
+    description: 'A 100-card singleton deck of commons led by an uncommon creature',
+    minDeckSize: 100, maxDeckSize: 100, maxCopies: 1, maxSideboard: 0,
+    commander: { allowPlaneswalkers: false, requiresLegendary: false, signatureSpell: false },
+  },
+  {
+    id: 'predh', name: 'PreDH', legalityKey: 'predh', category: 'commander',
+    description: 'Commander with cards released before Commander 2011',
+    minDeckSize: 100, maxDeckSize: 100, maxCopies: 1, maxSideboard: 0, commander: COMMANDER_RULES,
+  },
+  {
+    id: 'limited', name: 'Limited', legalityKey: null, category: 'limited',
+    description: 'Sealed and draft decks built from the cards opened',
+    minDeckSize: 40, maxDeckSize: null, maxCopies: null, maxSideboard: null, commander: null,
+  },
+];
+
+const normalize = (format: string) => format.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const FORMATS_BY_KEY = new Map<string, FormatDefinition>(
+  FORMATS.flatMap(format => [[format.id, format], [normalize(format.name), format]] as [string, FormatDefinition][])
+);
+
+/**
+ * A format by name ("Standard Brawl"), id or legality key ("standardbrawl")
+ */
+export function getFormat(format: string): FormatDefinition | null {
+  return FORMATS_BY_KEY.get(normalize(format)) ?? null;
+}
+
+/**
+ * Formats MTGJSON tracks legality for, i.e. every format with a banned list
+ */
+export function getLegalityFormats(): (FormatDefinition & { legalityKey: string })[] {
+  return FORMATS.filter((format): format is FormatDefinition & { legalityKey: string } => format.legalityKey !== null);
+}
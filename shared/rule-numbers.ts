@@ -0,0 +1,114 @@
+// Comprehensive rules numbering and the rules outline, shared by the server (which builds the
+// outline from the rules table) and the client's rules reader.
+
+// Chapters ("7"), sections ("702"), rules ("702.19") and subrules ("702.19b")
+export type RuleLevel = 'chapter' | 'section' | 'rule' | 'subrule';
+
+export interface RuleOutlineEntry {
+  number: string;
+  level: RuleLevel;
+  title: string; // A chapter's or section's name (empty if the import didn't have it), or the start of a rule's text
+  text: string | null; // Null for chapters and sections, and rules missing from the import
+  examples: string[]; // The rule's "Example:" paragraphs
+}
+
+export type RuleSummary = Omit<RuleOutlineEntry, 'text' | 'examples'>;
+
+export interface RulesTocSection extends RuleSummary {
+  rules: RuleSummary[];
+}
+
+export interface RulesTocChapter extends RuleSummary {
+  sections: RulesTocSection[];
+}
+
+export interface RuleNavigation {
+  entry: RuleOutlineEntry;
+  breadcrumbs: RuleSummary[]; // Its chapter down to its parent
+  parent: RuleSummary | null;
+  siblings: RuleSummary[]; // Its parent's children, itself included
+  children: RuleOutlineEntry[];
+  previous: RuleSummary | null; // In the order of the document
+  next: RuleSummary | null;
+}
+
+export interface RuleGraph {
+  entry: RuleSummary;
+  outbound: RuleSummary[]; // The rules its text and examples refer to, in the order they do
+  inbound: RuleSummary[]; // Rules elsewhere that refer to it or a rule under it, in document order
+}
+
+const RULE_NUMBER_PARTS = /^([1-9])(?:(\d{2})(?:\.(\d+)([a-z]?))?)?$/;
+
+export function isRuleNumber(value: string): boolean {
+  return RULE_NUMBER_PARTS.test(value);
+}
+
+export function ruleLevel(ruleNumber: string): RuleLevel | null {
+  const parts = ruleNumber.match(RULE_NUMBER_PARTS);
+  if (!parts) return null;
+  if (parts[4]) return 'subrule';
+  if (parts[3]) return 'rule';
+  return parts[2] ? 'section' : 'chapter';
+}
+
+/**
+ * The number one level up: "702.19b" → "702.19" → "702" → "7"
+ */
+export function parentRuleNumber(ruleNumber: string): string | null {
+  const parts = ruleNumber.match(RULE_NUMBER_PARTS);
+  if (!parts) return null;
+  if (parts[4]) return ruleNumber.slice(0, -1);
+  if (parts[3]) return `${parts[1]}${parts[2]}`;
+  return parts[2] ? parts[1] : null;
+}
+
+/**
+ * The rule itself or one under it: "702.19b" is within "702.19" and "702", but not "702.1"
+ */
+export function isWithinRule(ruleNumber: string, ancestor: string): boolean {
+  return ruleNumber === ancestor || (ruleNumber.startsWith(ancestor) && /^[.a-z]/.test(ruleNumber.charAt(ancestor.length)));
+}
+
+// "See rule 510", "rules 120.4a, 120.6, and 702.2c", "subrule 704.5k": the numbers after "rule"
+const RULE_REFERENCE_PATTERN = /\b(?:sub)?rules? ((?:[1-9]\d{2}(?:\.\d+[a-z]?)?(?:,? and |,? or |, |–|-)?)+)/gi;
+
+/**
+ * The rule numbers a text refers to, each once, in the order it mentions them
+ */
+export function ruleReferences(text: string): string[] {
+  const numbers = new Set<string>();
+  for (const reference of Array.from(text.matchAll(RULE_REFERENCE_PATTERN))) {
+    (reference[1].match(/[1-9]\d{2}(?:\.\d+[a-z]?)?/g) || []).forEach(number => numbers.add(number));
+  }
+  return Array.from(numbers);
+}
+
+// Chapter, section, rule and subrule, with -1 for the levels a number doesn't have
+function sortKey(ruleNumber: string): [number, number, number, string] | null {
+  const parts = ruleNumber.match(RULE_NUMBER_PARTS);
+  if (!parts) return null;
+  return [
+    Number(parts[1]),
+    parts[2] ? Number(parts[2]) : -1,
+    parts[3] ? Number(parts[3]) : -1,
+    parts[4] || '',
+  ];
+}
+
+/**
+ * Document order: a chapter or rule comes before everything under it, and "702.9" before "702.10"
+ */
+export function compareRuleNumbers(a: string, b: string): number {
+  const keyA = sortKey(a);
+  const keyB = sortKey(b);
+  if (!keyA || !keyB) {
+    return keyA ? -1 : keyB ? 1 : a.localeCompare(b);
+  }
+  for (let i = 0; i < 3; i++) {
+    if (keyA[i] !== keyB[i]) {
+      return (keyA[i] as number) - (keyB[i] as number);
+    }
+  }
+  return keyA[3].localeCompare(keyB[3]);
+}
@@ -0,0 +1,32 @@
+// Comprehensive rules releases and the changes between two of them, shared by the server (which
+// archives each imported document) and the client's "What changed" page.
+
+export interface RulesVersionSummary {
+  id: number;
+  effectiveDate: string | null; // YYYY-MM-DD; null if the document didn't say
+  ruleCount: number;
+  importedAt: string | null;
+}
+
+// A run of words the two versions share, or that only one of them has
+export interface WordChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface RuleChange {
+  ruleNumber: string;
+  type: 'added' | 'removed' | 'reworded';
+  before: string | null; // Null for an added rule
+  after: string | null; // Null for a removed rule
+  words?: WordChange[]; // For a reworded rule
+}
+
+export interface RulesDiff {
+  from: RulesVersionSummary;
+  to: RulesVersionSummary;
+  added: number;
+  removed: number;
+  reworded: number;
+  changes: RuleChange[]; // In rule number order
+}
@@ -0,0 +1,40 @@
+// Structured AI ruling answers, shared by the server (which validates the model's JSON
+// against the schema) and the client (which renders each section).
+import { z } from "zod";
+
+export const VERDICT_MAX_LENGTH = 200;
+
+// The answer's sections, in the order the model writes and the panel shows them
+export const RULING_SECTIONS = [
+  { key: 'summary', label: 'Summary', heading: 'SUMMARY' },
+  { key: 'cardMechanics', label: 'Card Mechanics', heading: 'CARD MECHANICS' },
+  { key: 'rulesApplication', label: 'Rules Application', heading: 'RULES APPLICATION' },
+  { key: 'interactionAnalysis', label: 'Interaction Analysis', heading: 'INTERACTION ANALYSIS' },
+  { key: 'outcome', label: 'Outcome', heading: 'OUTCOME' },
+] as const;
+
+export type RulingSectionKey = typeof RULING_SECTIONS[number]['key'];
+
+// First line only, cut at a word boundary
+function toOneLine(text: string): string {
+  const line = text.trim().split('\n')[0].trim();
+  if (line.length <= VERDICT_MAX_LENGTH) return line;
+  const cut = line.slice(0, VERDICT_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > VERDICT_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+const sectionText = z.string().trim().default('');
+
+export const structuredRulingSchema = z.object({
+  verdict: z.string().trim().min(1).transform(toOneLine), // One-line answer to the question
+  summary: z.string().trim().min(1),
+  cardMechanics: sectionText,
+  rulesApplication: sectionText,
+  interactionAnalysis: sectionText,
+  outcome: z.string().trim().min(1),
+  citedRules: z.array(z.string().trim()).default([]), // Rule numbers, e.g. "702.19b"
+  citedCards: z.array(z.string().trim()).default([]), // Card names
+});
+
+export type StructuredRuling = z.infer<typeof structuredRulingSchema>;
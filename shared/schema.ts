@@ -1,7 +1,15 @@
-import { pgTable, text, serial, integer, decimal, boolean, jsonb, timestamp, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, boolean, jsonb, timestamp, uuid, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import type { StructuredRuling } from "./ruling-answer";
+
+// Postgres full-text search vector
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 // Main card table
 export const cards = pgTable("cards", {
@@ -39,22 +47,134 @@ export const cards = pgTable("cards", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Ruling storage - for AI generated rulings
+// Gameplay identity of a card, keyed by MTGJSON's oracle id (identifiers.scryfallOracleId).
+// Holds only rules-relevant fields; set-specific data lives in `printings`.
+export const oracleCards = pgTable("oracle_cards", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  manaCost: text("mana_cost"),
+  cmc: text("cmc"),
+  colors: text("colors").array(),
+  colorIdentity: text("color_identity").array(),
+  type: text("type").notNull(),
+  supertypes: text("supertypes").array(),
+  types: text("types").array(),
+  subtypes: text("subtypes").array(),
+  text: text("text"),
+  power: text("power"),
+  toughness: text("toughness"),
+  loyalty: text("loyalty"),
+  layout: text("layout"),
+  rulings: jsonb("rulings"),
+  legalities: jsonb("legalities"),
+  // Weighted search document: name (A), type line (B), oracle text (C)
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(type, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(text, '')), 'C')
+  `),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("oracle_cards_search_vector_idx").using("gin", table.searchVector),
+  // Requires the pg_trgm extension (CREATE EXTENSION IF NOT EXISTS pg_trgm)
+  index("oracle_cards_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
+
+// Set metadata from MTGJSON (AllPrintings set entries)
+export const sets = pgTable("sets", {
+  code: text("code").primaryKey(),
+  name: text("name").notNull(),
+  releaseDate: text("release_date"), // YYYY-MM-DD
+  type: text("type"), // expansion, core, commander, promo, ...
+  block: text("block"),
+  parentCode: text("parent_code"),
+  cardCount: integer("card_count").default(0),
+  iconCode: text("icon_code"), // Keyrune icon code
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A specific printing of an oracle card, keyed by MTGJSON's card uuid
+export const printings = pgTable("printings", {
+  id: text("id").primaryKey(),
+  oracleId: text("oracle_id").notNull().references(() => oracleCards.id),
+  cardId: text("card_id"), // Legacy "name-set" id in the cards table
+  set: text("set").notNull(),
+  setName: text("set_name"),
+  number: text("number"),
+  artist: text("artist"),
+  flavor: text("flavor"),
+  rarity: text("rarity"),
+  imageUrl: text("image_url"),
+  multiverseid: text("multiverseid"),
+  releaseDate: text("release_date"), // Set release date (YYYY-MM-DD), for ordering printings
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("printings_oracle_id_idx").on(table.oracleId),
+  index("printings_card_id_idx").on(table.cardId),
+]);
+
+// AI ruling answers, reused for near-identical questions about the same cards
 export const rulings = pgTable("rulings", {
   id: serial("id").primaryKey(),
-  cardId: text("card_id").notNull().references(() => cards.id),
   question: text("question").notNull(),
+  normalizedQuestion: text("normalized_question").notNull(), // Lowercase words only, for matching
+  cardKey: text("card_key").notNull().default(""), // The cards' ids, sorted and comma-joined
+  cardIds: text("card_ids").array().notNull(),
   answer: text("answer").notNull(),
+  structured: jsonb("structured"), // StructuredRuling, when the model answered in sections
+  citations: jsonb("citations"), // RulingCitation[]
+  cardTextHash: text("card_text_hash").notNull(), // Hash of the cards' oracle text and rulings when answered
+  rulesVersion: text("rules_version").notNull(), // Comprehensive rules version when answered
+  provider: text("provider").notNull().default(""), // Model provider that answered, e.g. "openai"
+  model: text("model").notNull().default(""), // Model that answered, e.g. "gpt-4o"
+  promptContext: jsonb("prompt_context"), // RulingPromptContext the answer was given with
+  hitCount: integer("hit_count").notNull().default(0), // Times served from the cache
+  invalidatedAt: timestamp("invalidated_at"), // Set once the cards or rules change, or the answer is regenerated
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("rulings_card_key_idx").on(table.cardKey),
+]);
 
-// Conversation storage
+// AI ruling conversations, owned by a user or, before signing in, an anonymous session cookie
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
-  messages: jsonb("messages").notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+  sessionId: text("session_id"), // Anonymous ruling session cookie; cleared when a user claims the conversation
+  title: text("title").notNull().default("New conversation"),
+  messages: jsonb("messages").notNull(), // ConversationMessage[], oldest first
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("conversations_user_id_idx").on(table.userId),
+  index("conversations_session_id_idx").on(table.sessionId),
+]);
+
+// Thumbs up or down, with an optional correction, on an AI ruling answer. Thumbs-down answers and
+// corrections wait for a judge's review; approved corrections are given to the model as authoritative.
+export const rulingFeedback = pgTable("ruling_feedback", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  messageIndex: integer("message_index").notNull(), // Position of the answer in the conversation's messages
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  sessionId: text("session_id"), // Anonymous ruling session, when not signed in
+  rating: text("rating").notNull(), // up, down
+  correction: text("correction"), // The corrected explanation; the reviewer may edit it before approving
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  cardIds: text("card_ids").array().notNull(), // Oracle ids of the cards the answer was about
+  promptContext: jsonb("prompt_context"), // RulingFeedbackContext: the cards and rules the model was given
+  status: text("status").notNull().default("pending"), // pending, approved, rejected; "none" for thumbs-up without a correction
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("ruling_feedback_message_idx").on(table.conversationId, table.messageIndex),
+  index("ruling_feedback_status_idx").on(table.status),
+]);
 
 // MTG Rules storage
 export const rules = pgTable("rules", {
@@ -71,23 +191,60 @@ export const rules = pgTable("rules", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// The comprehensive rules' glossary, imported with the rules
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: serial("id").primaryKey(),
+  term: text("term").notNull(),
+  definition: text("definition").notNull(),
+  ruleNumbers: text("rule_numbers").array().notNull(), // Rules the definition refers to, e.g. "See rule 702.19"
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("glossary_terms_term_idx").on(table.term),
+]);
+
+// Each comprehensive rules document imported, kept so a release can be compared with the one before
+export const rulesVersions = pgTable("rules_versions", {
+  id: serial("id").primaryKey(),
+  effectiveDate: text("effective_date"), // YYYY-MM-DD, from "These rules are effective as of ..."
+  contentHash: text("content_hash").notNull(),
+  ruleCount: integer("rule_count").notNull(),
+  importedAt: timestamp("imported_at").defaultNow(),
+});
+
+// A rules version's rule text, as it was imported
+export const rulesVersionRules = pgTable("rules_version_rules", {
+  id: serial("id").primaryKey(),
+  versionId: integer("version_id").notNull().references(() => rulesVersions.id, { onDelete: "cascade" }),
+  ruleNumber: text("rule_number").notNull(),
+  text: text("text").notNull(),
+}, (table) => [
+  index("rules_version_rules_version_id_idx").on(table.versionId),
+]);
+
 // Define relations
-export const cardsRelations = relations(cards, ({ many }) => ({
-  rulings: many(rulings),
+export const oracleCardsRelations = relations(oracleCards, ({ many }) => ({
+  printings: many(printings),
 }));
 
-export const rulingsRelations = relations(rulings, ({ one }) => ({
-  card: one(cards, {
-    fields: [rulings.cardId],
-    references: [cards.id],
+export const printingsRelations = relations(printings, ({ one }) => ({
+  oracleCard: one(oracleCards, {
+    fields: [printings.oracleId],
+    references: [oracleCards.id],
   }),
 }));
 
 // Zod schemas
 export const insertCardSchema = createInsertSchema(cards);
 export const insertRulingSchema = createInsertSchema(rulings);
+export const insertRulingFeedbackSchema = createInsertSchema(rulingFeedback);
 export const insertConversationSchema = createInsertSchema(conversations);
 export const insertRuleSchema = createInsertSchema(rules);
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms);
+export const insertRulesVersionSchema = createInsertSchema(rulesVersions);
+export const insertRulesVersionRuleSchema = createInsertSchema(rulesVersionRules);
+export const insertOracleCardSchema = createInsertSchema(oracleCards);
+export const insertPrintingSchema = createInsertSchema(printings);
+export const insertSetSchema = createInsertSchema(sets);
 
 // Types
 export type Card = typeof cards.$inferSelect;
@@ -96,20 +253,206 @@ export type InsertCard = z.infer<typeof insertCardSchema>;
 export type Ruling = typeof rulings.$inferSelect;
 export type InsertRuling = z.infer<typeof insertRulingSchema>;
 
+export type RulingFeedback = typeof rulingFeedback.$inferSelect;
+export type InsertRulingFeedback = z.infer<typeof insertRulingFeedbackSchema>;
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string; // ISO timestamp
+  cancelled?: boolean; // The answer was stopped mid-stream and is partial
+  structured?: StructuredRuling; // An assistant answer's sections, when the model's reply matched the schema
+  citations?: RulingCitation[]; // Rules and cards an assistant answer cites, checked against the database
+  detectedCards?: DetectedCard[]; // Cards recognized by name in a user question and given to the model
+  cached?: CachedRulingInfo; // An assistant answer served from an earlier answer to the same question
+  promptContext?: RulingPromptContext; // What an assistant answer was given besides the question
+  feedback?: { rating: 'up' | 'down'; correction: string | null }; // The asker's rating of an assistant answer
+}
+
+/**
+ * The cards and rules put in a ruling prompt, by id and number
+ */
+export interface RulingPromptContext {
+  cardIds: string[]; // Primary card first
+  ruleNumbers: string[]; // Rules found for the question by findRelevantRules
+  correctionIds: number[]; // Approved corrections given as authoritative context
+}
+
+/**
+ * A ruling prompt's cards and rules as they read when feedback was given, for reviewers
+ */
+export interface RulingFeedbackContext {
+  cards: { id: string; name: string; type: string; text: string | null; rulings: { date: string; text: string }[] }[];
+  rules: { ruleNumber: string; text: string }[];
+  correctionIds: number[];
+}
+
+/**
+ * Where a previously given answer came from
+ */
+export interface CachedRulingInfo {
+  rulingId: number;
+  answeredAt: string; // ISO timestamp of the original answer
+}
+
+/**
+ * A card recognized by name in a ruling question
+ */
+export interface DetectedCard {
+  id: string; // Oracle card id
+  name: string;
+  mention: string; // As written in the question, e.g. "Blood Moon's" or "Ragavan"
+}
+
+/**
+ * A rule or card cited in an AI answer. Unverified citations name a rule or card that doesn't exist.
+ */
+export interface RulingCitation {
+  type: 'rule' | 'card';
+  reference: string; // As written in the answer, e.g. "702.19b" or "Lightning Bolt"
+  verified: boolean;
+  ruleNumber?: string; // The rule shown, e.g. "704.1" for a citation of "rule 704"
+  cardId?: string;
+  name?: string; // The card's name as printed
+  typeLine?: string;
+  text: string | null; // The rule text or the card's oracle text
+  context: string; // The sentence of the answer the citation appears in
+}
+
 export type Rule = typeof rules.$inferSelect;
 export type InsertRule = z.infer<typeof insertRuleSchema>;
 
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+export type RulesVersion = typeof rulesVersions.$inferSelect;
+export type InsertRulesVersion = z.infer<typeof insertRulesVersionSchema>;
+export type RulesVersionRule = typeof rulesVersionRules.$inferSelect;
+export type InsertRulesVersionRule = z.infer<typeof insertRulesVersionRuleSchema>;
+
+export type OracleCard = typeof oracleCards.$inferSelect;
+export type InsertOracleCard = z.infer<typeof insertOracleCardSchema>;
+
+export type Printing = typeof printings.$inferSelect;
+export type InsertPrinting = z.infer<typeof insertPrintingSchema>;
+
+// Named CardSet to avoid clashing with the built-in Set
+export type CardSet = typeof sets.$inferSelect;
+export type InsertCardSet = z.infer<typeof insertSetSchema>;
+
 // Database metadata table to track database updates
 export const dbMetadata = pgTable("db_metadata", {
   id: text("id").primaryKey(),
   last_updated: timestamp("last_updated").defaultNow(),
   total_cards: integer("total_cards").default(0),
   description: text("description"),
+  source_version: text("source_version"), // MTGJSON Meta version the card data was synced from
 });
 
+// Checkpoint for long-running imports, so an interrupted import resumes where it stopped
+export const importCheckpoints = pgTable("import_checkpoints", {
+  id: text("id").primaryKey(), // Import name, e.g. "all_printings"
+  status: text("status").notNull(), // running, completed, failed
+  sourceFingerprint: text("source_fingerprint"), // Size and mtime of the file being imported
+  sourceVersion: text("source_version"), // MTGJSON Meta version of the file
+  syncRunId: integer("sync_run_id"),
+  lastCompletedSet: text("last_completed_set"),
+  setsCompleted: integer("sets_completed").default(0),
+  cardsProcessed: integer("cards_processed").default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// One run of the MTGJSON card sync
+export const cardSyncRuns = pgTable("card_sync_runs", {
+  id: serial("id").primaryKey(),
+  sourceVersion: text("source_version"),
+  previousVersion: text("previous_version"),
+  status: text("status").notNull(), // running, completed, failed
+  added: integer("added").default(0),
+  updated: integer("updated").default(0),
+  removed: integer("removed").default(0),
+  message: text("message"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Change log of a sync run: one row per added, updated or removed oracle card or printing
+export const cardChanges = pgTable("card_changes", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => cardSyncRuns.id, { onDelete: "cascade" }),
+  entity: text("entity").notNull(), // oracle_card or printing
+  entityId: text("entity_id").notNull(),
+  oracleId: text("oracle_id"),
+  name: text("name").notNull(),
+  setCode: text("set_code"),
+  change: text("change").notNull(), // added, updated, removed
+  fields: jsonb("fields"), // Updated fields as { field: { from, to } }
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("card_changes_run_id_idx").on(table.runId),
+  index("card_changes_oracle_id_idx").on(table.oracleId),
+]);
+
+// Oracle text, type line and legality changes of a card, recorded by the MTGJSON sync.
+// Not tied to oracle_cards so the history survives a card being removed.
+export const cardHistory = pgTable("card_history", {
+  id: serial("id").primaryKey(),
+  oracleId: text("oracle_id").notNull(),
+  field: text("field").notNull(), // text, type or legality
+  format: text("format"), // For legality entries, the format whose status changed
+  previousValue: text("previous_value"),
+  newValue: text("new_value"),
+  syncRunId: integer("sync_run_id").references(() => cardSyncRuns.id, { onDelete: "set null" }),
+  sourceVersion: text("source_version"), // MTGJSON version that introduced the change
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  index("card_history_oracle_id_idx").on(table.oracleId),
+]);
+
+// Banned and restricted list. A card's status in a format is given by its latest entry
+// in effect on a date; entries without an effective date apply from the start.
+// Seeded from MTGJSON legalities and editable from the admin page.
+export const banlistEntries = pgTable("banlist_entries", {
+  id: serial("id").primaryKey(),
+  format: text("format").notNull(), // MTGJSON legality key, e.g. "modern"
+  oracleId: text("oracle_id").notNull(),
+  cardName: text("card_name").notNull(),
+  status: text("status").notNull(), // banned, restricted or legal (unbanned)
+  effectiveDate: text("effective_date"), // YYYY-MM-DD; null when the date is unknown
+  source: text("source").notNull().default("admin"), // admin or mtgjson
+  note: text("note"), // Announcement reference or reason
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("banlist_entries_format_oracle_id_idx").on(table.format, table.oracleId),
+  index("banlist_entries_oracle_id_idx").on(table.oracleId),
+]);
+
+export const insertImportCheckpointSchema = createInsertSchema(importCheckpoints);
+export type ImportCheckpoint = typeof importCheckpoints.$inferSelect;
+export type InsertImportCheckpoint = z.infer<typeof insertImportCheckpointSchema>;
+
+export const insertCardSyncRunSchema = createInsertSchema(cardSyncRuns);
+export type CardSyncRun = typeof cardSyncRuns.$inferSelect;
+export type InsertCardSyncRun = z.infer<typeof insertCardSyncRunSchema>;
+
+export const insertCardChangeSchema = createInsertSchema(cardChanges);
+export type CardChange = typeof cardChanges.$inferSelect;
+export type InsertCardChange = z.infer<typeof insertCardChangeSchema>;
+
+export const insertCardHistorySchema = createInsertSchema(cardHistory);
+export type CardHistoryEntry = typeof cardHistory.$inferSelect;
+export type InsertCardHistoryEntry = z.infer<typeof insertCardHistorySchema>;
+
+export const insertBanlistEntrySchema = createInsertSchema(banlistEntries);
+export type BanlistEntry = typeof banlistEntries.$inferSelect;
+export type InsertBanlistEntry = z.infer<typeof insertBanlistEntrySchema>;
+
 // User accounts table
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -131,7 +474,8 @@ export const savedDecks = pgTable("saved_decks", {
   description: text("description"),
   format: text("format").notNull(),
   commander: text("commander"), // Commander card name for Commander format
-  deckData: jsonb("deck_data").notNull(), // Stores card IDs and quantities
+  commanderData: jsonb("commander_data"), // DeckCardEntry[] for the commander(s), including a partner or background
+  deckData: jsonb("deck_data").notNull(), // Stores DeckCardEntry[] (card references and quantities)
   sideboardData: jsonb("sideboard_data"), // Stores sideboard card IDs and quantities
   isPublic: boolean("is_public").default(false),
   tags: text("tags").array(),
@@ -196,6 +540,15 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+// A deck entry references a specific printing, an oracle card (any printing),
+// or a legacy cards.id
+export interface DeckCardEntry {
+  cardId?: string;
+  oracleId?: string;
+  printingId?: string;
+  quantity: number;
+}
+
 export type SavedDeck = typeof savedDecks.$inferSelect & {
   deckData?: any[];
   sideboardData?: any[];